@@ -2,7 +2,7 @@ require('dotenv').config();
 console.log("✅ Starting server.js...");
 
 const mongoose = require('mongoose');
-const { app, server } = require('./src/app'); // adjust path if app.js is in src/
+const { app, server, queryScheduler, chainIndexer } = require('./src/app'); // adjust path if app.js is in src/
 const logger = require('./src/utils/logger');
 
 const PORT = process.env.PORT || 5000;
@@ -18,6 +18,8 @@ mongoose
     logger.info('✅ Connected to MongoDB');
     server.listen(PORT, () => {
       logger.info(`🚀 Server running on port ${PORT}`);
+      queryScheduler.start();
+      chainIndexer.start();
     });
   })
   .catch((err) => {
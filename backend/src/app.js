@@ -14,13 +14,19 @@ const { Server } = require('socket.io');
 const logger = require('./utils/logger');
 const errorMiddleware = require('./middlewares/errorMiddleware');
 const validateEnv = require('./utils/validateEnv');
+const WebSocketService = require('./services/WebSocketService');
+const { queryJobs, describeJob } = require('./services/query');
 
 // Routes
 const authRoutes = require('./routes/authRoutes');
 const bountyRoutes = require('./routes/bountyRoutes');
 const adminRoutes = require('./routes/adminRoutes');
 const { router: dashboardRoutes } = require('./routes/dashboardRoutes');
-const { router: queryRoutes } = require('./routes/queryRoutes');
+const { router: queryRoutes, queryScheduler } = require('./routes/queryRoutes');
+const { router: viewRoutes } = require('./routes/viewRoutes');
+const { router: notebookRoutes } = require('./routes/notebookRoutes');
+const { router: apiKeyRoutes } = require('./routes/apiKeyRoutes');
+const { router: chainRoutes, chainIndexer } = require('./routes/chainRoutes');
 
 // Validate environment variables before startup
 validateEnv();
@@ -49,6 +55,10 @@ io.on('connection', (socket) => {
   });
 });
 
+// Plain WebSocket server: live stats and query execution progress
+const wsService = new WebSocketService(server);
+wsService.attachQueryJobs(queryJobs, describeJob);
+
 /* ------------------------
    Security & Middleware
 ------------------------- */
@@ -76,7 +86,9 @@ app.use(
         ? process.env.CORS_ORIGIN
         : '*',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    // Read by the client when downloading query exports
+    exposedHeaders: ['Content-Disposition', 'X-Row-Count'],
     credentials: true,
   })
 );
@@ -88,6 +100,10 @@ const limiter = rateLimit({
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  // Query API calls are limited per API key instead (see rateLimiter.apiKey),
+  // and failed key checks per IP (rateLimiter.apiKeyAuth)
+  skip: (req) => /^\/api\/queries\/[^/]+\/results$/.test(req.path) &&
+    Boolean(req.get('X-API-Key') || req.get('Authorization')?.startsWith('Bearer sk_query_')),
 });
 app.use(limiter);
 
@@ -164,6 +180,10 @@ app.use('/api/bounties', bountyRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/dashboards', dashboardRoutes);
 app.use('/api/queries', queryRoutes);
+app.use('/api/views', viewRoutes);
+app.use('/api/notebooks', notebookRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/chain', chainRoutes);
 
 app.get('/', (req, res) => {
   res.status(200).json({
@@ -183,6 +203,6 @@ app.use((req, res) => {
 app.use(errorMiddleware);
 
 /* ------------------------
-   Export App + Server + IO
+   Export App + Server + IO + WS + Scheduler + Indexer
 ------------------------- */
-module.exports = { app, server, io };
+module.exports = { app, server, io, wsService, queryScheduler, chainIndexer };
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const ApiKey = require('../models/ApiKey');
 const logger = require('../utils/logger');
 
 const authMiddleware = {
@@ -84,6 +85,61 @@ const authMiddleware = {
     }
   },
 
+  // Authenticate a per-user API key, sent as `X-API-Key: <key>` or
+  // `Authorization: Bearer <key>`. Sets req.user like authenticate, plus
+  // req.apiKey for per-key rate limiting.
+  authenticateApiKey: async (req, res, next) => {
+    try {
+      const authHeader = req.header('Authorization');
+      const key = req.header('X-API-Key') ||
+        (authHeader && authHeader.startsWith(`Bearer ${ApiKey.KEY_PREFIX}`) ? authHeader.substring(7) : null);
+
+      if (!key) {
+        return res.status(401).json({
+          success: false,
+          message: 'API key required. Send it in the X-API-Key header'
+        });
+      }
+
+      const apiKey = await ApiKey.findOne({ keyHash: ApiKey.hashKey(key) });
+      const user = apiKey && !apiKey.revokedAt ? await User.findById(apiKey.user) : null;
+      if (!user || !user.isActive) {
+        logger.warn('Invalid or revoked API key', {
+          requestId: req.requestId,
+          ip: req.ip,
+          path: req.path
+        });
+
+        return res.status(401).json({
+          success: false,
+          message: 'Invalid or revoked API key'
+        });
+      }
+
+      req.user = {
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role
+      };
+      req.apiKey = apiKey;
+
+      ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } })
+        .catch(error => logger.error('Error recording API key use:', error));
+
+      next();
+    } catch (error) {
+      logger.error('API key authentication failed', {
+        requestId: req.requestId,
+        error: error.message
+      });
+
+      return res.status(500).json({
+        success: false,
+        message: 'Authentication failed'
+      });
+    }
+  },
+
   // Require specific roles
   requireRole: (allowedRoles) => {
     return (req, res, next) => {
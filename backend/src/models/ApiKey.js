@@ -0,0 +1,76 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+const KEY_PREFIX = 'sk_query_';
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+const MAX_REQUESTS_PER_MINUTE = 600;
+
+// Key for calling saved queries over REST (GET /api/queries/:id/results)
+// from scripts and services. Only a SHA-256 hash of the secret is stored;
+// the plain key is shown once, when it is created.
+const apiKeySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  // First characters of the key, so users can tell their keys apart
+  preview: {
+    type: String,
+    required: true
+  },
+  requestsPerMinute: {
+    type: Number,
+    default: DEFAULT_REQUESTS_PER_MINUTE,
+    min: 1,
+    max: MAX_REQUESTS_PER_MINUTE
+  },
+  lastUsedAt: Date,
+  revokedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+apiKeySchema.index({ user: 1, createdAt: -1 });
+
+apiKeySchema.statics.hashKey = function (key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+// Create a key for `user`. Returns the document and the plain key.
+apiKeySchema.statics.issue = async function (user, { name, requestsPerMinute }) {
+  const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  const apiKey = await this.create({
+    user,
+    name,
+    requestsPerMinute,
+    keyHash: this.hashKey(key),
+    preview: key.slice(0, KEY_PREFIX.length + 4)
+  });
+  return { apiKey, key };
+};
+
+apiKeySchema.set('toJSON', {
+  transform: function(doc, ret) {
+    delete ret.keyHash;
+    delete ret.__v;
+    return ret;
+  }
+});
+
+module.exports = mongoose.model('ApiKey', apiKeySchema);
+module.exports.KEY_PREFIX = KEY_PREFIX;
+module.exports.MAX_REQUESTS_PER_MINUTE = MAX_REQUESTS_PER_MINUTE;
@@ -0,0 +1,21 @@
+const mongoose = require('mongoose');
+
+// Block header stored by the chain indexer, in the shape of a `blocks` table
+// row. Rows of every indexed collection are keyed by network and block.
+const indexedBlockSchema = new mongoose.Schema({
+  network: { type: String, required: true },
+  block_number: { type: Number, required: true },
+  block_hash: { type: String, required: true },
+  parent_hash: String,
+  timestamp: Number,
+  transaction_count: Number,
+  sequencer_address: String,
+  status: String,
+  l1_gas_price: String,
+  starknet_version: String
+}, { versionKey: false });
+
+indexedBlockSchema.index({ network: 1, block_number: 1 }, { unique: true });
+indexedBlockSchema.index({ network: 1, timestamp: 1 });
+
+module.exports = mongoose.model('IndexedBlock', indexedBlockSchema);
@@ -0,0 +1,22 @@
+const mongoose = require('mongoose');
+
+// Event stored by the chain indexer, as starknet_getEvents returns it plus
+// its position in the block. `from_address` and `selector` (keys[0]) are
+// normalised felts so filters can match them exactly.
+const indexedEventSchema = new mongoose.Schema({
+  network: { type: String, required: true },
+  block_number: { type: Number, required: true },
+  event_index: { type: Number, required: true },
+  block_hash: String,
+  transaction_hash: { type: String, required: true },
+  from_address: { type: String, required: true },
+  selector: String,
+  keys: [String],
+  data: [String]
+}, { versionKey: false });
+
+indexedEventSchema.index({ network: 1, block_number: 1, event_index: 1 });
+indexedEventSchema.index({ network: 1, from_address: 1, block_number: 1, event_index: 1 });
+indexedEventSchema.index({ network: 1, selector: 1, block_number: 1, event_index: 1 });
+
+module.exports = mongoose.model('IndexedEvent', indexedEventSchema);
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// Transaction receipt stored by the chain indexer, in the shape of a
+// `receipts` table row plus its position in the block
+const indexedReceiptSchema = new mongoose.Schema({
+  network: { type: String, required: true },
+  block_number: { type: Number, required: true },
+  transaction_index: { type: Number, required: true },
+  transaction_hash: { type: String, required: true },
+  block_timestamp: Number,
+  type: { type: String },
+  actual_fee: String,
+  fee_unit: String,
+  execution_status: String,
+  finality_status: String,
+  revert_reason: String,
+  execution_resources: mongoose.Schema.Types.Mixed,
+  events_count: Number,
+  messages_sent: [mongoose.Schema.Types.Mixed]
+}, { versionKey: false });
+
+indexedReceiptSchema.index({ network: 1, block_number: 1, transaction_index: 1 });
+indexedReceiptSchema.index({ network: 1, transaction_hash: 1 });
+
+module.exports = mongoose.model('IndexedReceipt', indexedReceiptSchema);
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// Transaction stored by the chain indexer, in the shape of a `transactions`
+// table row plus its position in the block
+const indexedTransactionSchema = new mongoose.Schema({
+  network: { type: String, required: true },
+  block_number: { type: Number, required: true },
+  transaction_index: { type: Number, required: true },
+  transaction_hash: { type: String, required: true },
+  block_timestamp: Number,
+  type: { type: String },
+  version: String,
+  sender_address: String,
+  contract_address: String,
+  class_hash: String,
+  nonce: String,
+  max_fee: String,
+  calldata_length: Number
+}, { versionKey: false });
+
+indexedTransactionSchema.index({ network: 1, block_number: 1, transaction_index: 1 });
+indexedTransactionSchema.index({ network: 1, transaction_hash: 1 });
+indexedTransactionSchema.index({ network: 1, block_timestamp: 1 });
+
+module.exports = mongoose.model('IndexedTransaction', indexedTransactionSchema);
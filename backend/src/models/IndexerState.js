@@ -0,0 +1,42 @@
+const mongoose = require('mongoose');
+
+// Progress of the chain indexer on one network. Blocks firstBlock to
+// lastBlock are stored completely; nothing outside that range is.
+const indexerStateSchema = new mongoose.Schema({
+  network: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  firstBlock: {
+    type: Number,
+    default: null
+  },
+  lastBlock: {
+    type: Number,
+    default: null
+  },
+  lastBlockHash: String,
+  // Newest stored block known to be accepted on L1; stored rows up to it
+  // have been marked ACCEPTED_ON_L1
+  l1Block: {
+    type: Number,
+    default: null
+  },
+  // Lowest block the indexer backfills to
+  backfillTo: Number,
+  // Chain head at the last sync
+  headBlock: Number,
+  status: {
+    type: String,
+    enum: ['syncing', 'following', 'error'],
+    default: 'syncing'
+  },
+  lastError: String,
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+module.exports = mongoose.model('IndexerState', indexerStateSchema);
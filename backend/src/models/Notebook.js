@@ -0,0 +1,88 @@
+const mongoose = require('mongoose');
+const { NETWORK_IDS, DEFAULT_NETWORK } = require('../services/query');
+
+// Chart of an earlier SQL cell's result
+const chartSchema = new mongoose.Schema({
+  // Name of the SQL cell to plot
+  cell: String,
+  chartType: {
+    type: String,
+    enum: ['bar', 'line', 'area', 'pie'],
+    default: 'bar'
+  },
+  xAxis: String,
+  yAxis: [String]
+}, { _id: false });
+
+// One cell of a notebook. SQL cells are named so cells below them can select
+// from their result; markdown cells hold notes, chart cells plot a SQL cell.
+const cellSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['sql', 'markdown', 'chart'],
+    required: true
+  },
+  name: {
+    type: String,
+    match: /^[A-Za-z_][A-Za-z0-9_]*$/
+  },
+  source: {
+    type: String,
+    default: ''
+  },
+  chart: {
+    type: chartSchema,
+    default: null
+  }
+}, { _id: false });
+
+// An ordered list of SQL, markdown and chart cells that run top to bottom
+// against one network, so the whole analysis can be shared and re-run
+const notebookSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  cells: [cellSchema],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isPublic: {
+    type: Boolean,
+    default: false
+  },
+  tags: [String],
+  // Chain the SQL cells read; rpcUrl is the endpoint of the custom network
+  network: {
+    type: String,
+    enum: NETWORK_IDS,
+    default: DEFAULT_NETWORK
+  },
+  rpcUrl: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+notebookSchema.index({ createdBy: 1, updatedAt: -1 });
+notebookSchema.index({ isPublic: 1, updatedAt: -1 });
+
+module.exports = mongoose.model('Notebook', notebookSchema);
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// Result set of one scheduled (or manually triggered) run of a saved query
+const querySnapshotSchema = new mongoose.Schema({
+  query: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Query',
+    required: true
+  },
+  revision: Number,
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['succeeded', 'failed', 'cancelled', 'timed_out'],
+    required: true
+  },
+  columns: [String],
+  rows: [mongoose.Schema.Types.Mixed],
+  rowCount: {
+    type: Number,
+    default: 0
+  },
+  truncated: {
+    type: Boolean,
+    default: false
+  },
+  stats: {
+    rowsScanned: Number,
+    rpcCalls: Number
+  },
+  headBlock: Number,
+  error: String,
+  durationMs: Number,
+  ranAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+querySnapshotSchema.index({ query: 1, ranAt: -1 });
+
+module.exports = mongoose.model('QuerySnapshot', querySnapshotSchema);
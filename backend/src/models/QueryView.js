@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+
+// A saved query published as a named dataset. Other queries select from it
+// by name and read the rows of the source query's latest successful
+// snapshot; `refresh` decides when new snapshots are taken.
+const queryViewSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+    // namespace.view, e.g. myteam.daily_fees
+    match: /^[a-z_][a-z0-9_]*\.[a-z_][a-z0-9_]*$/
+  },
+  namespace: {
+    type: String,
+    required: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 1000
+  },
+  query: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Query',
+    required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  isPublic: {
+    type: Boolean,
+    default: false
+  },
+  // 'manual' refreshes only on request; 'schedule' runs the source query on
+  // the given cron
+  refresh: {
+    mode: {
+      type: String,
+      enum: ['manual', 'schedule'],
+      default: 'manual'
+    },
+    cron: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+queryViewSchema.index({ namespace: 1 });
+queryViewSchema.index({ query: 1 });
+
+module.exports = mongoose.model('QueryView', queryViewSchema);
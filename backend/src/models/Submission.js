@@ -35,6 +35,15 @@ const submissionSchema = new mongoose.Schema({
       message: 'Invalid URL format'
     }
   },
+  notebookUrl: {
+    type: String,
+    validate: {
+      validator: function(v) {
+        return !v || /^https?:\/\/.+/.test(v);
+      },
+      message: 'Invalid URL format'
+    }
+  },
   comment: {
     type: String,
     maxlength: [250, 'Comment cannot exceed 250 words'],
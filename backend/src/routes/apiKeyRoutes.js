@@ -0,0 +1,110 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middlewares/authMiddlewares');
+const validateMiddleware = require('../middlewares/validateMiddleware');
+const { z } = require('zod');
+const logger = require('../utils/logger');
+const mongoose = require('mongoose');
+const ApiKey = require('../models/ApiKey');
+
+const MAX_ACTIVE_KEYS = 10;
+
+// Validation schemas
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  requestsPerMinute: z.number().int().min(1).max(ApiKey.MAX_REQUESTS_PER_MINUTE).optional()
+});
+
+// ============================================
+// API KEY ENDPOINTS
+// ============================================
+
+// The current user's active keys, without their secrets
+router.get('/', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const apiKeys = await ApiKey.find({ user: req.user.userId, revokedAt: null })
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { apiKeys }
+    });
+  } catch (error) {
+    logger.error('Error fetching API keys:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch API keys'
+    });
+  }
+});
+
+// Create a key. The plain key is only returned here.
+router.post('/', authMiddleware.authenticate, validateMiddleware(createApiKeySchema), async (req, res) => {
+  try {
+    const active = await ApiKey.countDocuments({ user: req.user.userId, revokedAt: null });
+    if (active >= MAX_ACTIVE_KEYS) {
+      return res.status(400).json({
+        success: false,
+        message: `You can have at most ${MAX_ACTIVE_KEYS} API keys; revoke one first`
+      });
+    }
+
+    const { apiKey, key } = await ApiKey.issue(req.user.userId, req.body);
+
+    logger.info('API key created', {
+      requestId: req.requestId,
+      userId: req.user.userId,
+      apiKeyId: apiKey.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again',
+      data: { apiKey, key }
+    });
+  } catch (error) {
+    logger.error('Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create API key'
+    });
+  }
+});
+
+// Revoke a key; requests using it fail from now on
+router.delete('/:keyId', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const apiKey = mongoose.isValidObjectId(req.params.keyId)
+      ? await ApiKey.findOne({ _id: req.params.keyId, user: req.user.userId, revokedAt: null })
+      : null;
+
+    if (!apiKey) {
+      return res.status(404).json({
+        success: false,
+        message: 'API key not found'
+      });
+    }
+
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+
+    logger.info('API key revoked', {
+      requestId: req.requestId,
+      userId: req.user.userId,
+      apiKeyId: apiKey.id
+    });
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+  } catch (error) {
+    logger.error('Error revoking API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke API key'
+    });
+  }
+});
+
+module.exports = { router };
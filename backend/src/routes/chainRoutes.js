@@ -0,0 +1,257 @@
+const express = require('express');
+const router = express.Router();
+const logger = require('../utils/logger');
+const IndexedBlock = require('../models/IndexedBlock');
+const IndexedTransaction = require('../models/IndexedTransaction');
+const IndexedReceipt = require('../models/IndexedReceipt');
+const IndexedEvent = require('../models/IndexedEvent');
+const IndexerState = require('../models/IndexerState');
+const { ChainIndexer, DEFAULT_BACKFILL_BLOCKS } = require('../services/ChainIndexer');
+const { NETWORK_IDS } = require('../services/query/networks');
+const { readIndexedRange, indexedEvents } = require('../services/query/chainIndex');
+
+// Networks the indexer can follow; custom RPCs are per query, never indexed
+const INDEXABLE_NETWORKS = NETWORK_IDS.filter(id => id !== 'custom');
+
+// INDEXER_ENABLED=false turns the indexer off; INDEXER_NETWORKS lists the
+// networks it follows. A new index backfills INDEXER_BACKFILL_BLOCKS below
+// the head, or down to INDEXER_START_BLOCK when that is set.
+const configuredNetworks = (process.env.INDEXER_NETWORKS || 'mainnet')
+  .split(',')
+  .map(network => network.trim())
+  .filter(Boolean);
+for (const network of configuredNetworks.filter(id => !INDEXABLE_NETWORKS.includes(id))) {
+  logger.warn(`INDEXER_NETWORKS: '${network}' can't be indexed; expected ${INDEXABLE_NETWORKS.join(', ')}`);
+}
+
+const chainIndexer = new ChainIndexer(
+  { IndexedBlock, IndexedTransaction, IndexedReceipt, IndexedEvent, IndexerState },
+  {
+    enabled: process.env.INDEXER_ENABLED !== 'false',
+    networks: configuredNetworks.filter(id => INDEXABLE_NETWORKS.includes(id)),
+    startBlock: process.env.INDEXER_START_BLOCK ? Number(process.env.INDEXER_START_BLOCK) : null,
+    backfillBlocks: Number(process.env.INDEXER_BACKFILL_BLOCKS) || DEFAULT_BACKFILL_BLOCKS
+  }
+);
+
+const BUCKET_SECONDS = { hour: 60 * 60, day: 24 * 60 * 60 };
+// Activity reads at most this far back
+const MAX_ACTIVITY_SECONDS = 31 * 24 * 60 * 60;
+const MAX_RECENT_TRANSACTIONS = 100;
+const MAX_EVENTS = 1000;
+
+// Network from the query string. Sends the error response and returns null
+// for anything that isn't indexed.
+const indexedNetwork = (req, res) => {
+  const network = req.query.network || 'mainnet';
+  if (!INDEXABLE_NETWORKS.includes(network)) {
+    res.status(400).json({
+      success: false,
+      message: `Unknown network '${network}'; expected one of ${INDEXABLE_NETWORKS.join(', ')}`
+    });
+    return null;
+  }
+  return network;
+};
+
+// ============================================
+// CHAIN INDEX ENDPOINTS
+// ============================================
+
+// Indexed block range, chain head and lag of each network
+router.get('/status', async (req, res) => {
+  try {
+    const states = await IndexerState.find({ network: { $in: INDEXABLE_NETWORKS } }).lean();
+    const networks = INDEXABLE_NETWORKS.map(network => {
+      const state = states.find(candidate => candidate.network === network);
+      const indexed = Boolean(state && state.lastBlock !== null);
+      return {
+        network,
+        enabled: chainIndexer.enabled && chainIndexer.networks.includes(network),
+        firstBlock: indexed ? state.firstBlock : null,
+        lastBlock: indexed ? state.lastBlock : null,
+        headBlock: state?.headBlock ?? null,
+        lag: indexed && state.headBlock != null ? state.headBlock - state.lastBlock : null,
+        backfillTo: state?.backfillTo ?? null,
+        status: state?.status ?? null,
+        lastError: state?.lastError || null,
+        updatedAt: state?.updatedAt ?? null
+      };
+    });
+
+    res.json({
+      success: true,
+      data: { networks }
+    });
+  } catch (error) {
+    logger.error('Error fetching chain index status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch chain index status'
+    });
+  }
+});
+
+// Indexed transactions, senders and blocks per hour or day since a unix
+// timestamp, with the range the index covers
+router.get('/activity', async (req, res) => {
+  try {
+    const network = indexedNetwork(req, res);
+    if (!network) return;
+
+    const bucket = BUCKET_SECONDS[req.query.bucket || 'hour'];
+    if (!bucket) {
+      return res.status(400).json({
+        success: false,
+        message: 'bucket must be hour or day'
+      });
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const since = Math.max(Number(req.query.since) || now - BUCKET_SECONDS.day, now - MAX_ACTIVITY_SECONDS);
+
+    const range = await readIndexedRange(network);
+    if (!range) {
+      return res.json({
+        success: true,
+        data: { buckets: [], coverage: null }
+      });
+    }
+
+    const [first, last, buckets] = await Promise.all([
+      IndexedBlock.findOne({ network, block_number: range.from }).select('timestamp').lean(),
+      IndexedBlock.findOne({ network, block_number: range.to }).select('timestamp').lean(),
+      IndexedTransaction.aggregate([
+        { $match: { network, block_timestamp: { $gte: since }, block_number: { $gte: range.from, $lte: range.to } } },
+        {
+          $group: {
+            _id: { $subtract: ['$block_timestamp', { $mod: ['$block_timestamp', bucket] }] },
+            transactions: { $sum: 1 },
+            senders: { $addToSet: '$sender_address' },
+            blocks: { $addToSet: '$block_number' }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ])
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        buckets: buckets.map(({ _id: start, transactions, senders, blocks }) => ({
+          start,
+          transactions,
+          senders: senders.filter(Boolean).length,
+          blocks: blocks.length
+        })),
+        coverage: {
+          fromBlock: range.from,
+          toBlock: range.to,
+          fromTimestamp: first?.timestamp ?? null,
+          toTimestamp: last?.timestamp ?? null
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching indexed activity:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch indexed activity'
+    });
+  }
+});
+
+// Latest indexed transactions with their receipts' outcome and fee
+router.get('/transactions/recent', async (req, res) => {
+  try {
+    const network = indexedNetwork(req, res);
+    if (!network) return;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), MAX_RECENT_TRANSACTIONS);
+
+    const range = await readIndexedRange(network);
+    const transactions = range
+      ? await IndexedTransaction.find({ network, block_number: { $gte: range.from, $lte: range.to } })
+        .sort({ block_number: -1, transaction_index: -1 })
+        .limit(limit)
+        .select('-_id -network')
+        .lean()
+      : [];
+    const receipts = await IndexedReceipt.find({
+      network,
+      transaction_hash: { $in: transactions.map(tx => tx.transaction_hash) }
+    })
+      .select('transaction_hash actual_fee fee_unit execution_status execution_resources events_count')
+      .lean();
+
+    res.json({
+      success: true,
+      data: {
+        transactions: transactions.map(tx => {
+          const receipt = receipts.find(candidate => candidate.transaction_hash === tx.transaction_hash);
+          return {
+            ...tx,
+            actual_fee: receipt?.actual_fee ?? null,
+            fee_unit: receipt?.fee_unit ?? null,
+            execution_status: receipt?.execution_status ?? null,
+            execution_resources: receipt?.execution_resources ?? null,
+            events_count: receipt?.events_count ?? 0
+          };
+        }),
+        coverage: range ? { fromBlock: range.from, toBlock: range.to } : null
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching indexed transactions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch indexed transactions'
+    });
+  }
+});
+
+// Indexed events of a contract between fromBlock and toBlock, and the part
+// of that range the index covers; callers read the rest from a node
+router.get('/events', async (req, res) => {
+  try {
+    const network = indexedNetwork(req, res);
+    if (!network) return;
+
+    const { address } = req.query;
+    if (!address || !/^0x[0-9a-fA-F]{1,64}$/.test(address)) {
+      return res.status(400).json({
+        success: false,
+        message: 'address must be a contract address'
+      });
+    }
+    const fromBlock = Math.max(Number(req.query.fromBlock) || 0, 0);
+    const toBlock = req.query.toBlock !== undefined ? Number(req.query.toBlock) : Infinity;
+    const limit = Math.min(Math.max(Number(req.query.limit) || MAX_EVENTS, 1), MAX_EVENTS);
+
+    const range = await readIndexedRange(network);
+    const from = range ? Math.max(fromBlock, range.from) : null;
+    const to = range ? Math.min(toBlock, range.to) : null;
+    if (!range || from > to) {
+      return res.json({
+        success: true,
+        data: { events: [], coverage: null }
+      });
+    }
+
+    const events = await indexedEvents(network, { from, to, address, limit });
+    res.json({
+      success: true,
+      data: {
+        events,
+        coverage: { fromBlock: from, toBlock: to },
+        truncated: events.length === limit
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching indexed events:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch indexed events'
+    });
+  }
+});
+
+module.exports = { router, chainIndexer };
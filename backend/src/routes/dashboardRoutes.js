@@ -4,7 +4,9 @@ const authMiddleware = require('../middlewares/authMiddlewares');
 const validateMiddleware = require('../middlewares/validateMiddleware');
 const { z } = require('zod');
 const logger = require('../utils/logger');
+const { baseUpdatedAtField, isStaleEdit, sendEditConflict } = require('../utils/editConflict');
 const mongoose = require('mongoose');
+const queryEngine = require('../services/query');
 
 // Dashboard Schema
 const dashboardSchema = new mongoose.Schema({
@@ -42,6 +44,16 @@ const dashboardSchema = new mongoose.Schema({
       h: Number
     }
   }],
+  // Grid layout saved by the dashboard editor, stored as given
+  layout: mongoose.Schema.Types.Mixed,
+  // Chain the dashboard's queries read; rpcUrl is the endpoint of the custom
+  // network
+  network: {
+    type: String,
+    enum: queryEngine.NETWORK_IDS,
+    default: queryEngine.DEFAULT_NETWORK
+  },
+  rpcUrl: String,
   isPublic: {
     type: Boolean,
     default: false
@@ -64,6 +76,11 @@ const dashboardSchema = new mongoose.Schema({
 const Dashboard = mongoose.model('Dashboard', dashboardSchema);
 
 // Validation schemas
+const needsRpcUrl = [
+  dashboard => dashboard.network !== 'custom' || dashboard.rpcUrl,
+  { message: 'The custom network needs an RPC URL', path: ['rpcUrl'] }
+];
+
 const createDashboardSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().max(1000).optional(),
@@ -79,9 +96,12 @@ const createDashboardSchema = z.object({
       h: z.number()
     })
   })).optional(),
+  layout: z.any().optional(),
+  network: z.enum(queryEngine.NETWORK_IDS).optional(),
+  rpcUrl: z.string().url().max(500).optional(),
   isPublic: z.boolean().optional(),
   tags: z.array(z.string()).optional()
-});
+}).refine(...needsRpcUrl);
 
 const updateDashboardSchema = z.object({
   title: z.string().min(1).max(200).optional(),
@@ -98,9 +118,14 @@ const updateDashboardSchema = z.object({
       h: z.number()
     })
   })).optional(),
+  layout: z.any().optional(),
+  network: z.enum(queryEngine.NETWORK_IDS).optional(),
+  rpcUrl: z.string().url().max(500).optional(),
   isPublic: z.boolean().optional(),
-  tags: z.array(z.string()).optional()
-});
+  tags: z.array(z.string()).optional(),
+  // See utils/editConflict
+  baseUpdatedAt: baseUpdatedAtField
+}).refine(...needsRpcUrl);
 
 // Helper function to generate slug
 const generateSlug = (title) => {
@@ -119,7 +144,7 @@ const generateSlug = (title) => {
 // Create dashboard
 router.post('/', authMiddleware.authenticate, validateMiddleware(createDashboardSchema), async (req, res) => {
   try {
-    const { title, description, widgets = [], isPublic = false, tags = [] } = req.body;
+    const { title, description, widgets = [], layout, network, rpcUrl, isPublic = false, tags = [] } = req.body;
     
     // Generate unique slug
     let slug = generateSlug(title);
@@ -138,6 +163,9 @@ router.post('/', authMiddleware.authenticate, validateMiddleware(createDashboard
       slug,
       createdBy: req.user.userId,
       widgets,
+      layout,
+      network,
+      rpcUrl,
       isPublic,
       tags
     });
@@ -201,6 +229,26 @@ router.get('/my-dashboards', authMiddleware.authenticate, async (req, res) => {
   }
 });
 
+// Every dashboard the user owns, with widgets, for syncing a browser's local
+// dashboards
+router.get('/sync', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const dashboards = await Dashboard.find({ createdBy: req.user.userId })
+      .sort({ updatedAt: -1 });
+
+    res.json({
+      success: true,
+      data: { dashboards }
+    });
+  } catch (error) {
+    logger.error('Error fetching dashboards to sync:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch dashboards'
+    });
+  }
+});
+
 // Get dashboard by ID
 router.get('/:dashboardId', async (req, res) => {
   try {
@@ -291,11 +339,20 @@ router.put('/:dashboardId', authMiddleware.authenticate, validateMiddleware(upda
       });
     }
 
-    const { title, description, widgets, isPublic, tags } = req.body;
+    const { title, description, widgets, layout, network, rpcUrl, isPublic, tags, baseUpdatedAt } = req.body;
+
+    if (isStaleEdit(dashboard, baseUpdatedAt)) {
+      return sendEditConflict(res, 'dashboard', dashboard);
+    }
 
     if (title) dashboard.title = title;
     if (description !== undefined) dashboard.description = description;
     if (widgets) dashboard.widgets = widgets;
+    if (layout !== undefined) dashboard.layout = layout;
+    if (network) {
+      dashboard.network = network;
+      dashboard.rpcUrl = network === 'custom' ? rpcUrl : undefined;
+    }
     if (isPublic !== undefined) dashboard.isPublic = isPublic;
     if (tags) dashboard.tags = tags;
     dashboard.updatedAt = new Date();
@@ -384,6 +441,8 @@ router.post('/:dashboardId/duplicate', authMiddleware.authenticate, async (req,
       slug: newSlug,
       createdBy: req.user.userId,
       widgets: JSON.parse(JSON.stringify(originalDashboard.widgets)),
+      network: originalDashboard.network,
+      rpcUrl: originalDashboard.rpcUrl,
       isPublic: false,
       tags: originalDashboard.tags
     });
@@ -0,0 +1,347 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middlewares/authMiddlewares');
+const validateMiddleware = require('../middlewares/validateMiddleware');
+const { z } = require('zod');
+const logger = require('../utils/logger');
+const { baseUpdatedAtField, isStaleEdit, sendEditConflict } = require('../utils/editConflict');
+const mongoose = require('mongoose');
+const Notebook = require('../models/Notebook');
+const queryEngine = require('../services/query');
+const { checkCells, MAX_CELLS } = require('../services/query/notebook');
+
+// Validation schemas
+const chartSchema = z.object({
+  cell: z.string().max(64).optional(),
+  chartType: z.enum(['bar', 'line', 'area', 'pie']).optional(),
+  xAxis: z.string().max(200).optional(),
+  yAxis: z.array(z.string().max(200)).max(10).optional()
+});
+
+const cellSchema = z.object({
+  id: z.string().min(1).max(64),
+  type: z.enum(['sql', 'markdown', 'chart']),
+  name: z.string().max(64).optional(),
+  source: z.string().max(100000).optional().default(''),
+  chart: chartSchema.nullable().optional()
+}).refine(
+  cell => cell.type !== 'sql' || cell.name,
+  { message: 'SQL cells need a name', path: ['name'] }
+);
+
+const notebookFields = {
+  title: z.string().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  cells: z.array(cellSchema).max(MAX_CELLS * 2).optional(),
+  isPublic: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+  network: z.enum(queryEngine.NETWORK_IDS).optional(),
+  rpcUrl: z.string().url().max(500).optional()
+};
+
+const needsRpcUrl = [
+  notebook => notebook.network !== 'custom' || notebook.rpcUrl,
+  { message: 'The custom network needs an RPC URL', path: ['rpcUrl'] }
+];
+
+const createNotebookSchema = z.object(notebookFields).refine(...needsRpcUrl);
+
+const updateNotebookSchema = z.object({
+  ...notebookFields,
+  title: notebookFields.title.optional(),
+  // See utils/editConflict
+  baseUpdatedAt: baseUpdatedAtField
+}).refine(...needsRpcUrl);
+
+const forkNotebookSchema = z.object({
+  title: z.string().min(1).max(200).optional()
+});
+
+const canReadNotebook = (notebook, userId) =>
+  notebook.isPublic || notebook.createdBy._id.toString() === userId;
+
+// SQL cell names must be usable as table names by the cells below them.
+// Sends a 400 and returns false otherwise.
+const checkCellNames = (res, cells = []) => {
+  try {
+    checkCells(cells.filter(cell => cell.type === 'sql').map(cell => ({ name: cell.name, sql: cell.source })));
+    return true;
+  } catch (error) {
+    if (!(error instanceof queryEngine.QueryError)) throw error;
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+    return false;
+  }
+};
+
+const findNotebook = (notebookId) => mongoose.isValidObjectId(notebookId)
+  ? Notebook.findById(notebookId).populate('createdBy', 'email firstName lastName')
+  : null;
+
+// Load a notebook for its owner. Sends the error response and returns null
+// otherwise.
+const findOwnNotebook = async (req, res) => {
+  const notebook = await findNotebook(req.params.notebookId);
+
+  if (!notebook) {
+    res.status(404).json({
+      success: false,
+      message: 'Notebook not found'
+    });
+    return null;
+  }
+
+  if (notebook.createdBy._id.toString() !== req.user.userId) {
+    res.status(403).json({
+      success: false,
+      message: 'You do not have permission to change this notebook'
+    });
+    return null;
+  }
+
+  return notebook;
+};
+
+// ============================================
+// NOTEBOOK CRUD ENDPOINTS
+// ============================================
+
+// Create notebook
+router.post('/', authMiddleware.authenticate, validateMiddleware(createNotebookSchema), async (req, res) => {
+  try {
+    const { title, description, cells = [], isPublic = false, tags = [], network, rpcUrl } = req.body;
+    if (!checkCellNames(res, cells)) return;
+
+    const notebook = new Notebook({
+      title,
+      description,
+      cells,
+      createdBy: req.user.userId,
+      isPublic,
+      tags,
+      network,
+      rpcUrl
+    });
+
+    await notebook.save();
+    await notebook.populate('createdBy', 'email firstName lastName');
+
+    logger.info(`Notebook created: ${notebook.title}`, {
+      requestId: req.requestId,
+      notebookId: notebook._id,
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Notebook created successfully',
+      data: { notebook }
+    });
+  } catch (error) {
+    logger.error('Error creating notebook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create notebook'
+    });
+  }
+});
+
+// Notebooks owned by the current user, without their cells
+router.get('/my-notebooks', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const notebooks = await Notebook.find({ createdBy: req.user.userId })
+      .select('-cells')
+      .sort({ updatedAt: -1 })
+      .limit(200);
+
+    res.json({
+      success: true,
+      data: { notebooks }
+    });
+  } catch (error) {
+    logger.error('Error fetching user notebooks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notebooks'
+    });
+  }
+});
+
+// Recently updated public notebooks
+router.get('/public', async (req, res) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const skip = (page - 1) * limit;
+
+    const [notebooks, total] = await Promise.all([
+      Notebook.find({ isPublic: true })
+        .select('-cells')
+        .populate('createdBy', 'email firstName lastName')
+        .sort({ updatedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit)),
+      Notebook.countDocuments({ isPublic: true })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        notebooks,
+        pagination: {
+          currentPage: Number(page),
+          totalPages: Math.ceil(total / limit),
+          totalNotebooks: total,
+          limit: Number(limit)
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching public notebooks:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notebooks'
+    });
+  }
+});
+
+// Get notebook by ID; private notebooks are only visible to their owner
+router.get('/:notebookId', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const notebook = await findNotebook(req.params.notebookId);
+
+    if (!notebook || !canReadNotebook(notebook, req.user?.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notebook not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { notebook }
+    });
+  } catch (error) {
+    logger.error('Error fetching notebook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch notebook'
+    });
+  }
+});
+
+// Update notebook
+router.put('/:notebookId', authMiddleware.authenticate, validateMiddleware(updateNotebookSchema), async (req, res) => {
+  try {
+    const notebook = await findOwnNotebook(req, res);
+    if (!notebook) return;
+
+    const { title, description, cells, isPublic, tags, network, rpcUrl, baseUpdatedAt } = req.body;
+
+    if (isStaleEdit(notebook, baseUpdatedAt)) {
+      return sendEditConflict(res, 'notebook', notebook);
+    }
+    if (cells && !checkCellNames(res, cells)) return;
+
+    if (title) notebook.title = title;
+    if (description !== undefined) notebook.description = description;
+    if (cells) notebook.cells = cells;
+    if (isPublic !== undefined) notebook.isPublic = isPublic;
+    if (tags) notebook.tags = tags;
+    if (network) {
+      notebook.network = network;
+      notebook.rpcUrl = network === 'custom' ? rpcUrl : undefined;
+    }
+    notebook.updatedAt = new Date();
+    await notebook.save();
+
+    res.json({
+      success: true,
+      message: 'Notebook updated successfully',
+      data: { notebook }
+    });
+  } catch (error) {
+    logger.error('Error updating notebook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notebook'
+    });
+  }
+});
+
+// Delete notebook
+router.delete('/:notebookId', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const notebook = await findOwnNotebook(req, res);
+    if (!notebook) return;
+
+    await Notebook.deleteOne({ _id: notebook._id });
+
+    logger.info(`Notebook deleted: ${notebook.title}`, {
+      requestId: req.requestId,
+      notebookId: notebook._id,
+      deletedBy: req.user.userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Notebook deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Error deleting notebook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete notebook'
+    });
+  }
+});
+
+// Copy a notebook the user can read into a private notebook of their own
+router.post('/:notebookId/fork', authMiddleware.authenticate, validateMiddleware(forkNotebookSchema), async (req, res) => {
+  try {
+    const original = await findNotebook(req.params.notebookId);
+
+    if (!original || !canReadNotebook(original, req.user.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notebook not found'
+      });
+    }
+
+    const fork = new Notebook({
+      title: req.body.title || `${original.title} (fork)`.slice(0, 200),
+      description: original.description,
+      cells: original.cells,
+      createdBy: req.user.userId,
+      isPublic: false,
+      tags: original.tags,
+      network: original.network,
+      rpcUrl: original.rpcUrl
+    });
+
+    await fork.save();
+    await fork.populate('createdBy', 'email firstName lastName');
+
+    logger.info(`Notebook forked: ${original.title}`, {
+      requestId: req.requestId,
+      notebookId: original._id,
+      forkId: fork._id,
+      forkedBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Notebook forked successfully',
+      data: { notebook: fork }
+    });
+  } catch (error) {
+    logger.error('Error forking notebook:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fork notebook'
+    });
+  }
+});
+
+module.exports = { router };
@@ -2,10 +2,66 @@ const express = require('express');
 const router = express.Router();
 const authMiddleware = require('../middlewares/authMiddlewares');
 const validateMiddleware = require('../middlewares/validateMiddleware');
+const rateLimiter = require('../utils/rateLimiter');
 const { z } = require('zod');
 const logger = require('../utils/logger');
+const { baseUpdatedAtField, isStaleEdit, sendEditConflict } = require('../utils/editConflict');
 const mongoose = require('mongoose');
-const axios = require('axios');
+const { Readable } = require('stream');
+const { pipeline } = require('stream/promises');
+const queryEngine = require('../services/query');
+const queryExport = require('../services/export');
+const QuerySnapshot = require('../models/QuerySnapshot');
+const QueryView = require('../models/QueryView');
+const { QueryScheduler } = require('../services/QueryScheduler');
+const { CronError, nextCronRun, shortestCronInterval } = require('../utils/cron');
+
+// Schedules may not fire more often than this
+const MIN_SCHEDULE_INTERVAL_MS = 5 * 60 * 1000;
+// Exports aren't capped at the on-screen page of rows, only at this
+const EXPORT_ROW_LIMIT = 100000;
+// Rows returned by the query API when neither the SQL nor `limit` says
+const API_DEFAULT_ROW_LIMIT = 1000;
+// Query-string keys of the query API that aren't query parameters
+const API_OPTIONS = ['format', 'limit', 'fresh'];
+
+// Typed {{placeholder}} declared by a query
+const parameterSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    match: /^[A-Za-z_][A-Za-z0-9_]*$/
+  },
+  type: {
+    type: String,
+    enum: queryEngine.PARAMETER_TYPES,
+    required: true
+  },
+  label: String,
+  options: [String],
+  defaultValue: String
+}, { _id: false });
+
+// Cron-style refresh schedule of a saved query, evaluated in UTC
+const scheduleSchema = new mongoose.Schema({
+  cron: {
+    type: String,
+    required: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  // Values for the query's {{placeholders}} on scheduled runs
+  parameterValues: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  nextRunAt: Date,
+  lastRunAt: Date,
+  lastStatus: String,
+  lastError: String
+}, { _id: false });
 
 // Query Schema
 const querySchema = new mongoose.Schema({
@@ -34,6 +90,33 @@ const querySchema = new mongoose.Schema({
     default: false
   },
   tags: [String],
+  parameters: [parameterSchema],
+  // Chain the query reads; rpcUrl is the endpoint of the custom network
+  network: {
+    type: String,
+    enum: queryEngine.NETWORK_IDS,
+    default: queryEngine.DEFAULT_NETWORK
+  },
+  rpcUrl: String,
+  // Number of the latest entry in the query's revision history
+  revision: {
+    type: Number,
+    default: 1
+  },
+  // The public query this one was forked from
+  forkedFrom: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Query',
+    default: null
+  },
+  forkCount: {
+    type: Number,
+    default: 0
+  },
+  schedule: {
+    type: scheduleSchema,
+    default: null
+  },
   lastExecuted: Date,
   executionCount: {
     type: Number,
@@ -49,93 +132,366 @@ const querySchema = new mongoose.Schema({
   }
 });
 
+querySchema.index({ 'schedule.enabled': 1, 'schedule.nextRunAt': 1 });
+
 const Query = mongoose.model('Query', querySchema);
 
+const queryScheduler = new QueryScheduler({ Query, QuerySnapshot });
+
+// Every saved version of a query. Revisions are append-only: restoring an old
+// one records it again as the newest revision.
+const queryRevisionSchema = new mongoose.Schema({
+  query: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Query',
+    required: true
+  },
+  revision: {
+    type: Number,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  description: String,
+  sql: {
+    type: String,
+    required: true
+  },
+  parameters: [parameterSchema],
+  network: String,
+  rpcUrl: String,
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  restoredFrom: Number,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+queryRevisionSchema.index({ query: 1, revision: -1 }, { unique: true });
+
+const QueryRevision = mongoose.model('QueryRevision', queryRevisionSchema);
+
+// Fields that make up a revision; changing any of them records a new one
+const REVISIONED_FIELDS = ['title', 'description', 'sql', 'parameters', 'network', 'rpcUrl'];
+
+const revisionContent = (query) => JSON.stringify(
+  REVISIONED_FIELDS.map(field => query.toObject()[field] ?? null)
+);
+
+const recordRevision = (query, author, note, restoredFrom) => QueryRevision.create({
+  query: query._id,
+  revision: query.revision,
+  title: query.title,
+  description: query.description,
+  sql: query.sql,
+  parameters: query.parameters,
+  network: query.network,
+  rpcUrl: query.rpcUrl,
+  author,
+  note,
+  restoredFrom
+});
+
+// Queries saved before revision history existed have no revisions yet; keep
+// their current content as the first one before it's changed
+const ensureBaselineRevision = async (query) => {
+  const exists = await QueryRevision.exists({ query: query._id });
+  if (!exists) {
+    await recordRevision(query, query.createdBy, 'Saved before revision history was enabled');
+  }
+};
+
+const canReadQuery = (query, userId) => query.isPublic || query.createdBy.toString() === userId;
+
 // Validation schemas
+const queryParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Parameter names must be valid identifiers'),
+  type: z.enum(queryEngine.PARAMETER_TYPES),
+  label: z.string().max(100).optional(),
+  options: z.array(z.string().min(1)).optional(),
+  defaultValue: z.string().optional()
+}).refine(
+  parameter => parameter.type !== 'enum' || (parameter.options && parameter.options.length > 0),
+  { message: 'Enum parameters need at least one option', path: ['options'] }
+);
+
+// Chain a query runs against; rpcUrl is only used for the custom network
+const networkFields = {
+  network: z.enum(queryEngine.NETWORK_IDS).optional(),
+  rpcUrl: z.string().url().max(500).optional()
+};
+
 const createQuerySchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().max(1000).optional(),
   sql: z.string().min(1),
   isPublic: z.boolean().optional(),
-  tags: z.array(z.string()).optional()
+  tags: z.array(z.string()).optional(),
+  parameters: z.array(queryParameterSchema).optional(),
+  ...networkFields,
+  // Describes the change for the revision history
+  note: z.string().max(500).optional(),
+  // See utils/editConflict
+  baseUpdatedAt: baseUpdatedAtField
+}).refine(
+  query => query.network !== 'custom' || query.rpcUrl,
+  { message: 'The custom network needs an RPC URL', path: ['rpcUrl'] }
+);
+
+const restoreRevisionSchema = z.object({
+  note: z.string().max(500).optional()
+});
+
+const scheduleQuerySchema = z.object({
+  cron: z.string().min(1).max(100),
+  enabled: z.boolean().optional().default(true),
+  parameterValues: z.record(z.string(), z.union([z.string(), z.number()])).optional().default({})
+});
+
+const forkQuerySchema = z.object({
+  title: z.string().min(1).max(200).optional()
 });
 
 const executeQuerySchema = z.object({
   sql: z.string().min(1),
-  limit: z.number().optional().default(100)
+  limit: z.number().optional().default(100),
+  parameters: z.array(queryParameterSchema).optional().default([]),
+  parameterValues: z.record(z.string(), z.union([z.string(), z.number()])).optional().default({}),
+  useCache: z.boolean().optional().default(true),
+  timeoutMs: z.number().int().positive().max(queryEngine.MAX_TIMEOUT_MS).optional(),
+  ...networkFields,
+  // Notebook cells above this one, which the SQL may select from by name
+  cells: z.array(z.object({
+    name: z.string().min(1).max(64),
+    sql: z.string().min(1)
+  })).max(50).optional().default([]),
+  // Saved query being run, counted towards its popularity when the SQL and
+  // parameters are that query's (see recordClientQueryRun)
+  queryId: z.string().optional()
+});
+
+const exportQuerySchema = executeQuerySchema.extend({
+  format: z.enum(Object.keys(queryExport.FORMATS)),
+  limit: z.number().int().positive().max(EXPORT_ROW_LIMIT).optional().default(EXPORT_ROW_LIMIT),
+  // File name without extension
+  filename: z.string().max(200).optional()
+});
+
+const validateQuerySchema = z.object({
+  sql: z.string().min(1),
+  parameters: z.array(queryParameterSchema).optional().default([])
 });
 
+// Run the request's query as a job owned by the current user. `maxRows`
+// is passed on to the engine (see executeQuery).
+const startQueryJob = (req, { maxRows = null } = {}) => {
+  const { sql, limit = 100, parameters, parameterValues, useCache, timeoutMs, network, rpcUrl, cells } = req.body;
+
+  return queryEngine.queryJobs.start(
+    ({ signal, onProgress }) => queryEngine.executeQuery(sql, {
+      defaultLimit: limit,
+      maxRows,
+      parameters,
+      parameterValues,
+      network,
+      rpcUrl,
+      cells,
+      useCache,
+      signal,
+      onProgress,
+      userId: req.user.userId
+    }),
+    { userId: req.user.userId, sql, timeoutMs }
+  );
+};
+
+const logJobOutcome = (req, job) => {
+  if (job.status === 'succeeded') {
+    const { rows, stats, cache } = job.result;
+    logger.info('Query executed', {
+      requestId: req.requestId,
+      userId: job.userId,
+      executionId: job.id,
+      resultCount: rows.length,
+      rowsScanned: stats.rowsScanned,
+      rpcCalls: stats.rpcCalls,
+      cacheHit: cache.hit,
+      headBlock: cache.headBlock
+    });
+  } else if (job.error.statusCode >= 500) {
+    logger.error('Error executing query:', { executionId: job.id, error: job.error.message });
+  } else {
+    logger.info(`Query ${job.status}`, { requestId: req.requestId, executionId: job.id, message: job.error.message });
+  }
+};
+
+// Successful runs of a saved query count towards its gallery popularity
+const recordSavedQueryRun = (job, queryId) => {
+  if (job.status !== 'succeeded') return;
+
+  Query.updateOne({ _id: queryId }, { $inc: { executionCount: 1 }, $set: { lastExecuted: new Date() } })
+    .catch(error => logger.error('Error recording query run:', error));
+};
+
+// The parts of a parameter definition that change how the SQL runs
+const parameterKey = (parameters) => JSON.stringify(parameters.map(({ name, type, options, defaultValue }) => [
+  name, type, options && options.length ? [...options] : null, defaultValue ?? null
+]));
+
+// An editor run names the saved query it came from in `queryId`. It only
+// counts when the user may read that query and ran its stored SQL and
+// parameters, so a client can't pad another query's run count.
+const recordClientQueryRun = async (req, job) => {
+  const { queryId, sql, parameters } = req.body;
+  if (job.status !== 'succeeded' || !queryId || !mongoose.isValidObjectId(queryId)) return;
+
+  try {
+    const query = await Query.findById(queryId).select('sql parameters isPublic createdBy');
+    if (!query || !canReadQuery(query, req.user.userId)) return;
+    if (query.sql !== sql || parameterKey(query.parameters) !== parameterKey(parameters)) return;
+    recordSavedQueryRun(job, query._id);
+  } catch (error) {
+    logger.error('Error recording query run:', error);
+  }
+};
+
+const executionData = (job) => {
+  const { columns, columnTypes, rows, stats, cache, plan, network } = job.result;
+  return {
+    executionId: job.id,
+    results: rows,
+    columns,
+    columnTypes,
+    count: rows.length,
+    query: job.sql,
+    stats,
+    cache,
+    network,
+    // Only set for EXPLAIN
+    plan
+  };
+};
+
+const sendJobError = (res, job) => {
+  const { statusCode, message, position } = job.error;
+  if (statusCode >= 500) {
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to execute query',
+      error: message,
+      executionId: job.id
+    });
+  }
+  return res.status(statusCode).json({
+    success: false,
+    message,
+    position,
+    executionId: job.id,
+    status: job.status
+  });
+};
+
+// Jobs are only visible to the user who started them
+const findOwnJob = (req, res) => {
+  const job = queryEngine.queryJobs.get(req.params.executionId);
+  if (!job || job.userId !== req.user.userId) {
+    res.status(404).json({
+      success: false,
+      message: 'Execution not found'
+    });
+    return null;
+  }
+  return job;
+};
+
 // ============================================
-// QUERY EXECUTION ENDPOINTS
+// SCHEMA ENDPOINTS
 // ============================================
 
-// Execute query (real-time)
-router.post('/execute', authMiddleware.authenticate, validateMiddleware(executeQuerySchema), async (req, res) => {
+// Every table, view, function and keyword the query engine understands
+router.get('/schema', authMiddleware.optionalAuth, async (req, res) => {
   try {
-    const { sql, limit = 100 } = req.body;
+    res.json({
+      success: true,
+      data: await queryEngine.describeSchema({ userId: req.user?.userId })
+    });
+  } catch (error) {
+    logger.error('Error describing query schema:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load query schema'
+    });
+  }
+});
 
-    // Validate SQL query (basic security check)
-    const sqlLower = sql.toLowerCase();
-    
-    // Prevent dangerous operations
-    if (sqlLower.includes('drop') || sqlLower.includes('delete') || sqlLower.includes('update') || sqlLower.includes('insert')) {
-      return res.status(400).json({
-        success: false,
-        message: 'Only SELECT queries are allowed'
-      });
-    }
+// Check a query against the schema without running it
+router.post('/validate', authMiddleware.optionalAuth, validateMiddleware(validateQuerySchema), async (req, res) => {
+  try {
+    const { sql, parameters } = req.body;
+    const result = await queryEngine.validateQuery(sql, { parameters, userId: req.user?.userId });
 
-    // Parse query to extract table/contract info
-    const selectMatch = sql.match(/from\s+(\w+)/i);
-    if (!selectMatch) {
-      return res.status(400).json({
+    res.json({
+      success: true,
+      message: 'Query is valid',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof queryEngine.QueryError) {
+      return res.status(error.statusCode).json({
         success: false,
-        message: 'Invalid query format'
+        message: error.message,
+        position: error.position
       });
     }
 
-    const tableName = selectMatch[1];
+    logger.error('Error validating query:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to validate query'
+    });
+  }
+});
+
+// ============================================
+// QUERY EXECUTION ENDPOINTS
+// ============================================
 
-    // Execute query based on table type
-    let results = [];
+// Execute query and wait for the result
+router.post('/execute', authMiddleware.authenticate, validateMiddleware(executeQuerySchema), async (req, res) => {
+  try {
+    const job = await startQueryJob(req).promise;
+    logJobOutcome(req, job);
+    recordClientQueryRun(req, job);
 
-    if (tableName.toLowerCase() === 'bounties') {
-      // Query bounties from database
-      const Bounty = require('../models/Bounty');
-      results = await Bounty.find()
-        .populate('createdBy', 'email firstName lastName')
-        .limit(limit);
-    } else if (tableName.toLowerCase() === 'users') {
-      // Query users from database
-      const User = require('../models/User');
-      results = await User.find()
-        .select('-password -refreshToken')
-        .limit(limit);
-    } else if (tableName.toLowerCase() === 'transactions' || tableName.toLowerCase() === 'blocks') {
-      // Query blockchain data from Starknet RPC
-      results = await queryStarknetData(tableName, limit);
-    } else {
-      return res.status(400).json({
-        success: false,
-        message: `Table '${tableName}' not found`
-      });
+    if (job.status !== 'succeeded') {
+      return sendJobError(res, job);
     }
 
-    logger.info(`Query executed: ${tableName}`, {
-      requestId: req.requestId,
-      userId: req.user.userId,
-      resultCount: results.length
-    });
-
     res.json({
       success: true,
-      data: {
-        results,
-        count: results.length,
-        query: sql
-      }
+      data: executionData(job)
     });
   } catch (error) {
+    if (error instanceof queryEngine.QueryError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        position: error.position
+      });
+    }
+
     logger.error('Error executing query:', error);
     res.status(500).json({
       success: false,
@@ -145,53 +501,123 @@ router.post('/execute', authMiddleware.authenticate, validateMiddleware(executeQ
   }
 });
 
-// Helper function to query Starknet data
-async function queryStarknetData(tableName, limit) {
+// Start an execution in the background. Progress and completion are pushed
+// over the WebSocket server to clients subscribed to the execution id.
+router.post('/executions', authMiddleware.authenticate, validateMiddleware(executeQuerySchema), async (req, res) => {
   try {
-    const rpcUrl = process.env.VITE_STARKNET_RPC_URL || 'https://starknet-mainnet.public.blastapi.io';
-    
-    if (tableName.toLowerCase() === 'blocks') {
-      // Get recent blocks
-      const blockNumber = await axios.post(rpcUrl, {
-        jsonrpc: '2.0',
-        method: 'starknet_blockNumber',
-        params: [],
-        id: 1
+    const job = startQueryJob(req);
+    job.promise.then(finished => {
+      logJobOutcome(req, finished);
+      recordClientQueryRun(req, finished);
+    });
+
+    res.status(202).json({
+      success: true,
+      message: 'Query execution started',
+      data: queryEngine.describeJob(job)
+    });
+  } catch (error) {
+    if (error instanceof queryEngine.QueryError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
       });
+    }
 
-      const blocks = [];
-      const currentBlock = blockNumber.data.result;
-
-      for (let i = 0; i < Math.min(limit, 10); i++) {
-        try {
-          const block = await axios.post(rpcUrl, {
-            jsonrpc: '2.0',
-            method: 'starknet_getBlockWithTxs',
-            params: [{ block_number: currentBlock - i }],
-            id: i + 2
-          });
-
-          if (block.data.result) {
-            blocks.push({
-              block_number: block.data.result.block_number,
-              timestamp: block.data.result.timestamp,
-              transaction_count: block.data.result.transactions?.length || 0
-            });
-          }
-        } catch (err) {
-          logger.warn(`Failed to fetch block ${currentBlock - i}:`, err.message);
-        }
+    logger.error('Error starting query execution:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to start query execution'
+    });
+  }
+});
+
+// Execution status, with the result once it has succeeded
+router.get('/executions/:executionId', authMiddleware.authenticate, async (req, res) => {
+  const job = findOwnJob(req, res);
+  if (!job) return;
+
+  if (job.status === 'running' || job.status === 'succeeded') {
+    return res.json({
+      success: true,
+      data: {
+        ...queryEngine.describeJob(job),
+        ...(job.status === 'succeeded' ? executionData(job) : {})
       }
+    });
+  }
+  sendJobError(res, job);
+});
+
+// Cancel a running execution
+router.post('/executions/:executionId/cancel', authMiddleware.authenticate, async (req, res) => {
+  const job = findOwnJob(req, res);
+  if (!job) return;
+
+  queryEngine.queryJobs.cancel(job.id);
+  logger.info('Query execution cancelled', {
+    requestId: req.requestId,
+    executionId: job.id,
+    userId: req.user.userId
+  });
+
+  res.json({
+    success: true,
+    message: job.status === 'running' ? 'Cancellation requested' : `Execution already ${job.status}`,
+    data: queryEngine.describeJob(job)
+  });
+});
 
-      return blocks;
+// Run a query and send the whole result as a CSV, NDJSON, xlsx or Parquet
+// file. The result is held in memory while the file is written, so exports
+// stop at EXPORT_ROW_LIMIT rows whatever the SQL's LIMIT says.
+router.post('/export', authMiddleware.authenticate, validateMiddleware(exportQuerySchema), async (req, res) => {
+  try {
+    const job = await startQueryJob(req, { maxRows: EXPORT_ROW_LIMIT }).promise;
+    logJobOutcome(req, job);
+    recordClientQueryRun(req, job);
+
+    if (job.status !== 'succeeded') {
+      return sendJobError(res, job);
+    }
+    if (job.result.rows.length > EXPORT_ROW_LIMIT) {
+      return res.status(413).json({
+        success: false,
+        message: `The result has more than ${EXPORT_ROW_LIMIT.toLocaleString()} rows, the most an export can hold; add a LIMIT or narrow the query`
+      });
     }
 
-    return [];
+    const { format, filename } = req.body;
+    const { contentType, extension } = queryExport.FORMATS[format];
+    const baseName = (filename || 'query-results').replace(/[^A-Za-z0-9._-]+/g, '_').slice(0, 100);
+    res.set({
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${baseName}.${extension}"`,
+      'X-Row-Count': String(job.result.rows.length)
+    });
+    await pipeline(Readable.from(queryExport.exportResult(format, job.result)), res);
   } catch (error) {
-    logger.error('Error querying Starknet data:', error);
-    return [];
+    if (res.headersSent) {
+      // The pipeline has already closed the connection
+      logger.error('Error streaming query export:', error);
+      return;
+    }
+    if (error instanceof queryEngine.QueryError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        position: error.position
+      });
+    }
+
+    logger.error('Error exporting query:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export query',
+      error: error.message
+    });
   }
-}
+});
 
 // ============================================
 // SAVED QUERIES ENDPOINTS
@@ -200,7 +626,7 @@ async function queryStarknetData(tableName, limit) {
 // Create saved query
 router.post('/', authMiddleware.authenticate, validateMiddleware(createQuerySchema), async (req, res) => {
   try {
-    const { title, description, sql, isPublic = false, tags = [] } = req.body;
+    const { title, description, sql, isPublic = false, tags = [], parameters = [], network, rpcUrl, note } = req.body;
 
     const query = new Query({
       title,
@@ -208,10 +634,14 @@ router.post('/', authMiddleware.authenticate, validateMiddleware(createQuerySche
       sql,
       createdBy: req.user.userId,
       isPublic,
-      tags
+      tags,
+      parameters,
+      network,
+      rpcUrl
     });
 
     await query.save();
+    await recordRevision(query, req.user.userId, note || 'Created');
     await query.populate('createdBy', 'email firstName lastName');
 
     logger.info(`Query saved: ${query.title}`, {
@@ -270,84 +700,276 @@ router.get('/my-queries', authMiddleware.authenticate, async (req, res) => {
   }
 });
 
-// Get query by ID
-router.get('/:queryId', async (req, res) => {
+// Every query the user owns, with SQL, for syncing a browser's local library
+router.get('/sync', authMiddleware.authenticate, async (req, res) => {
   try {
-    const query = await Query.findById(req.params.queryId)
-      .populate('createdBy', 'email firstName lastName');
-
-    if (!query) {
-      return res.status(404).json({
-        success: false,
-        message: 'Query not found'
-      });
-    }
-
-    // Check if user has access
-    if (!query.isPublic && req.user?.userId !== query.createdBy._id.toString()) {
-      return res.status(403).json({
-        success: false,
-        message: 'Access denied'
-      });
-    }
+    const queries = await Query.find({ createdBy: req.user.userId })
+      .select('-schedule')
+      .sort({ updatedAt: -1 });
 
     res.json({
       success: true,
-      data: { query }
+      data: { queries }
     });
   } catch (error) {
-    logger.error('Error fetching query:', error);
+    logger.error('Error fetching queries to sync:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to fetch query'
+      message: 'Failed to fetch queries'
     });
   }
 });
 
-// Update query
-router.put('/:queryId', authMiddleware.authenticate, validateMiddleware(createQuerySchema), async (req, res) => {
-  try {
-    const query = await Query.findById(req.params.queryId);
+// ============================================
+// PUBLIC GALLERY ENDPOINTS
+// ============================================
 
-    if (!query) {
-      return res.status(404).json({
-        success: false,
-        message: 'Query not found'
-      });
-    }
+const GALLERY_SORTS = {
+  popular: { executionCount: -1, forkCount: -1, createdAt: -1 },
+  recent: { createdAt: -1 }
+};
 
-    // Check ownership
-    if (query.createdBy.toString() !== req.user.userId) {
-      return res.status(403).json({
-        success: false,
-        message: 'You do not have permission to update this query'
-      });
-    }
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
-    const { title, description, sql, isPublic, tags } = req.body;
+// Search public queries. Must be registered before '/:queryId'.
+router.get('/search', async (req, res) => {
+  try {
+    const { q, tags, sort = 'popular', page = 1, limit = 10 } = req.query;
+    const skip = (page - 1) * limit;
 
-    if (title) query.title = title;
-    if (description !== undefined) query.description = description;
-    if (sql) query.sql = sql;
-    if (isPublic !== undefined) query.isPublic = isPublic;
-    if (tags) query.tags = tags;
-    query.updatedAt = new Date();
+    const query = { isPublic: true };
 
-    await query.save();
-    await query.populate('createdBy', 'email firstName lastName');
+    if (q) {
+      const pattern = escapeRegex(String(q));
+      query.$or = [
+        { title: { $regex: pattern, $options: 'i' } },
+        { description: { $regex: pattern, $options: 'i' } }
+      ];
+    }
 
-    logger.info(`Query updated: ${query.title}`, {
-      requestId: req.requestId,
-      queryId: query._id,
-      updatedBy: req.user.userId
-    });
+    if (tags) {
+      const tagArray = Array.isArray(tags) ? tags : [tags];
+      query.tags = { $in: tagArray };
+    }
 
-    res.json({
-      success: true,
-      message: 'Query updated successfully',
-      data: { query }
-    });
-  } catch (error) {
+    const [queries, total] = await Promise.all([
+      Query.find(query)
+        .populate('createdBy', 'email firstName lastName')
+        .populate('forkedFrom', 'title')
+        .sort(GALLERY_SORTS[sort] || GALLERY_SORTS.popular)
+        .skip(skip)
+        .limit(Number(limit)),
+      Query.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        queries,
+        pagination: {
+          currentPage: Number(page),
+          totalPages: Math.ceil(total / limit),
+          totalQueries: total,
+          limit: Number(limit)
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Error searching queries:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search queries'
+    });
+  }
+});
+
+// Most used tags across public queries, for the gallery's tag filter
+router.get('/tags', async (req, res) => {
+  try {
+    const tags = await Query.aggregate([
+      { $match: { isPublic: true } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: 50 }
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        tags: tags.map(tag => ({ tag: tag._id, count: tag.count }))
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching query tags:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch query tags'
+    });
+  }
+});
+
+// Copy a public query into the current user's workspace
+router.post('/:queryId/fork', authMiddleware.authenticate, validateMiddleware(forkQuerySchema), async (req, res) => {
+  try {
+    const original = await Query.findById(req.params.queryId);
+
+    if (!original) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    if (!canReadQuery(original, req.user.userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const fork = new Query({
+      title: req.body.title || `${original.title} (fork)`.slice(0, 200),
+      description: original.description,
+      sql: original.sql,
+      createdBy: req.user.userId,
+      isPublic: false,
+      tags: original.tags,
+      parameters: original.parameters,
+      network: original.network,
+      rpcUrl: original.rpcUrl,
+      forkedFrom: original._id
+    });
+
+    await fork.save();
+    await recordRevision(fork, req.user.userId, `Forked from "${original.title}" revision ${original.revision}`);
+    await Query.updateOne({ _id: original._id }, { $inc: { forkCount: 1 } });
+    await fork.populate('createdBy', 'email firstName lastName');
+    await fork.populate('forkedFrom', 'title');
+
+    logger.info(`Query forked: ${original.title}`, {
+      requestId: req.requestId,
+      queryId: original._id,
+      forkId: fork._id,
+      forkedBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Query forked successfully',
+      data: { query: fork }
+    });
+  } catch (error) {
+    logger.error('Error forking query:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fork query'
+    });
+  }
+});
+
+// ============================================
+// SAVED QUERY DETAILS
+// ============================================
+
+// Get query by ID
+router.get('/:queryId', async (req, res) => {
+  try {
+    const query = await Query.findById(req.params.queryId)
+      .populate('createdBy', 'email firstName lastName')
+      .populate('forkedFrom', 'title createdBy');
+
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    // Check if user has access
+    if (!query.isPublic && req.user?.userId !== query.createdBy._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { query }
+    });
+  } catch (error) {
+    logger.error('Error fetching query:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch query'
+    });
+  }
+});
+
+// Update query
+router.put('/:queryId', authMiddleware.authenticate, validateMiddleware(createQuerySchema), async (req, res) => {
+  try {
+    const query = await Query.findById(req.params.queryId);
+
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    // Check ownership
+    if (query.createdBy.toString() !== req.user.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to update this query'
+      });
+    }
+
+    const { title, description, sql, isPublic, tags, parameters, network, rpcUrl, note, baseUpdatedAt } = req.body;
+
+    if (isStaleEdit(query, baseUpdatedAt)) {
+      await query.populate('createdBy', 'email firstName lastName');
+      return sendEditConflict(res, 'query', query);
+    }
+
+    await ensureBaselineRevision(query);
+
+    const previousContent = revisionContent(query);
+
+    if (title) query.title = title;
+    if (description !== undefined) query.description = description;
+    if (sql) query.sql = sql;
+    if (isPublic !== undefined) query.isPublic = isPublic;
+    if (tags) query.tags = tags;
+    if (parameters) query.parameters = parameters;
+    if (network) {
+      query.network = network;
+      query.rpcUrl = network === 'custom' ? rpcUrl : undefined;
+    }
+    query.updatedAt = new Date();
+
+    const revised = revisionContent(query) !== previousContent;
+    if (revised) query.revision += 1;
+
+    await query.save();
+    if (revised) await recordRevision(query, req.user.userId, note);
+    await query.populate('createdBy', 'email firstName lastName');
+
+    logger.info(`Query updated: ${query.title}`, {
+      requestId: req.requestId,
+      queryId: query._id,
+      updatedBy: req.user.userId,
+      revision: query.revision
+    });
+
+    res.json({
+      success: true,
+      message: 'Query updated successfully',
+      data: { query }
+    });
+  } catch (error) {
     logger.error('Error updating query:', error);
     res.status(500).json({
       success: false,
@@ -356,6 +978,126 @@ router.put('/:queryId', authMiddleware.authenticate, validateMiddleware(createQu
   }
 });
 
+// List a query's revisions, newest first
+router.get('/:queryId/revisions', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const query = await Query.findById(req.params.queryId);
+
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    if (!canReadQuery(query, req.user?.userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    const revisions = await QueryRevision.find({ query: query._id })
+      .populate('author', 'email firstName lastName')
+      .sort({ revision: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        currentRevision: query.revision,
+        revisions
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching query revisions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch query revisions'
+    });
+  }
+});
+
+// Restore an old revision. The restored content is recorded as a new
+// revision so the history in between is kept.
+router.post('/:queryId/revisions/:revision/restore', authMiddleware.authenticate, validateMiddleware(restoreRevisionSchema), async (req, res) => {
+  try {
+    const query = await Query.findById(req.params.queryId);
+
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    // Check ownership
+    if (query.createdBy.toString() !== req.user.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to update this query'
+      });
+    }
+
+    const revision = await QueryRevision.findOne({
+      query: query._id,
+      revision: Number(req.params.revision)
+    });
+
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    if (revision.revision === query.revision) {
+      return res.status(400).json({
+        success: false,
+        message: 'This revision is already the current version'
+      });
+    }
+
+    query.title = revision.title;
+    query.description = revision.description;
+    query.sql = revision.sql;
+    query.parameters = revision.parameters;
+    // Revisions from before queries had a network ran on mainnet
+    query.network = revision.network || queryEngine.DEFAULT_NETWORK;
+    query.rpcUrl = revision.rpcUrl;
+    query.revision += 1;
+    query.updatedAt = new Date();
+
+    await query.save();
+    await recordRevision(
+      query,
+      req.user.userId,
+      req.body.note || `Restored revision ${revision.revision}`,
+      revision.revision
+    );
+    await query.populate('createdBy', 'email firstName lastName');
+
+    logger.info(`Query revision restored: ${query.title}`, {
+      requestId: req.requestId,
+      queryId: query._id,
+      restoredRevision: revision.revision,
+      revision: query.revision,
+      updatedBy: req.user.userId
+    });
+
+    res.json({
+      success: true,
+      message: `Revision ${revision.revision} restored`,
+      data: { query }
+    });
+  } catch (error) {
+    logger.error('Error restoring query revision:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore query revision'
+    });
+  }
+});
+
 // Delete query
 router.delete('/:queryId', authMiddleware.authenticate, async (req, res) => {
   try {
@@ -377,6 +1119,9 @@ router.delete('/:queryId', authMiddleware.authenticate, async (req, res) => {
     }
 
     await Query.findByIdAndDelete(req.params.queryId);
+    await QueryRevision.deleteMany({ query: query._id });
+    await QuerySnapshot.deleteMany({ query: query._id });
+    await QueryView.deleteMany({ query: query._id });
 
     logger.info(`Query deleted: ${query.title}`, {
       requestId: req.requestId,
@@ -397,55 +1142,317 @@ router.delete('/:queryId', authMiddleware.authenticate, async (req, res) => {
   }
 });
 
-// Search public queries
-router.get('/search', async (req, res) => {
+// ============================================
+// QUERY API
+// ============================================
+
+// Run a saved query for scripts and services, authenticated with an API key
+// and rate limited per key. Parameter values come from the query string
+// (?contract=0x...&from=2024-01-01). Options: format=json|csv, limit (rows
+// when the SQL has no LIMIT) and fresh=true to skip the result cache.
+router.get('/:queryId/results', rateLimiter.apiKeyAuth, authMiddleware.authenticateApiKey, rateLimiter.apiKey, async (req, res) => {
   try {
-    const { q, tags, page = 1, limit = 10 } = req.query;
-    const skip = (page - 1) * limit;
+    const query = mongoose.isValidObjectId(req.params.queryId) ? await Query.findById(req.params.queryId) : null;
+    if (!query || !canReadQuery(query, req.user.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
 
-    const query = { isPublic: true };
+    const { format = 'json', limit = String(API_DEFAULT_ROW_LIMIT), fresh } = req.query;
+    const rowLimit = Number(limit);
+    if (!['json', 'csv'].includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: 'format must be json or csv'
+      });
+    }
+    if (!Number.isInteger(rowLimit) || rowLimit < 1 || rowLimit > EXPORT_ROW_LIMIT) {
+      return res.status(400).json({
+        success: false,
+        message: `limit must be an integer between 1 and ${EXPORT_ROW_LIMIT}`
+      });
+    }
 
-    if (q) {
-      query.$or = [
-        { title: { $regex: q, $options: 'i' } },
-        { description: { $regex: q, $options: 'i' } }
-      ];
+    const declared = query.parameters.map(parameter => parameter.name);
+    const parameterValues = {};
+    for (const [name, value] of Object.entries(req.query)) {
+      if (API_OPTIONS.includes(name)) continue;
+      if (!declared.includes(name) || typeof value !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: declared.includes(name)
+            ? `Pass {{${name}}} once`
+            : `Unknown parameter '${name}'; this query takes ${declared.length ? declared.join(', ') : 'no parameters'}`
+        });
+      }
+      parameterValues[name] = value;
     }
 
-    if (tags) {
-      const tagArray = Array.isArray(tags) ? tags : [tags];
-      query.tags = { $in: tagArray };
+    const job = await queryEngine.queryJobs.start(
+      ({ signal, onProgress }) => queryEngine.executeQuery(query.sql, {
+        defaultLimit: rowLimit,
+        parameters: query.parameters,
+        parameterValues,
+        network: query.network,
+        rpcUrl: query.rpcUrl,
+        useCache: fresh !== 'true',
+        signal,
+        onProgress,
+        userId: req.user.userId
+      }),
+      { userId: req.user.userId, sql: query.sql }
+    ).promise;
+    logJobOutcome(req, job);
+    recordSavedQueryRun(job, query._id);
+
+    if (job.status !== 'succeeded') {
+      return sendJobError(res, job);
     }
 
-    const [queries, total] = await Promise.all([
-      Query.find(query)
-        .select('-sql')
-        .populate('createdBy', 'email firstName lastName')
-        .sort({ executionCount: -1, createdAt: -1 })
-        .skip(skip)
-        .limit(Number(limit)),
-      Query.countDocuments(query)
-    ]);
+    const { columns, columnTypes, rows, stats, cache } = job.result;
+    res.set('X-Cache', cache.hit ? 'HIT' : 'MISS');
+
+    if (format === 'csv') {
+      res.set({
+        'Content-Type': queryExport.FORMATS.csv.contentType,
+        'Content-Disposition': `inline; filename="query-${query.id}.csv"`
+      });
+      return await pipeline(Readable.from(queryExport.exportResult('csv', job.result)), res);
+    }
 
     res.json({
       success: true,
       data: {
-        queries,
-        pagination: {
-          currentPage: Number(page),
-          totalPages: Math.ceil(total / limit),
-          totalQueries: total,
-          limit: Number(limit)
-        }
+        queryId: query.id,
+        title: query.title,
+        revision: query.revision,
+        columns,
+        columnTypes,
+        results: rows,
+        count: rows.length,
+        stats,
+        cache
       }
     });
   } catch (error) {
-    logger.error('Error searching queries:', error);
+    if (res.headersSent) {
+      logger.error('Error streaming query API result:', error);
+      return;
+    }
+    if (error instanceof queryEngine.QueryError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        position: error.position
+      });
+    }
+
+    logger.error('Error running query via API:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to search queries'
+      message: 'Failed to run query',
+      error: error.message
+    });
+  }
+});
+
+// ============================================
+// SCHEDULE AND SNAPSHOT ENDPOINTS
+// ============================================
+
+// Load a saved query the current user may read (or, with `requireOwner`,
+// modify). Sends the error response and returns null otherwise.
+const findQueryForUser = async (req, res, { requireOwner = false } = {}) => {
+  const query = mongoose.isValidObjectId(req.params.queryId)
+    ? await Query.findById(req.params.queryId)
+    : null;
+
+  if (!query) {
+    res.status(404).json({
+      success: false,
+      message: 'Query not found'
+    });
+    return null;
+  }
+
+  const isOwner = query.createdBy.toString() === req.user?.userId;
+  if (requireOwner ? !isOwner : !canReadQuery(query, req.user?.userId)) {
+    res.status(403).json({
+      success: false,
+      message: requireOwner ? 'You do not have permission to update this query' : 'Access denied'
+    });
+    return null;
+  }
+
+  return query;
+};
+
+// Set `query.schedule`, keeping the last run's details. Throws CronError for
+// invalid expressions and ones that would run too often.
+const applySchedule = (query, { cron, enabled = true, parameterValues = {} }) => {
+  if (shortestCronInterval(cron) < MIN_SCHEDULE_INTERVAL_MS) {
+    throw new CronError(`Schedules may run at most every ${MIN_SCHEDULE_INTERVAL_MS / 60000} minutes`);
+  }
+
+  query.schedule = {
+    ...(query.schedule ? query.schedule.toObject() : {}),
+    cron: cron.trim(),
+    enabled,
+    parameterValues,
+    nextRunAt: enabled ? nextCronRun(cron) : null
+  };
+};
+
+// Set or replace a query's refresh schedule
+router.put('/:queryId/schedule', authMiddleware.authenticate, validateMiddleware(scheduleQuerySchema), async (req, res) => {
+  try {
+    const { cron, enabled, parameterValues } = req.body;
+
+    const query = await findQueryForUser(req, res, { requireOwner: true });
+    if (!query) return;
+
+    try {
+      applySchedule(query, { cron, enabled, parameterValues });
+    } catch (error) {
+      if (error instanceof CronError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+      throw error;
+    }
+
+    query.updatedAt = new Date();
+    await query.save();
+
+    logger.info(`Query schedule set: ${query.title}`, {
+      requestId: req.requestId,
+      queryId: query._id,
+      cron: query.schedule.cron,
+      enabled
+    });
+
+    res.json({
+      success: true,
+      message: enabled ? 'Schedule saved' : 'Schedule paused',
+      data: { schedule: query.schedule }
+    });
+  } catch (error) {
+    logger.error('Error saving query schedule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to save query schedule'
+    });
+  }
+});
+
+// Remove a query's schedule; existing snapshots are kept
+router.delete('/:queryId/schedule', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const query = await findQueryForUser(req, res, { requireOwner: true });
+    if (!query) return;
+
+    query.schedule = null;
+    query.updatedAt = new Date();
+    await query.save();
+
+    res.json({
+      success: true,
+      message: 'Schedule removed'
+    });
+  } catch (error) {
+    logger.error('Error removing query schedule:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove query schedule'
+    });
+  }
+});
+
+// Snapshot history, newest first. `before` pages back through older runs and
+// `rows=false` leaves out the result rows.
+router.get('/:queryId/snapshots', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const query = await findQueryForUser(req, res);
+    if (!query) return;
+
+    const { before, rows = 'true' } = req.query;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const filter = { query: query._id };
+    if (before && !Number.isNaN(Date.parse(before))) {
+      filter.ranAt = { $lt: new Date(before) };
+    }
+
+    const snapshots = await QuerySnapshot.find(filter)
+      .select(rows === 'false' ? '-rows' : '')
+      .sort({ ranAt: -1 })
+      .limit(limit);
+
+    res.json({
+      success: true,
+      data: {
+        schedule: query.schedule,
+        snapshots
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching query snapshots:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch query snapshots'
+    });
+  }
+});
+
+router.get('/:queryId/snapshots/:snapshotId', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const query = await findQueryForUser(req, res);
+    if (!query) return;
+
+    const snapshot = mongoose.isValidObjectId(req.params.snapshotId)
+      ? await QuerySnapshot.findOne({ _id: req.params.snapshotId, query: query._id })
+      : null;
+
+    if (!snapshot) {
+      return res.status(404).json({
+        success: false,
+        message: 'Snapshot not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { snapshot }
+    });
+  } catch (error) {
+    logger.error('Error fetching query snapshot:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch query snapshot'
+    });
+  }
+});
+
+// Run the query now and store the result as a snapshot
+router.post('/:queryId/snapshots', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const query = await findQueryForUser(req, res, { requireOwner: true });
+    if (!query) return;
+
+    const snapshot = await queryScheduler.run(query, 'manual');
+
+    res.status(201).json({
+      success: snapshot.status === 'succeeded',
+      message: snapshot.status === 'succeeded' ? 'Snapshot saved' : `Query ${snapshot.status}: ${snapshot.error}`,
+      data: { snapshot }
+    });
+  } catch (error) {
+    logger.error('Error creating query snapshot:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create query snapshot'
     });
   }
 });
 
-module.exports = { router, Query };
+module.exports = { router, Query, QuerySnapshot, queryScheduler, applySchedule };
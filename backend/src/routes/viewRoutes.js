@@ -0,0 +1,345 @@
+const express = require('express');
+const router = express.Router();
+const authMiddleware = require('../middlewares/authMiddlewares');
+const validateMiddleware = require('../middlewares/validateMiddleware');
+const { z } = require('zod');
+const logger = require('../utils/logger');
+const mongoose = require('mongoose');
+const QueryView = require('../models/QueryView');
+const QuerySnapshot = require('../models/QuerySnapshot');
+const { Query, queryScheduler, applySchedule } = require('./queryRoutes');
+const { RESERVED_NAMESPACES, canReadView, visibleViewsFilter, snapshotColumns } = require('../services/query/views');
+const { getTable } = require('../services/query/tables');
+const { CronError } = require('../utils/cron');
+
+// Validation schemas
+const refreshPolicySchema = z.object({
+  mode: z.enum(['manual', 'schedule']),
+  cron: z.string().min(1).max(100).optional()
+}).refine(
+  refresh => refresh.mode !== 'schedule' || refresh.cron,
+  { message: 'Scheduled refresh needs a cron expression', path: ['cron'] }
+);
+
+const publishViewSchema = z.object({
+  queryId: z.string().min(1),
+  name: z.string()
+    .transform(name => name.trim().toLowerCase())
+    .pipe(z.string().regex(/^[a-z_][a-z0-9_]*\.[a-z_][a-z0-9_]*$/, 'View names look like namespace.view_name')),
+  description: z.string().max(1000).optional(),
+  isPublic: z.boolean().optional(),
+  refresh: refreshPolicySchema.optional()
+});
+
+const updateViewSchema = z.object({
+  description: z.string().max(1000).optional(),
+  isPublic: z.boolean().optional(),
+  refresh: refreshPolicySchema.optional()
+});
+
+// 'schedule' runs the source query on the view's cron; 'manual' turns the
+// source query's schedule off so the view only changes when refreshed
+const applyRefreshPolicy = (query, refresh) => {
+  if (refresh.mode === 'schedule') {
+    applySchedule(query, {
+      cron: refresh.cron,
+      enabled: true,
+      parameterValues: query.schedule?.parameterValues || {}
+    });
+  } else if (query.schedule) {
+    query.schedule.enabled = false;
+    query.schedule.nextRunAt = null;
+  }
+};
+
+// Catalog entry: the view plus the shape and age of its materialized data
+const describeView = async (view) => {
+  const snapshot = await QuerySnapshot.findOne({ query: view.query, status: 'succeeded' })
+    .sort({ ranAt: -1 })
+    .select({ rows: { $slice: 20 } });
+
+  return {
+    ...view.toObject(),
+    materialized: Boolean(snapshot),
+    columns: snapshot ? snapshotColumns(snapshot, view.name) : [],
+    rowCount: snapshot?.rowCount ?? 0,
+    truncated: snapshot?.truncated ?? false,
+    refreshedAt: snapshot?.ranAt ?? null
+  };
+};
+
+// Load a view by name for its owner. Sends the error response and returns
+// null otherwise.
+const findOwnView = async (req, res) => {
+  const view = await QueryView.findOne({ name: req.params.name.toLowerCase() });
+
+  if (!view) {
+    res.status(404).json({
+      success: false,
+      message: 'View not found'
+    });
+    return null;
+  }
+
+  if (view.createdBy.toString() !== req.user.userId) {
+    res.status(403).json({
+      success: false,
+      message: 'You do not have permission to change this view'
+    });
+    return null;
+  }
+
+  return view;
+};
+
+const sendCronError = (res, error) => res.status(400).json({
+  success: false,
+  message: error.message
+});
+
+// ============================================
+// MATERIALIZED VIEW ENDPOINTS
+// ============================================
+
+// Views the current user can select from
+router.get('/', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const filter = visibleViewsFilter(req.user?.userId);
+    if (req.query.namespace) {
+      filter.namespace = String(req.query.namespace).toLowerCase();
+    }
+
+    const views = await QueryView.find(filter)
+      .populate('createdBy', 'email firstName lastName')
+      .sort({ name: 1 })
+      .limit(200);
+
+    res.json({
+      success: true,
+      data: {
+        views: await Promise.all(views.map(describeView))
+      }
+    });
+  } catch (error) {
+    logger.error('Error fetching views:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch views'
+    });
+  }
+});
+
+router.get('/:name', authMiddleware.optionalAuth, async (req, res) => {
+  try {
+    const view = await QueryView.findOne({ name: req.params.name.toLowerCase() });
+
+    if (!view || !canReadView(view, req.user?.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'View not found'
+      });
+    }
+
+    await view.populate('createdBy', 'email firstName lastName');
+
+    res.json({
+      success: true,
+      data: { view: await describeView(view) }
+    });
+  } catch (error) {
+    logger.error('Error fetching view:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch view'
+    });
+  }
+});
+
+// Publish a saved query as a view and materialize it if it has never run
+router.post('/', authMiddleware.authenticate, validateMiddleware(publishViewSchema), async (req, res) => {
+  try {
+    const { queryId, name, description, isPublic = false, refresh = { mode: 'manual' } } = req.body;
+    const [namespace] = name.split('.');
+
+    if (RESERVED_NAMESPACES.includes(namespace) || getTable(name)) {
+      return res.status(400).json({
+        success: false,
+        message: `'${namespace}' is reserved for built-in datasets; pick another namespace`
+      });
+    }
+
+    const query = mongoose.isValidObjectId(queryId) ? await Query.findById(queryId) : null;
+    if (!query) {
+      return res.status(404).json({
+        success: false,
+        message: 'Query not found'
+      });
+    }
+
+    if (query.createdBy.toString() !== req.user.userId) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only publish your own queries'
+      });
+    }
+
+    const missingDefaults = query.parameters.filter(parameter => !parameter.defaultValue);
+    if (missingDefaults.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Give ${missingDefaults.map(parameter => `{{${parameter.name}}}`).join(', ')} a default value before publishing the query as a view`
+      });
+    }
+
+    const [existing, namespaceOwner] = await Promise.all([
+      QueryView.exists({ name }),
+      QueryView.findOne({ namespace }).select('createdBy')
+    ]);
+    if (existing) {
+      return res.status(409).json({
+        success: false,
+        message: `A view named '${name}' already exists`
+      });
+    }
+    if (namespaceOwner && namespaceOwner.createdBy.toString() !== req.user.userId) {
+      return res.status(409).json({
+        success: false,
+        message: `The '${namespace}' namespace belongs to another user`
+      });
+    }
+
+    try {
+      applyRefreshPolicy(query, refresh);
+    } catch (error) {
+      if (error instanceof CronError) return sendCronError(res, error);
+      throw error;
+    }
+    await query.save();
+
+    const view = await QueryView.create({
+      name,
+      namespace,
+      description: description ?? query.description,
+      query: query._id,
+      createdBy: req.user.userId,
+      isPublic,
+      refresh
+    });
+
+    const materialized = await QuerySnapshot.exists({ query: query._id, status: 'succeeded' });
+    if (!materialized) {
+      await queryScheduler.run(query, 'manual');
+    }
+
+    logger.info(`View published: ${view.name}`, {
+      requestId: req.requestId,
+      viewId: view._id,
+      queryId: query._id,
+      createdBy: req.user.userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'View published successfully',
+      data: { view: await describeView(view) }
+    });
+  } catch (error) {
+    logger.error('Error publishing view:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to publish view'
+    });
+  }
+});
+
+// Update a view's description, visibility or refresh policy
+router.put('/:name', authMiddleware.authenticate, validateMiddleware(updateViewSchema), async (req, res) => {
+  try {
+    const view = await findOwnView(req, res);
+    if (!view) return;
+
+    const { description, isPublic, refresh } = req.body;
+
+    if (refresh) {
+      const query = await Query.findById(view.query);
+      try {
+        applyRefreshPolicy(query, refresh);
+      } catch (error) {
+        if (error instanceof CronError) return sendCronError(res, error);
+        throw error;
+      }
+      await query.save();
+      view.refresh = refresh;
+    }
+    if (description !== undefined) view.description = description;
+    if (isPublic !== undefined) view.isPublic = isPublic;
+    view.updatedAt = new Date();
+    await view.save();
+
+    res.json({
+      success: true,
+      message: 'View updated successfully',
+      data: { view: await describeView(view) }
+    });
+  } catch (error) {
+    logger.error('Error updating view:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update view'
+    });
+  }
+});
+
+// Re-run the view's source query now
+router.post('/:name/refresh', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const view = await findOwnView(req, res);
+    if (!view) return;
+
+    const query = await Query.findById(view.query);
+    const snapshot = await queryScheduler.run(query, 'manual');
+
+    res.json({
+      success: snapshot.status === 'succeeded',
+      message: snapshot.status === 'succeeded'
+        ? 'View refreshed'
+        : `Refresh ${snapshot.status}: ${snapshot.error}`,
+      data: { view: await describeView(view) }
+    });
+  } catch (error) {
+    logger.error('Error refreshing view:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh view'
+    });
+  }
+});
+
+// Unpublish a view; the source query and its snapshots are kept
+router.delete('/:name', authMiddleware.authenticate, async (req, res) => {
+  try {
+    const view = await findOwnView(req, res);
+    if (!view) return;
+
+    await QueryView.deleteOne({ _id: view._id });
+
+    logger.info(`View deleted: ${view.name}`, {
+      requestId: req.requestId,
+      viewId: view._id,
+      deletedBy: req.user.userId
+    });
+
+    res.json({
+      success: true,
+      message: 'View deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Error deleting view:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete view'
+    });
+  }
+});
+
+module.exports = { router };
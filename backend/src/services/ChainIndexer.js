@@ -0,0 +1,246 @@
+const logger = require('../utils/logger');
+const { normalizeFelt } = require('../utils/starknet');
+const { StarknetRpcClient } = require('./query/rpcClient');
+const { NETWORKS } = require('./query/networks');
+const { blockRow, transactionRows, blockReceiptRows } = require('./query/tables');
+
+const TICK_INTERVAL_MS = 10 * 1000;
+// Blocks ingested per network per tick: the head is followed first, what is
+// left of the budget backfills older blocks
+const MAX_BLOCKS_PER_TICK = 50;
+const FETCH_BATCH_SIZE = 10;
+// Blocks below the head the first sync backfills when no start block is set
+const DEFAULT_BACKFILL_BLOCKS = 1000;
+// How often each network checks which stored blocks have reached L1
+const L1_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const L1_STATUS = 'ACCEPTED_ON_L1';
+
+const range = (from, to) => Array.from({ length: Math.max(to - from + 1, 0) }, (_, i) => from + i);
+const sameFelt = (a, b) => a != null && b != null && BigInt(a) === BigInt(b);
+
+// Follows the chain head on each configured network and stores blocks,
+// transactions, receipts and events in Mongo, so the query engine and the
+// chain API can read history without the node. Each network's IndexerState
+// records the contiguous range stored so far: blocks are written before the
+// range grows to include them and the range shrinks before a rolled back
+// block is deleted, so readers never see a partial block.
+//
+// A new block whose parent hash doesn't match the stored head means the
+// chain reorganised; the stored head is rolled back one block at a time
+// until they match again. Blocks are stored with the status they had when
+// fetched; every few minutes the newest one accepted on L1 is looked up and
+// the blocks' status and their receipts' finality_status are moved up to
+// ACCEPTED_ON_L1, so indexed rows read the same as the node's.
+//
+// Runs in one backend process; set INDEXER_ENABLED=false on the others.
+class ChainIndexer {
+  constructor(
+    { IndexedBlock, IndexedTransaction, IndexedReceipt, IndexedEvent, IndexerState },
+    { enabled = true, networks = ['mainnet'], startBlock = null, backfillBlocks = DEFAULT_BACKFILL_BLOCKS } = {}
+  ) {
+    this.IndexedBlock = IndexedBlock;
+    this.IndexedTransaction = IndexedTransaction;
+    this.IndexedReceipt = IndexedReceipt;
+    this.IndexedEvent = IndexedEvent;
+    this.IndexerState = IndexerState;
+    this.enabled = enabled;
+    this.networks = networks;
+    this.startBlock = startBlock;
+    this.backfillBlocks = backfillBlocks;
+    this.timer = null;
+    this.ticking = false;
+    this.l1CheckedAt = new Map();
+  }
+
+  start() {
+    if (this.timer) return;
+    if (!this.enabled || this.networks.length === 0) {
+      logger.info('Chain indexer disabled');
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+    logger.info(`Chain indexer started for ${this.networks.join(', ')}`);
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const network of this.networks) {
+        try {
+          await this.sync(network);
+        } catch (error) {
+          logger.error('Chain indexer sync failed:', { network, error: error.message });
+          await this.saveState(network, { status: 'error', lastError: error.message });
+        }
+      }
+    } catch (error) {
+      logger.error('Chain indexer tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // One round of indexing on a network: catch up with the head, then spend
+  // the rest of the budget on backfill
+  async sync(network) {
+    const rpc = new StarknetRpcClient(NETWORKS[network].rpcUrl, { network });
+    const head = await rpc.getBlockNumber();
+    let state = await this.IndexerState.findOne({ network }).lean();
+    const backfillTo = this.startBlock ?? state?.backfillTo ?? Math.max(head - this.backfillBlocks + 1, 0);
+    state = await this.saveState(network, { headBlock: head, backfillTo });
+
+    let budget = MAX_BLOCKS_PER_TICK;
+    while (budget > 0 && (state.lastBlock === null || state.lastBlock < head)) {
+      const from = state.lastBlock === null ? head : state.lastBlock + 1;
+      const numbers = range(from, Math.min(head, from + Math.min(budget, FETCH_BATCH_SIZE) - 1));
+      budget -= numbers.length;
+      const blocks = await Promise.all(numbers.map(number => rpc.getBlockWithReceipts(number)));
+
+      for (const block of blocks) {
+        if (state.lastBlockHash && !sameFelt(block.parent_hash, state.lastBlockHash)) {
+          state = await this.rollBack(network, state);
+          break;
+        }
+        await this.store(network, block);
+        state = await this.saveState(network, {
+          firstBlock: state.firstBlock ?? block.block_number,
+          lastBlock: block.block_number,
+          lastBlockHash: block.block_hash
+        });
+      }
+    }
+
+    while (budget > 0 && state.lastBlock === head && state.firstBlock > backfillTo) {
+      const to = state.firstBlock - 1;
+      const numbers = range(Math.max(backfillTo, to - Math.min(budget, FETCH_BATCH_SIZE) + 1), to);
+      budget -= numbers.length;
+      const blocks = await Promise.all(numbers.map(number => rpc.getBlockWithReceipts(number)));
+      for (const block of blocks) await this.store(network, block);
+      state = await this.saveState(network, { firstBlock: numbers[0] });
+    }
+
+    if (Date.now() - (this.l1CheckedAt.get(network) || 0) >= L1_CHECK_INTERVAL_MS) {
+      state = await this.advanceL1(network, rpc, state);
+      this.l1CheckedAt.set(network, Date.now());
+    }
+
+    return this.saveState(network, {
+      status: state.lastBlock === head ? 'following' : 'syncing',
+      lastError: null
+    });
+  }
+
+  // Mark stored blocks and receipts that have reached L1 since they were
+  // stored. Blocks reach L1 in order, so the newest accepted one is found by
+  // binary search above the last one found.
+  async advanceL1(network, rpc, state) {
+    if (state.lastBlock === null) return state;
+    const known = Math.max(state.l1Block ?? -1, state.firstBlock - 1);
+    let low = known + 1;
+    let high = state.lastBlock;
+    let accepted = known;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      const block = await rpc.getBlockWithTxHashes(mid);
+      if (block.status === L1_STATUS) {
+        accepted = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (accepted === known) return state;
+
+    const upTo = { network, block_number: { $lte: accepted } };
+    await Promise.all([
+      this.IndexedBlock.updateMany({ ...upTo, status: { $ne: L1_STATUS } }, { $set: { status: L1_STATUS } }),
+      this.IndexedReceipt.updateMany({ ...upTo, finality_status: { $ne: L1_STATUS } }, { $set: { finality_status: L1_STATUS } })
+    ]);
+    return this.saveState(network, { l1Block: accepted });
+  }
+
+  // Replace whatever is stored for the block with its current contents
+  async store(network, block) {
+    const number = block.block_number;
+    const entries = block.transactions || [];
+    // getBlockWithReceipts keeps each transaction's hash on its receipt
+    const transactions = transactionRows({
+      ...block,
+      transactions: entries.map(({ transaction, receipt }) => ({ ...transaction, transaction_hash: receipt.transaction_hash }))
+    });
+    const receipts = blockReceiptRows(block);
+    let eventIndex = 0;
+    const events = entries.flatMap(({ receipt }) => (receipt.events || []).map(event => ({
+      network,
+      block_number: number,
+      event_index: eventIndex++,
+      block_hash: block.block_hash,
+      transaction_hash: normalizeFelt(receipt.transaction_hash),
+      from_address: normalizeFelt(event.from_address),
+      selector: normalizeFelt(event.keys?.[0]),
+      keys: event.keys || [],
+      data: event.data || []
+    })));
+
+    await this.remove(network, number, number);
+    await Promise.all([
+      this.IndexedBlock.insertMany([{ ...blockRow(block), network }]),
+      this.IndexedTransaction.insertMany(transactions.map((row, index) => ({
+        ...row, network, transaction_index: index, transaction_hash: normalizeFelt(row.transaction_hash)
+      }))),
+      this.IndexedReceipt.insertMany(receipts.map((row, index) => ({
+        ...row, network, transaction_index: index, transaction_hash: normalizeFelt(row.transaction_hash)
+      }))),
+      this.IndexedEvent.insertMany(events)
+    ]);
+  }
+
+  async remove(network, from, to) {
+    const filter = { network, block_number: { $gte: from, $lte: to } };
+    await Promise.all([
+      this.IndexedBlock.deleteMany(filter),
+      this.IndexedTransaction.deleteMany(filter),
+      this.IndexedReceipt.deleteMany(filter),
+      this.IndexedEvent.deleteMany(filter)
+    ]);
+  }
+
+  // Drop the stored head after a reorg. The range shrinks first so queries
+  // stop reading the block before it is deleted.
+  async rollBack(network, state) {
+    const dropped = state.lastBlock;
+    const lastBlock = dropped > state.firstBlock ? dropped - 1 : null;
+    const parent = lastBlock === null ? null : await this.IndexedBlock.findOne({ network, block_number: lastBlock }).lean();
+    const rolledBack = await this.saveState(network, {
+      firstBlock: lastBlock === null ? null : state.firstBlock,
+      lastBlock,
+      lastBlockHash: parent ? parent.block_hash : null
+    });
+    await this.remove(network, dropped, dropped);
+    logger.warn('Chain reorg: rolled back indexed block', { network, block: dropped });
+    return rolledBack;
+  }
+
+  async saveState(network, changes) {
+    return this.IndexerState.findOneAndUpdate(
+      { network },
+      { $set: { ...changes, updatedAt: new Date() } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    ).lean();
+  }
+}
+
+module.exports = {
+  ChainIndexer,
+  DEFAULT_BACKFILL_BLOCKS
+};
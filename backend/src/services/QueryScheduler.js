@@ -0,0 +1,157 @@
+const logger = require('../utils/logger');
+const { nextCronRun } = require('../utils/cron');
+const queryEngine = require('./query');
+
+const TICK_INTERVAL_MS = 30 * 1000;
+// Due queries started per tick; the rest wait for the next one
+const MAX_RUNS_PER_TICK = 10;
+// Larger result sets are truncated so a snapshot fits in one document
+const MAX_SNAPSHOT_ROWS = 5000;
+// Oldest snapshots beyond this are deleted after each run
+const MAX_SNAPSHOTS_PER_QUERY = 500;
+
+// Runs saved queries on their cron schedule and stores every result set as a
+// timestamped snapshot. Runs go through the shared job manager, so they are
+// time-boxed and count towards the owner's concurrent query limit.
+class QueryScheduler {
+  constructor({ Query, QuerySnapshot }) {
+    this.Query = Query;
+    this.QuerySnapshot = QuerySnapshot;
+    this.timer = null;
+    this.ticking = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+    logger.info('Query scheduler started');
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const due = await this.Query.find({
+        'schedule.enabled': true,
+        'schedule.nextRunAt': { $lte: now }
+      })
+        .sort({ 'schedule.nextRunAt': 1 })
+        .limit(MAX_RUNS_PER_TICK);
+
+      for (const query of due) {
+        // Claim the run by moving nextRunAt forward; another instance that
+        // got there first makes this match nothing
+        const claimed = await this.Query.findOneAndUpdate(
+          { _id: query._id, 'schedule.nextRunAt': query.schedule.nextRunAt },
+          { $set: { 'schedule.nextRunAt': nextCronRun(query.schedule.cron, now) } },
+          { new: true }
+        );
+        if (claimed) {
+          this.run(claimed, 'schedule').catch(error => {
+            logger.error('Error running scheduled query:', { queryId: query._id, error: error.message });
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Query scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Execute a saved query now and store the outcome as a snapshot
+  async run(query, trigger = 'manual') {
+    const startedAt = new Date();
+    const parameterValues = query.schedule?.parameterValues || {};
+    let job;
+
+    try {
+      job = await queryEngine.queryJobs.start(
+        ({ signal, onProgress }) => queryEngine.executeQuery(query.sql, {
+          parameters: query.parameters,
+          parameterValues,
+          network: query.network,
+          rpcUrl: query.rpcUrl,
+          signal,
+          onProgress,
+          userId: query.createdBy.toString()
+        }),
+        { userId: query.createdBy.toString(), sql: query.sql, timeoutMs: queryEngine.MAX_TIMEOUT_MS }
+      ).promise;
+    } catch (error) {
+      // The owner already has the maximum number of queries running
+      job = { status: 'failed', error: { message: error.message } };
+    }
+
+    const snapshot = new this.QuerySnapshot({
+      query: query._id,
+      revision: query.revision,
+      trigger,
+      status: job.status,
+      ranAt: startedAt,
+      durationMs: Date.now() - startedAt.getTime()
+    });
+
+    if (job.status === 'succeeded') {
+      const { columns, rows, stats, cache } = job.result;
+      snapshot.columns = columns;
+      snapshot.rows = rows.slice(0, MAX_SNAPSHOT_ROWS);
+      snapshot.rowCount = rows.length;
+      snapshot.truncated = rows.length > MAX_SNAPSHOT_ROWS;
+      snapshot.stats = stats;
+      snapshot.headBlock = cache.headBlock;
+    } else {
+      snapshot.error = job.error.message;
+    }
+
+    await snapshot.save();
+
+    const update = {
+      $set: {
+        'schedule.lastRunAt': startedAt,
+        'schedule.lastStatus': snapshot.status,
+        'schedule.lastError': snapshot.error || null
+      }
+    };
+    if (snapshot.status === 'succeeded') {
+      update.$set.lastExecuted = startedAt;
+      update.$inc = { executionCount: 1 };
+    }
+    await this.Query.updateOne({ _id: query._id }, update);
+    await this.prune(query._id);
+
+    logger.info(`Query snapshot ${snapshot.status}`, {
+      queryId: query._id,
+      snapshotId: snapshot._id,
+      trigger,
+      rowCount: snapshot.rowCount,
+      durationMs: snapshot.durationMs
+    });
+
+    return snapshot;
+  }
+
+  async prune(queryId) {
+    const stale = await this.QuerySnapshot.find({ query: queryId })
+      .sort({ ranAt: -1 })
+      .skip(MAX_SNAPSHOTS_PER_QUERY)
+      .select('_id');
+    if (stale.length > 0) {
+      await this.QuerySnapshot.deleteMany({ _id: { $in: stale.map(snapshot => snapshot._id) } });
+    }
+  }
+}
+
+module.exports = {
+  QueryScheduler,
+  MAX_SNAPSHOT_ROWS
+};
@@ -6,8 +6,18 @@ const Reward = require('../models/Reward');
 
 class WebSocketService {
   constructor(server) {
-    this.wss = new WebSocket.Server({ server });
+    // Upgrades are routed by hand so socket.io keeps its own /socket.io/ path
+    this.wss = new WebSocket.Server({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      if (req.url && req.url.startsWith('/socket.io')) return;
+      this.wss.handleUpgrade(req, socket, head, (ws) => {
+        this.wss.emit('connection', ws, req);
+      });
+    });
+
     this.clients = new Set();
+    this.querySubscriptions = new Map(); // executionId -> Set(ws)
+    this.queryJobs = null;
     this.setupWebSocket();
     this.statsUpdateInterval = null;
   }
@@ -31,8 +41,16 @@ class WebSocketService {
       // Send initial stats
       this.sendStatsToClient(ws);
 
+      ws.on('message', (raw) => {
+        this.handleMessage(ws, raw);
+      });
+
       ws.on('close', () => {
         this.clients.delete(ws);
+        this.querySubscriptions.forEach((subscribers, executionId) => {
+          subscribers.delete(ws);
+          if (subscribers.size === 0) this.querySubscriptions.delete(executionId);
+        });
         logger.info('WebSocket client disconnected');
       });
 
@@ -116,6 +134,73 @@ class WebSocketService {
     });
   }
 
+  handleMessage(ws, raw) {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      return;
+    }
+
+    const executionId = message && message.data && message.data.executionId;
+    if (!executionId) return;
+
+    if (message.type === 'query:subscribe') {
+      const job = this.queryJobs && this.queryJobs.get(executionId);
+      if (!job) {
+        this.send(ws, {
+          type: 'query:error',
+          data: { executionId, message: 'Query execution not found' }
+        });
+        return;
+      }
+
+      // Catch up a client that subscribed after progress was made; one that
+      // subscribed after the execution finished only gets its final state
+      if (job.status !== 'running') {
+        this.send(ws, { type: 'query:status', data: this.describeJob(job) });
+        return;
+      }
+      if (!this.querySubscriptions.has(executionId)) {
+        this.querySubscriptions.set(executionId, new Set());
+      }
+      this.querySubscriptions.get(executionId).add(ws);
+      this.send(ws, { type: 'query:progress', data: this.describeJob(job) });
+    } else if (message.type === 'query:unsubscribe') {
+      const subscribers = this.querySubscriptions.get(executionId);
+      if (subscribers) subscribers.delete(ws);
+    }
+  }
+
+  // Forward query job events to clients subscribed to the execution id.
+  // Execution ids are random UUIDs only handed to the user who started the
+  // job, so knowing one is what entitles a client to its progress.
+  attachQueryJobs(queryJobs, describeJob) {
+    this.queryJobs = queryJobs;
+    this.describeJob = describeJob;
+
+    queryJobs.on('progress', (job) => {
+      this.sendToSubscribers(job.id, { type: 'query:progress', data: describeJob(job) });
+    });
+
+    queryJobs.on('finished', (job) => {
+      this.sendToSubscribers(job.id, { type: 'query:status', data: describeJob(job) });
+      this.querySubscriptions.delete(job.id);
+    });
+  }
+
+  send(ws, message) {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  sendToSubscribers(executionId, message) {
+    const subscribers = this.querySubscriptions.get(executionId);
+    if (!subscribers) return;
+    subscribers.forEach(client => this.send(client, message));
+  }
+
   notifyBountyUpdate(bountyId) {
     this.broadcastStats();
   }
@@ -0,0 +1,185 @@
+const { writeXlsx } = require('./xlsx');
+const { writeParquet } = require('./parquet');
+
+// Query result exports. Each format is an async generator of Buffers, so
+// the file is piped to the response a chunk at a time rather than built as
+// one Buffer. The rows themselves are a finished, in-memory query result;
+// the export route caps how many there can be.
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+
+// Columns are exported with one of these types; the writers map them to the
+// closest native type of their format.
+const EXPORT_TYPES = ['felt', 'u256', 'integer', 'number', 'timestamp', 'boolean', 'text', 'array'];
+
+// Best guess at the type of a computed column from its values
+function inferType(values) {
+  let type = null;
+  for (const value of values) {
+    if (value === null || value === undefined) continue;
+
+    let valueType;
+    if (typeof value === 'boolean') valueType = 'boolean';
+    else if (typeof value === 'bigint') valueType = 'integer';
+    else if (typeof value === 'number') valueType = Number.isInteger(value) ? 'integer' : 'number';
+    else if (value instanceof Date) valueType = 'timestamp';
+    else if (typeof value === 'object') valueType = 'array';
+    else if (HEX_PATTERN.test(value)) valueType = 'felt';
+    else valueType = 'text';
+
+    if (type === null) {
+      type = valueType;
+    } else if (type !== valueType) {
+      if ((type === 'integer' && valueType === 'number') || (type === 'number' && valueType === 'integer')) {
+        type = 'number';
+      } else {
+        return 'text';
+      }
+    }
+  }
+  return type || 'text';
+}
+
+function toBigInt(value) {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isInteger(value) ? BigInt(value) : null;
+  if (typeof value === 'string' && (HEX_PATTERN.test(value) || INTEGER_PATTERN.test(value.trim()))) {
+    return BigInt(value.trim());
+  }
+  return null;
+}
+
+// Convert a raw engine value to the representation the writers expect:
+//   felt      - 0x-prefixed hex string
+//   u256      - BigInt
+//   integer   - number, or BigInt past 2^53
+//   number    - number
+//   timestamp - Date (numbers are unix seconds)
+//   boolean   - boolean
+//   text      - string
+//   array     - array, with BigInts as decimal strings
+// Values that don't fit the column's type become null, except text and felt
+// columns which fall back to the value's text.
+function normalizeValue(value, type) {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'felt': {
+      if (typeof value === 'string') return HEX_PATTERN.test(value) ? value.toLowerCase() : value;
+      const felt = toBigInt(value);
+      return felt === null ? String(value) : `0x${felt.toString(16)}`;
+    }
+    case 'u256':
+      return toBigInt(value);
+    case 'integer': {
+      const integer = toBigInt(value);
+      if (integer === null) return null;
+      return integer >= BigInt(Number.MIN_SAFE_INTEGER) && integer <= BigInt(Number.MAX_SAFE_INTEGER)
+        ? Number(integer)
+        : integer;
+    }
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(typeof value === 'bigint' ? value : String(value).trim());
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'timestamp': {
+      const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value * 1000 : value);
+      return Number.isNaN(date.getTime()) ? null : date;
+    }
+    case 'boolean':
+      if (typeof value === 'string') return value.toLowerCase() === 'true' || value === '1';
+      return Boolean(value);
+    case 'array':
+      if (typeof value !== 'object') return String(value);
+      return JSON.parse(JSON.stringify(value, (key, item) => typeof item === 'bigint' ? item.toString() : item));
+    default:
+      if (value instanceof Date) return value.toISOString();
+      if (typeof value === 'object') return JSON.stringify(value);
+      return String(value);
+  }
+}
+
+// Pair column names with their export type and normalize the rows to match.
+// `columnTypes` comes from the engine and may contain nulls for computed
+// columns, which are inferred from the values.
+function prepareResult({ columns, columnTypes = [], rows }) {
+  const described = columns.map((name, index) => {
+    const declared = columnTypes[index];
+    const type = EXPORT_TYPES.includes(declared) ? declared : inferType(rows.map(row => row[name]));
+    return { name, type };
+  });
+  const normalized = rows.map(row => described.map(({ name, type }) => normalizeValue(row[name], type)));
+  return { columns: described, rows: normalized };
+}
+
+// Text form of a normalized value, as written to CSV
+function formatValue(value) {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function csvField(value) {
+  const text = formatValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows are written in batches to keep the number of chunks down
+const BATCH_SIZE = 1000;
+
+async function* writeCsv({ columns, rows }) {
+  yield Buffer.from(columns.map(column => csvField(column.name)).join(',') + '\r\n');
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const lines = rows.slice(start, start + BATCH_SIZE).map(row => row.map(csvField).join(',') + '\r\n');
+    yield Buffer.from(lines.join(''));
+  }
+}
+
+// u256 values and integers past 2^53 are written as decimal strings so
+// JSON parsers don't round them
+function jsonValue(value) {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+async function* writeNdjson({ columns, rows }) {
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const lines = rows.slice(start, start + BATCH_SIZE).map(row => {
+      const record = {};
+      columns.forEach((column, index) => {
+        record[column.name] = jsonValue(row[index]);
+      });
+      return JSON.stringify(record) + '\n';
+    });
+    yield Buffer.from(lines.join(''));
+  }
+}
+
+const FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv', write: writeCsv },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson', write: writeNdjson },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+    write: writeXlsx
+  },
+  parquet: { contentType: 'application/vnd.apache.parquet', extension: 'parquet', write: writeParquet }
+};
+
+// Async generator of the file contents for an executeQuery result
+function exportResult(format, result) {
+  const writer = FORMATS[format];
+  if (!writer) {
+    throw new Error(`Unknown export format: ${format}`);
+  }
+  return writer.write(prepareResult(result));
+}
+
+module.exports = {
+  FORMATS,
+  EXPORT_TYPES,
+  exportResult
+};
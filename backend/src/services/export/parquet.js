@@ -0,0 +1,278 @@
+// Parquet writer for query results. Every column is OPTIONAL, PLAIN encoded
+// and uncompressed, written in row groups of ROW_GROUP_SIZE rows. Metadata
+// is encoded with the Thrift compact protocol, see
+// https://github.com/apache/parquet-format/blob/master/src/main/thrift/parquet.thrift
+
+const MAGIC = Buffer.from('PAR1');
+const ROW_GROUP_SIZE = 10000;
+const CREATED_BY = 'starknet-query-engine';
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6, FIXED_LEN_BYTE_ARRAY: 7 };
+const ConvertedType = { UTF8: 0, DECIMAL: 5, TIMESTAMP_MILLIS: 9 };
+const Repetition = { OPTIONAL: 1 };
+const Encoding = { PLAIN: 0, RLE: 3 };
+const PAGE_TYPE_DATA = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+// u256 columns are DECIMAL(76, 0) in 32-byte big-endian two's complement,
+// the widest decimal Arrow-based readers accept. The rare column holding a
+// value of 77 or 78 digits is written as decimal text instead.
+const DECIMAL_PRECISION = 76;
+const DECIMAL_BYTES = 32;
+const DECIMAL_MAX = 10n ** 76n - 1n;
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+// ============================================
+// THRIFT COMPACT PROTOCOL
+// ============================================
+
+const Thrift = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+
+function varint(value) {
+  let n = BigInt(value);
+  const bytes = [];
+  do {
+    let byte = Number(n & 0x7fn);
+    n >>= 7n;
+    if (n > 0n) byte |= 0x80;
+    bytes.push(byte);
+  } while (n > 0n);
+  return Buffer.from(bytes);
+}
+
+function zigzag(value) {
+  const n = BigInt(value);
+  return (n << 1n) ^ (n >> 63n);
+}
+
+function encodeValue(type, value) {
+  switch (type) {
+    case Thrift.I32:
+    case Thrift.I64:
+      return varint(zigzag(value));
+    case Thrift.BINARY: {
+      const bytes = Buffer.from(value, 'utf8');
+      return Buffer.concat([varint(bytes.length), bytes]);
+    }
+    case Thrift.LIST: {
+      const { elementType, items } = value;
+      const header = items.length < 15
+        ? Buffer.from([(items.length << 4) | elementType])
+        : Buffer.concat([Buffer.from([0xf0 | elementType]), varint(items.length)]);
+      return Buffer.concat([header, ...items.map(item => encodeValue(elementType, item))]);
+    }
+    case Thrift.STRUCT:
+      return encodeStruct(value);
+    default:
+      throw new Error(`Unsupported thrift type ${type}`);
+  }
+}
+
+// `fields` is a list of [fieldId, thriftType, value]; null values are
+// omitted, as optional fields are
+function encodeStruct(fields) {
+  const parts = [];
+  let lastId = 0;
+  for (const [id, type, value] of fields) {
+    if (value === null || value === undefined) continue;
+    const delta = id - lastId;
+    parts.push(delta > 0 && delta <= 15
+      ? Buffer.from([(delta << 4) | type])
+      : Buffer.concat([Buffer.from([type]), varint(zigzag(id))]));
+    parts.push(encodeValue(type, value));
+    lastId = id;
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+const list = (elementType, items) => ({ elementType, items });
+
+// ============================================
+// COLUMN ENCODING
+// ============================================
+
+const TEXT = { physicalType: PhysicalType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 };
+const DECIMAL = {
+  physicalType: PhysicalType.FIXED_LEN_BYTE_ARRAY,
+  typeLength: DECIMAL_BYTES,
+  convertedType: ConvertedType.DECIMAL,
+  precision: DECIMAL_PRECISION,
+  scale: 0
+};
+
+// Schema of each column. Integer columns holding values past int64 are
+// stored like u256.
+function describeColumn(column, index, rows) {
+  const fits = (min, max) => rows.every(row => row[index] === null || (BigInt(row[index]) >= min && BigInt(row[index]) <= max));
+  switch (column.type) {
+    case 'boolean':
+      return { physicalType: PhysicalType.BOOLEAN };
+    case 'integer':
+      if (fits(INT64_MIN, INT64_MAX)) return { physicalType: PhysicalType.INT64 };
+      return fits(-DECIMAL_MAX, DECIMAL_MAX) ? DECIMAL : TEXT;
+    case 'u256':
+      return fits(-DECIMAL_MAX, DECIMAL_MAX) ? DECIMAL : TEXT;
+    case 'number':
+      return { physicalType: PhysicalType.DOUBLE };
+    case 'timestamp':
+      return { physicalType: PhysicalType.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS };
+    default:
+      return TEXT;
+  }
+}
+
+// Definition levels (1 = present, 0 = null) with the RLE/bit-packing hybrid
+// encoding, as RLE runs only, prefixed by their byte length
+function encodeDefinitionLevels(values) {
+  const runs = [];
+  let start = 0;
+  while (start < values.length) {
+    const present = values[start] !== null;
+    let end = start + 1;
+    while (end < values.length && (values[end] !== null) === present) end++;
+    runs.push(varint((end - start) << 1), Buffer.from([present ? 1 : 0]));
+    start = end;
+  }
+  const levels = Buffer.concat(runs);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(levels.length);
+  return Buffer.concat([length, levels]);
+}
+
+function twosComplement(value, byteLength) {
+  let n = BigInt(value);
+  if (n < 0n) n += 1n << BigInt(byteLength * 8);
+  const bytes = Buffer.alloc(byteLength);
+  for (let i = byteLength - 1; i >= 0; i--) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+// PLAIN encoding of the non-null values
+function encodePlain(values, { physicalType, typeLength }) {
+  switch (physicalType) {
+    case PhysicalType.BOOLEAN: {
+      const bytes = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) bytes[i >> 3] |= 1 << (i & 7);
+      });
+      return bytes;
+    }
+    case PhysicalType.INT64: {
+      const bytes = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => {
+        bytes.writeBigInt64LE(BigInt(value instanceof Date ? value.getTime() : value), i * 8);
+      });
+      return bytes;
+    }
+    case PhysicalType.DOUBLE: {
+      const bytes = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => bytes.writeDoubleLE(value, i * 8));
+      return bytes;
+    }
+    case PhysicalType.FIXED_LEN_BYTE_ARRAY:
+      return Buffer.concat(values.map(value => twosComplement(value, typeLength)));
+    default:
+      return Buffer.concat(values.flatMap(value => {
+        const text = Buffer.from(typeof value === 'object' ? JSON.stringify(value) : String(value), 'utf8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(text.length);
+        return [length, text];
+      }));
+  }
+}
+
+// One data page holding the whole column chunk
+function encodeColumnChunk(values, schema) {
+  const data = Buffer.concat([
+    encodeDefinitionLevels(values),
+    encodePlain(values.filter(value => value !== null), schema)
+  ]);
+  const header = encodeStruct([
+    [1, Thrift.I32, PAGE_TYPE_DATA],
+    [2, Thrift.I32, data.length],
+    [3, Thrift.I32, data.length],
+    [5, Thrift.STRUCT, [
+      [1, Thrift.I32, values.length],
+      [2, Thrift.I32, Encoding.PLAIN],
+      [3, Thrift.I32, Encoding.RLE],
+      [4, Thrift.I32, Encoding.RLE]
+    ]]
+  ]);
+  return Buffer.concat([header, data]);
+}
+
+// ============================================
+// FILE LAYOUT
+// ============================================
+
+async function* writeParquet({ columns, rows }) {
+  const schemas = columns.map((column, index) => describeColumn(column, index, rows));
+  const rowGroups = [];
+  let offset = MAGIC.length;
+  yield MAGIC;
+
+  for (let start = 0; start < rows.length; start += ROW_GROUP_SIZE) {
+    const groupRows = rows.slice(start, start + ROW_GROUP_SIZE);
+    const chunks = [];
+    let groupSize = 0;
+
+    for (let index = 0; index < columns.length; index++) {
+      const chunk = encodeColumnChunk(groupRows.map(row => row[index]), schemas[index]);
+      chunks.push([
+        [2, Thrift.I64, offset],
+        [3, Thrift.STRUCT, [
+          [1, Thrift.I32, schemas[index].physicalType],
+          [2, Thrift.LIST, list(Thrift.I32, [Encoding.PLAIN, Encoding.RLE])],
+          [3, Thrift.LIST, list(Thrift.BINARY, [columns[index].name])],
+          [4, Thrift.I32, CODEC_UNCOMPRESSED],
+          [5, Thrift.I64, groupRows.length],
+          [6, Thrift.I64, chunk.length],
+          [7, Thrift.I64, chunk.length],
+          [9, Thrift.I64, offset]
+        ]]
+      ]);
+      offset += chunk.length;
+      groupSize += chunk.length;
+      yield chunk;
+    }
+
+    rowGroups.push([
+      [1, Thrift.LIST, list(Thrift.STRUCT, chunks)],
+      [2, Thrift.I64, groupSize],
+      [3, Thrift.I64, groupRows.length]
+    ]);
+  }
+
+  const metadata = encodeStruct([
+    [1, Thrift.I32, 1],
+    [2, Thrift.LIST, list(Thrift.STRUCT, [
+      [[4, Thrift.BINARY, 'schema'], [5, Thrift.I32, columns.length]],
+      ...columns.map((column, index) => {
+        const schema = schemas[index];
+        return [
+          [1, Thrift.I32, schema.physicalType],
+          [2, Thrift.I32, schema.typeLength],
+          [3, Thrift.I32, Repetition.OPTIONAL],
+          [4, Thrift.BINARY, column.name],
+          [6, Thrift.I32, schema.convertedType],
+          [7, Thrift.I32, schema.scale],
+          [8, Thrift.I32, schema.precision]
+        ];
+      })
+    ])],
+    [3, Thrift.I64, rows.length],
+    [4, Thrift.LIST, list(Thrift.STRUCT, rowGroups)],
+    [6, Thrift.BINARY, CREATED_BY]
+  ]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(metadata.length);
+  yield Buffer.concat([metadata, length, MAGIC]);
+}
+
+module.exports = { writeParquet };
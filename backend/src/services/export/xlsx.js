@@ -0,0 +1,131 @@
+const { ZipWriter } = require('./zip');
+
+// Single-sheet Office Open XML workbook. Felts and u256 values are text cells
+// so Excel doesn't round them to 15 digits, timestamps are date cells.
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles, indexes into cellXfs below
+const DATE_STYLE = 1;
+const HEADER_STYLE = 2;
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Longest text a cell may hold
+const MAX_CELL_TEXT = 32767;
+const ROWS_PER_CHUNK = 500;
+
+const CONTENT_TYPES = XML_HEADER +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const PACKAGE_RELS = XML_HEADER +
+  `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK = XML_HEADER +
+  `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+  '<sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets>' +
+  '</workbook>';
+
+const WORKBOOK_RELS = XML_HEADER +
+  `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+const STYLES = XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+function escapeXml(text) {
+  return text
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A, B, ..., Z, AA, AB, ...
+function columnLetters(index) {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function textCell(ref, text, style = 0) {
+  const value = escapeXml(text.length > MAX_CELL_TEXT ? text.slice(0, MAX_CELL_TEXT) : text);
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${value}</t></is></c>`;
+}
+
+function cell(ref, value, type) {
+  if (value === null) return '';
+  if (type === 'boolean') return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  if (value instanceof Date) {
+    return `<c r="${ref}" s="${DATE_STYLE}"><v>${(value.getTime() - EXCEL_EPOCH_MS) / MS_PER_DAY}</v></c>`;
+  }
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'object') return textCell(ref, JSON.stringify(value));
+  // BigInts (u256, integers past 2^53) too, Excel would round them as numbers
+  return textCell(ref, String(value));
+}
+
+async function* sheetXml({ columns, rows }) {
+  const letters = columns.map((column, index) => columnLetters(index));
+
+  const lastCell = `${letters[letters.length - 1] || 'A'}${rows.length + 1}`;
+
+  yield XML_HEADER + `<worksheet xmlns="${MAIN_NS}">` +
+    `<dimension ref="A1:${lastCell}"/>` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    '<sheetData>' +
+    `<row r="1">${columns.map((column, index) => textCell(`${letters[index]}1`, column.name, HEADER_STYLE)).join('')}</row>`;
+
+  for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+    yield rows.slice(start, start + ROWS_PER_CHUNK).map((row, offset) => {
+      const rowNumber = start + offset + 2;
+      const cells = row.map((value, index) => cell(`${letters[index]}${rowNumber}`, value, columns[index].type));
+      return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    }).join('');
+  }
+
+  yield '</sheetData></worksheet>';
+}
+
+async function* writeXlsx(result) {
+  const zip = new ZipWriter();
+  yield* zip.entry('[Content_Types].xml', [CONTENT_TYPES]);
+  yield* zip.entry('_rels/.rels', [PACKAGE_RELS]);
+  yield* zip.entry('xl/workbook.xml', [WORKBOOK]);
+  yield* zip.entry('xl/_rels/workbook.xml.rels', [WORKBOOK_RELS]);
+  yield* zip.entry('xl/styles.xml', [STYLES]);
+  yield* zip.entry('xl/worksheets/sheet1.xml', sheetXml(result));
+  yield* zip.finish();
+}
+
+module.exports = { writeXlsx };
@@ -0,0 +1,111 @@
+const zlib = require('zlib');
+const { Readable, pipeline } = require('stream');
+
+// Minimal streaming ZIP writer: entries are deflated as they are produced and
+// their CRC and sizes written in a data descriptor after the data, so nothing
+// has to be buffered. No ZIP64, so entries and the archive must stay under
+// 4 GiB, which is far beyond what an export can reach.
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Bit 3: sizes and CRC follow the data. Bit 11: names are UTF-8.
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+// MS-DOS date and time of `date`, as stored in ZIP headers
+function dosDateTime(date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+class ZipWriter {
+  constructor() {
+    this.entries = [];
+    this.offset = 0;
+    this.modified = dosDateTime(new Date());
+  }
+
+  // Yields the bytes of one file. `source` is an iterable (sync or async) of
+  // strings or Buffers.
+  async *entry(name, source) {
+    const fileName = Buffer.from(name, 'utf8');
+    const entry = { fileName, offset: this.offset, crc: 0, size: 0, compressedSize: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.day, 12);
+    // CRC and sizes (14-25) are left zero, they follow in the data descriptor
+    header.writeUInt16LE(fileName.length, 26);
+    yield* this.emit(Buffer.concat([header, fileName]));
+
+    const input = Readable.from((async function* () {
+      for await (const chunk of source) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, 'utf8');
+        entry.crc = zlib.crc32(buffer, entry.crc);
+        entry.size += buffer.length;
+        yield buffer;
+      }
+    })());
+    const deflate = zlib.createDeflateRaw();
+    // Errors surface through the iteration below
+    pipeline(input, deflate, () => {});
+
+    for await (const chunk of deflate) {
+      entry.compressedSize += chunk.length;
+      yield* this.emit(chunk);
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield* this.emit(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  // Yields the central directory, ending the archive
+  *finish() {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.day, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.fileName.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      yield* this.emit(Buffer.concat([header, entry.fileName]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    yield* this.emit(end);
+  }
+
+  *emit(buffer) {
+    this.offset += buffer.length;
+    yield buffer;
+  }
+}
+
+module.exports = { ZipWriter };
@@ -0,0 +1,230 @@
+const { QueryError } = require('./errors');
+const { toBigInt, normalizeInteger, isTruthy, toText } = require('./values');
+const { FIELD_PRIME } = require('../../utils/starknet');
+
+// Calldata for starknet_call and decoding of its result from a contract's
+// ABI. Sierra (Cairo 1) classes carry the ABI as a JSON string of fully
+// qualified types such as core::integer::u256; Cairo 0 classes as an array
+// using felt, felt* and Uint256.
+
+const FELT_TYPES = new Set([
+  'felt',
+  'core::felt252',
+  'core::starknet::contract_address::ContractAddress',
+  'core::starknet::class_hash::ClassHash',
+  'core::starknet::eth_address::EthAddress',
+  'core::starknet::storage_access::StorageAddress'
+]);
+const U256_TYPES = new Set(['core::integer::u256', 'Uint256']);
+const UNSIGNED_PATTERN = /^core::integer::(u8|u16|u32|u64|u128|usize)$/;
+const SIGNED_PATTERN = /^core::integer::i(8|16|32|64|128)$/;
+const ARRAY_PATTERN = /^core::array::(Array|Span)::<(.+)>$/;
+const OPTION_PATTERN = /^core::option::Option::<.+>$/;
+const BOOL_TYPE = 'core::bool';
+const BYTE_ARRAY_TYPE = 'core::byte_array::ByteArray';
+
+// ByteArray stores text as 31-byte words plus a shorter pending word
+const BYTES_PER_WORD = 31;
+const U128_MASK = (1n << 128n) - 1n;
+const U256_LIMIT = 1n << 256n;
+
+function parseAbi(contractClass) {
+  const abi = typeof contractClass.abi === 'string' ? JSON.parse(contractClass.abi) : contractClass.abi;
+  return Array.isArray(abi) ? abi : [];
+}
+
+// Functions a contract exposes, including those declared inside Cairo 1
+// interfaces
+function abiFunctions(abi) {
+  return abi.flatMap(entry => {
+    if (entry.type === 'function') return [entry];
+    if (entry.type === 'interface') return (entry.items || []).filter(item => item.type === 'function');
+    return [];
+  });
+}
+
+// Struct and enum definitions by type name
+function abiTypes(abi) {
+  return new Map(abi.filter(entry => entry.type === 'struct' || entry.type === 'enum').map(entry => [entry.name, entry]));
+}
+
+// Member types of a tuple type such as (core::integer::u256, core::felt252),
+// null for anything else
+function tupleTypes(type) {
+  if (!type.startsWith('(') || !type.endsWith(')')) return null;
+  const inner = type.slice(1, -1);
+  const parts = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char === '(' || char === '<') depth++;
+    else if (char === ')' || char === '>') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = inner.slice(start).trim();
+  if (last) parts.push(last);
+  return parts;
+}
+
+// Reads Cairo values off the front of a list of result felts. Felt-like
+// types come back as hex, integers exactly, structs as objects and arrays
+// and tuples as arrays.
+function createReader(felts, types) {
+  let offset = 0;
+
+  const next = () => {
+    if (offset >= felts.length) {
+      throw new QueryError('Call returned fewer values than its ABI describes');
+    }
+    return BigInt(felts[offset++]);
+  };
+
+  const readByteArray = () => {
+    const words = Number(next());
+    let hex = '';
+    for (let i = 0; i < words; i++) hex += next().toString(16).padStart(BYTES_PER_WORD * 2, '0');
+    const pending = next();
+    const pendingLength = Number(next());
+    if (pendingLength > 0) hex += pending.toString(16).padStart(pendingLength * 2, '0');
+    return Buffer.from(hex, 'hex').toString('utf8');
+  };
+
+  const read = (type) => {
+    if (FELT_TYPES.has(type)) return `0x${next().toString(16)}`;
+    if (U256_TYPES.has(type)) {
+      const low = next();
+      const high = next();
+      return normalizeInteger(low + (high << 128n));
+    }
+    if (UNSIGNED_PATTERN.test(type)) return normalizeInteger(next());
+    if (SIGNED_PATTERN.test(type)) {
+      const value = next();
+      return normalizeInteger(value > FIELD_PRIME / 2n ? value - FIELD_PRIME : value);
+    }
+    if (type === BOOL_TYPE) return next() !== 0n;
+    if (type === BYTE_ARRAY_TYPE) return readByteArray();
+    if (type === '()') return null;
+
+    const array = type.match(ARRAY_PATTERN);
+    if (array) {
+      const length = Number(next());
+      return Array.from({ length }, () => read(array[2]));
+    }
+    const tuple = tupleTypes(type);
+    if (tuple) return tuple.map(read);
+
+    const definition = types.get(type);
+    if (definition?.type === 'struct') {
+      return Object.fromEntries(definition.members.map(member => [member.name, read(member.type)]));
+    }
+    if (definition?.type === 'enum') {
+      const variant = definition.variants[Number(next())];
+      if (!variant) throw new QueryError(`Call returned an unknown variant of ${type}`);
+      const value = read(variant.type);
+      // Option::<T> reads as the value itself, or NULL for None
+      if (OPTION_PATTERN.test(type)) return variant.name === 'Some' ? value : null;
+      return variant.type === '()' ? variant.name : { [variant.name]: value };
+    }
+
+    throw new QueryError(`Can't decode values of Cairo type '${type}'`);
+  };
+
+  return { read, next };
+}
+
+// Calldata for `fn` from one SQL value per ABI input
+function encodeArguments(fn, values, pos) {
+  const calldata = [];
+  const write = (felt) => calldata.push(`0x${felt.toString(16)}`);
+
+  fn.inputs.forEach((input, index) => {
+    const value = values[index];
+    const fail = (expected) => {
+      throw new QueryError(`Argument '${input.name}' of ${fn.name} expects ${expected}, got '${toText(value)}'`, pos);
+    };
+    if (value === null || value === undefined) fail('a value');
+    const integer = () => toBigInt(value) ?? fail('an integer or hex value');
+
+    if (FELT_TYPES.has(input.type)) {
+      const felt = integer();
+      if (felt < 0n || felt >= FIELD_PRIME) fail('a felt');
+      write(felt);
+    } else if (U256_TYPES.has(input.type)) {
+      const amount = integer();
+      if (amount < 0n || amount >= U256_LIMIT) fail('a u256');
+      write(amount & U128_MASK);
+      write(amount >> 128n);
+    } else if (UNSIGNED_PATTERN.test(input.type)) {
+      const amount = integer();
+      if (amount < 0n) fail('a non-negative integer');
+      write(amount);
+    } else if (SIGNED_PATTERN.test(input.type)) {
+      const amount = integer();
+      write(amount < 0n ? amount + FIELD_PRIME : amount);
+    } else if (input.type === BOOL_TYPE) {
+      write(isTruthy(value) ? 1n : 0n);
+    } else if (input.type === BYTE_ARRAY_TYPE) {
+      const bytes = Buffer.from(toText(value), 'utf8');
+      const words = Math.floor(bytes.length / BYTES_PER_WORD);
+      write(BigInt(words));
+      for (let i = 0; i < words; i++) {
+        write(BigInt(`0x${bytes.subarray(i * BYTES_PER_WORD, (i + 1) * BYTES_PER_WORD).toString('hex')}`));
+      }
+      const pending = bytes.subarray(words * BYTES_PER_WORD);
+      write(pending.length > 0 ? BigInt(`0x${pending.toString('hex')}`) : 0n);
+      write(BigInt(pending.length));
+    } else {
+      throw new QueryError(
+        `Argument '${input.name}' of ${fn.name} has Cairo type '${input.type}', which can't be passed from SQL`,
+        pos
+      );
+    }
+  });
+
+  return calldata;
+}
+
+// A call's result as [{ name, type, value }]: one entry per output, or per
+// member when the function returns a single struct or tuple. Cairo 0
+// `x_len, x: felt*` output pairs become one array.
+function decodeOutputs(abi, fn, felts) {
+  const types = abiTypes(abi);
+  const reader = createReader(felts, types);
+  const outputs = fn.outputs || [];
+
+  const values = [];
+  for (let i = 0; i < outputs.length; i++) {
+    const { name = null, type } = outputs[i];
+    const pointer = outputs[i + 1];
+    if (name && pointer?.type.endsWith('*') && name === `${pointer.name}_len`) {
+      const length = Number(reader.next());
+      const itemType = pointer.type.slice(0, -1);
+      values.push({ name: pointer.name, type: pointer.type, value: Array.from({ length }, () => reader.read(itemType)) });
+      i++;
+      continue;
+    }
+    values.push({ name, type, value: reader.read(type) });
+  }
+
+  if (values.length === 1 && !U256_TYPES.has(values[0].type)) {
+    const [only] = values;
+    const definition = types.get(only.type);
+    if (definition?.type === 'struct') {
+      return definition.members.map(member => ({ name: member.name, type: member.type, value: only.value[member.name] }));
+    }
+    const tuple = tupleTypes(only.type);
+    if (tuple) return tuple.map((type, index) => ({ name: null, type, value: only.value[index] }));
+  }
+  return values;
+}
+
+module.exports = {
+  parseAbi,
+  abiFunctions,
+  encodeArguments,
+  decodeOutputs
+};
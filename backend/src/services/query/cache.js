@@ -0,0 +1,106 @@
+const crypto = require('crypto');
+
+// Shared result cache for the SQL engine. Entries are keyed by the bound AST
+// and execution options, and remember the block range the query read:
+//   - a range that ends at least FINALITY_DEPTH blocks below the head can't
+//     change any more, so the entry is kept until it is evicted
+//   - anything closer to the head (including the default "latest N blocks"
+//     windows) is only valid while the head is the one it was computed at
+
+// Blocks this far behind the head are treated as final
+const FINALITY_DEPTH = 10;
+const MAX_ENTRIES = 500;
+// Larger results are not worth the memory they would pin
+const MAX_CACHED_ROWS = 10000;
+
+// AST with source positions and literal spellings stripped, so queries that
+// differ only in whitespace, comments or letter case of keywords share a key
+function normalizeAst(node) {
+  if (Array.isArray(node)) return node.map(normalizeAst);
+  // Integer literals past 2^53 are BigInts, which JSON can't encode
+  if (typeof node === 'bigint') return `${node}n`;
+  if (!node || typeof node !== 'object') return node;
+
+  const normalized = {};
+  for (const key of Object.keys(node).sort()) {
+    if (key === 'pos' || key === 'raw') continue;
+    normalized[key] = normalizeAst(node[key]);
+  }
+  return normalized;
+}
+
+function cacheKey({ ast, parameterValues, defaultLimit, rpcUrl }) {
+  const material = JSON.stringify({
+    ast: normalizeAst(ast),
+    parameterValues: normalizeAst(parameterValues || {}),
+    defaultLimit,
+    rpcUrl
+  });
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+class QueryResultCache {
+  constructor({ maxEntries = MAX_ENTRIES } = {}) {
+    this.maxEntries = maxEntries;
+    this.entries = new Map();
+    this.inflight = new Map();
+  }
+
+  // Look up an entry. `getHead` is only called for entries that touch the
+  // head; a stale entry is dropped and null returned.
+  async get(key, getHead) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (!entry.final && (await getHead()) !== entry.headBlock) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Map iteration order doubles as LRU order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  // Store a result. `blockRange` is { from, to } or null when no blocks were
+  // read; `headBlock` is the head the query ran against.
+  set(key, { result, blockRange, headBlock }) {
+    if (result.rows.length > MAX_CACHED_ROWS) return null;
+
+    const final = Boolean(blockRange) && headBlock !== null && blockRange.to <= headBlock - FINALITY_DEPTH;
+    const entry = { result, blockRange, headBlock, final, cachedAt: new Date() };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+    return entry;
+  }
+
+  // Run `compute` once per key at a time; concurrent callers share the result
+  async dedupe(key, compute) {
+    if (!this.inflight.has(key)) {
+      const promise = compute().finally(() => this.inflight.delete(key));
+      this.inflight.set(key, promise);
+      return { value: await promise, shared: false };
+    }
+    return { value: await this.inflight.get(key), shared: true };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+// One cache per process, shared by every user
+const resultCache = new QueryResultCache();
+
+module.exports = {
+  QueryResultCache,
+  resultCache,
+  cacheKey,
+  normalizeAst,
+  FINALITY_DEPTH
+};
@@ -0,0 +1,117 @@
+const mongoose = require('mongoose');
+const IndexedBlock = require('../../models/IndexedBlock');
+const IndexedTransaction = require('../../models/IndexedTransaction');
+const IndexedReceipt = require('../../models/IndexedReceipt');
+const IndexedEvent = require('../../models/IndexedEvent');
+const IndexerState = require('../../models/IndexerState');
+const logger = require('../../utils/logger');
+const { normalizeFelt } = require('../../utils/starknet');
+
+// Read side of the chain index (see services/ChainIndexer.js). Tables ask
+// for the indexed range first and read the blocks inside it from Mongo; only
+// blocks outside it go to the node.
+
+// Projections leaving out the fields the index adds to table rows
+const BLOCK_FIELDS = '-_id -network';
+const ROW_FIELDS = '-_id -network -transaction_index';
+const EVENT_FIELDS = '-_id -network -selector';
+
+const ranges = new WeakMap();
+
+async function readIndexedRange(network) {
+  // Custom endpoints can point anywhere, so they are never indexed
+  if (network === 'custom' || mongoose.connection.readyState !== 1) return null;
+  try {
+    const state = await IndexerState.findOne({ network }).lean();
+    if (!state || state.firstBlock === null || state.lastBlock === null) return null;
+    return { from: state.firstBlock, to: state.lastBlock };
+  } catch (error) {
+    logger.warn('Could not read the chain index state:', { network, error: error.message });
+    return null;
+  }
+}
+
+// Blocks stored for the client's network as { from, to }, or null when there
+// are none. Memoised per client so every table in a query sees one range.
+function indexedRange(rpc) {
+  if (!ranges.has(rpc)) ranges.set(rpc, readIndexedRange(rpc.network));
+  return ranges.get(rpc);
+}
+
+const isIndexed = (range, number) => range !== null && number >= range.from && number <= range.to;
+
+// Felts as the index stores them; anything that isn't hex is left alone and
+// simply matches nothing
+const feltKey = (value) => (/^0x[0-9a-f]+$/i.test(value) ? normalizeFelt(value) : value);
+
+// Rows of several blocks in the order of `numbers`, each block's rows in
+// transaction order
+function inBlockOrder(numbers, rows) {
+  const byBlock = new Map(numbers.map(number => [number, []]));
+  for (const row of rows) byBlock.get(row.block_number)?.push(row);
+  return numbers.flatMap(number => byBlock.get(number));
+}
+
+async function indexedBlockRows(network, numbers) {
+  const rows = await IndexedBlock.find({ network, block_number: { $in: numbers } }).select(BLOCK_FIELDS).lean();
+  return inBlockOrder(numbers, rows);
+}
+
+async function indexedTransactionRows(network, numbers) {
+  const rows = await IndexedTransaction.find({ network, block_number: { $in: numbers } })
+    .sort({ block_number: 1, transaction_index: 1 })
+    .select(ROW_FIELDS)
+    .lean();
+  return inBlockOrder(numbers, rows);
+}
+
+async function indexedReceiptRows(network, numbers) {
+  const rows = await IndexedReceipt.find({ network, block_number: { $in: numbers } })
+    .sort({ block_number: 1, transaction_index: 1 })
+    .select(ROW_FIELDS)
+    .lean();
+  return inBlockOrder(numbers, rows);
+}
+
+// Indexed receipts of the given transactions, keyed by normalised hash
+async function indexedReceiptsByHash(network, hashes) {
+  const rows = await IndexedReceipt.find({ network, transaction_hash: { $in: hashes.map(feltKey) } })
+    .select(ROW_FIELDS)
+    .lean();
+  return new Map(rows.map(row => [feltKey(row.transaction_hash), row]));
+}
+
+// One page of events in blocks `from` to `to` in chain order, or newest
+// first with `newestFirst`, optionally from one contract and with one
+// selector. `after` is the last event of the previous page
+// ({ block_number, event_index }).
+async function indexedEvents(network, { from, to, address = null, selector = null, after = null, newestFirst = false, limit }) {
+  const filter = { network, block_number: { $gte: from, $lte: to } };
+  if (address) filter.from_address = feltKey(address);
+  if (selector) filter.selector = feltKey(selector);
+  if (after) {
+    const beyond = newestFirst ? '$lt' : '$gt';
+    filter.$or = [
+      { block_number: { [beyond]: after.block_number } },
+      { block_number: after.block_number, event_index: { [beyond]: after.event_index } }
+    ];
+  }
+  const direction = newestFirst ? -1 : 1;
+  return IndexedEvent.find(filter)
+    .sort({ block_number: direction, event_index: direction })
+    .limit(limit)
+    .select(EVENT_FIELDS)
+    .lean();
+}
+
+module.exports = {
+  readIndexedRange,
+  indexedRange,
+  isIndexed,
+  feltKey,
+  indexedBlockRows,
+  indexedTransactionRows,
+  indexedReceiptRows,
+  indexedReceiptsByHash,
+  indexedEvents
+};
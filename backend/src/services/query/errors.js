@@ -0,0 +1,44 @@
+// Errors raised by the query engine. They carry an HTTP status (400 unless
+// noted) so routes can hand them straight back to the client, along with the
+// source position.
+
+const describePosition = (position) => `line ${position.line}, column ${position.column}`;
+
+class QueryError extends Error {
+  constructor(message, position = null) {
+    super(position ? `${message} (${describePosition(position)})` : message);
+    this.name = 'QueryError';
+    this.statusCode = 400;
+    this.isOperational = true;
+    this.position = position;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+class QuerySyntaxError extends QueryError {
+  constructor(message, position) {
+    super(`Syntax error: ${message}`, position);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+// Raised inside a running query when its time budget runs out
+class QueryTimeoutError extends QueryError {
+  constructor(timeoutMs) {
+    super(`Query exceeded its ${Math.round(timeoutMs / 1000)}s time limit; narrow the block range or add a LIMIT`);
+    this.name = 'QueryTimeoutError';
+    this.statusCode = 408;
+  }
+}
+
+// Raised inside a running query when a user cancels it
+class QueryCancelledError extends QueryError {
+  constructor() {
+    super('Query was cancelled');
+    this.name = 'QueryCancelledError';
+    this.statusCode = 409;
+  }
+}
+
+module.exports = { QueryError, QuerySyntaxError, QueryTimeoutError, QueryCancelledError };
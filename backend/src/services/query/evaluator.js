@@ -0,0 +1,1034 @@
+const { QueryError } = require('./errors');
+const {
+  SCALAR_FUNCTIONS, AGGREGATE_FUNCTIONS, WINDOW_FUNCTIONS, VOLATILE_FUNCTIONS,
+  isAggregate, isWindowFunction, callScalar, callAggregate
+} = require('./functions');
+const {
+  toNumber, toBigInt, normalizeInteger, toText, isTruthy, compareValues, valueKey, Interval, toDate
+} = require('./values');
+
+const hasOwn = (obj, key) => Object.prototype.hasOwnProperty.call(obj, key);
+
+// ============================================
+// EXPRESSION EVALUATION
+// ============================================
+
+// A scope is what an expression is evaluated against:
+//   row    - { [qualifier]: sourceRow | null }
+//   meta   - { [qualifier]: Set(columnNames) } used to resolve identifiers
+//   group  - rows of the current group when aggregates are being computed
+//   output - projected values, so ORDER BY / HAVING can use select aliases
+//   windows - Map of window node -> value for this row, see computeWindows
+function evaluate(node, scope) {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      return resolveIdentifier(node, scope);
+
+    case 'unary':
+      return evaluateUnary(node, scope);
+
+    case 'binary':
+      return evaluateBinary(node, scope);
+
+    case 'function':
+      return evaluateFunction(node, scope);
+
+    case 'isNull': {
+      const value = evaluate(node.expr, scope);
+      const isNull = value === null || value === undefined;
+      return node.not ? !isNull : isNull;
+    }
+
+    case 'in': {
+      const value = evaluate(node.expr, scope);
+      if (value === null || value === undefined) return null;
+      let sawNull = false;
+      for (const item of node.list) {
+        const comparison = compareValues(value, evaluate(item, scope));
+        if (comparison === 0) return !node.not;
+        if (comparison === null) sawNull = true;
+      }
+      return sawNull ? null : node.not;
+    }
+
+    case 'between': {
+      const value = evaluate(node.expr, scope);
+      const low = compareValues(value, evaluate(node.low, scope));
+      const high = compareValues(value, evaluate(node.high, scope));
+      if (low === null || high === null) return null;
+      const inside = low >= 0 && high <= 0;
+      return node.not ? !inside : inside;
+    }
+
+    case 'like': {
+      const value = evaluate(node.expr, scope);
+      const pattern = evaluate(node.pattern, scope);
+      if (value === null || value === undefined || pattern === null || pattern === undefined) return null;
+      const matches = likeToRegExp(toText(pattern)).test(toText(value));
+      return node.not ? !matches : matches;
+    }
+
+    case 'case':
+      return evaluateCase(node, scope);
+
+    case 'cast':
+      return castValue(evaluate(node.expr, scope), node.targetType, node.pos);
+
+    case 'interval':
+      return new Interval(node.months, node.milliseconds);
+
+    case 'window':
+      if (!scope.windows || !scope.windows.has(node)) {
+        throw new QueryError('Window functions are only allowed in the SELECT list', node.pos);
+      }
+      return scope.windows.get(node);
+
+    default:
+      throw new QueryError(`Unsupported expression '${node.type}'`, node.pos);
+  }
+}
+
+function resolveIdentifier(node, scope) {
+  if (!node.table && scope.output && hasOwn(scope.output, node.name)) {
+    return scope.output[node.name];
+  }
+
+  if (node.table) {
+    const columns = scope.meta[node.table];
+    if (!columns) {
+      throw new QueryError(`Unknown table or alias '${node.table}'`, node.pos);
+    }
+    if (!columns.has(node.name)) {
+      throw new QueryError(`Unknown column '${node.table}.${node.name}'`, node.pos);
+    }
+    return readColumn(scope.row[node.table], node.name);
+  }
+
+  const owners = Object.keys(scope.meta).filter(qualifier => scope.meta[qualifier].has(node.name));
+  if (owners.length === 0) {
+    throw new QueryError(`Unknown column '${node.name}'`, node.pos);
+  }
+  if (owners.length > 1) {
+    throw new QueryError(`Column '${node.name}' is ambiguous; qualify it with one of: ${owners.join(', ')}`, node.pos);
+  }
+  return readColumn(scope.row[owners[0]], node.name);
+}
+
+function readColumn(row, name) {
+  if (!row || row[name] === undefined) return null;
+  return row[name];
+}
+
+// SQL three-valued logic: true, false or null (unknown)
+function toBoolean(value) {
+  if (value === null || value === undefined) return null;
+  return isTruthy(value);
+}
+
+function evaluateUnary(node, scope) {
+  const value = evaluate(node.operand, scope);
+  if (node.operator === 'NOT') {
+    const bool = toBoolean(value);
+    return bool === null ? null : !bool;
+  }
+  if (value === null || value === undefined) return null;
+  if (value instanceof Interval) return value.times(-1);
+  const integer = toBigInt(value);
+  if (integer !== null) return normalizeInteger(-integer);
+  return -requireNumber(value, node);
+}
+
+function evaluateBinary(node, scope) {
+  const { operator } = node;
+
+  if (operator === 'AND') {
+    const left = toBoolean(evaluate(node.left, scope));
+    if (left === false) return false;
+    const right = toBoolean(evaluate(node.right, scope));
+    if (right === false) return false;
+    return left === null || right === null ? null : true;
+  }
+
+  if (operator === 'OR') {
+    const left = toBoolean(evaluate(node.left, scope));
+    if (left === true) return true;
+    const right = toBoolean(evaluate(node.right, scope));
+    if (right === true) return true;
+    return left === null || right === null ? null : false;
+  }
+
+  const left = evaluate(node.left, scope);
+  const right = evaluate(node.right, scope);
+
+  switch (operator) {
+    case '=':
+    case '<>':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const comparison = compareValues(left, right);
+      if (comparison === null) return null;
+      if (operator === '=') return comparison === 0;
+      if (operator === '<>') return comparison !== 0;
+      if (operator === '<') return comparison < 0;
+      if (operator === '<=') return comparison <= 0;
+      if (operator === '>') return comparison > 0;
+      return comparison >= 0;
+    }
+
+    case '||':
+      if (left === null || right === null) return null;
+      return toText(left) + toText(right);
+
+    default:
+      break;
+  }
+
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+
+  if (left instanceof Interval || right instanceof Interval) {
+    return intervalArithmetic(operator, left, right, node);
+  }
+
+  // Felts and u256 amounts exceed double precision, so integers are
+  // combined as BigInts and only fractions fall back to floating point
+  const leftInteger = toBigInt(left);
+  const rightInteger = toBigInt(right);
+  if (leftInteger !== null && rightInteger !== null) {
+    return integerArithmetic(operator, leftInteger, rightInteger, node);
+  }
+
+  const a = requireNumber(left, node);
+  const b = requireNumber(right, node);
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/':
+      if (b === 0) throw new QueryError('Division by zero', node.pos);
+      return a / b;
+    case '%':
+      if (b === 0) throw new QueryError('Division by zero', node.pos);
+      return a % b;
+    default:
+      throw new QueryError(`Unsupported operator '${operator}'`, node.pos);
+  }
+}
+
+// timestamp ± interval, interval ± interval and interval * number
+function intervalArithmetic(operator, left, right, node) {
+  if (left instanceof Interval && right instanceof Interval && (operator === '+' || operator === '-')) {
+    return left.plus(right, operator === '-' ? -1 : 1);
+  }
+  if (operator === '*') {
+    const [interval, factor] = left instanceof Interval ? [left, right] : [right, left];
+    if (!(factor instanceof Interval)) return interval.times(requireNumber(factor, node));
+  }
+  if (right instanceof Interval && (operator === '+' || operator === '-')) {
+    return right.shift(requireTimestamp(left, node), operator === '-' ? -1 : 1);
+  }
+  if (left instanceof Interval && operator === '+') {
+    return left.shift(requireTimestamp(right, node));
+  }
+  throw new QueryError(`Cannot use '${operator}' with ${toText(left)} and ${toText(right)}`, node.pos);
+}
+
+function requireTimestamp(value, node) {
+  const date = toDate(value);
+  if (!date) {
+    throw new QueryError(`Cannot use non-timestamp value '${toText(value)}' with an interval`, node.pos);
+  }
+  return date;
+}
+
+function integerArithmetic(operator, a, b, node) {
+  switch (operator) {
+    case '+': return normalizeInteger(a + b);
+    case '-': return normalizeInteger(a - b);
+    case '*': return normalizeInteger(a * b);
+    case '/':
+      if (b === 0n) throw new QueryError('Division by zero', node.pos);
+      // Exact when it divides evenly, like 10 / 2; otherwise a fraction
+      return a % b === 0n ? normalizeInteger(a / b) : Number(a) / Number(b);
+    case '%':
+      if (b === 0n) throw new QueryError('Division by zero', node.pos);
+      return normalizeInteger(a % b);
+    default:
+      throw new QueryError(`Unsupported operator '${operator}'`, node.pos);
+  }
+}
+
+function requireNumber(value, node) {
+  const number = toNumber(value);
+  if (Number.isNaN(number)) {
+    throw new QueryError(`Cannot use non-numeric value '${toText(value)}' with '${node.operator}'`, node.pos);
+  }
+  return number;
+}
+
+function evaluateFunction(node, scope) {
+  if (isAggregate(node.name)) {
+    if (!scope.group) {
+      throw new QueryError(`Aggregate function ${node.name} is not allowed here`, node.pos);
+    }
+    if (!node.star && node.args.length !== 1) {
+      throw new QueryError(`Function ${node.name} expects exactly one argument`, node.pos);
+    }
+    const values = node.star
+      ? scope.group.map(() => 1)
+      : scope.group.map(row => evaluate(node.args[0], { row, meta: scope.meta }));
+    return callAggregate(node, values);
+  }
+
+  if (node.star) {
+    throw new QueryError(`Function ${node.name} does not accept '*'`, node.pos);
+  }
+  return callScalar(node, node.args.map(arg => evaluate(arg, scope)));
+}
+
+function evaluateCase(node, scope) {
+  const operand = node.operand ? evaluate(node.operand, scope) : undefined;
+  for (const clause of node.whenClauses) {
+    const matched = node.operand
+      ? compareValues(operand, evaluate(clause.when, scope)) === 0
+      : toBoolean(evaluate(clause.when, scope)) === true;
+    if (matched) return evaluate(clause.then, scope);
+  }
+  return node.else ? evaluate(node.else, scope) : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function castValue(value, targetType, pos) {
+  if (value === null || value === undefined) return null;
+
+  switch (targetType) {
+    case 'INT':
+    case 'INTEGER':
+    case 'BIGINT': {
+      const integer = typeof value === 'boolean' ? null : toBigInt(value);
+      if (integer !== null) return normalizeInteger(integer);
+      const number = toNumber(value);
+      if (Number.isNaN(number)) throw new QueryError(`Cannot cast '${toText(value)}' to ${targetType}`, pos);
+      return Math.trunc(number);
+    }
+    case 'DECIMAL':
+    case 'NUMERIC':
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL': {
+      const number = toNumber(value);
+      if (Number.isNaN(number)) throw new QueryError(`Cannot cast '${toText(value)}' to ${targetType}`, pos);
+      return number;
+    }
+    case 'TEXT':
+    case 'VARCHAR':
+    case 'CHAR':
+    case 'STRING':
+      return toText(value);
+    case 'BOOL':
+    case 'BOOLEAN':
+      return isTruthy(value);
+    case 'TIMESTAMP':
+    case 'DATETIME':
+    case 'DATE': {
+      const date = toDate(value);
+      if (!date) throw new QueryError(`Cannot cast '${toText(value)}' to ${targetType}`, pos);
+      return targetType === 'DATE' ? new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS) : date;
+    }
+    default:
+      throw new QueryError(`Unsupported CAST target type '${targetType}'`, pos);
+  }
+}
+
+function likeToRegExp(pattern) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\*]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 's');
+}
+
+// ============================================
+// JOINS
+// ============================================
+
+// Upper bound on ON evaluations for joins that have no equality key to hash on
+const MAX_JOIN_COMPARISONS = 5000000;
+
+// `left.col = right.col` terms of an ON clause's AND chain, where one side
+// belongs to the relation built so far and the other to the joined table.
+function joinKeys(on, leftMeta, rightQualifier, rightColumns) {
+  if (!on || on.type !== 'binary') return [];
+  if (on.operator === 'AND') {
+    return [
+      ...joinKeys(on.left, leftMeta, rightQualifier, rightColumns),
+      ...joinKeys(on.right, leftMeta, rightQualifier, rightColumns)
+    ];
+  }
+  if (on.operator !== '=' || on.left.type !== 'identifier' || on.right.type !== 'identifier') return [];
+
+  const side = (node) => {
+    if (node.table) {
+      if (node.table === rightQualifier) return rightColumns.has(node.name) ? 'right' : null;
+      return leftMeta[node.table] && leftMeta[node.table].has(node.name) ? 'left' : null;
+    }
+    const inLeft = Object.values(leftMeta).some(columns => columns.has(node.name));
+    const inRight = rightColumns.has(node.name);
+    if (inLeft === inRight) return null;
+    return inLeft ? 'left' : 'right';
+  };
+
+  const leftSide = side(on.left);
+  const rightSide = side(on.right);
+  if (leftSide === 'left' && rightSide === 'right') return [{ left: on.left, right: on.right.name }];
+  if (leftSide === 'right' && rightSide === 'left') return [{ left: on.right, right: on.left.name }];
+  return [];
+}
+
+// Join `rows` of one more table onto a relation. Equality terms in the ON
+// clause are used to hash the right side; the full ON condition is still
+// evaluated for every candidate pair so any extra terms are honoured.
+//   join     - { kind: 'INNER' | 'LEFT', on, pos }
+//   source   - { qualifier, columns: [names] }
+function joinRelation(relation, join, source, rows) {
+  const { qualifier } = source;
+
+  const qualifiers = [...relation.qualifiers, qualifier];
+  const columns = { ...relation.columns, [qualifier]: source.columns };
+  const meta = {};
+  for (const name of qualifiers) {
+    meta[name] = new Set(columns[name]);
+  }
+  const leftMeta = { ...meta };
+  delete leftMeta[qualifier];
+
+  if (containsAggregate(join.on)) {
+    throw new QueryError('Aggregate functions are not allowed in ON', join.on.pos);
+  }
+
+  const keys = joinKeys(join.on, leftMeta, qualifier, meta[qualifier]);
+  let candidatesFor;
+  if (keys.length > 0) {
+    const index = new Map();
+    for (const row of rows) {
+      const values = keys.map(key => readColumn(row, key.right));
+      if (values.some(value => value === null)) continue;
+      const key = values.map(valueKey).join('|');
+      if (!index.has(key)) index.set(key, []);
+      index.get(key).push(row);
+    }
+    candidatesFor = (leftRow) => {
+      const values = keys.map(key => evaluate(key.left, { row: leftRow, meta: leftMeta }));
+      if (values.some(value => value === null || value === undefined)) return [];
+      return index.get(values.map(valueKey).join('|')) || [];
+    };
+  } else {
+    if (relation.rows.length * rows.length > MAX_JOIN_COMPARISONS) {
+      throw new QueryError(
+        `Join of ${relation.rows.length.toLocaleString()} x ${rows.length.toLocaleString()} rows is too large without an equality condition in ON`,
+        join.pos
+      );
+    }
+    candidatesFor = () => rows;
+  }
+
+  const joined = [];
+  for (const leftRow of relation.rows) {
+    let matched = false;
+    for (const rightRow of candidatesFor(leftRow)) {
+      const row = { ...leftRow, [qualifier]: rightRow };
+      if (toBoolean(evaluate(join.on, { row, meta })) === true) {
+        joined.push(row);
+        matched = true;
+      }
+    }
+    if (!matched && join.kind === 'LEFT') {
+      joined.push({ ...leftRow, [qualifier]: null });
+    }
+  }
+
+  return { qualifiers, columns, rows: joined };
+}
+
+// ============================================
+// SELECT EXECUTION
+// ============================================
+
+function containsAggregate(node) {
+  if (!node || typeof node !== 'object') return false;
+  if (node.type === 'function' && isAggregate(node.name)) return true;
+  return Object.values(node).some(child =>
+    Array.isArray(child) ? child.some(containsAggregate) : containsAggregate(child)
+  );
+}
+
+function containsWindow(node) {
+  if (!node || typeof node !== 'object') return false;
+  if (node.type === 'window') return true;
+  return Object.values(node).some(child =>
+    Array.isArray(child) ? child.some(containsWindow) : containsWindow(child)
+  );
+}
+
+// Calls to functions like NOW() make a result depend on when it was run
+function containsVolatile(node) {
+  if (!node || typeof node !== 'object') return false;
+  if (node.type === 'function' && VOLATILE_FUNCTIONS.has(node.name)) return true;
+  return Object.values(node).some(child =>
+    Array.isArray(child) ? child.some(containsVolatile) : containsVolatile(child)
+  );
+}
+
+function deriveColumnName(expr, index) {
+  if (expr.type === 'identifier') return expr.name;
+  if (expr.type === 'function' || expr.type === 'window') return expr.name.toLowerCase();
+  if (expr.type === 'cast') return deriveColumnName(expr.expr, index);
+  return `column_${index + 1}`;
+}
+
+// Build the list of output columns, expanding `*` and `alias.*`
+function planProjection(ast, relation) {
+  const projection = [];
+  const used = new Map();
+
+  const addColumn = (name, compute, windowed = false) => {
+    const count = used.get(name) || 0;
+    used.set(name, count + 1);
+    projection.push({ name: count === 0 ? name : `${name}_${count + 1}`, compute, windowed });
+  };
+
+  ast.columns.forEach((item, index) => {
+    if (item.type === 'star') {
+      const qualifiers = item.table ? [item.table] : relation.qualifiers;
+      for (const qualifier of qualifiers) {
+        const columns = relation.columns[qualifier];
+        if (!columns) {
+          throw new QueryError(`Unknown table or alias '${qualifier}'`, item.pos);
+        }
+        for (const column of columns) {
+          addColumn(column, scope => readColumn(scope.row[qualifier], column));
+        }
+      }
+      return;
+    }
+
+    addColumn(item.alias || deriveColumnName(item.expr, index), scope => evaluate(item.expr, scope), containsWindow(item.expr));
+  });
+
+  return projection;
+}
+
+function sortValue(item, entry, projection) {
+  // ORDER BY 2 refers to the second output column
+  if (item.expr.type === 'literal' && Number.isInteger(item.expr.value)) {
+    const column = projection[item.expr.value - 1];
+    if (!column) {
+      throw new QueryError(`ORDER BY position ${item.expr.value} is not in the select list`, item.expr.pos);
+    }
+    return entry.output[column.name];
+  }
+  return evaluate(item.expr, { ...entry.scope, output: entry.output });
+}
+
+// GROUP BY expressions with positions and select aliases replaced by the
+// select-list expression they refer to, so GROUP BY 1 groups on the first
+// column and GROUP BY day on `DATE_TRUNC('day', timestamp) AS day`. Like
+// HAVING, an alias wins over a table column of the same name unless it
+// names an aggregate.
+function groupExpressions(ast) {
+  return ast.groupBy.map(expr => {
+    if (expr.type === 'identifier' && !expr.table) {
+      const aliased = ast.columns.find(item => item.type === 'column' && item.alias === expr.name);
+      return aliased && !containsAggregate(aliased.expr) && !containsWindow(aliased.expr) ? aliased.expr : expr;
+    }
+    if (expr.type !== 'literal' || !Number.isInteger(expr.value)) return expr;
+    const item = ast.columns[expr.value - 1];
+    if (!item) {
+      throw new QueryError(`GROUP BY position ${expr.value} is not in the select list`, expr.pos);
+    }
+    if (item.type === 'star') {
+      throw new QueryError(`GROUP BY position ${expr.value} refers to '*'; name the columns instead`, expr.pos);
+    }
+    if (containsAggregate(item.expr)) {
+      throw new QueryError(`GROUP BY position ${expr.value} refers to an aggregate`, expr.pos);
+    }
+    return item.expr;
+  });
+}
+
+function compareForSort(a, b) {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+  return compareValues(a, b);
+}
+
+// ============================================
+// WINDOW FUNCTIONS
+// ============================================
+
+// Window nodes in `node`, outermost first
+function collectWindows(node, found = []) {
+  if (!node || typeof node !== 'object') return found;
+  if (node.type === 'window') found.push(node);
+  for (const child of Object.values(node)) {
+    if (Array.isArray(child)) child.forEach(item => collectWindows(item, found));
+    else collectWindows(child, found);
+  }
+  return found;
+}
+
+// Evaluate every window function of the select list for every entry and
+// store the results in each entry's scope.windows, where `evaluate` finds
+// them. PARTITION BY and ORDER BY may use select aliases.
+function computeWindows(entries, exprs) {
+  for (const entry of entries) {
+    entry.scope.windows = new Map();
+  }
+
+  for (const node of exprs.flatMap(expr => collectWindows(expr))) {
+    const partitions = new Map();
+    for (const entry of entries) {
+      const scope = { ...entry.scope, output: entry.output };
+      const key = node.partitionBy.map(expr => valueKey(evaluate(expr, scope))).join('|');
+      if (!partitions.has(key)) partitions.set(key, []);
+      partitions.get(key).push({ entry, scope, keys: node.orderBy.map(item => evaluate(item.expr, scope)) });
+    }
+
+    for (const rows of partitions.values()) {
+      // Array.prototype.sort is stable, so ties keep their input order
+      rows.sort((a, b) => {
+        for (let i = 0; i < node.orderBy.length; i++) {
+          const comparison = compareForSort(a.keys[i], b.keys[i]);
+          if (comparison !== 0) return node.orderBy[i].direction === 'DESC' ? -comparison : comparison;
+        }
+        return 0;
+      });
+      const values = windowValues(node, rows);
+      rows.forEach((row, index) => row.entry.scope.windows.set(node, values[index]));
+    }
+  }
+}
+
+const isPeer = (a, b) => a.keys.every((key, i) => compareForSort(key, b.keys[i]) === 0);
+
+// Results of one window function over one sorted partition
+function windowValues(node, rows) {
+  const count = rows.length;
+
+  switch (node.name) {
+    case 'ROW_NUMBER':
+      return rows.map((row, index) => index + 1);
+
+    case 'RANK':
+    case 'DENSE_RANK': {
+      const ranks = [];
+      let rank = 0;
+      rows.forEach((row, index) => {
+        if (index === 0 || !isPeer(row, rows[index - 1])) {
+          rank = node.name === 'RANK' ? index + 1 : rank + 1;
+        }
+        ranks.push(rank);
+      });
+      return ranks;
+    }
+
+    case 'LAG':
+    case 'LEAD': {
+      const direction = node.name === 'LAG' ? -1 : 1;
+      return rows.map((row, index) => {
+        const offset = node.args[1] ? toNumber(evaluate(node.args[1], row.scope)) : 1;
+        if (!Number.isInteger(offset) || offset < 0) {
+          throw new QueryError(`${node.name} offset must be a non-negative integer`, node.pos);
+        }
+        const target = rows[index + direction * offset];
+        if (target) return evaluate(node.args[0], target.scope);
+        return node.args[2] ? evaluate(node.args[2], row.scope) : null;
+      });
+    }
+
+    default:
+      break;
+  }
+
+  // Aggregate over each row's frame. Without ROWS, the frame is the whole
+  // partition, or with ORDER BY everything up to the row and its peers.
+  const values = rows.map(row => (node.star ? 1 : evaluate(node.args[0], row.scope)));
+  const frameEnd = (index) => {
+    if (node.frame) return node.frame.end === null ? count - 1 : Math.min(index + node.frame.end, count - 1);
+    if (node.orderBy.length === 0) return count - 1;
+    let end = index;
+    while (end + 1 < count && isPeer(rows[end + 1], rows[index])) end++;
+    return end;
+  };
+
+  if (node.frame && node.frame.start !== null) {
+    return rows.map((row, index) => {
+      const start = Math.max(index + node.frame.start, 0);
+      const end = frameEnd(index);
+      return AGGREGATE_FUNCTIONS[node.name](start > end ? [] : values.slice(start, end + 1));
+    });
+  }
+
+  // Frames that start at the partition's first row only ever grow, so they
+  // are accumulated instead of recomputed for every row
+  const running = runningAggregate(node.name);
+  const results = [];
+  let added = 0;
+  for (let index = 0; index < count; index++) {
+    const end = frameEnd(index);
+    while (added <= end) running.add(values[added++]);
+    results.push(running.value());
+  }
+  return results;
+}
+
+// Incremental COUNT, SUM, AVG, MIN and MAX with the same results as
+// AGGREGATE_FUNCTIONS, including exact sums of integers
+function runningAggregate(name) {
+  let count = 0;
+  let exactSum = 0n;
+  let exact = true;
+  let sum = 0;
+  let best = null;
+
+  return {
+    add(value) {
+      if (value === null || value === undefined) return;
+      count++;
+      const integer = typeof value === 'boolean' ? null : toBigInt(value);
+      if (integer === null) exact = false;
+      else exactSum += integer;
+      sum += toNumber(value);
+      const comparison = best === null ? null : compareValues(value, best);
+      if (best === null || (name === 'MIN' ? comparison < 0 : comparison > 0)) best = value;
+    },
+    value() {
+      switch (name) {
+        case 'COUNT': return count;
+        case 'SUM': return count === 0 ? null : exact ? normalizeInteger(exactSum) : sum;
+        case 'AVG': return count === 0 ? null : (exact ? Number(exactSum) : sum) / count;
+        default: return best;
+      }
+    }
+  };
+}
+
+// Run a parsed SELECT over an in-memory relation.
+//   relation.qualifiers - source names in FROM order
+//   relation.columns    - { [qualifier]: [columnNames] }
+//   relation.rows       - [{ [qualifier]: sourceRow }]
+function executeSelect(ast, relation) {
+  const meta = {};
+  for (const qualifier of relation.qualifiers) {
+    meta[qualifier] = new Set(relation.columns[qualifier]);
+  }
+
+  let rows = relation.rows;
+  if (ast.where) {
+    if (containsAggregate(ast.where)) {
+      throw new QueryError('Aggregate functions are not allowed in WHERE', ast.where.pos);
+    }
+    rows = rows.filter(row => toBoolean(evaluate(ast.where, { row, meta })) === true);
+  }
+
+  const aggregated =
+    ast.groupBy.length > 0 ||
+    ast.columns.some(item => item.type === 'column' && containsAggregate(item.expr)) ||
+    Boolean(ast.having && containsAggregate(ast.having)) ||
+    ast.orderBy.some(item => containsAggregate(item.expr));
+
+  let scopes;
+  if (aggregated) {
+    const groups = new Map();
+    if (ast.groupBy.length === 0) {
+      groups.set('all', rows);
+    } else {
+      const keys = groupExpressions(ast);
+      for (const row of rows) {
+        const key = keys.map(expr => valueKey(evaluate(expr, { row, meta }))).join('|');
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key).push(row);
+      }
+    }
+
+    const emptyRow = Object.fromEntries(relation.qualifiers.map(qualifier => [qualifier, null]));
+    scopes = [...groups.values()].map(group => ({ row: group[0] || emptyRow, group, meta }));
+  } else {
+    scopes = rows.map(row => ({ row, meta }));
+  }
+
+  // Columns with window functions are filled in once HAVING has settled
+  // which rows remain, since a window sees every row of its partition
+  const projection = planProjection(ast, relation);
+  let entries = scopes.map(scope => {
+    const output = {};
+    for (const column of projection) {
+      output[column.name] = column.windowed ? null : column.compute(scope);
+    }
+    return { scope, output };
+  });
+
+  if (ast.having) {
+    if (!aggregated) {
+      throw new QueryError('HAVING requires GROUP BY or an aggregate function', ast.having.pos);
+    }
+    entries = entries.filter(entry =>
+      toBoolean(evaluate(ast.having, { ...entry.scope, output: entry.output })) === true
+    );
+  }
+
+  const windowed = projection.filter(column => column.windowed);
+  if (windowed.length > 0) {
+    computeWindows(entries, ast.columns.filter(item => item.type === 'column').map(item => item.expr));
+    for (const entry of entries) {
+      for (const column of windowed) {
+        entry.output[column.name] = column.compute(entry.scope);
+      }
+    }
+  }
+
+  if (ast.distinct) {
+    const seen = new Set();
+    entries = entries.filter(entry => {
+      const key = projection.map(column => valueKey(entry.output[column.name])).join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (ast.orderBy.length > 0) {
+    const keyed = entries.map(entry => ({
+      entry,
+      keys: ast.orderBy.map(item => sortValue(item, entry, projection))
+    }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < ast.orderBy.length; i++) {
+        const comparison = compareForSort(a.keys[i], b.keys[i]);
+        if (comparison !== 0) {
+          return ast.orderBy[i].direction === 'DESC' ? -comparison : comparison;
+        }
+      }
+      return 0;
+    });
+    entries = keyed.map(item => item.entry);
+  }
+
+  const start = ast.offset || 0;
+  const end = ast.limit === null ? undefined : start + ast.limit;
+  entries = entries.slice(start, end);
+
+  return {
+    columns: projection.map(column => column.name),
+    rows: entries.map(entry => entry.output)
+  };
+}
+
+// ============================================
+// STATIC CHECKS
+// ============================================
+
+// Resolve every column, table alias and function a statement refers to
+// against the sources' declared columns, using the same rules as evaluation,
+// so mistakes are reported before any table is scanned.
+//   sources - [{ qualifier, columns: [names] }] in FROM/JOIN order
+function checkReferences(ast, sources) {
+  const meta = {};
+  const visible = (count) => Object.fromEntries(
+    sources.slice(0, count).map(source => [source.qualifier, meta[source.qualifier]])
+  );
+  for (const source of sources) {
+    meta[source.qualifier] = new Set(source.columns);
+  }
+
+  // HAVING and ORDER BY may also use select aliases
+  const output = {};
+  ast.columns.forEach((item, index) => {
+    if (item.type === 'column') output[item.alias || deriveColumnName(item.expr, index)] = null;
+  });
+
+  const visit = (node, scope) => {
+    if (Array.isArray(node)) {
+      node.forEach(child => visit(child, scope));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    if (node.type === 'identifier') {
+      resolveIdentifier(node, scope);
+      return;
+    }
+
+    if (node.type === 'window') {
+      checkWindow(node);
+      visit(node.args, scope);
+      // PARTITION BY and ORDER BY may also use select aliases
+      visit(node.partitionBy, { ...scope, output });
+      node.orderBy.forEach(item => visit(item.expr, { ...scope, output }));
+      return;
+    }
+
+    if (node.type === 'function') {
+      if (isWindowFunction(node.name)) {
+        throw new QueryError(`${node.name} needs an OVER clause, e.g. ${node.name}() OVER (ORDER BY block_number)`, node.pos);
+      }
+      if (isAggregate(node.name)) {
+        if (!node.star && node.args.length !== 1) {
+          throw new QueryError(`Function ${node.name} expects exactly one argument`, node.pos);
+        }
+      } else {
+        const definition = SCALAR_FUNCTIONS[node.name];
+        if (!definition) {
+          throw new QueryError(`Unknown function '${node.name}'`, node.pos);
+        }
+        if (node.star) {
+          throw new QueryError(`Function ${node.name} does not accept '*'`, node.pos);
+        }
+        const [min, max] = definition.args;
+        if (node.args.length < min || node.args.length > max) {
+          throw new QueryError(`Function ${node.name} called with ${node.args.length} argument(s)`, node.pos);
+        }
+      }
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== 'pos') visit(child, scope);
+    }
+  };
+
+  // Windows are computed after grouping and HAVING, over the select list
+  const noWindows = (node, clause, hint = 'use them in the SELECT list') => {
+    const [window] = collectWindows(node);
+    if (window) {
+      throw new QueryError(`Window functions are not allowed in ${clause}; ${hint}`, window.pos);
+    }
+  };
+  noWindows(ast.where, 'WHERE');
+  const groupBy = groupExpressions(ast);
+  noWindows(groupBy, 'GROUP BY');
+  noWindows(ast.having, 'HAVING');
+  noWindows(ast.joins, 'JOIN conditions');
+  noWindows(ast.orderBy, 'ORDER BY', 'select the window with an alias and order by that');
+
+  const rowScope = { row: {}, meta };
+  for (const item of ast.columns) {
+    if (item.type === 'star') {
+      if (item.table && !meta[item.table]) {
+        throw new QueryError(`Unknown table or alias '${item.table}'`, item.pos);
+      }
+    } else {
+      visit(item.expr, rowScope);
+    }
+  }
+  // An ON clause only sees the tables joined so far
+  ast.joins.forEach((join, i) => visit(join.on, { row: {}, meta: visible(i + 2) }));
+  visit(ast.where, rowScope);
+  visit(groupBy, rowScope);
+  visit(ast.having, { ...rowScope, output });
+  ast.orderBy.forEach(item => visit(item.expr, { ...rowScope, output }));
+}
+
+function checkWindow(node) {
+  const definition = WINDOW_FUNCTIONS[node.name];
+  if (!definition && !isAggregate(node.name)) {
+    throw new QueryError(`'${node.name}' cannot be used with OVER`, node.pos);
+  }
+  if (node.distinct) {
+    throw new QueryError('DISTINCT is not supported in window functions', node.pos);
+  }
+  if (node.star) {
+    if (node.name !== 'COUNT') throw new QueryError(`Function ${node.name} does not accept '*'`, node.pos);
+    return;
+  }
+  const [min, max] = definition ? definition.args : [1, 1];
+  if (node.args.length < min || node.args.length > max) {
+    throw new QueryError(`Function ${node.name} called with ${node.args.length} argument(s)`, node.pos);
+  }
+  for (const arg of node.args) {
+    if (containsWindow(arg)) {
+      throw new QueryError('Window functions cannot be nested', node.pos);
+    }
+  }
+}
+
+const CAST_TYPES = {
+  INT: 'integer', INTEGER: 'integer', BIGINT: 'integer',
+  DECIMAL: 'number', NUMERIC: 'number', FLOAT: 'number', DOUBLE: 'number', REAL: 'number',
+  TEXT: 'text', VARCHAR: 'text', CHAR: 'text', STRING: 'text',
+  BOOL: 'boolean', BOOLEAN: 'boolean',
+  TIMESTAMP: 'timestamp', DATETIME: 'timestamp', DATE: 'timestamp'
+};
+
+// Declared type of each output column, in output order, named the way
+// executeSelect names them. Plain column references (and `*`) keep their
+// table column's type, casts and COUNT have a known type; anything else is
+// null and left to the caller to infer from the values.
+//   sources - [{ qualifier, table }] in FROM/JOIN order
+function outputColumnTypes(ast, sources) {
+  const types = {};
+  for (const source of sources) {
+    types[source.qualifier] = Object.fromEntries(source.table.columns.map(column => [column.name, column.type]));
+  }
+
+  const typeOf = (expr) => {
+    switch (expr.type) {
+      case 'identifier': {
+        if (expr.table) return types[expr.table]?.[expr.name] || null;
+        const owner = sources.find(source => hasOwn(types[source.qualifier], expr.name));
+        return owner ? types[owner.qualifier][expr.name] : null;
+      }
+      case 'cast':
+        return CAST_TYPES[expr.targetType] || null;
+      case 'window':
+        if (expr.name === 'COUNT') return 'integer';
+        if (['LAG', 'LEAD', 'MIN', 'MAX'].includes(expr.name)) return typeOf(expr.args[0]);
+        return WINDOW_FUNCTIONS[expr.name]?.type || null;
+      case 'function': {
+        const name = expr.name.toUpperCase();
+        if (name === 'COUNT') return 'integer';
+        if ((name === 'MIN' || name === 'MAX') && expr.args.length === 1) return typeOf(expr.args[0]);
+        return SCALAR_FUNCTIONS[name]?.type || null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const result = [];
+  const used = new Map();
+  const addColumn = (name, type) => {
+    const count = used.get(name) || 0;
+    used.set(name, count + 1);
+    result.push({ name: count === 0 ? name : `${name}_${count + 1}`, type });
+  };
+
+  ast.columns.forEach((item, index) => {
+    if (item.type === 'star') {
+      const qualifiers = item.table ? [item.table] : sources.map(source => source.qualifier);
+      for (const qualifier of qualifiers) {
+        for (const [name, type] of Object.entries(types[qualifier] || {})) addColumn(name, type);
+      }
+      return;
+    }
+    addColumn(item.alias || deriveColumnName(item.expr, index), typeOf(item.expr));
+  });
+
+  return result;
+}
+
+module.exports = {
+  evaluate,
+  executeSelect,
+  checkReferences,
+  outputColumnTypes,
+  joinRelation,
+  joinKeys,
+  containsAggregate,
+  containsWindow,
+  containsVolatile,
+  castValue
+};
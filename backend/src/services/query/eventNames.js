@@ -0,0 +1,47 @@
+const { getSelectorFromName } = require('../../utils/starknet');
+
+// Event names we can recognise from keys[0]. Cairo 1 components emit the
+// variant name as the selector, so the same list covers both Cairo versions.
+const KNOWN_EVENT_NAMES = [
+  'Transfer',
+  'Approval',
+  'Swap',
+  'Sync',
+  'Mint',
+  'Burn',
+  'Deposit',
+  'Withdraw',
+  'Withdrawal',
+  'OwnershipTransferred',
+  'Upgraded',
+  'RoleGranted',
+  'RoleRevoked',
+  'TransactionExecuted',
+  'AccountCreated',
+  'ContractDeployed',
+  'PairCreated',
+  'PoolCreated',
+  'Staked',
+  'Unstaked',
+  'Claimed',
+  'Paused',
+  'Unpaused'
+];
+
+const NAMES_BY_SELECTOR = new Map(
+  KNOWN_EVENT_NAMES.map(name => [BigInt(getSelectorFromName(name)), name])
+);
+
+// Decode an event selector. `extra` maps additional selectors to names, e.g.
+// a name the query filtered on that is not in the built-in list.
+function decodeEventName(selector, extra = null) {
+  if (!selector) return null;
+  const key = BigInt(selector);
+  if (extra && extra.has(key)) return extra.get(key);
+  return NAMES_BY_SELECTOR.get(key) || null;
+}
+
+module.exports = {
+  KNOWN_EVENT_NAMES,
+  decodeEventName
+};
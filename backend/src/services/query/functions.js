@@ -0,0 +1,427 @@
+const { QueryError } = require('./errors');
+const {
+  HEX_PATTERN, toNumber, toBigInt, normalizeInteger, toText, compareValues, valueKey,
+  Interval, parseInterval, normalizeUnit, toDate
+} = require('./values');
+const { getSelectorFromName, FIELD_PRIME } = require('../../utils/starknet');
+
+const U128_LIMIT = 1n << 128n;
+
+// Integer arguments of the Starknet functions, which must not be rounded
+function requireInteger(value, name, node) {
+  const integer = toBigInt(value);
+  if (integer === null) {
+    throw new QueryError(`${name} expects an integer or hex value, got '${toText(value)}'`, node.pos);
+  }
+  return integer;
+}
+
+// Cairo short strings pack up to 31 ASCII characters into a felt, big-endian.
+// Zero bytes are padding and are dropped.
+function feltToString(felt) {
+  let text = '';
+  for (let rest = felt; rest > 0n; rest >>= 8n) {
+    const byte = Number(rest & 0xffn);
+    if (byte !== 0) text = String.fromCharCode(byte) + text;
+  }
+  return text;
+}
+
+// Amount in base units scaled down by `decimals`, e.g. wei to ETH, as exact
+// decimal text ('1234.5'). The division is done on the decimal digits, so
+// no digit of a u256 amount is rounded away; the text still compares and
+// adds up as a number.
+function toUnits(amount, decimals) {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Timestamp argument of the date functions
+function requireDate(value, name, node) {
+  const date = toDate(value);
+  if (!date) {
+    throw new QueryError(`${name} expects a timestamp, got '${toText(value)}'`, node.pos);
+  }
+  return date;
+}
+
+function requireInterval(value, name, node) {
+  const interval = value instanceof Interval ? value : parseInterval(toText(value));
+  if (!interval) {
+    throw new QueryError(`${name} expects an interval such as '1 day', got '${toText(value)}'`, node.pos);
+  }
+  return interval;
+}
+
+// Start of the `unit` containing `date`, in UTC. Weeks start on Monday.
+function truncateDate(date, unit) {
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case 'year':
+      result.setUTCMonth(0, 1);
+      result.setUTCHours(0, 0, 0, 0);
+      return result;
+    case 'quarter':
+      result.setUTCMonth(result.getUTCMonth() - (result.getUTCMonth() % 3), 1);
+      result.setUTCHours(0, 0, 0, 0);
+      return result;
+    case 'month':
+      result.setUTCDate(1);
+      result.setUTCHours(0, 0, 0, 0);
+      return result;
+    case 'week':
+      result.setUTCDate(result.getUTCDate() - ((result.getUTCDay() + 6) % 7));
+      result.setUTCHours(0, 0, 0, 0);
+      return result;
+    case 'day':
+      result.setUTCHours(0, 0, 0, 0);
+      return result;
+    case 'hour':
+      result.setUTCMinutes(0, 0, 0);
+      return result;
+    case 'minute':
+      result.setUTCSeconds(0, 0);
+      return result;
+    case 'second':
+      result.setUTCMilliseconds(0);
+      return result;
+    default:
+      return null;
+  }
+}
+
+// TIME_BUCKET aligns buckets to a Monday, as TimescaleDB does, so weekly
+// buckets start on Mondays and daily ones at midnight UTC
+const BUCKET_ORIGIN = Date.UTC(2000, 0, 3);
+
+// Integer inputs of ABS, ROUND, FLOOR and CEIL are returned exactly
+const exactInteger = (v) => {
+  const integer = toBigInt(v);
+  return integer === null ? null : normalizeInteger(integer);
+};
+
+// Scalar functions receive already-evaluated arguments and the call node, for
+// error positions. Most of them return NULL when their input is NULL,
+// matching standard SQL behaviour. `type` is the export type of the result,
+// where it doesn't depend on the arguments.
+const SCALAR_FUNCTIONS = {
+  LOWER: { args: [1, 1], type: 'text', fn: ([v]) => (v === null ? null : toText(v).toLowerCase()) },
+  UPPER: { args: [1, 1], type: 'text', fn: ([v]) => (v === null ? null : toText(v).toUpperCase()) },
+  LENGTH: { args: [1, 1], type: 'integer', fn: ([v]) => (v === null ? null : toText(v).length) },
+  TRIM: { args: [1, 1], type: 'text', fn: ([v]) => (v === null ? null : toText(v).trim()) },
+  ABS: {
+    args: [1, 1],
+    fn: ([v]) => {
+      if (v === null) return null;
+      const integer = toBigInt(v);
+      if (integer !== null) return normalizeInteger(integer < 0n ? -integer : integer);
+      return Math.abs(toNumber(v));
+    }
+  },
+  ROUND: {
+    args: [1, 2],
+    fn: ([v, digits = 0]) => {
+      if (v === null) return null;
+      if (toNumber(digits) >= 0 && toBigInt(v) !== null) return exactInteger(v);
+      const factor = Math.pow(10, toNumber(digits));
+      return Math.round(toNumber(v) * factor) / factor;
+    }
+  },
+  FLOOR: { args: [1, 1], fn: ([v]) => (v === null ? null : exactInteger(v) ?? Math.floor(toNumber(v))) },
+  CEIL: { args: [1, 1], fn: ([v]) => (v === null ? null : exactInteger(v) ?? Math.ceil(toNumber(v))) },
+  COALESCE: {
+    args: [1, Infinity],
+    fn: (values) => {
+      const found = values.find(v => v !== null && v !== undefined);
+      return found === undefined ? null : found;
+    }
+  },
+  NULLIF: { args: [2, 2], fn: ([a, b]) => (compareValues(a, b) === 0 ? null : a) },
+  CONCAT: {
+    args: [1, Infinity],
+    type: 'text',
+    fn: (values) => values.filter(v => v !== null && v !== undefined).map(toText).join('')
+  },
+  SUBSTRING: {
+    args: [2, 3],
+    type: 'text',
+    fn: ([v, start, length]) => {
+      if (v === null) return null;
+      const text = toText(v);
+      const from = Math.max(toNumber(start) - 1, 0);
+      return length === undefined ? text.slice(from) : text.slice(from, from + toNumber(length));
+    }
+  },
+  GREATEST: {
+    args: [1, Infinity],
+    fn: (values) => values.reduce((best, v) => (best === null || compareValues(v, best) > 0 ? v : best), null)
+  },
+  LEAST: {
+    args: [1, Infinity],
+    fn: (values) => values.reduce((best, v) => (best === null || compareValues(v, best) < 0 ? v : best), null)
+  },
+
+  // Starknet helpers
+  FELT_TO_STR: {
+    args: [1, 1],
+    type: 'text',
+    fn: ([v], node) => (v === null ? null : feltToString(requireInteger(v, 'FELT_TO_STR', node)))
+  },
+  U256: {
+    args: [2, 2],
+    type: 'u256',
+    fn: ([low, high], node) => {
+      if (low === null || high === null) return null;
+      const lowPart = requireInteger(low, 'U256', node);
+      const highPart = requireInteger(high, 'U256', node);
+      if (lowPart < 0n || lowPart >= U128_LIMIT || highPart < 0n || highPart >= U128_LIMIT) {
+        throw new QueryError('U256 expects low and high halves between 0 and 2^128 - 1', node.pos);
+      }
+      return normalizeInteger(lowPart + (highPart << 128n));
+    }
+  },
+  SELECTOR: {
+    args: [1, 1],
+    type: 'felt',
+    fn: ([v]) => (v === null ? null : getSelectorFromName(toText(v)))
+  },
+  TO_UNITS: {
+    args: [2, 2],
+    type: 'number',
+    fn: ([amount, decimals], node) => {
+      if (amount === null || decimals === null) return null;
+      const places = toNumber(decimals);
+      if (!Number.isInteger(places) || places < 0 || places > 77) {
+        throw new QueryError(`TO_UNITS expects decimals between 0 and 77, got '${toText(decimals)}'`, node.pos);
+      }
+      return toUnits(requireInteger(amount, 'TO_UNITS', node), places);
+    }
+  },
+  HEX_TO_INT: {
+    args: [1, 1],
+    type: 'integer',
+    fn: ([v], node) => {
+      if (v === null) return null;
+      if (typeof v !== 'string' || !HEX_PATTERN.test(v)) {
+        throw new QueryError(`HEX_TO_INT expects a 0x-prefixed hex string, got '${toText(v)}'`, node.pos);
+      }
+      return normalizeInteger(BigInt(v));
+    }
+  },
+  NORMALIZE_ADDRESS: {
+    args: [1, 1],
+    type: 'felt',
+    fn: ([v], node) => {
+      if (v === null) return null;
+      const address = requireInteger(v, 'NORMALIZE_ADDRESS', node);
+      if (address < 0n || address >= FIELD_PRIME) {
+        throw new QueryError(`'${toText(v)}' is not a valid Starknet address`, node.pos);
+      }
+      return `0x${address.toString(16).padStart(64, '0')}`;
+    }
+  },
+
+  // Timestamps. They come back as Dates; numeric input is unix seconds.
+  NOW: { args: [0, 0], type: 'timestamp', fn: () => new Date() },
+  DATE_TRUNC: {
+    args: [2, 2],
+    type: 'timestamp',
+    fn: ([unit, v], node) => {
+      if (unit === null || v === null) return null;
+      const name = normalizeUnit(toText(unit));
+      const truncated = name && truncateDate(requireDate(v, 'DATE_TRUNC', node), name);
+      if (!truncated) {
+        throw new QueryError(`DATE_TRUNC does not support unit '${toText(unit)}'; use second, minute, hour, day, week, month, quarter or year`, node.pos);
+      }
+      return truncated;
+    }
+  },
+  TIME_BUCKET: {
+    args: [2, 2],
+    type: 'timestamp',
+    fn: ([width, v], node) => {
+      if (width === null || v === null) return null;
+      const interval = requireInterval(width, 'TIME_BUCKET', node);
+      if (interval.months !== 0 || interval.milliseconds <= 0) {
+        throw new QueryError('TIME_BUCKET needs a fixed positive width such as \'15 minutes\'; use DATE_TRUNC for months and years', node.pos);
+      }
+      const time = requireDate(v, 'TIME_BUCKET', node).getTime();
+      const offset = (((time - BUCKET_ORIGIN) % interval.milliseconds) + interval.milliseconds) % interval.milliseconds;
+      return new Date(time - offset);
+    }
+  },
+  DATE: {
+    args: [1, 1],
+    type: 'timestamp',
+    fn: ([v], node) => (v === null ? null : truncateDate(requireDate(v, 'DATE', node), 'day'))
+  },
+  DATE_ADD: {
+    args: [2, 2],
+    type: 'timestamp',
+    fn: ([v, interval], node) => {
+      if (v === null || interval === null) return null;
+      return requireInterval(interval, 'DATE_ADD', node).shift(requireDate(v, 'DATE_ADD', node));
+    }
+  },
+  DATE_SUB: {
+    args: [2, 2],
+    type: 'timestamp',
+    fn: ([v, interval], node) => {
+      if (v === null || interval === null) return null;
+      return requireInterval(interval, 'DATE_SUB', node).shift(requireDate(v, 'DATE_SUB', node), -1);
+    }
+  },
+  TO_TIMESTAMP: {
+    args: [1, 1],
+    type: 'timestamp',
+    fn: ([v], node) => (v === null ? null : requireDate(v, 'TO_TIMESTAMP', node))
+  },
+  UNIX_TIMESTAMP: {
+    args: [0, 1],
+    type: 'integer',
+    fn: ([v = new Date()], node) => (v === null ? null : Math.floor(requireDate(v, 'UNIX_TIMESTAMP', node).getTime() / 1000))
+  }
+};
+
+// Functions whose result changes from one run to the next; queries calling
+// them bypass the result cache
+const VOLATILE_FUNCTIONS = new Set(['NOW', 'UNIX_TIMESTAMP']);
+
+// Functions that only exist with an OVER clause. Aggregates can be used
+// there too. `type` is the export type of the result.
+const WINDOW_FUNCTIONS = {
+  ROW_NUMBER: { args: [0, 0], type: 'integer' },
+  RANK: { args: [0, 0], type: 'integer' },
+  DENSE_RANK: { args: [0, 0], type: 'integer' },
+  LAG: { args: [1, 3] },
+  LEAD: { args: [1, 3] }
+};
+SCALAR_FUNCTIONS.SUBSTR = SCALAR_FUNCTIONS.SUBSTRING;
+
+const nonNull = (values) => values.filter(v => v !== null && v !== undefined);
+
+// Exact sum when every value is an integer, so token amounts add up to the
+// unit; null when any value has a fraction
+function sumIntegers(values) {
+  let sum = 0n;
+  for (const v of values) {
+    const integer = typeof v === 'boolean' ? null : toBigInt(v);
+    if (integer === null) return null;
+    sum += integer;
+  }
+  return sum;
+}
+
+// Aggregates receive the per-row values of their argument for one group
+const AGGREGATE_FUNCTIONS = {
+  COUNT: (values) => nonNull(values).length,
+  SUM: (values) => {
+    const present = nonNull(values);
+    if (present.length === 0) return null;
+    const exact = sumIntegers(present);
+    return exact === null ? present.reduce((sum, v) => sum + toNumber(v), 0) : normalizeInteger(exact);
+  },
+  AVG: (values) => {
+    const present = nonNull(values);
+    if (present.length === 0) return null;
+    const exact = sumIntegers(present);
+    const sum = exact === null ? present.reduce((total, v) => total + toNumber(v), 0) : Number(exact);
+    return sum / present.length;
+  },
+  MIN: (values) => nonNull(values).reduce((min, v) => (min === null || compareValues(v, min) < 0 ? v : min), null),
+  MAX: (values) => nonNull(values).reduce((max, v) => (max === null || compareValues(v, max) > 0 ? v : max), null)
+};
+
+// Signatures and one-line descriptions for editor autocomplete and hover
+// docs. Every scalar and aggregate function needs an entry here.
+const FUNCTION_DOCS = {
+  LOWER: { signature: 'LOWER(text)', description: 'Text converted to lowercase' },
+  UPPER: { signature: 'UPPER(text)', description: 'Text converted to uppercase' },
+  LENGTH: { signature: 'LENGTH(text)', description: 'Number of characters in the text' },
+  TRIM: { signature: 'TRIM(text)', description: 'Text without leading and trailing whitespace' },
+  ABS: { signature: 'ABS(number)', description: 'Absolute value' },
+  ROUND: { signature: 'ROUND(number [, digits])', description: 'Number rounded to the given number of decimal digits (default 0)' },
+  FLOOR: { signature: 'FLOOR(number)', description: 'Largest integer not greater than the number' },
+  CEIL: { signature: 'CEIL(number)', description: 'Smallest integer not less than the number' },
+  COALESCE: { signature: 'COALESCE(value, ...)', description: 'First argument that is not NULL' },
+  NULLIF: { signature: 'NULLIF(a, b)', description: 'NULL when a equals b, otherwise a' },
+  CONCAT: { signature: 'CONCAT(value, ...)', description: 'Arguments joined as text, skipping NULLs' },
+  SUBSTRING: { signature: 'SUBSTRING(text, start [, length])', description: 'Part of the text starting at a 1-based position' },
+  SUBSTR: { signature: 'SUBSTR(text, start [, length])', description: 'Alias of SUBSTRING' },
+  GREATEST: { signature: 'GREATEST(value, ...)', description: 'Largest of the arguments' },
+  LEAST: { signature: 'LEAST(value, ...)', description: 'Smallest of the arguments' },
+  FELT_TO_STR: { signature: 'FELT_TO_STR(felt)', description: "Cairo short string packed in a felt, e.g. a token's name or symbol" },
+  U256: { signature: 'U256(low, high)', description: 'Exact u256 from its low and high 128-bit halves' },
+  SELECTOR: { signature: 'SELECTOR(name)', description: "Selector of an entrypoint or event name, e.g. SELECTOR('Transfer')" },
+  TO_UNITS: { signature: 'TO_UNITS(amount, decimals)', description: 'Base-unit amount divided by 10^decimals, e.g. wei to ETH, as exact decimal text' },
+  HEX_TO_INT: { signature: 'HEX_TO_INT(hex)', description: 'Exact integer value of a 0x-prefixed hex string' },
+  NORMALIZE_ADDRESS: { signature: 'NORMALIZE_ADDRESS(address)', description: 'Address as lowercase hex zero-padded to 64 digits' },
+  NOW: { signature: 'NOW()', description: 'Current time' },
+  DATE_TRUNC: { signature: "DATE_TRUNC('hour' | 'day' | 'week' | ..., timestamp)", description: 'Start of the hour, day, week (from Monday), month, quarter or year containing the timestamp, in UTC' },
+  TIME_BUCKET: { signature: "TIME_BUCKET('15 minutes', timestamp)", description: 'Start of the fixed-width bucket containing the timestamp' },
+  DATE: { signature: 'DATE(timestamp)', description: 'Midnight UTC of the timestamp\'s day' },
+  DATE_ADD: { signature: 'DATE_ADD(timestamp, INTERVAL 7 DAY)', description: 'Timestamp moved forward by the interval' },
+  DATE_SUB: { signature: 'DATE_SUB(timestamp, INTERVAL 7 DAY)', description: 'Timestamp moved back by the interval' },
+  TO_TIMESTAMP: { signature: 'TO_TIMESTAMP(unix_seconds)', description: 'Timestamp from unix seconds or ISO text' },
+  UNIX_TIMESTAMP: { signature: 'UNIX_TIMESTAMP([timestamp])', description: 'Unix seconds of the timestamp, or of now' },
+  ROW_NUMBER: { signature: 'ROW_NUMBER() OVER (...)', description: 'Position of the row in its window partition, from 1' },
+  RANK: { signature: 'RANK() OVER (...)', description: 'Rank of the row in its partition, with gaps after ties' },
+  DENSE_RANK: { signature: 'DENSE_RANK() OVER (...)', description: 'Rank of the row in its partition, without gaps' },
+  LAG: { signature: 'LAG(expr [, offset [, default]]) OVER (...)', description: 'Value of expr from the row `offset` rows before (default 1)' },
+  LEAD: { signature: 'LEAD(expr [, offset [, default]]) OVER (...)', description: 'Value of expr from the row `offset` rows after (default 1)' },
+  COUNT: { signature: 'COUNT(* | [DISTINCT] expr)', description: 'Number of rows, or of non-NULL values of expr' },
+  SUM: { signature: 'SUM([DISTINCT] expr)', description: 'Sum of the non-NULL values; with OVER (ORDER BY ...), a running total' },
+  AVG: { signature: 'AVG([DISTINCT] expr)', description: 'Average of the non-NULL values; with OVER (... ROWS n PRECEDING), a moving average' },
+  MIN: { signature: 'MIN(expr)', description: 'Smallest value' },
+  MAX: { signature: 'MAX(expr)', description: 'Largest value' }
+};
+
+function isAggregate(name) {
+  return Object.prototype.hasOwnProperty.call(AGGREGATE_FUNCTIONS, name);
+}
+
+function isWindowFunction(name) {
+  return Object.prototype.hasOwnProperty.call(WINDOW_FUNCTIONS, name);
+}
+
+function callScalar(node, args) {
+  const definition = SCALAR_FUNCTIONS[node.name];
+  if (!definition) {
+    throw new QueryError(`Unknown function '${node.name}'`, node.pos);
+  }
+  const [min, max] = definition.args;
+  if (args.length < min || args.length > max) {
+    throw new QueryError(`Function ${node.name} called with ${args.length} argument(s)`, node.pos);
+  }
+  return definition.fn(args, node);
+}
+
+function callAggregate(node, values) {
+  const input = node.distinct ? dedupe(values) : values;
+  return AGGREGATE_FUNCTIONS[node.name](input);
+}
+
+function dedupe(values) {
+  const seen = new Set();
+  return values.filter(v => {
+    const key = valueKey(v);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+module.exports = {
+  SCALAR_FUNCTIONS,
+  AGGREGATE_FUNCTIONS,
+  WINDOW_FUNCTIONS,
+  VOLATILE_FUNCTIONS,
+  FUNCTION_DOCS,
+  isAggregate,
+  isWindowFunction,
+  callScalar,
+  callAggregate
+};
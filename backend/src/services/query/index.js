@@ -0,0 +1,474 @@
+const { parse } = require('./parser');
+const {
+  executeSelect, joinRelation, joinKeys, evaluate, containsAggregate, containsWindow, containsVolatile,
+  checkReferences, outputColumnTypes
+} = require('./evaluator');
+const { substituteColumns, inListPredicate, andPredicates } = require('./pushdown');
+const { valueKey, toJsonValue } = require('./values');
+const { bindParameters, validateDefinitions, PARAMETER_TYPES } = require('./parameters');
+const { resultCache, cacheKey } = require('./cache');
+const { queryJobs, describeJob, MAX_TIMEOUT_MS } = require('./jobs');
+const { getTable, TABLES } = require('./tables');
+const { getViewTable } = require('./views');
+const { cellDependencies, cellTable } = require('./notebook');
+const { createTableFunction, TABLE_FUNCTIONS } = require('./tableFunctions');
+const { describeSchema } = require('./schema');
+const { StarknetRpcClient } = require('./rpcClient');
+const { resolveNetwork, NETWORK_IDS, DEFAULT_NETWORK } = require('./networks');
+const { QueryError, QuerySyntaxError, QueryTimeoutError, QueryCancelledError } = require('./errors');
+
+// True when every WHERE condition is one the table applies exactly at the
+// source (listed in `table.exactFilters` with the operators it supports), so
+// the rows a scan returns already satisfy the filter.
+function isPushedDown(node, table, qualifier) {
+  if (node.type === 'binary' && node.operator === 'AND') {
+    return isPushedDown(node.left, table, qualifier) && isPushedDown(node.right, table, qualifier);
+  }
+
+  let column;
+  let operator;
+  if (node.type === 'between' && !node.not) {
+    column = node.expr;
+    operator = 'BETWEEN';
+    if (node.low.type !== 'literal' || node.high.type !== 'literal') return false;
+  } else if (node.type === 'binary') {
+    const columnOnLeft = node.left.type === 'identifier';
+    column = columnOnLeft ? node.left : node.right;
+    operator = node.operator;
+    if ((columnOnLeft ? node.right : node.left).type !== 'literal') return false;
+  } else {
+    return false;
+  }
+
+  if (column.type !== 'identifier' || (column.table && column.table !== qualifier)) return false;
+  const operators = (table.exactFilters || {})[column.name];
+  return Boolean(operators && operators.includes(operator));
+}
+
+// Work out how many source rows a query can possibly need. Only scans whose
+// filters are fully pushed down, read in the table's natural order, can stop
+// early; everything else needs the full scan window.
+function scanRowLimit(ast, table, qualifier) {
+  if (ast.limit === null || ast.distinct || ast.groupBy.length > 0 || ast.having) {
+    return null;
+  }
+  if (ast.where && !isPushedDown(ast.where, table, qualifier)) {
+    return null;
+  }
+  // Aggregates and window functions see every row, not just the first few
+  if (ast.columns.some(item => item.type === 'column' && (containsAggregate(item.expr) || containsWindow(item.expr)))) {
+    return null;
+  }
+  if (ast.orderBy.length > 0) {
+    const [first] = ast.orderBy;
+    const natural = table.naturalOrder;
+    const matchesScanOrder =
+      natural &&
+      first.direction === natural.direction &&
+      first.expr.type === 'identifier' &&
+      first.expr.name === natural.column;
+    if (!matchesScanOrder) return null;
+  }
+  return ast.limit + (ast.offset || 0);
+}
+
+// Built-in table, a table function such as storage(...), the result of a
+// notebook cell in `cellTables`, or a materialized view for dotted names
+// like myteam.daily_fees
+async function resolveTable(from, userId, cellTables = {}) {
+  if (from.args) {
+    const table = createTableFunction(from);
+    if (!table) {
+      throw new QueryError(
+        `Table function '${from.name}' not found. Available table functions: ${Object.keys(TABLE_FUNCTIONS).join(', ')}`,
+        from.pos
+      );
+    }
+    return table;
+  }
+
+  const cellName = from.name.toLowerCase();
+  const table = getTable(from.name) ||
+    (Object.prototype.hasOwnProperty.call(cellTables, cellName) ? cellTables[cellName] : null) ||
+    (from.name.includes('.') ? await getViewTable(from.name, { userId, pos: from.pos }) : null);
+  if (!table) {
+    throw new QueryError(
+      `Table '${from.name}' not found. Available tables: ${Object.keys(TABLES).join(', ')}, or a published view such as myteam.daily_fees`,
+      from.pos
+    );
+  }
+  return table;
+}
+
+async function resolveSource(ref, userId, cellTables) {
+  const table = await resolveTable(ref, userId, cellTables);
+  return {
+    table,
+    qualifier: ref.alias || ref.name.split('.').pop(),
+    columns: table.columns.map(column => column.name)
+  };
+}
+
+// Column equalities `a.x = b.y` between two qualified columns in any ON
+// clause, as aliases that rewrite the WHERE clause for `qualifier`'s scan.
+function joinAliases(joins, qualifier) {
+  const aliases = new Map();
+  const collect = (node) => {
+    if (!node || node.type !== 'binary') return;
+    if (node.operator === 'AND') {
+      collect(node.left);
+      collect(node.right);
+      return;
+    }
+    const { left, right } = node;
+    if (node.operator !== '=' || left.type !== 'identifier' || right.type !== 'identifier') return;
+    if (!left.table || !right.table) return;
+    if (right.table === qualifier && left.table !== qualifier) aliases.set(`${left.table}.${left.name}`, right);
+    if (left.table === qualifier && right.table !== qualifier) aliases.set(`${right.table}.${right.name}`, left);
+  };
+  joins.forEach(join => collect(join.on));
+  return aliases;
+}
+
+// Distinct, non-null values of each join key on the left, as IN predicates
+// on the right table's key columns.
+function joinKeyFilter(relation, join, source) {
+  const leftMeta = {};
+  for (const qualifier of relation.qualifiers) {
+    leftMeta[qualifier] = new Set(relation.columns[qualifier]);
+  }
+
+  const keys = joinKeys(join.on, leftMeta, source.qualifier, new Set(source.columns));
+  return andPredicates(...keys.map(key => {
+    const values = new Map();
+    for (const row of relation.rows) {
+      const value = evaluate(key.left, { row, meta: leftMeta });
+      if (value !== null && value !== undefined) values.set(valueKey(value), value);
+    }
+    return inListPredicate(source.qualifier, key.right, [...values.values()]);
+  }));
+}
+
+async function resolveSources(ast, userId, cellTables) {
+  const first = await resolveSource(ast.from, userId, cellTables);
+  const joined = [];
+  for (const join of ast.joins) {
+    joined.push(await resolveSource(join.table, userId, cellTables));
+  }
+  const seen = new Set([first.qualifier]);
+  ast.joins.forEach((join, i) => {
+    if (seen.has(joined[i].qualifier)) {
+      throw new QueryError(
+        `Table name '${joined[i].qualifier}' is used more than once; give each table its own alias`,
+        join.table.pos
+      );
+    }
+    seen.add(joined[i].qualifier);
+  });
+  return { first, joined };
+}
+
+// Scan every table and evaluate the statement.
+//
+// Joined tables are fetched one after another and combined in memory. Each
+// scan sees the WHERE clause rewritten through the join's key equalities plus
+// the key values already found on the left, so `transactions JOIN blocks`
+// only fetches the blocks the transactions sit in.
+async function runSelect(ast, { first, joined }, rpc) {
+  let rowsScanned = 0;
+
+  const scanSource = async (source, extraFilter = null) => {
+    const where = ast.joins.length > 0
+      ? substituteColumns(ast.where, joinAliases(ast.joins, source.qualifier))
+      : ast.where;
+    const rows = await source.table.scan({
+      rpc,
+      rowLimit: ast.joins.length > 0 ? null : scanRowLimit(ast, source.table, source.qualifier),
+      where: andPredicates(where, extraFilter),
+      qualifier: source.qualifier
+    });
+    rowsScanned += rows.length;
+    return rows;
+  };
+
+  const sourceRows = await scanSource(first);
+  let relation = {
+    qualifiers: [first.qualifier],
+    columns: { [first.qualifier]: first.columns },
+    rows: sourceRows.map(row => ({ [first.qualifier]: row }))
+  };
+
+  for (let i = 0; i < ast.joins.length; i++) {
+    const join = ast.joins[i];
+    const source = joined[i];
+    // Nothing on the left means nothing to match, whatever the join kind
+    const rows = relation.rows.length === 0
+      ? []
+      : await scanSource(source, joinKeyFilter(relation, join, source));
+    relation = joinRelation(relation, join, source, rows);
+  }
+
+  const result = executeSelect(ast, relation);
+
+  return {
+    ...result,
+    // u256 amounts and other integers past 2^53 leave the engine as decimal
+    // strings so results survive JSON and the cache
+    rows: result.rows.map(row => {
+      for (const column of Object.keys(row)) row[column] = toJsonValue(row[column]);
+      return row;
+    }),
+    stats: {
+      rowsScanned,
+      rpcCalls: rpc.callCount
+    }
+  };
+}
+
+const EXPLAIN_COLUMNS = ['step', 'table', 'access', 'rpc_method', 'estimated_calls', 'max_calls', 'notes'];
+
+// EXPLAIN: how each table would be read, which RPC methods that costs and
+// roughly how many calls, and whether the result would come from the result
+// cache instead. Planning may itself make a few cheap calls (the chain head,
+// and a binary search over block timestamps); they are reported separately.
+async function explainSelect(ast, { first, joined }, rpc, cache) {
+  const steps = [];
+  for (const [index, source] of [first, ...joined].entries()) {
+    const join = index > 0 ? ast.joins[index - 1] : null;
+    const where = ast.joins.length > 0
+      ? substituteColumns(ast.where, joinAliases(ast.joins, source.qualifier))
+      : ast.where;
+    const plan = await source.table.explain({
+      rpc,
+      rowLimit: ast.joins.length > 0 ? null : scanRowLimit(ast, source.table, source.qualifier),
+      where,
+      qualifier: source.qualifier
+    });
+
+    const notes = [];
+    if (join) notes.push(`${join.kind} JOIN; narrowed at run time to the keys found on the left`);
+    if (source.table.cacheable === false) notes.push('Not cacheable');
+    steps.push({
+      table: source.table.view?.name || (index === 0 ? ast.from.name : join.table.name).toLowerCase(),
+      qualifier: source.qualifier,
+      join: join ? join.kind : null,
+      access: plan.access,
+      calls: cache.hit ? [] : plan.calls,
+      notes
+    });
+  }
+
+  const total = (field) => steps.reduce((sum, step) => sum + step.calls.reduce((n, call) => n + call[field], 0), 0);
+  const plan = {
+    steps,
+    estimatedCalls: total('estimated'),
+    maxCalls: total('max'),
+    planningCalls: rpc.callCount,
+    cache
+  };
+
+  const rows = [];
+  steps.forEach((step, index) => {
+    const calls = step.calls.length > 0 ? step.calls : [null];
+    for (const call of calls) {
+      rows.push({
+        step: index + 1,
+        table: step.qualifier === step.table.split('.').pop() ? step.table : `${step.table} AS ${step.qualifier}`,
+        access: step.access,
+        rpc_method: call ? call.method : null,
+        estimated_calls: call ? call.estimated : 0,
+        max_calls: call ? call.max : 0,
+        notes: [...(call?.note ? [call.note] : []), ...step.notes].join('; ') || null
+      });
+    }
+  });
+  rows.push({
+    step: null,
+    table: null,
+    access: cache.hit
+      ? 'Served from the result cache'
+      : cache.cacheable ? 'Result will be cached after this run' : 'Reads app data, a view, a notebook cell or the current time, so the result is not cached',
+    rpc_method: null,
+    estimated_calls: plan.estimatedCalls,
+    max_calls: plan.maxCalls,
+    notes: `Total; planning used ${plan.planningCalls} RPC call(s)`
+  });
+
+  return { columns: EXPLAIN_COLUMNS, rows, plan };
+}
+
+function describeCache(entry, hit) {
+  return {
+    hit,
+    headBlock: entry.headBlock,
+    blockRange: entry.blockRange,
+    final: entry.final,
+    cachedAt: entry.cachedAt
+  };
+}
+
+// Parse and run a SELECT statement. `defaultLimit` caps the result when the
+// query itself has no LIMIT clause; `maxRows` lowers a larger LIMIT (or
+// none) to one row past it, so callers can tell the result went over without
+// computing all of it. `parameters` declares the statement's
+// {{placeholders}} and `parameterValues` supplies their values.
+//
+// Results of chain-only queries that don't call NOW() or similar go through
+// the shared result cache; the returned `cache` says whether this one was
+// served from it and which head block the result reflects. Pass `useCache: false` to force a fresh run.
+// `signal` aborts the run and `onProgress` receives scan progress events.
+// `network` picks the chain to read (see networks.js); `rpcUrl` is the
+// endpoint for the custom network. The result's `network` says which one was
+// read.
+// `userId` is the user running the query, used to check access to private
+// views. `cells` are the notebook cells above this statement, as
+// { name, sql }; the ones it reads are run first, with the same options (see
+// notebook.js). `columnTypes` lists the declared type of each output column,
+// null for computed ones. `EXPLAIN SELECT ...` returns the plan (see
+// explainSelect) as rows, plus `plan`, without scanning anything.
+async function executeQuery(sql, { cells = [], ...options } = {}) {
+  const cellTables = {};
+  for (const cell of cellDependencies(sql, cells)) {
+    try {
+      cellTables[cell.name.toLowerCase()] = cellTable(cell.name, await executeStatement(cell.sql, options, cellTables));
+    } catch (error) {
+      // Timeouts and cancellations stand for the whole run
+      if (error instanceof QueryError && !(error instanceof QueryTimeoutError || error instanceof QueryCancelledError)) {
+        throw new QueryError(`Cell '${cell.name}': ${error.message}`);
+      }
+      throw error;
+    }
+  }
+  return executeStatement(sql, options, cellTables);
+}
+
+async function executeStatement(sql, {
+  defaultLimit = null,
+  maxRows = null,
+  network = DEFAULT_NETWORK,
+  rpcUrl = null,
+  parameters = [],
+  parameterValues = {},
+  useCache = true,
+  signal = null,
+  onProgress = null,
+  userId = null
+}, cellTables) {
+  const chain = await resolveNetwork(network, rpcUrl);
+  const statement = parse(sql);
+  const explain = statement.type === 'explain';
+  const { ast, values } = bindParameters(explain ? statement.statement : statement, parameters, parameterValues);
+  if (ast.limit === null && defaultLimit !== null) {
+    ast.limit = defaultLimit;
+  }
+  if (maxRows !== null && (ast.limit === null || ast.limit > maxRows)) {
+    ast.limit = maxRows + 1;
+  }
+
+  const sources = await resolveSources(ast, userId, cellTables);
+  checkReferences(ast, [sources.first, ...sources.joined]);
+  const columnTypes = outputColumnTypes(ast, [sources.first, ...sources.joined]).map(column => column.type);
+  const rpc = new StarknetRpcClient(chain.rpcUrl, { signal, onProgress, network: chain.id, requestOptions: chain.requestOptions });
+  const networkInfo = { id: chain.id, name: chain.name, chainId: chain.chainId };
+  const cacheable = useCache &&
+    [sources.first, ...sources.joined].every(source => source.table.cacheable !== false) &&
+    !containsVolatile(ast);
+
+  if (explain) {
+    const key = cacheable ? cacheKey({ ast, parameterValues: values, defaultLimit, rpcUrl: rpc.rpcUrl }) : null;
+    const cached = key ? await resultCache.get(key, () => rpc.getBlockNumber()) : null;
+    const cache = cached ? describeCache(cached, true) : { hit: false, headBlock: null, blockRange: null, final: false, cachedAt: null };
+    const result = await explainSelect(ast, sources, rpc, { ...cache, cacheable });
+    return {
+      ...result,
+      stats: { rowsScanned: 0, rpcCalls: rpc.callCount },
+      cache,
+      network: networkInfo
+    };
+  }
+
+  if (!cacheable) {
+    const result = await runSelect(ast, sources, rpc);
+    const headBlock = rpc.head === null ? null : await rpc.head;
+    return {
+      ...result,
+      columnTypes,
+      cache: { hit: false, headBlock, blockRange: rpc.blockRange, final: false, cachedAt: null },
+      network: networkInfo
+    };
+  }
+
+  const key = cacheKey({ ast, parameterValues: values, defaultLimit, rpcUrl: rpc.rpcUrl });
+  const cached = await resultCache.get(key, () => rpc.getBlockNumber());
+  if (cached) {
+    return {
+      columns: cached.result.columns,
+      columnTypes,
+      rows: cached.result.rows,
+      stats: { rowsScanned: 0, rpcCalls: rpc.callCount },
+      cache: describeCache(cached, true),
+      network: networkInfo
+    };
+  }
+
+  const compute = async () => {
+    const result = await runSelect(ast, sources, rpc);
+    const headBlock = rpc.blockRange || rpc.head !== null ? await rpc.getBlockNumber() : null;
+    const stored = resultCache.set(key, { result, blockRange: rpc.blockRange, headBlock });
+    return stored || { result, blockRange: rpc.blockRange, headBlock, final: false, cachedAt: null };
+  };
+
+  let outcome;
+  try {
+    outcome = await resultCache.dedupe(key, compute);
+  } catch (error) {
+    // The run we were sharing belonged to a caller that cancelled it
+    if (!(error instanceof QueryCancelledError) || (signal && signal.aborted)) throw error;
+    outcome = { value: await compute(), shared: false };
+  }
+  const { value: entry, shared } = outcome;
+
+  return {
+    columns: entry.result.columns,
+    columnTypes,
+    rows: entry.result.rows,
+    stats: shared ? { rowsScanned: 0, rpcCalls: rpc.callCount } : entry.result.stats,
+    cache: describeCache(entry, shared),
+    network: networkInfo
+  };
+}
+
+// Check a statement without running it: syntax, parameter declarations,
+// tables and every column and function reference. Makes no RPC calls.
+// Resolves to the tables the statement reads; throws QueryError otherwise.
+async function validateQuery(sql, { parameters = [], userId = null } = {}) {
+  const statement = parse(sql);
+  const ast = statement.type === 'explain' ? statement.statement : statement;
+  validateDefinitions(parameters);
+
+  const { first, joined } = await resolveSources(ast, userId);
+  checkReferences(ast, [first, ...joined]);
+
+  return {
+    tables: [ast.from, ...ast.joins.map(join => join.table)].map(ref => ref.name.toLowerCase())
+  };
+}
+
+module.exports = {
+  parse,
+  executeQuery,
+  validateQuery,
+  describeSchema,
+  validateDefinitions,
+  PARAMETER_TYPES,
+  NETWORK_IDS,
+  DEFAULT_NETWORK,
+  resultCache,
+  queryJobs,
+  describeJob,
+  MAX_TIMEOUT_MS,
+  QueryError,
+  QuerySyntaxError,
+  QueryTimeoutError,
+  QueryCancelledError
+};
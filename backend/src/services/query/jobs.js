@@ -0,0 +1,132 @@
+const { EventEmitter } = require('events');
+const { randomUUID } = require('crypto');
+const { QueryError, QueryTimeoutError, QueryCancelledError } = require('./errors');
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RUNNING_JOBS_PER_USER = 3;
+// Finished jobs stay around this long so clients can collect the result
+const RETAIN_FINISHED_MS = 10 * 60 * 1000;
+// Progress events are throttled to at most one per interval per job
+const PROGRESS_INTERVAL_MS = 250;
+
+// Tracks running query executions so they can be observed and cancelled.
+// Each job gets a server-side execution id, an AbortController and a
+// deadline. Emits:
+//   'progress' (job) - scan progress changed
+//   'finished' (job) - the job succeeded, failed, timed out or was cancelled
+class QueryJobManager extends EventEmitter {
+  constructor() {
+    super();
+    this.jobs = new Map();
+  }
+
+  // Start `task({ signal, onProgress })` as a job owned by `userId`. The
+  // returned job's `promise` resolves with the job once it has finished; it
+  // never rejects.
+  start(task, { userId, sql, timeoutMs = DEFAULT_TIMEOUT_MS }) {
+    const running = [...this.jobs.values()].filter(job => job.userId === userId && job.status === 'running');
+    if (running.length >= MAX_RUNNING_JOBS_PER_USER) {
+      const error = new QueryError(
+        `You already have ${running.length} queries running; wait for one to finish or cancel it`
+      );
+      error.statusCode = 429;
+      throw error;
+    }
+
+    const timeout = Math.min(Math.max(timeoutMs, 1000), MAX_TIMEOUT_MS);
+    const controller = new AbortController();
+    const job = {
+      id: randomUUID(),
+      userId,
+      sql,
+      status: 'running',
+      startedAt: new Date(),
+      finishedAt: null,
+      timeoutMs: timeout,
+      progress: null,
+      result: null,
+      error: null,
+      controller,
+      lastProgressAt: 0
+    };
+    job.timer = setTimeout(() => controller.abort(new QueryTimeoutError(timeout)), timeout);
+    this.jobs.set(job.id, job);
+
+    const onProgress = (event) => {
+      job.progress = event;
+      const now = Date.now();
+      if (now - job.lastProgressAt >= PROGRESS_INTERVAL_MS || event.done === event.total) {
+        job.lastProgressAt = now;
+        this.emit('progress', job);
+      }
+    };
+
+    job.promise = Promise.resolve()
+      .then(() => task({ signal: controller.signal, onProgress }))
+      .then(
+        result => this.finish(job, 'succeeded', { result }),
+        error => this.finish(job, statusForError(error), { error })
+      );
+
+    return job;
+  }
+
+  finish(job, status, { result = null, error = null }) {
+    clearTimeout(job.timer);
+    job.status = status;
+    job.finishedAt = new Date();
+    job.result = result;
+    job.error = error && {
+      message: error.message,
+      statusCode: error.statusCode || 500,
+      position: error.position || null
+    };
+    this.emit('finished', job);
+
+    setTimeout(() => this.jobs.delete(job.id), RETAIN_FINISHED_MS).unref();
+    return job;
+  }
+
+  get(id) {
+    return this.jobs.get(id) || null;
+  }
+
+  // Abort a running job. Returns the job, or null when it doesn't exist.
+  cancel(id) {
+    const job = this.get(id);
+    if (job && job.status === 'running') {
+      job.controller.abort(new QueryCancelledError());
+    }
+    return job;
+  }
+}
+
+function statusForError(error) {
+  if (error instanceof QueryTimeoutError) return 'timed_out';
+  if (error instanceof QueryCancelledError) return 'cancelled';
+  return 'failed';
+}
+
+// Client-facing view of a job, without the result rows
+function describeJob(job) {
+  return {
+    executionId: job.id,
+    status: job.status,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    timeoutMs: job.timeoutMs,
+    progress: job.progress,
+    error: job.error
+  };
+}
+
+const queryJobs = new QueryJobManager();
+
+module.exports = {
+  QueryJobManager,
+  queryJobs,
+  describeJob,
+  DEFAULT_TIMEOUT_MS,
+  MAX_TIMEOUT_MS
+};
@@ -0,0 +1,163 @@
+const { QuerySyntaxError } = require('./errors');
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER',
+  'ASC', 'DESC', 'LIMIT', 'OFFSET', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS',
+  'NULL', 'TRUE', 'FALSE', 'LIKE', 'BETWEEN', 'CASE', 'WHEN', 'THEN', 'ELSE',
+  'END', 'CAST', 'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'EXPLAIN'
+]);
+
+// Words that are only keywords in one position, such as OVER after a function
+// call. They stay identifiers so columns can still use these names.
+const CONTEXTUAL_KEYWORDS = new Set([
+  'INTERVAL', 'OVER', 'PARTITION', 'ROWS', 'RANGE', 'UNBOUNDED', 'PRECEDING',
+  'FOLLOWING', 'CURRENT', 'ROW'
+]);
+
+// Multi-character operators must come before their single-character prefixes
+const OPERATORS = ['<>', '!=', '<=', '>=', '||', '=', '<', '>', '+', '-', '*', '/', '%'];
+const PUNCTUATION = new Set(['(', ')', ',', '.', ';']);
+
+// Turn SQL text into a flat token list. Every token records where it started
+// so the parser can point at the exact line and column of a problem.
+function tokenize(sql) {
+  const tokens = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = () => ({ offset, line, column });
+
+  const advance = (count) => {
+    for (let i = 0; i < count; i++) {
+      if (sql[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < sql.length) {
+    const char = sql[offset];
+    const next = sql[offset + 1];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    // Line comment
+    if (char === '-' && next === '-') {
+      while (offset < sql.length && sql[offset] !== '\n') advance(1);
+      continue;
+    }
+
+    // Block comment
+    if (char === '/' && next === '*') {
+      const start = position();
+      const end = sql.indexOf('*/', offset + 2);
+      if (end === -1) {
+        throw new QuerySyntaxError('unterminated block comment', start);
+      }
+      advance(end + 2 - offset);
+      continue;
+    }
+
+    const start = position();
+
+    // String literal, '' escapes a quote
+    if (char === "'") {
+      let value = '';
+      advance(1);
+      for (;;) {
+        if (offset >= sql.length) {
+          throw new QuerySyntaxError('unterminated string literal', start);
+        }
+        if (sql[offset] === "'") {
+          if (sql[offset + 1] === "'") {
+            value += "'";
+            advance(2);
+            continue;
+          }
+          advance(1);
+          break;
+        }
+        value += sql[offset];
+        advance(1);
+      }
+      tokens.push({ type: 'string', value, pos: start });
+      continue;
+    }
+
+    // Quoted identifier
+    if (char === '"' || char === '`') {
+      const end = sql.indexOf(char, offset + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('unterminated quoted identifier', start);
+      }
+      const value = sql.slice(offset + 1, end);
+      advance(end + 1 - offset);
+      tokens.push({ type: 'identifier', value, quoted: true, pos: start });
+      continue;
+    }
+
+    // Numbers, including 0x-prefixed hex literals
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next || ''))) {
+      const match = /^0x[0-9a-fA-F]+/.exec(sql.slice(offset)) ||
+        /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(offset));
+      advance(match[0].length);
+      tokens.push({ type: 'number', value: match[0], pos: start });
+      continue;
+    }
+
+    // Parameter placeholder, e.g. {{contract_address}}
+    if (char === '{' && next === '{') {
+      const end = sql.indexOf('}}', offset + 2);
+      const name = end === -1 ? null : sql.slice(offset + 2, end).trim();
+      if (!name || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new QuerySyntaxError('invalid parameter placeholder, expected {{name}}', start);
+      }
+      advance(end + 2 - offset);
+      tokens.push({ type: 'parameter', value: name, pos: start });
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(offset));
+      const word = match[0];
+      advance(word.length);
+      const upper = word.toUpperCase();
+      if (KEYWORDS.has(upper)) {
+        tokens.push({ type: 'keyword', value: upper, raw: word, pos: start });
+      } else {
+        tokens.push({ type: 'identifier', value: word, pos: start });
+      }
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, offset));
+    if (operator) {
+      advance(operator.length);
+      tokens.push({ type: 'operator', value: operator, pos: start });
+      continue;
+    }
+
+    if (PUNCTUATION.has(char)) {
+      advance(1);
+      tokens.push({ type: 'punctuation', value: char, pos: start });
+      continue;
+    }
+
+    throw new QuerySyntaxError(`unexpected character '${char}'`, start);
+  }
+
+  tokens.push({ type: 'eof', value: null, pos: position() });
+  return tokens;
+}
+
+module.exports = { tokenize, KEYWORDS, CONTEXTUAL_KEYWORDS };
@@ -0,0 +1,126 @@
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const { QueryError } = require('./errors');
+const { DEFAULT_RPC_URL } = require('./rpcClient');
+
+// Chains a query can read. `custom` points at any public Starknet JSON-RPC
+// endpoint the caller gives.
+const NETWORKS = {
+  mainnet: {
+    name: 'Starknet Mainnet',
+    chainId: 'SN_MAIN',
+    rpcUrl: DEFAULT_RPC_URL
+  },
+  sepolia: {
+    name: 'Starknet Sepolia',
+    chainId: 'SN_SEPOLIA',
+    rpcUrl: process.env.STARKNET_SEPOLIA_RPC_URL || 'https://starknet-sepolia.public.blastapi.io'
+  },
+  custom: {
+    name: 'Custom RPC',
+    chainId: null,
+    rpcUrl: null
+  }
+};
+const NETWORK_IDS = Object.keys(NETWORKS);
+const DEFAULT_NETWORK = 'mainnet';
+
+// Addresses custom endpoints may not reach: loopback, private, link-local,
+// shared and reserved ranges, where they would let users call services
+// inside the backend's network
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+]) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv4');
+}
+// IPv4-mapped addresses (::ffff:10.0.0.1) match the IPv4 ranges; NAT64
+// ones could wrap any IPv4 address
+for (const [prefix, bits] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, 'ipv6');
+}
+
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) return PRIVATE_ADDRESSES.check(address, 'ipv4');
+  return !net.isIPv6(address) || PRIVATE_ADDRESSES.check(address, 'ipv6');
+}
+
+const privateHostError = () => new QueryError('Custom RPC URLs must point at a public host');
+
+// dns.lookup that fails for private addresses. Custom endpoint requests
+// connect through it, so a name can't resolve to a public address when the
+// URL is checked and to an internal one when the request is made.
+function publicLookup(hostname, options, callback) {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) return callback(privateHostError());
+    callback(null, address, family);
+  });
+}
+
+// axios options for custom endpoints. Redirects aren't followed, since a
+// redirect to an IP address would skip the lookup.
+const CUSTOM_REQUEST_OPTIONS = {
+  httpAgent: new http.Agent({ lookup: publicLookup }),
+  httpsAgent: new https.Agent({ lookup: publicLookup }),
+  maxRedirects: 0
+};
+
+// Normalised custom RPC URL. Its host must resolve to public addresses only;
+// this runs on every query, scheduled and API runs included, so a stored URL
+// whose name has since moved to an internal address stops working.
+async function checkCustomRpcUrl(rpcUrl) {
+  let url;
+  try {
+    url = new URL(rpcUrl);
+  } catch {
+    throw new QueryError(`'${rpcUrl}' is not a valid RPC URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new QueryError('Custom RPC URLs must use http or https');
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses;
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      throw new QueryError(`Could not resolve the custom RPC host '${host}'`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw privateHostError();
+  }
+  return url.toString();
+}
+
+// The network a query runs against, as { id, name, chainId, rpcUrl,
+// requestOptions }, where requestOptions are extra axios options for its
+// RPC calls. `rpcUrl` is only used, and required, for the custom network.
+async function resolveNetwork(network = DEFAULT_NETWORK, rpcUrl = null) {
+  const id = network || DEFAULT_NETWORK;
+  if (!Object.prototype.hasOwnProperty.call(NETWORKS, id)) {
+    throw new QueryError(`Unknown network '${id}'; expected one of ${NETWORK_IDS.join(', ')}`);
+  }
+  if (id !== 'custom') {
+    return { id, ...NETWORKS[id], requestOptions: {} };
+  }
+  if (!rpcUrl) {
+    throw new QueryError('The custom network needs an RPC URL');
+  }
+  return { id, ...NETWORKS.custom, rpcUrl: await checkCustomRpcUrl(rpcUrl), requestOptions: CUSTOM_REQUEST_OPTIONS };
+}
+
+module.exports = {
+  NETWORKS,
+  NETWORK_IDS,
+  DEFAULT_NETWORK,
+  resolveNetwork
+};
@@ -0,0 +1,105 @@
+const { parse } = require('./parser');
+const { getTable } = require('./tables');
+const { TABLE_FUNCTIONS } = require('./tableFunctions');
+const { inferColumnType } = require('./views');
+const { QueryError } = require('./errors');
+
+// Notebook cells are named SQL statements. A cell can select from the result
+// of any cell above it as if it were a table, e.g. `SELECT * FROM fees`.
+const CELL_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_CELLS = 50;
+
+function checkCells(cells) {
+  if (cells.length > MAX_CELLS) {
+    throw new QueryError(`A notebook can have at most ${MAX_CELLS} SQL cells`);
+  }
+  const seen = new Set();
+  for (const cell of cells) {
+    const name = cell.name.toLowerCase();
+    if (!CELL_NAME_PATTERN.test(cell.name)) {
+      throw new QueryError(`Cell name '${cell.name}' must start with a letter or underscore and contain only letters, digits and underscores`);
+    }
+    if (getTable(name) || Object.prototype.hasOwnProperty.call(TABLE_FUNCTIONS, name)) {
+      throw new QueryError(`Cell name '${cell.name}' is taken by a built-in table; rename the cell`);
+    }
+    if (seen.has(name)) {
+      throw new QueryError(`More than one cell is named '${cell.name}'`);
+    }
+    seen.add(name);
+  }
+}
+
+// Lower-cased names of the plain tables a statement selects from
+function referencedTables(sql) {
+  const statement = parse(sql);
+  const ast = statement.type === 'explain' ? statement.statement : statement;
+  return [ast.from, ...ast.joins.map(join => join.table)]
+    .filter(ref => !ref.args)
+    .map(ref => ref.name.toLowerCase());
+}
+
+function cellReferences(cell) {
+  try {
+    return referencedTables(cell.sql);
+  } catch (error) {
+    if (error instanceof QueryError) throw new QueryError(`Cell '${cell.name}': ${error.message}`);
+    throw error;
+  }
+}
+
+// The cells `sql` reads, directly or through other cells, in notebook order.
+// `cells` are the cells above the statement; each of them may only read
+// cells above itself.
+function cellDependencies(sql, cells) {
+  checkCells(cells);
+  const indexes = new Map(cells.map((cell, index) => [cell.name.toLowerCase(), index]));
+  const needed = new Set();
+
+  const visit = (names, before) => {
+    for (const name of names) {
+      const index = indexes.get(name);
+      if (index === undefined) continue;
+      if (index >= before) {
+        throw new QueryError(`Cell '${cells[before].name}' reads '${cells[index].name}', which comes after it; cells can only read cells above them`);
+      }
+      if (needed.has(index)) continue;
+      needed.add(index);
+      visit(cellReferences(cells[index]), index);
+    }
+  };
+  visit(referencedTables(sql), cells.length);
+
+  return [...needed].sort((a, b) => a - b).map(index => cells[index]);
+}
+
+// Table over a cell's result rows. Column types come from the engine when
+// it knew them, otherwise from the values.
+function cellTable(name, result) {
+  const { columns, columnTypes = [], rows } = result;
+  return {
+    description: `Result of notebook cell ${name}`,
+    cacheable: false,
+    columns: columns.map((column, index) => ({
+      name: column,
+      type: columnTypes[index] || inferColumnType(rows, column),
+      description: `From cell ${name}`
+    })),
+    async scan() {
+      return rows;
+    },
+    explain() {
+      return {
+        access: `Result of cell ${name}, ${rows.length} rows`,
+        calls: []
+      };
+    }
+  };
+}
+
+module.exports = {
+  CELL_NAME_PATTERN,
+  MAX_CELLS,
+  checkCells,
+  cellDependencies,
+  cellTable
+};
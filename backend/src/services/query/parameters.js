@@ -0,0 +1,115 @@
+const { QueryError } = require('./errors');
+const { normalizeFelt } = require('../../utils/starknet');
+
+// Typed {{placeholders}}. Values are bound into the AST as literals after
+// parsing, never spliced into the SQL text, so a value can't change the shape
+// of the query.
+const PARAMETER_TYPES = ['address', 'integer', 'date', 'enum'];
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const INTEGER_PATTERN = /^-?\d+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+// Check a list of parameter definitions, returning them keyed by name
+function validateDefinitions(definitions = []) {
+  const byName = new Map();
+  for (const definition of definitions) {
+    if (!definition || !NAME_PATTERN.test(definition.name || '')) {
+      throw new QueryError(`Invalid parameter name '${definition && definition.name}'`);
+    }
+    if (!PARAMETER_TYPES.includes(definition.type)) {
+      throw new QueryError(
+        `Parameter '${definition.name}' has unknown type '${definition.type}'; expected one of ${PARAMETER_TYPES.join(', ')}`
+      );
+    }
+    if (definition.type === 'enum' && !(definition.options && definition.options.length > 0)) {
+      throw new QueryError(`Enum parameter '${definition.name}' needs at least one option`);
+    }
+    if (byName.has(definition.name)) {
+      throw new QueryError(`Parameter '${definition.name}' is declared more than once`);
+    }
+    byName.set(definition.name, definition);
+  }
+  return byName;
+}
+
+// Convert a raw value (usually a string from a form or query string) to the
+// value bound into the query. Dates bind as Unix seconds so they compare
+// directly against block timestamps.
+function coerceParameter(definition, raw, pos = null) {
+  const text = typeof raw === 'number' ? String(raw) : typeof raw === 'string' ? raw.trim() : null;
+  const invalid = (expected) =>
+    new QueryError(`Parameter {{${definition.name}}} must be ${expected}, got '${text ?? raw}'`, pos);
+
+  if (text === null) throw invalid('a string or number');
+
+  switch (definition.type) {
+    case 'address':
+      if (!ADDRESS_PATTERN.test(text)) throw invalid('a 0x-prefixed hex address');
+      return normalizeFelt(text);
+
+    case 'integer': {
+      if (!INTEGER_PATTERN.test(text)) throw invalid('an integer');
+      const value = Number(text);
+      if (!Number.isSafeInteger(value)) throw invalid('an integer within safe range');
+      return value;
+    }
+
+    case 'date': {
+      const time = DATE_PATTERN.test(text) ? Date.parse(text.length === 10 ? `${text}T00:00:00Z` : text) : NaN;
+      if (Number.isNaN(time)) throw invalid('a date (YYYY-MM-DD)');
+      return Math.floor(time / 1000);
+    }
+
+    case 'enum':
+      if (!definition.options.includes(text)) throw invalid(`one of ${definition.options.join(', ')}`);
+      return text;
+
+    default:
+      throw new QueryError(`Parameter '${definition.name}' has unknown type '${definition.type}'`, pos);
+  }
+}
+
+// Replace every parameter node with a literal holding its bound value.
+//   definitions - [{ name, type, options?, defaultValue? }]
+//   values      - { [name]: raw value }
+function bindParameters(ast, definitions = [], values = {}) {
+  const byName = validateDefinitions(definitions);
+  const bound = new Map();
+
+  const bind = (node) => {
+    if (Array.isArray(node)) return node.map(bind);
+    if (!node || typeof node !== 'object') return node;
+
+    if (node.type === 'parameter') {
+      const definition = byName.get(node.name);
+      if (!definition) {
+        throw new QueryError(`Parameter {{${node.name}}} is not declared`, node.pos);
+      }
+      if (!bound.has(node.name)) {
+        const raw = values[node.name] ?? definition.defaultValue;
+        if (raw === undefined || raw === null || raw === '') {
+          throw new QueryError(`Parameter {{${node.name}}} needs a value`, node.pos);
+        }
+        bound.set(node.name, coerceParameter(definition, raw, node.pos));
+      }
+      return { type: 'literal', value: bound.get(node.name), pos: node.pos };
+    }
+
+    const copy = {};
+    for (const [key, value] of Object.entries(node)) {
+      copy[key] = key === 'pos' ? value : bind(value);
+    }
+    return copy;
+  };
+
+  return { ast: bind(ast), values: Object.fromEntries(bound) };
+}
+
+module.exports = {
+  PARAMETER_TYPES,
+  validateDefinitions,
+  coerceParameter,
+  bindParameters
+};
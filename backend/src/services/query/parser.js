@@ -0,0 +1,663 @@
+const { tokenize } = require('./lexer');
+const { QuerySyntaxError } = require('./errors');
+const { Interval, parseInterval } = require('./values');
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '<=', '>', '>=']);
+
+// Integer literals that don't fit a double exactly, like felt-sized hex
+// values or u256 amounts, are kept as BigInts
+function numberLiteral(text) {
+  const value = Number(text);
+  if (Number.isInteger(value) && !Number.isSafeInteger(value) && /^(0x[0-9a-fA-F]+|\d+)$/.test(text)) {
+    return BigInt(text);
+  }
+  return value;
+}
+
+// Recursive-descent parser for the SELECT subset the engine understands.
+// Produces a plain-object AST; every node that can fail at runtime keeps the
+// `pos` of its first token so errors can be reported against the source.
+class Parser {
+  constructor(sql) {
+    this.tokens = tokenize(sql);
+    this.index = 0;
+  }
+
+  get current() {
+    return this.tokens[this.index];
+  }
+
+  peek(offset = 1) {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  next() {
+    const token = this.current;
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  isKeyword(value, token = this.current) {
+    return token.type === 'keyword' && token.value === value;
+  }
+
+  isPunctuation(value, token = this.current) {
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  isOperator(value, token = this.current) {
+    return token.type === 'operator' && token.value === value;
+  }
+
+  // Contextual keywords (see CONTEXTUAL_KEYWORDS) arrive as identifiers
+  isWord(value, token = this.current) {
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === value;
+  }
+
+  acceptWord(value) {
+    if (this.isWord(value)) {
+      return this.next();
+    }
+    return null;
+  }
+
+  expectWord(value) {
+    if (!this.isWord(value)) this.fail(`expected ${value}`);
+    return this.next();
+  }
+
+  acceptKeyword(value) {
+    if (this.isKeyword(value)) {
+      return this.next();
+    }
+    return null;
+  }
+
+  acceptPunctuation(value) {
+    if (this.isPunctuation(value)) {
+      return this.next();
+    }
+    return null;
+  }
+
+  expectKeyword(value) {
+    if (!this.isKeyword(value)) this.fail(`expected ${value}`);
+    return this.next();
+  }
+
+  expectPunctuation(value) {
+    if (!this.isPunctuation(value)) this.fail(`expected '${value}'`);
+    return this.next();
+  }
+
+  expectIdentifier(what = 'identifier') {
+    const token = this.current;
+    if (token.type !== 'identifier') this.fail(`expected ${what}`);
+    return this.next();
+  }
+
+  describe(token) {
+    if (token.type === 'eof') return 'end of query';
+    if (token.type === 'string') return `'${token.value}'`;
+    if (token.type === 'parameter') return `'{{${token.value}}}'`;
+    return `'${token.raw || token.value}'`;
+  }
+
+  fail(message, token = this.current) {
+    throw new QuerySyntaxError(`${message} but found ${this.describe(token)}`, token.pos);
+  }
+
+  // A SELECT, or `EXPLAIN SELECT ...` as { type: 'explain', statement }
+  parse() {
+    const explain = this.acceptKeyword('EXPLAIN');
+    const statement = this.parseSelect();
+    this.acceptPunctuation(';');
+    if (this.current.type !== 'eof') {
+      this.fail('expected end of query');
+    }
+    return explain ? { type: 'explain', statement, pos: explain.pos } : statement;
+  }
+
+  parseSelect() {
+    const start = this.current.pos;
+    this.expectKeyword('SELECT');
+
+    const distinct = Boolean(this.acceptKeyword('DISTINCT'));
+    const columns = this.parseSelectList();
+
+    this.expectKeyword('FROM');
+    const from = this.parseTableReference();
+    const joins = this.parseJoins();
+
+    let where = null;
+    if (this.acceptKeyword('WHERE')) {
+      where = this.parseExpression();
+    }
+
+    let groupBy = [];
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      groupBy = this.parseExpressionList();
+    }
+
+    let having = null;
+    if (this.acceptKeyword('HAVING')) {
+      having = this.parseExpression();
+    }
+
+    let orderBy = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      orderBy = this.parseOrderList();
+    }
+
+    let limit = null;
+    let offset = null;
+    if (this.acceptKeyword('LIMIT')) {
+      limit = this.parseNonNegativeInteger('LIMIT');
+      if (this.acceptPunctuation(',')) {
+        // MySQL style: LIMIT offset, count
+        offset = limit;
+        limit = this.parseNonNegativeInteger('LIMIT');
+      }
+    }
+    if (this.acceptKeyword('OFFSET')) {
+      offset = this.parseNonNegativeInteger('OFFSET');
+    }
+
+    return {
+      type: 'select',
+      distinct,
+      columns,
+      from,
+      joins,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      limit,
+      offset,
+      pos: start
+    };
+  }
+
+  parseSelectList() {
+    const columns = [];
+    do {
+      columns.push(this.parseSelectItem());
+    } while (this.acceptPunctuation(','));
+    return columns;
+  }
+
+  parseSelectItem() {
+    const token = this.current;
+
+    if (this.isOperator('*')) {
+      this.next();
+      return { type: 'star', table: null, pos: token.pos };
+    }
+
+    // table.*
+    if (
+      token.type === 'identifier' &&
+      this.isPunctuation('.', this.peek()) &&
+      this.isOperator('*', this.peek(2))
+    ) {
+      this.next();
+      this.next();
+      this.next();
+      return { type: 'star', table: token.value, pos: token.pos };
+    }
+
+    const expr = this.parseExpression();
+    let alias = null;
+    if (this.acceptKeyword('AS')) {
+      alias = this.parseAlias();
+    } else if (this.current.type === 'identifier' || this.current.type === 'string') {
+      alias = this.parseAlias();
+    }
+
+    return { type: 'column', expr, alias, pos: token.pos };
+  }
+
+  parseAlias() {
+    const token = this.current;
+    if (token.type === 'identifier' || token.type === 'string') {
+      this.next();
+      return token.value;
+    }
+    this.fail('expected alias');
+  }
+
+  parseTableReference() {
+    const token = this.expectIdentifier('table name');
+    let name = token.value;
+
+    // Allow schema-qualified names such as starknet.blocks
+    while (this.acceptPunctuation('.')) {
+      name += `.${this.expectIdentifier('table name').value}`;
+    }
+
+    // Table function such as storage('0x...', 'key')
+    let args = null;
+    if (!name.includes('.') && this.acceptPunctuation('(')) {
+      args = this.isPunctuation(')') ? [] : this.parseExpressionList();
+      this.expectPunctuation(')');
+    }
+
+    let alias = null;
+    if (this.acceptKeyword('AS')) {
+      alias = this.expectIdentifier('table alias').value;
+    } else if (this.current.type === 'identifier') {
+      alias = this.next().value;
+    }
+
+    return { type: 'table', name, args, alias, pos: token.pos };
+  }
+
+  // [INNER] JOIN t ON ... | LEFT [OUTER] JOIN t ON ...
+  parseJoins() {
+    const joins = [];
+
+    for (;;) {
+      const token = this.current;
+      let kind;
+      if (this.acceptKeyword('LEFT')) {
+        this.acceptKeyword('OUTER');
+        kind = 'LEFT';
+      } else if (this.acceptKeyword('INNER')) {
+        kind = 'INNER';
+      } else if (this.isKeyword('JOIN')) {
+        kind = 'INNER';
+      } else {
+        return joins;
+      }
+
+      this.expectKeyword('JOIN');
+      const table = this.parseTableReference();
+      this.expectKeyword('ON');
+      const on = this.parseExpression();
+      joins.push({ type: 'join', kind, table, on, pos: token.pos });
+    }
+  }
+
+  parseOrderList() {
+    const items = [];
+    do {
+      const expr = this.parseExpression();
+      let direction = 'ASC';
+      if (this.acceptKeyword('DESC')) direction = 'DESC';
+      else this.acceptKeyword('ASC');
+      items.push({ expr, direction });
+    } while (this.acceptPunctuation(','));
+    return items;
+  }
+
+  parseExpressionList() {
+    const items = [];
+    do {
+      items.push(this.parseExpression());
+    } while (this.acceptPunctuation(','));
+    return items;
+  }
+
+  parseNonNegativeInteger(clause) {
+    const token = this.current;
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(`expected a non-negative integer after ${clause}`);
+    }
+    this.next();
+    return parseInt(token.value, 10);
+  }
+
+  // ---- Expressions, lowest precedence first ----
+
+  parseExpression() {
+    return this.parseOr();
+  }
+
+  parseOr() {
+    let left = this.parseAnd();
+    while (this.isKeyword('OR')) {
+      const token = this.next();
+      left = { type: 'binary', operator: 'OR', left, right: this.parseAnd(), pos: token.pos };
+    }
+    return left;
+  }
+
+  parseAnd() {
+    let left = this.parseNot();
+    while (this.isKeyword('AND')) {
+      const token = this.next();
+      left = { type: 'binary', operator: 'AND', left, right: this.parseNot(), pos: token.pos };
+    }
+    return left;
+  }
+
+  parseNot() {
+    if (this.isKeyword('NOT')) {
+      const token = this.next();
+      return { type: 'unary', operator: 'NOT', operand: this.parseNot(), pos: token.pos };
+    }
+    return this.parseComparison();
+  }
+
+  parseComparison() {
+    const left = this.parseConcat();
+    const token = this.current;
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      this.next();
+      const operator = token.value === '!=' ? '<>' : token.value;
+      return { type: 'binary', operator, left, right: this.parseConcat(), pos: token.pos };
+    }
+
+    if (this.isKeyword('IS')) {
+      this.next();
+      const not = Boolean(this.acceptKeyword('NOT'));
+      this.expectKeyword('NULL');
+      return { type: 'isNull', expr: left, not, pos: token.pos };
+    }
+
+    let not = false;
+    if (this.isKeyword('NOT') && ['IN', 'BETWEEN', 'LIKE'].some(k => this.isKeyword(k, this.peek()))) {
+      this.next();
+      not = true;
+    }
+
+    if (this.acceptKeyword('IN')) {
+      this.expectPunctuation('(');
+      const list = this.parseExpressionList();
+      this.expectPunctuation(')');
+      return { type: 'in', expr: left, list, not, pos: token.pos };
+    }
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseConcat();
+      this.expectKeyword('AND');
+      const high = this.parseConcat();
+      return { type: 'between', expr: left, low, high, not, pos: token.pos };
+    }
+
+    if (this.acceptKeyword('LIKE')) {
+      return { type: 'like', expr: left, pattern: this.parseConcat(), not, pos: token.pos };
+    }
+
+    return left;
+  }
+
+  parseConcat() {
+    let left = this.parseAdditive();
+    while (this.isOperator('||')) {
+      const token = this.next();
+      left = { type: 'binary', operator: '||', left, right: this.parseAdditive(), pos: token.pos };
+    }
+    return left;
+  }
+
+  parseAdditive() {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const token = this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.parseMultiplicative(), pos: token.pos };
+    }
+    return left;
+  }
+
+  parseMultiplicative() {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const token = this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.parseUnary(), pos: token.pos };
+    }
+    return left;
+  }
+
+  parseUnary() {
+    if (this.isOperator('-') || this.isOperator('+')) {
+      const token = this.next();
+      const operand = this.parseUnary();
+      if (token.value === '+') return operand;
+      return { type: 'unary', operator: '-', operand, pos: token.pos };
+    }
+    return this.parsePrimary();
+  }
+
+  parsePrimary() {
+    const token = this.current;
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { type: 'literal', value: numberLiteral(token.value), raw: token.value, pos: token.pos };
+
+      case 'string':
+        this.next();
+        return { type: 'literal', value: token.value, pos: token.pos };
+
+      case 'parameter':
+        this.next();
+        return { type: 'parameter', name: token.value, pos: token.pos };
+
+      case 'keyword':
+        return this.parseKeywordPrimary();
+
+      case 'identifier':
+        return this.parseIdentifierOrCall();
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.next();
+          const expr = this.parseExpression();
+          this.expectPunctuation(')');
+          return expr;
+        }
+        break;
+
+      default:
+        break;
+    }
+
+    this.fail('expected an expression');
+  }
+
+  parseKeywordPrimary() {
+    const token = this.current;
+
+    switch (token.value) {
+      case 'NULL':
+        this.next();
+        return { type: 'literal', value: null, pos: token.pos };
+      case 'TRUE':
+        this.next();
+        return { type: 'literal', value: true, pos: token.pos };
+      case 'FALSE':
+        this.next();
+        return { type: 'literal', value: false, pos: token.pos };
+      case 'CASE':
+        return this.parseCase();
+      case 'CAST':
+        return this.parseCast();
+      default:
+        this.fail('expected an expression');
+    }
+  }
+
+  parseCase() {
+    const token = this.expectKeyword('CASE');
+    let operand = null;
+    if (!this.isKeyword('WHEN')) {
+      operand = this.parseExpression();
+    }
+
+    const whenClauses = [];
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      whenClauses.push({ when, then: this.parseExpression() });
+    }
+    if (whenClauses.length === 0) {
+      this.fail('expected WHEN');
+    }
+
+    let elseExpr = null;
+    if (this.acceptKeyword('ELSE')) {
+      elseExpr = this.parseExpression();
+    }
+    this.expectKeyword('END');
+
+    return { type: 'case', operand, whenClauses, else: elseExpr, pos: token.pos };
+  }
+
+  parseCast() {
+    const token = this.expectKeyword('CAST');
+    this.expectPunctuation('(');
+    const expr = this.parseExpression();
+    this.expectKeyword('AS');
+    const targetType = this.expectIdentifier('type name').value.toUpperCase();
+
+    // Swallow precision arguments such as DECIMAL(38, 0)
+    if (this.acceptPunctuation('(')) {
+      while (!this.isPunctuation(')')) {
+        if (this.current.type === 'eof') this.fail("expected ')'");
+        this.next();
+      }
+      this.next();
+    }
+    this.expectPunctuation(')');
+
+    return { type: 'cast', expr, targetType, pos: token.pos };
+  }
+
+  parseIdentifierOrCall() {
+    if (this.isWord('INTERVAL') && ['string', 'number'].includes(this.peek().type)) {
+      return this.parseInterval();
+    }
+
+    const token = this.next();
+
+    if (this.isPunctuation('(') && !token.quoted) {
+      return this.parseFunctionCall(token);
+    }
+
+    if (this.acceptPunctuation('.')) {
+      const column = this.expectIdentifier('column name');
+      return { type: 'identifier', table: token.value, name: column.value, pos: token.pos };
+    }
+
+    return { type: 'identifier', table: null, name: token.value, pos: token.pos };
+  }
+
+  parseFunctionCall(nameToken) {
+    this.expectPunctuation('(');
+    const name = nameToken.value.toUpperCase();
+
+    if (this.isOperator('*')) {
+      this.next();
+      this.expectPunctuation(')');
+      const call = { type: 'function', name, args: [], star: true, distinct: false, pos: nameToken.pos };
+      return this.isWord('OVER') ? this.parseOver(call) : call;
+    }
+
+    const distinct = Boolean(this.acceptKeyword('DISTINCT'));
+    const args = this.isPunctuation(')') ? [] : this.parseExpressionList();
+    this.expectPunctuation(')');
+
+    const call = { type: 'function', name, args, star: false, distinct, pos: nameToken.pos };
+    return this.isWord('OVER') ? this.parseOver(call) : call;
+  }
+
+  // INTERVAL '7 days' | INTERVAL '7' DAY | INTERVAL 7 DAY
+  parseInterval() {
+    const token = this.expectWord('INTERVAL');
+    const value = this.next();
+
+    let interval;
+    if (this.current.type === 'identifier' && !this.current.quoted && /^[+-]?\d+(\.\d+)?$/.test(value.value.trim())) {
+      interval = Interval.of(Number(value.value), this.current.value);
+      if (!interval) this.fail('expected an interval unit such as DAY or HOUR');
+      this.next();
+    } else if (value.type === 'string') {
+      interval = parseInterval(value.value);
+      if (!interval) this.fail("expected an interval such as '7 days'", value);
+    } else {
+      this.fail('expected an interval unit such as DAY or HOUR');
+    }
+
+    return { type: 'interval', months: interval.months, milliseconds: interval.milliseconds, pos: token.pos };
+  }
+
+  // fn(...) OVER ([PARTITION BY ...] [ORDER BY ...] [ROWS frame])
+  parseOver(call) {
+    this.expectWord('OVER');
+    this.expectPunctuation('(');
+
+    let partitionBy = [];
+    if (this.acceptWord('PARTITION')) {
+      this.expectKeyword('BY');
+      partitionBy = this.parseExpressionList();
+    }
+
+    let orderBy = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      orderBy = this.parseOrderList();
+    }
+
+    let frame = null;
+    if (this.isWord('RANGE')) {
+      this.fail('only ROWS frames are supported, e.g. ROWS BETWEEN 6 PRECEDING AND CURRENT ROW');
+    }
+    if (this.acceptWord('ROWS')) {
+      frame = this.parseFrame();
+    }
+    this.expectPunctuation(')');
+
+    return { ...call, type: 'window', partitionBy, orderBy, frame };
+  }
+
+  // Frame bounds as row offsets from the current row; null is UNBOUNDED
+  parseFrame() {
+    const token = this.current;
+    let start;
+    let end = 0;
+    if (this.acceptKeyword('BETWEEN')) {
+      start = this.parseFrameBound();
+      this.expectKeyword('AND');
+      end = this.parseFrameBound();
+    } else {
+      start = this.parseFrameBound();
+    }
+
+    if (start === Infinity || end === -Infinity || (start !== -Infinity && end !== Infinity && start > end)) {
+      throw new QuerySyntaxError('frame start must come before frame end', token.pos);
+    }
+    return {
+      start: start === -Infinity ? null : start,
+      end: end === Infinity ? null : end
+    };
+  }
+
+  parseFrameBound() {
+    if (this.acceptWord('CURRENT')) {
+      this.expectWord('ROW');
+      return 0;
+    }
+
+    let offset;
+    if (this.acceptWord('UNBOUNDED')) {
+      offset = Infinity;
+    } else {
+      offset = this.parseNonNegativeInteger('ROWS');
+    }
+    if (this.acceptWord('PRECEDING')) return -offset;
+    if (this.acceptWord('FOLLOWING')) return offset;
+    this.fail('expected PRECEDING or FOLLOWING');
+  }
+}
+
+function parse(sql) {
+  return new Parser(sql).parse();
+}
+
+module.exports = { parse, Parser };
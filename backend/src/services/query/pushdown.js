@@ -0,0 +1,331 @@
+const { QueryError } = require('./errors');
+const { toNumber, toDate, isDateString } = require('./values');
+const { evaluate, containsAggregate, containsWindow } = require('./evaluator');
+
+// Predicate pushdown: turn WHERE conditions on a block-number or timestamp
+// column into integer intervals, then into the exact list of blocks a scan
+// has to read. `null` means "unconstrained"; an empty array means "no rows".
+
+const FULL = null;
+
+function normalize(intervals) {
+  const sorted = intervals
+    .filter(([low, high]) => low <= high)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged = [];
+  for (const [low, high] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && low <= last[1] + 1) {
+      last[1] = Math.max(last[1], high);
+    } else {
+      merged.push([low, high]);
+    }
+  }
+  return merged;
+}
+
+function intersect(a, b) {
+  if (a === FULL) return b;
+  if (b === FULL) return a;
+  const result = [];
+  for (const [aLow, aHigh] of a) {
+    for (const [bLow, bHigh] of b) {
+      result.push([Math.max(aLow, bLow), Math.min(aHigh, bHigh)]);
+    }
+  }
+  return normalize(result);
+}
+
+function union(a, b) {
+  if (a === FULL || b === FULL) return FULL;
+  return normalize([...a, ...b]);
+}
+
+// Numeric value of a literal or constant expression. On a timestamp column
+// ISO date strings count too, as unix seconds.
+function literalNumber(node, timestamp = false) {
+  if (node.type === 'unary' && node.operator === '-' && node.operand.type === 'literal') {
+    const value = literalNumber(node.operand);
+    return value === null ? null : -value;
+  }
+  if (node.type !== 'literal') return constantNumber(node);
+  if (node.value === null || typeof node.value === 'boolean') return null;
+  if (timestamp && isDateString(node.value)) {
+    const date = toDate(node.value);
+    return date ? date.getTime() / 1000 : null;
+  }
+  const value = toNumber(node.value);
+  return Number.isNaN(value) ? null : value;
+}
+
+// Value of an expression that reads no columns, such as
+// `NOW() - INTERVAL '1 hour'`. Timestamps become unix seconds to match the
+// timestamp columns.
+function constantNumber(node) {
+  if (!isConstant(node) || containsAggregate(node) || containsWindow(node)) return null;
+  let value;
+  try {
+    value = evaluate(node, { row: {}, meta: {} });
+  } catch {
+    return null;
+  }
+  if (value instanceof Date) return value.getTime() / 1000;
+  if (value === null || typeof value === 'boolean' || typeof value === 'object') return null;
+  const number = toNumber(value);
+  return Number.isNaN(number) ? null : number;
+}
+
+function isConstant(node) {
+  if (!node || typeof node !== 'object') return true;
+  if (node.type === 'identifier' || node.type === 'parameter') return false;
+  return Object.values(node).every(child => (Array.isArray(child) ? child.every(isConstant) : isConstant(child)));
+}
+
+function isColumn(node, qualifier, column) {
+  return (
+    node.type === 'identifier' &&
+    node.name === column &&
+    (node.table === null || node.table === qualifier)
+  );
+}
+
+const FLIPPED = { '=': '=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+function comparisonInterval(operator, value) {
+  switch (operator) {
+    case '=':
+      return Number.isInteger(value) ? [[value, value]] : [];
+    case '<':
+      return [[-Infinity, Math.ceil(value) - 1]];
+    case '<=':
+      return [[-Infinity, Math.floor(value)]];
+    case '>':
+      return [[Math.floor(value) + 1, Infinity]];
+    case '>=':
+      return [[Math.ceil(value), Infinity]];
+    default:
+      return FULL;
+  }
+}
+
+// Intervals of `column` values that can satisfy `node`. `timestamp` marks a
+// timestamp column, which ISO date literals can be compared with.
+function extractIntervals(node, qualifier, column, timestamp = false) {
+  if (!node) return FULL;
+
+  switch (node.type) {
+    case 'binary': {
+      if (node.operator === 'AND') {
+        return intersect(
+          extractIntervals(node.left, qualifier, column, timestamp),
+          extractIntervals(node.right, qualifier, column, timestamp)
+        );
+      }
+      if (node.operator === 'OR') {
+        return union(
+          extractIntervals(node.left, qualifier, column, timestamp),
+          extractIntervals(node.right, qualifier, column, timestamp)
+        );
+      }
+      if (!FLIPPED[node.operator]) return FULL;
+
+      if (isColumn(node.left, qualifier, column)) {
+        const value = literalNumber(node.right, timestamp);
+        return value === null ? FULL : comparisonInterval(node.operator, value);
+      }
+      if (isColumn(node.right, qualifier, column)) {
+        const value = literalNumber(node.left, timestamp);
+        return value === null ? FULL : comparisonInterval(FLIPPED[node.operator], value);
+      }
+      return FULL;
+    }
+
+    case 'between': {
+      if (node.not || !isColumn(node.expr, qualifier, column)) return FULL;
+      const low = literalNumber(node.low, timestamp);
+      const high = literalNumber(node.high, timestamp);
+      if (low === null || high === null) return FULL;
+      return normalize([[Math.ceil(low), Math.floor(high)]]);
+    }
+
+    case 'in': {
+      if (node.not || !isColumn(node.expr, qualifier, column)) return FULL;
+      const values = node.list.map(item => literalNumber(item, timestamp));
+      if (values.some(value => value === null)) return FULL;
+      return normalize(values.filter(Number.isInteger).map(value => [value, value]));
+    }
+
+    default:
+      return FULL;
+  }
+}
+
+// Value `column` must equal for every row, when the WHERE clause is an AND
+// chain containing `column = 'literal'`. Used for RPC filters that only
+// accept a single value, such as the address of starknet_getEvents.
+function extractEquality(node, qualifier, column) {
+  if (!node || node.type !== 'binary') return null;
+
+  if (node.operator === 'AND') {
+    return extractEquality(node.left, qualifier, column) ?? extractEquality(node.right, qualifier, column);
+  }
+  if (node.operator !== '=') return null;
+
+  const [columnSide, valueSide] = isColumn(node.left, qualifier, column)
+    ? [node.left, node.right]
+    : [node.right, node.left];
+  if (!isColumn(columnSide, qualifier, column)) return null;
+  if (valueSide.type !== 'literal' || typeof valueSide.value !== 'string') return null;
+  return valueSide.value;
+}
+
+// Values `column` is limited to when the WHERE clause is an AND chain
+// containing `column = 'literal'` or `column IN ('literal', ...)`, including
+// the IN lists a join builds from the other side's keys. Null otherwise.
+function extractValues(node, qualifier, column) {
+  if (!node) return null;
+
+  if (node.type === 'binary' && node.operator === 'AND') {
+    return extractValues(node.left, qualifier, column) ?? extractValues(node.right, qualifier, column);
+  }
+  if (node.type === 'in') {
+    if (node.not || !isColumn(node.expr, qualifier, column)) return null;
+    // NULL never matches; anything else but a string literal could match
+    // rows these values don't cover
+    const items = node.list.filter(item => !(item.type === 'literal' && item.value === null));
+    if (items.some(item => item.type !== 'literal' || typeof item.value !== 'string')) return null;
+    return [...new Set(items.map(item => item.value))];
+  }
+
+  const value = extractEquality(node, qualifier, column);
+  return value === null ? null : [value];
+}
+
+// Copy of `node` with qualified column references renamed through `aliases`
+// ('qualifier.column' -> identifier node). A join on `a.x = b.y` makes every
+// WHERE constraint on a.x hold for b.y too, so rewriting lets each side of
+// the join push down the other side's filters.
+function substituteColumns(node, aliases) {
+  if (Array.isArray(node)) return node.map(item => substituteColumns(item, aliases));
+  if (!node || typeof node !== 'object') return node;
+
+  if (node.type === 'identifier' && node.table) {
+    const alias = aliases.get(`${node.table}.${node.name}`);
+    if (alias) return alias;
+  }
+
+  const copy = {};
+  for (const [key, value] of Object.entries(node)) {
+    copy[key] = key === 'pos' ? value : substituteColumns(value, aliases);
+  }
+  return copy;
+}
+
+// `column IN (values)` as an AST node, so key values read from one side of a
+// join can narrow the scan of the other side.
+function inListPredicate(qualifier, column, values) {
+  return {
+    type: 'in',
+    not: false,
+    expr: { type: 'identifier', table: qualifier, name: column },
+    list: values.map(value => ({ type: 'literal', value }))
+  };
+}
+
+function andPredicates(...nodes) {
+  return nodes
+    .filter(Boolean)
+    .reduce((left, right) => (left ? { type: 'binary', operator: 'AND', left, right } : right), null);
+}
+
+// ============================================
+// TIMESTAMP -> BLOCK RESOLUTION
+// ============================================
+
+// Binary search for the first block whose timestamp is >= `timestamp`.
+// Returns head + 1 when every block is older.
+async function firstBlockAtOrAfter(timestamp, head, getTimestamp) {
+  let low = 0;
+  let high = head;
+  let result = head + 1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const blockTimestamp = await getTimestamp(mid);
+    if (blockTimestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      result = mid;
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+async function timestampsToBlocks(intervals, head, rpc) {
+  const cache = new Map();
+  const getTimestamp = async (blockNumber) => {
+    if (!cache.has(blockNumber)) {
+      const block = await rpc.getBlockWithTxHashes(blockNumber);
+      cache.set(blockNumber, Number(block.timestamp));
+    }
+    return cache.get(blockNumber);
+  };
+
+  const blocks = [];
+  for (const [low, high] of intervals) {
+    const first = low === -Infinity ? 0 : await firstBlockAtOrAfter(low, head, getTimestamp);
+    const last = high === Infinity ? head : (await firstBlockAtOrAfter(high + 1, head, getTimestamp)) - 1;
+    blocks.push([first, last]);
+  }
+  return normalize(blocks);
+}
+
+// Work out which blocks a scan must read.
+//   where    - parsed WHERE clause (may be null)
+//   columns  - { blockNumber, timestamp } column names for this table
+// Returns block numbers newest-first, or null when the WHERE clause does not
+// constrain the block range and the caller should fall back to its default
+// window from the head.
+async function resolveBlockNumbers(rpc, where, qualifier, columns, maxBlocks) {
+  const byNumber = columns.blockNumber ? extractIntervals(where, qualifier, columns.blockNumber) : FULL;
+  const byTimestamp = columns.timestamp ? extractIntervals(where, qualifier, columns.timestamp, true) : FULL;
+
+  if (byNumber === FULL && byTimestamp === FULL) {
+    return null;
+  }
+
+  const head = await rpc.getBlockNumber();
+  let intervals = intersect(byNumber, [[0, head]]);
+  if (byTimestamp !== FULL && intervals.length > 0) {
+    intervals = intersect(intervals, await timestampsToBlocks(byTimestamp, head, rpc));
+  }
+
+  const total = intervals.reduce((sum, [low, high]) => sum + (high - low + 1), 0);
+  if (total > maxBlocks) {
+    throw new QueryError(
+      `Query would read ${total.toLocaleString()} blocks; narrow the block_number or timestamp range to at most ${maxBlocks.toLocaleString()} blocks`
+    );
+  }
+
+  const numbers = [];
+  for (let i = intervals.length - 1; i >= 0; i--) {
+    for (let block = intervals[i][1]; block >= intervals[i][0]; block--) {
+      numbers.push(block);
+    }
+  }
+  return numbers;
+}
+
+module.exports = {
+  extractIntervals,
+  extractEquality,
+  extractValues,
+  substituteColumns,
+  inListPredicate,
+  andPredicates,
+  resolveBlockNumbers,
+  firstBlockAtOrAfter
+};
@@ -0,0 +1,216 @@
+const axios = require('axios');
+const { QueryCancelledError } = require('./errors');
+
+const DEFAULT_RPC_URL =
+  process.env.STARKNET_RPC_URL ||
+  process.env.VITE_STARKNET_RPC_URL ||
+  'https://starknet-mainnet.public.blastapi.io';
+
+// In-flight call caps: per query execution, and across the whole process so
+// many concurrent queries can't flood a public node between them.
+const MAX_CONCURRENT_CALLS = 8;
+const MAX_GLOBAL_CONCURRENT_CALLS = 32;
+
+// Starknet JSON-RPC error code for an unknown transaction hash
+const TXN_HASH_NOT_FOUND = 29;
+
+// Counting semaphore; `run` waits for a free slot before calling `task`
+class Semaphore {
+  constructor(size) {
+    this.size = size;
+    this.active = 0;
+    this.waiting = [];
+  }
+
+  async run(task) {
+    if (this.active >= this.size) {
+      await new Promise(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      const next = this.waiting.shift();
+      if (next) next();
+    }
+  }
+}
+
+const globalSlots = new Semaphore(MAX_GLOBAL_CONCURRENT_CALLS);
+
+// Thin JSON-RPC client for Starknet nodes. One instance is created per query
+// execution so the engine can report how many calls a query cost. The head,
+// full blocks and state updates are memoised for that execution, so every
+// table in a join sees the same head and a block read by both sides is
+// fetched once.
+// `blockRange` records the lowest and highest block whose contents were read,
+// which is what decides how long a result can be cached.
+//   signal     - AbortSignal; once aborted, pending and future calls reject
+//                with the signal's reason
+//   onProgress - receives progress events reported by table scans
+//   network    - id of the network rpcUrl serves, for tables whose data
+//                differs between chains (such as token addresses)
+//   requestOptions - extra axios options for every call (see networks.js)
+class StarknetRpcClient {
+  constructor(rpcUrl = DEFAULT_RPC_URL, { signal = null, onProgress = null, network = 'mainnet', requestOptions = {} } = {}) {
+    this.rpcUrl = rpcUrl;
+    this.network = network;
+    this.requestOptions = requestOptions;
+    this.signal = signal;
+    this.onProgress = onProgress;
+    this.slots = new Semaphore(MAX_CONCURRENT_CALLS);
+    this.callCount = 0;
+    this.nextId = 1;
+    this.head = null;
+    this.blocks = new Map();
+    this.classes = new Map();
+    this.stateUpdates = new Map();
+    this.blockRange = null;
+  }
+
+  noteBlocks(from, to) {
+    if (this.blockRange === null) {
+      this.blockRange = { from, to };
+    } else {
+      this.blockRange.from = Math.min(this.blockRange.from, from);
+      this.blockRange.to = Math.max(this.blockRange.to, to);
+    }
+  }
+
+  reportProgress(event) {
+    if (this.onProgress) this.onProgress(event);
+  }
+
+  throwIfAborted() {
+    if (this.signal && this.signal.aborted) {
+      throw this.signal.reason || new QueryCancelledError();
+    }
+  }
+
+  async call(method, params = []) {
+    return this.slots.run(() => globalSlots.run(() => this.send(method, params)));
+  }
+
+  async send(method, params) {
+    this.throwIfAborted();
+    this.callCount++;
+
+    let response;
+    try {
+      response = await axios.post(this.rpcUrl, {
+        jsonrpc: '2.0',
+        method,
+        params,
+        id: this.nextId++
+      }, { ...this.requestOptions, timeout: 30000, signal: this.signal || undefined });
+    } catch (error) {
+      this.throwIfAborted();
+      throw error;
+    }
+
+    if (response.data.error) {
+      const { code, message } = response.data.error;
+      const error = new Error(`RPC ${method} failed: ${message} (code ${code})`);
+      error.rpcCode = code;
+      throw error;
+    }
+
+    return response.data.result;
+  }
+
+  async getBlockNumber() {
+    if (this.head === null) {
+      this.head = this.call('starknet_blockNumber').then(Number);
+    }
+    return this.head;
+  }
+
+  async getBlockWithTxs(blockNumber) {
+    this.noteBlocks(blockNumber, blockNumber);
+    if (!this.blocks.has(blockNumber)) {
+      const block = this.call('starknet_getBlockWithTxs', [{ block_number: blockNumber }]);
+      // Forget failures so a retry can succeed
+      block.catch(() => this.blocks.delete(blockNumber));
+      this.blocks.set(blockNumber, block);
+    }
+    return this.blocks.get(blockNumber);
+  }
+
+  // State diff of one block: storage writes, nonces, deployed, declared and
+  // replaced classes. Memoised like blocks, since several state tables can
+  // read the same block in one query.
+  async getStateUpdate(blockNumber) {
+    this.noteBlocks(blockNumber, blockNumber);
+    if (!this.stateUpdates.has(blockNumber)) {
+      const update = this.call('starknet_getStateUpdate', [{ block_number: blockNumber }]);
+      update.catch(() => this.stateUpdates.delete(blockNumber));
+      this.stateUpdates.set(blockNumber, update);
+    }
+    return this.stateUpdates.get(blockNumber);
+  }
+
+  // Same block with each transaction's receipt alongside it
+  // ({ transaction, receipt } entries); needs RPC 0.7 or later
+  async getBlockWithReceipts(blockNumber) {
+    this.noteBlocks(blockNumber, blockNumber);
+    return this.call('starknet_getBlockWithReceipts', [{ block_number: blockNumber }]);
+  }
+
+  // Receipt of one transaction, or null when the node doesn't know the hash
+  async getTransactionReceipt(transactionHash) {
+    let receipt;
+    try {
+      receipt = await this.call('starknet_getTransactionReceipt', [transactionHash]);
+    } catch (error) {
+      if (error.rpcCode === TXN_HASH_NOT_FOUND) return null;
+      throw error;
+    }
+    // Pending receipts have no block yet; they still change until the head moves on
+    const blockNumber = receipt.block_number ?? await this.getBlockNumber();
+    this.noteBlocks(blockNumber, blockNumber);
+    return receipt;
+  }
+
+  // One page of events. Pass the returned continuation_token back in the
+  // filter to read the next page.
+  async getEvents(filter) {
+    this.noteBlocks(filter.from_block.block_number, filter.to_block.block_number);
+    return this.call('starknet_getEvents', [filter]);
+  }
+
+  // Contract state at one block. Callers note the block themselves, since
+  // they decide which block a query reads.
+  async getStorageAt(contractAddress, key, blockNumber) {
+    return this.call('starknet_getStorageAt', [contractAddress, key, { block_number: blockNumber }]);
+  }
+
+  async getClassHashAt(contractAddress, blockNumber) {
+    return this.call('starknet_getClassHashAt', [{ block_number: blockNumber }, contractAddress]);
+  }
+
+  // Classes never change once declared, so each is fetched once
+  async getClass(classHash) {
+    if (!this.classes.has(classHash)) {
+      const contractClass = this.call('starknet_getClass', ['latest', classHash]);
+      contractClass.catch(() => this.classes.delete(classHash));
+      this.classes.set(classHash, contractClass);
+    }
+    return this.classes.get(classHash);
+  }
+
+  // Result felts of a view call
+  async callContract(contractAddress, selector, calldata, blockNumber) {
+    return this.call('starknet_call', [
+      { contract_address: contractAddress, entry_point_selector: selector, calldata },
+      { block_number: blockNumber }
+    ]);
+  }
+
+  // Cheaper than getBlockWithTxs when only the header is needed
+  async getBlockWithTxHashes(blockNumber) {
+    return this.call('starknet_getBlockWithTxHashes', [{ block_number: blockNumber }]);
+  }
+}
+
+module.exports = { StarknetRpcClient, Semaphore, DEFAULT_RPC_URL };
@@ -0,0 +1,48 @@
+const { TABLES } = require('./tables');
+const { TABLE_FUNCTIONS } = require('./tableFunctions');
+const { FUNCTION_DOCS, isAggregate, isWindowFunction } = require('./functions');
+const { KEYWORDS, CONTEXTUAL_KEYWORDS } = require('./lexer');
+const { listViewTables } = require('./views');
+
+const describeColumns = (columns) => columns.map(({ name, type, description }) => ({ name, type, description }));
+
+// Schema registry: every table, table function, view and function a query
+// can use, with column types and descriptions. Chain tables are also
+// selectable as starknet.<name>; `source` says where a table's rows come from.
+async function describeSchema({ userId = null } = {}) {
+  const builtIn = Object.entries(TABLES).map(([name, table]) => ({
+    name,
+    kind: 'table',
+    source: table.cacheable === false ? 'app' : 'chain',
+    description: table.description,
+    columns: describeColumns(table.columns)
+  }));
+
+  const tableFunctions = Object.entries(TABLE_FUNCTIONS).map(([name, definition]) => ({
+    name,
+    kind: 'function',
+    source: 'chain',
+    signature: definition.signature,
+    description: definition.description,
+    columns: describeColumns(definition.columns)
+  }));
+
+  const views = (await listViewTables(userId)).map(view => ({ ...view, source: 'view' }));
+
+  const functions = Object.entries(FUNCTION_DOCS)
+    .map(([name, docs]) => ({
+      name,
+      kind: isAggregate(name) ? 'aggregate' : isWindowFunction(name) ? 'window' : 'scalar',
+      signature: docs.signature,
+      description: docs.description
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    tables: [...builtIn, ...tableFunctions, ...views],
+    functions,
+    keywords: [...KEYWORDS, ...CONTEXTUAL_KEYWORDS].sort()
+  };
+}
+
+module.exports = { describeSchema };
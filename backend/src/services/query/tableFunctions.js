@@ -0,0 +1,226 @@
+const { QueryError } = require('./errors');
+const { evaluate, containsAggregate, containsWindow } = require('./evaluator');
+const { toBigInt, toText, isNumericString } = require('./values');
+const { parseAbi, abiFunctions, encodeArguments, decodeOutputs } = require('./abi');
+const { getSelectorFromName, starknetKeccak, normalizeFelt, FIELD_PRIME } = require('../../utils/starknet');
+
+// Starknet JSON-RPC error codes
+const CONTRACT_NOT_FOUND = 20;
+const CONTRACT_ERROR = 40;
+
+// First column reference inside a table function argument, if any
+function findColumn(node) {
+  if (Array.isArray(node)) return node.map(findColumn).find(Boolean) || null;
+  if (!node || typeof node !== 'object') return null;
+  if (node.type === 'identifier') return node;
+  return Object.values(node).map(findColumn).find(Boolean) || null;
+}
+
+// Felt argument such as a contract address, as canonical hex
+function feltArgument(value, description, name, pos) {
+  const felt = toBigInt(value);
+  if (felt === null || felt < 0n || felt >= FIELD_PRIME) {
+    throw new QueryError(`The ${description} argument of ${name}() must be a felt, got '${toText(value)}'`, pos);
+  }
+  return normalizeFelt(felt);
+}
+
+// The block a table function reads: the one given, or the current head.
+// Either way it is noted so the result is cached for as long as that block
+// is.
+async function resolveBlock(rpc, value, name, pos) {
+  let blockNumber;
+  if (value === null || value === undefined) {
+    blockNumber = await rpc.getBlockNumber();
+  } else {
+    const number = toBigInt(value);
+    if (number === null || number < 0n) {
+      throw new QueryError(`The block argument of ${name}() must be a block number, got '${toText(value)}'`, pos);
+    }
+    blockNumber = Number(number);
+  }
+  rpc.noteBlocks(blockNumber, blockNumber);
+  return blockNumber;
+}
+
+// Turn the node's errors for bad addresses and failing calls into query
+// errors the user can act on
+async function contractRequest(request, address, blockNumber, pos) {
+  try {
+    return await request();
+  } catch (error) {
+    if (error.rpcCode === CONTRACT_NOT_FOUND) {
+      throw new QueryError(`No contract is deployed at ${address} as of block ${blockNumber}`, pos);
+    }
+    if (error.rpcCode === CONTRACT_ERROR) {
+      throw new QueryError(`Contract call failed: ${error.message}`, pos);
+    }
+    throw error;
+  }
+}
+
+// ABI of the contract at `address` as of `blockNumber`
+async function loadAbi(rpc, address, blockNumber, pos) {
+  return contractRequest(async () => {
+    const classHash = await rpc.getClassHashAt(address, blockNumber);
+    return parseAbi(await rpc.getClass(classHash));
+  }, address, blockNumber, pos);
+}
+
+function findFunction(abi, entrypoint, address, pos) {
+  const functions = abiFunctions(abi);
+  const fn = functions.find(candidate => candidate.name === entrypoint);
+  if (!fn) {
+    const names = functions.map(candidate => candidate.name);
+    throw new QueryError(
+      `Contract ${address} has no entrypoint '${entrypoint}' in its ABI` +
+        (names.length ? `. Available: ${names.slice(0, 20).join(', ')}${names.length > 20 ? ', ...' : ''}` : ''),
+      pos
+    );
+  }
+  return fn;
+}
+
+// Table functions read contract state at one block: `FROM storage(...)` and
+// `FROM call(...)`. Arguments must be constants (literals, parameters or
+// expressions of them). Each entry gives its argument count and columns,
+// `scan(rpc, values, pos)` gets the evaluated arguments and `explain(values)`
+// describes the calls like a table's explain.
+const TABLE_FUNCTIONS = {
+  storage: {
+    signature: 'storage(contract, key [, block])',
+    description: 'One storage slot of a contract, from starknet_getStorageAt. The key is a storage address, or the name of a storage variable; block defaults to the latest.',
+    args: [2, 3],
+    columns: [
+      { name: 'contract_address', type: 'felt', description: 'Contract that was read' },
+      { name: 'key', type: 'felt', description: 'Storage address' },
+      { name: 'block_number', type: 'integer', description: 'Block the value was read at' },
+      { name: 'value', type: 'felt', description: 'Value stored at the key' }
+    ],
+    async scan(rpc, [contract, key, block], pos) {
+      const address = feltArgument(contract, 'contract', 'storage', pos);
+      // Plain storage variables live at sn_keccak of their name
+      const storageKey = isNumericString(key) || typeof key === 'number' || typeof key === 'bigint'
+        ? feltArgument(key, 'key', 'storage', pos)
+        : normalizeFelt(starknetKeccak(toText(key)));
+      const blockNumber = await resolveBlock(rpc, block, 'storage', pos);
+      const value = await contractRequest(
+        () => rpc.getStorageAt(address, storageKey, blockNumber),
+        address, blockNumber, pos
+      );
+      return [{ contract_address: address, key: storageKey, block_number: blockNumber, value }];
+    },
+    explain([contract, key, block]) {
+      return {
+        access: `Slot ${toText(key)} of ${toText(contract)} at ${block === null || block === undefined ? 'the latest block' : `block ${toText(block)}`}`,
+        calls: [{ method: 'starknet_getStorageAt', estimated: 1, max: 1, note: 'One call' }]
+      };
+    }
+  },
+
+  call: {
+    signature: 'call(contract, entrypoint, args... [, block])',
+    description: "Result of a view function, from starknet_call, decoded with the contract's ABI into one row per output. Pass one argument per ABI input; one more is the block, which defaults to the latest.",
+    args: [2, Infinity],
+    columns: [
+      { name: 'contract_address', type: 'felt', description: 'Contract that was called' },
+      { name: 'entrypoint', type: 'text', description: 'Function that was called' },
+      { name: 'block_number', type: 'integer', description: 'Block the call ran at' },
+      { name: 'output_index', type: 'integer', description: 'Position of the output, from 0' },
+      { name: 'name', type: 'text', description: 'Output or struct member name, when the ABI has one' },
+      { name: 'type', type: 'text', description: 'Cairo type of the output' },
+      { name: 'value', type: 'any', description: 'Decoded value: integers exactly, felts as hex, structs and arrays as JSON' }
+    ],
+    async scan(rpc, [contract, entrypoint, ...rest], pos) {
+      const address = feltArgument(contract, 'contract', 'call', pos);
+      const name = toText(entrypoint);
+
+      // The block argument is told apart from the function's own inputs by
+      // counting those in the ABI
+      const head = await rpc.getBlockNumber();
+      let abi = await loadAbi(rpc, address, head, pos);
+      let fn = findFunction(abi, name, address, pos);
+      let blockNumber = head;
+      if (rest.length === fn.inputs.length + 1) {
+        blockNumber = await resolveBlock(rpc, rest.pop(), 'call', pos);
+        if (blockNumber !== head) {
+          abi = await loadAbi(rpc, address, blockNumber, pos);
+          fn = findFunction(abi, name, address, pos);
+        }
+      } else {
+        rpc.noteBlocks(head, head);
+      }
+      if (rest.length !== fn.inputs.length) {
+        const inputs = fn.inputs.map(input => input.name).join(', ');
+        throw new QueryError(
+          `${name} takes ${fn.inputs.length} argument${fn.inputs.length === 1 ? '' : 's'}` +
+            `${inputs ? ` (${inputs})` : ''}, optionally followed by a block number; got ${rest.length}`,
+          pos
+        );
+      }
+
+      const result = await contractRequest(
+        () => rpc.callContract(address, getSelectorFromName(name), encodeArguments(fn, rest, pos), blockNumber),
+        address, blockNumber, pos
+      );
+      return decodeOutputs(abi, fn, result).map((output, index) => ({
+        contract_address: address,
+        entrypoint: name,
+        block_number: blockNumber,
+        output_index: index,
+        name: output.name,
+        type: output.type,
+        value: output.value
+      }));
+    },
+    explain([contract, entrypoint]) {
+      return {
+        access: `${toText(entrypoint)} on ${toText(contract)}, at the block given as the last argument or the latest block`,
+        calls: [
+          { method: 'starknet_getClassHashAt', estimated: 1, max: 2, note: 'Finds the ABI; again for a past block if the class changed' },
+          { method: 'starknet_getClass', estimated: 1, max: 2, note: 'One call per class' },
+          { method: 'starknet_call', estimated: 1, max: 1, note: 'One call' }
+        ]
+      };
+    }
+  }
+};
+
+// Table for a `FROM name(args)` reference, with the same shape as a TABLES
+// entry. Null when there is no table function of that name.
+function createTableFunction(ref) {
+  const name = ref.name.toLowerCase();
+  const definition = Object.prototype.hasOwnProperty.call(TABLE_FUNCTIONS, name) ? TABLE_FUNCTIONS[name] : null;
+  if (!definition) return null;
+
+  const [min, max] = definition.args;
+  if (ref.args.length < min || ref.args.length > max) {
+    throw new QueryError(`Wrong number of arguments for ${name}(); usage: ${definition.signature}`, ref.pos);
+  }
+  for (const arg of ref.args) {
+    const column = findColumn(arg);
+    if (column) {
+      throw new QueryError(`Arguments of ${name}() must be constants, not columns such as '${column.name}'`, column.pos);
+    }
+    if (containsAggregate(arg) || containsWindow(arg)) {
+      throw new QueryError(`Arguments of ${name}() can't use aggregate or window functions`, ref.pos);
+    }
+  }
+
+  const values = () => ref.args.map(arg => evaluate(arg, { row: {}, meta: {} }));
+  return {
+    description: definition.description,
+    columns: definition.columns,
+    async scan({ rpc }) {
+      return definition.scan(rpc, values(), ref.pos);
+    },
+    async explain() {
+      return definition.explain(values());
+    }
+  };
+}
+
+module.exports = {
+  TABLE_FUNCTIONS,
+  createTableFunction
+};
@@ -0,0 +1,991 @@
+const Bounty = require('../../models/Bounty');
+const User = require('../../models/User');
+const { QueryError } = require('./errors');
+const { resolveBlockNumbers, extractIntervals, extractEquality, extractValues } = require('./pushdown');
+const { decodeEventName } = require('./eventNames');
+const { tokenByAddress, tokenBySymbol } = require('./tokens');
+const { normalizeInteger } = require('./values');
+const {
+  indexedRange, isIndexed, feltKey, indexedBlockRows, indexedTransactionRows, indexedReceiptRows, indexedReceiptsByHash, indexedEvents
+} = require('./chainIndex');
+const { getSelectorFromName } = require('../../utils/starknet');
+
+// How far back a scan walks from the chain head when the query gives no
+// usable row limit, and the hard ceiling for any single scan.
+const DEFAULT_SCAN_BLOCKS = 100;
+const DEFAULT_TX_SCAN_BLOCKS = 10;
+const MAX_SCAN_BLOCKS = 1000;
+const MAX_DB_ROWS = 5000;
+const FETCH_BATCH_SIZE = 10;
+// Blocks read from the chain index per Mongo query
+const INDEX_BATCH_SIZE = 100;
+
+// Event scans page through starknet_getEvents; without a block_number filter
+// they look back a short window (longer when filtered to one contract).
+// Rows come back newest first like the block tables, but the node pages in
+// chain order, so a LIMITed scan walks back from the top of its range in
+// block windows that double each time one comes up short.
+const EVENTS_CHUNK_SIZE = 1000;
+const MAX_EVENT_PAGES = 100;
+const DEFAULT_EVENT_SCAN_BLOCKS = 10;
+const DEFAULT_CONTRACT_EVENT_SCAN_BLOCKS = 10000;
+const FIRST_EVENT_WINDOW_BLOCKS = 10;
+
+const TRANSFER_SELECTOR = getSelectorFromName('Transfer');
+
+// Rough transactions per block, only used to estimate how many blocks a
+// LIMITed transaction scan reads for EXPLAIN
+const ESTIMATED_TXS_PER_BLOCK = 50;
+
+// Receipts looked up by transaction hash cost one call each
+const MAX_RECEIPT_LOOKUPS = 1000;
+
+// Block numbers a scan should read: the exact set implied by the WHERE
+// clause when it constrains block_number or timestamp, otherwise the most
+// recent `defaultCount` blocks. `pushedDown` says which of the two it is.
+async function planBlockScan(rpc, { where, qualifier }, columns, defaultCount) {
+  const pushed = await resolveBlockNumbers(rpc, where, qualifier, columns, MAX_SCAN_BLOCKS);
+  if (pushed) return { numbers: pushed, pushedDown: true };
+
+  const head = await rpc.getBlockNumber();
+  const numbers = [];
+  for (let i = 0; i < Math.min(defaultCount, MAX_SCAN_BLOCKS) && head - i >= 0; i++) {
+    numbers.push(head - i);
+  }
+  return { numbers, pushedDown: false };
+}
+
+async function blocksToScan(rpc, context, columns, defaultCount) {
+  return (await planBlockScan(rpc, context, columns, defaultCount)).numbers;
+}
+
+function describeBlockScan({ numbers, pushedDown }, columns) {
+  if (numbers.length === 0) return 'No blocks match the WHERE clause';
+  const range = `blocks ${Math.min(...numbers)}-${Math.max(...numbers)} (${numbers.length} block${numbers.length === 1 ? '' : 's'})`;
+  return pushedDown
+    ? `${range} from the WHERE clause on ${columns.blockNumber}/${columns.timestamp}`
+    : `Latest ${range}; filter on ${columns.blockNumber} or ${columns.timestamp} to choose the range`;
+}
+
+// Fetch blocks in the given order in small parallel batches, reporting
+// progress after each batch. `enough` lets callers stop early once they have
+// collected the rows they need; `fetchBlock` swaps in another block method.
+async function fetchBlocks(rpc, numbers, enough = () => false, fetchBlock = number => rpc.getBlockWithTxs(number)) {
+  const blocks = [];
+
+  for (let offset = 0; offset < numbers.length; offset += FETCH_BATCH_SIZE) {
+    const batch = await Promise.all(
+      numbers.slice(offset, offset + FETCH_BATCH_SIZE).map(fetchBlock)
+    );
+    blocks.push(...batch.filter(Boolean));
+    rpc.reportProgress({
+      unit: 'blocks',
+      done: Math.min(offset + FETCH_BATCH_SIZE, numbers.length),
+      total: numbers.length
+    });
+
+    if (enough(blocks)) break;
+  }
+
+  return blocks;
+}
+
+// Rows of the given blocks in the given order. Blocks in the chain index are
+// read from Mongo with `readIndexed`, the rest from the node with
+// `fetchBlock` in small parallel batches and turned into rows by `toRows`.
+// `enough` sees the rows so far and can stop the scan early.
+async function readBlockRows(rpc, numbers, { readIndexed, fetchBlock, toRows, enough = () => false }) {
+  const range = await indexedRange(rpc);
+  const rows = [];
+
+  for (let start = 0; start < numbers.length;) {
+    rpc.throwIfAborted();
+    const indexed = isIndexed(range, numbers[start]);
+    const size = indexed ? INDEX_BATCH_SIZE : FETCH_BATCH_SIZE;
+    let end = start + 1;
+    while (end < numbers.length && end - start < size && isIndexed(range, numbers[end]) === indexed) end++;
+    const batch = numbers.slice(start, end);
+
+    if (indexed) {
+      rows.push(...await readIndexed(rpc.network, batch));
+      rpc.noteBlocks(Math.min(...batch), Math.max(...batch));
+    } else {
+      const blocks = await Promise.all(batch.map(fetchBlock));
+      rows.push(...blocks.filter(Boolean).flatMap(toRows));
+    }
+
+    start = end;
+    rpc.reportProgress({ unit: 'blocks', done: start, total: numbers.length });
+    if (enough(rows)) break;
+  }
+
+  return rows;
+}
+
+// How many of a scan's blocks the chain index holds, for EXPLAIN
+async function indexCoverage(rpc, numbers) {
+  const range = await indexedRange(rpc);
+  const indexed = numbers.filter(number => isIndexed(range, number)).length;
+  return { indexed, remote: numbers.length - indexed };
+}
+
+function describeIndexCoverage({ indexed, remote }) {
+  if (indexed === 0) return '';
+  return remote === 0 ? '; all from the chain index' : `; ${indexed} from the chain index, ${remote} from the node`;
+}
+
+function blockRow(block) {
+  return {
+    block_number: block.block_number,
+    block_hash: block.block_hash,
+    parent_hash: block.parent_hash,
+    timestamp: block.timestamp,
+    transaction_count: block.transactions?.length || 0,
+    sequencer_address: block.sequencer_address || null,
+    status: block.status || null,
+    l1_gas_price: block.l1_gas_price?.price_in_wei || null,
+    starknet_version: block.starknet_version || null
+  };
+}
+
+function transactionRows(block) {
+  return (block.transactions || []).map(tx => ({
+    transaction_hash: tx.transaction_hash,
+    block_number: block.block_number,
+    block_timestamp: block.timestamp,
+    type: tx.type,
+    version: tx.version || null,
+    sender_address: tx.sender_address || null,
+    contract_address: tx.contract_address || null,
+    class_hash: tx.class_hash || null,
+    nonce: tx.nonce || null,
+    max_fee: tx.max_fee || null,
+    calldata_length: tx.calldata ? tx.calldata.length : 0
+  }));
+}
+
+// `block` supplies the timestamp, and the block number and finality for
+// receipts read as part of a block, which leave them out
+function receiptRow(receipt, block) {
+  // RPC 0.6 and earlier report the fee as a bare amount in wei
+  const fee = typeof receipt.actual_fee === 'object' && receipt.actual_fee !== null
+    ? receipt.actual_fee
+    : { amount: receipt.actual_fee ?? null, unit: receipt.actual_fee ? 'WEI' : null };
+  return {
+    transaction_hash: receipt.transaction_hash,
+    block_number: receipt.block_number ?? block?.block_number ?? null,
+    block_timestamp: block?.timestamp ?? null,
+    type: receipt.type || null,
+    actual_fee: fee.amount ?? null,
+    fee_unit: fee.unit || null,
+    execution_status: receipt.execution_status || null,
+    finality_status: receipt.finality_status || block?.status || null,
+    revert_reason: receipt.revert_reason || null,
+    execution_resources: receipt.execution_resources || null,
+    events_count: receipt.events?.length || 0,
+    messages_sent: receipt.messages_sent || []
+  };
+}
+
+// Receipt rows of a block read with getBlockWithReceipts
+function blockReceiptRows(block) {
+  return (block.transactions || []).map(({ receipt }) => receiptRow(receipt, block));
+}
+
+// Receipts of the given transactions. Those in the chain index are read from
+// it; the rest cost one starknet_getTransactionReceipt call each, plus one
+// header call per distinct block for the timestamps. Unknown hashes are
+// skipped.
+async function lookupReceipts(rpc, hashes) {
+  const indexed = (await indexedRange(rpc)) ? await indexedReceiptsByHash(rpc.network, hashes) : new Map();
+  for (const row of indexed.values()) rpc.noteBlocks(row.block_number, row.block_number);
+  const remote = hashes.filter(hash => !indexed.has(feltKey(hash)));
+
+  if (remote.length > MAX_RECEIPT_LOOKUPS) {
+    throw new QueryError(
+      `Query would look up ${remote.length.toLocaleString()} receipts (at most ${MAX_RECEIPT_LOOKUPS.toLocaleString()}); filter by block_number or block_timestamp instead`
+    );
+  }
+
+  const receipts = [];
+  for (let offset = 0; offset < remote.length; offset += FETCH_BATCH_SIZE) {
+    const batch = await Promise.all(
+      remote.slice(offset, offset + FETCH_BATCH_SIZE).map(hash => rpc.getTransactionReceipt(hash))
+    );
+    receipts.push(...batch.filter(Boolean));
+    rpc.reportProgress({
+      unit: 'receipts',
+      done: Math.min(offset + FETCH_BATCH_SIZE, remote.length),
+      total: remote.length
+    });
+  }
+
+  const numbers = [...new Set(receipts.map(receipt => receipt.block_number).filter(number => number != null))];
+  const headers = new Map();
+  for (let offset = 0; offset < numbers.length; offset += FETCH_BATCH_SIZE) {
+    const batch = numbers.slice(offset, offset + FETCH_BATCH_SIZE);
+    const fetched = await Promise.all(batch.map(number => rpc.getBlockWithTxHashes(number)));
+    batch.forEach((number, i) => headers.set(number, fetched[i]));
+  }
+
+  const fetched = new Map(receipts.map(receipt => [feltKey(receipt.transaction_hash), receiptRow(receipt, headers.get(receipt.block_number))]));
+  return hashes.map(hash => indexed.get(feltKey(hash)) || fetched.get(feltKey(hash))).filter(Boolean);
+}
+
+// State update of a block with its number and timestamp, which
+// starknet_getStateUpdate leaves out
+async function fetchStateUpdate(rpc, number) {
+  const [update, header] = await Promise.all([rpc.getStateUpdate(number), rpc.getBlockWithTxHashes(number)]);
+  return { ...update, block_number: number, timestamp: header.timestamp };
+}
+
+// Rows of the state diff tables over the blocks chosen by the WHERE clause,
+// or the latest `defaultCount`. A LIMIT widens the window to the scan
+// ceiling and stops once enough rows are found.
+async function scanStateUpdates(context, columns, defaultCount, toRows) {
+  const { rpc, rowLimit } = context;
+  const numbers = await blocksToScan(rpc, context, columns, rowLimit === null ? defaultCount : MAX_SCAN_BLOCKS);
+  const updates = await fetchBlocks(
+    rpc,
+    numbers,
+    (fetched) => rowLimit !== null && fetched.reduce((total, update) => total + toRows(update).length, 0) >= rowLimit,
+    number => fetchStateUpdate(rpc, number)
+  );
+  return updates.flatMap(toRows);
+}
+
+async function explainStateUpdates(context, columns, defaultCount) {
+  const { rpc, rowLimit } = context;
+  const plan = await planBlockScan(rpc, context, columns, rowLimit === null ? defaultCount : MAX_SCAN_BLOCKS);
+  const count = plan.numbers.length;
+  const stops = rowLimit === null ? '' : `; stops once ${rowLimit} rows are found`;
+  return {
+    access: describeBlockScan(plan, columns),
+    calls: [
+      { method: 'starknet_getStateUpdate', estimated: count, max: count, note: `One call per block${stops}` },
+      { method: 'starknet_getBlockWithTxHashes', estimated: count, max: count, note: `One call per block, for its timestamp${stops}` }
+    ]
+  };
+}
+
+function stateChangeRows(update) {
+  const diff = update.state_diff || {};
+  const block = { block_number: update.block_number, block_timestamp: update.timestamp };
+  return [
+    ...(diff.storage_diffs || []).flatMap(({ address, storage_entries: entries }) => (entries || []).map(({ key, value }) => ({
+      ...block, contract_address: address, kind: 'STORAGE', key, value, class_hash: null
+    }))),
+    ...(diff.nonces || []).map(({ contract_address: address, nonce }) => ({
+      ...block, contract_address: address, kind: 'NONCE', key: null, value: nonce, class_hash: null
+    })),
+    ...(diff.replaced_classes || []).map(({ contract_address: address, class_hash: classHash }) => ({
+      ...block, contract_address: address, kind: 'REPLACED_CLASS', key: null, value: null, class_hash: classHash
+    }))
+  ];
+}
+
+function deployedContractRows(update) {
+  return (update.state_diff?.deployed_contracts || []).map(({ address, class_hash: classHash }) => ({
+    block_number: update.block_number,
+    block_timestamp: update.timestamp,
+    contract_address: address,
+    class_hash: classHash
+  }));
+}
+
+function declaredClassRows(update) {
+  const diff = update.state_diff || {};
+  const block = { block_number: update.block_number, block_timestamp: update.timestamp };
+  return [
+    ...(diff.declared_classes || []).map(({ class_hash: classHash, compiled_class_hash: compiledClassHash }) => ({
+      ...block, class_hash: classHash, compiled_class_hash: compiledClassHash, cairo_version: 1
+    })),
+    ...(diff.deprecated_declared_classes || []).map(classHash => ({
+      ...block, class_hash: classHash, compiled_class_hash: null, cairo_version: 0
+    }))
+  ];
+}
+
+// Block range for starknet_getEvents: the WHERE clause's block_number range
+// clamped to the head, or the latest `window` blocks. Null when it is empty.
+async function eventBlockRange(rpc, where, qualifier, window) {
+  const head = await rpc.getBlockNumber();
+  const range = extractIntervals(where, qualifier, 'block_number');
+  if (range === null) {
+    return { from_block: { block_number: Math.max(0, head - window + 1) }, to_block: { block_number: head } };
+  }
+  const low = Math.max(range.length ? range[0][0] : 0, 0);
+  const high = Math.min(range.length ? range[range.length - 1][1] : -1, head);
+  if (low > high) return null;
+  return { from_block: { block_number: low }, to_block: { block_number: high } };
+}
+
+// starknet_getEvents filter for a scan: the filters it supports natively
+// (contract address, selector, block range) are pushed into the request.
+// Returns null when the block range is empty.
+async function planEventScan(rpc, where, qualifier) {
+  const filter = { chunk_size: EVENTS_CHUNK_SIZE };
+
+  const address = extractEquality(where, qualifier, 'from_address');
+  if (address) filter.address = address;
+
+  const eventName = extractEquality(where, qualifier, 'event_name');
+  const selector = extractEquality(where, qualifier, 'selector') || (eventName && getSelectorFromName(eventName));
+  if (selector) filter.keys = [[selector]];
+
+  // A filtered name outside the built-in list should still decode
+  const extraNames = eventName ? new Map([[BigInt(getSelectorFromName(eventName)), eventName]]) : null;
+
+  const range = await eventBlockRange(rpc, where, qualifier, address ? DEFAULT_CONTRACT_EVENT_SCAN_BLOCKS : DEFAULT_EVENT_SCAN_BLOCKS);
+  if (!range) return null;
+  return { filter: { ...filter, ...range }, extraNames };
+}
+
+function tooManyEvents(hint) {
+  return new QueryError(
+    `Query would read more than ${(MAX_EVENT_PAGES * EVENTS_CHUNK_SIZE).toLocaleString()} events; ${hint}`
+  );
+}
+
+// Events of `filter` in chain order, following continuation tokens to the
+// end of its range. `budget.pages` is what the scan may still read; null
+// when that runs out first. `done` is the rows read before, for progress.
+async function readEventPages(rpc, filter, budget, toRow, done) {
+  const rows = [];
+  let token = null;
+  do {
+    if (budget.pages === 0) return null;
+    budget.pages--;
+
+    const result = await rpc.getEvents(token ? { ...filter, continuation_token: token } : filter);
+    for (const event of result.events || []) {
+      const row = toRow(event);
+      if (row) rows.push(row);
+    }
+
+    rpc.reportProgress({ unit: 'events', done: done + rows.length, total: null, pages: MAX_EVENT_PAGES - budget.pages });
+    token = result.continuation_token;
+  } while (token);
+
+  return rows;
+}
+
+// Events of blocks `from` to `to` from the node, newest first. `toRow` turns
+// an event into a row, or null to skip it; `hint` says how to narrow a scan
+// that reads too many pages. Without a row limit the range is read in one
+// pass; with one, in windows back from `to` until there are enough rows.
+async function readEvents(rpc, filter, { from, to }, rowLimit, toRow, hint) {
+  const budget = { pages: MAX_EVENT_PAGES };
+  const rows = [];
+  let window = rowLimit === null ? to - from + 1 : FIRST_EVENT_WINDOW_BLOCKS;
+  for (let high = to; high >= from; window *= 2) {
+    const low = Math.max(from, high - window + 1);
+    const events = await readEventPages(rpc, {
+      ...filter,
+      from_block: { block_number: low },
+      to_block: { block_number: high }
+    }, budget, toRow, rows.length);
+    // A window cut short holds its oldest events, not its newest
+    if (events === null) {
+      if (rowLimit === null) throw tooManyEvents(hint);
+      break;
+    }
+
+    rows.push(...events.reverse());
+    if (rowLimit !== null && rows.length >= rowLimit) break;
+    high = low - 1;
+  }
+
+  return rows;
+}
+
+// Same as readEvents over the blocks of `filter` that are in the chain index,
+// with the same page size and ceiling
+async function readIndexedEvents(rpc, filter, { from, to }, rowLimit, toRow, hint) {
+  rpc.noteBlocks(from, to);
+  const rows = [];
+  let after = null;
+  for (let page = 0; ; page++) {
+    rpc.throwIfAborted();
+    if (page === MAX_EVENT_PAGES) {
+      if (rowLimit === null) throw tooManyEvents(hint);
+      break;
+    }
+
+    const events = await indexedEvents(rpc.network, {
+      from, to, address: filter.address, selector: filter.keys?.[0][0], after, newestFirst: true, limit: EVENTS_CHUNK_SIZE
+    });
+    for (const event of events) {
+      const row = toRow(event);
+      if (row) rows.push(row);
+    }
+
+    rpc.reportProgress({ unit: 'events', done: rows.length, total: null, pages: page + 1 });
+
+    if (events.length < EVENTS_CHUNK_SIZE) break;
+    if (rowLimit !== null && rows.length >= rowLimit) break;
+    after = events[events.length - 1];
+  }
+
+  return rows;
+}
+
+// The filter's block range cut into the part the chain index holds and the
+// parts before and after it, in block order
+async function splitEventRange(rpc, filter) {
+  const from = filter.from_block.block_number;
+  const to = filter.to_block.block_number;
+  const range = await indexedRange(rpc);
+  if (range === null || range.to < from || range.from > to) return [{ indexed: false, from, to }];
+  return [
+    { indexed: false, from, to: range.from - 1 },
+    { indexed: true, from: Math.max(from, range.from), to: Math.min(to, range.to) },
+    { indexed: false, from: range.to + 1, to }
+  ].filter(segment => segment.from <= segment.to);
+}
+
+// Events matching `filter` newest first, from the chain index where it
+// covers the range and from the node for the rest
+async function readEventRange(rpc, filter, rowLimit, toRow, hint) {
+  const rows = [];
+  for (const segment of (await splitEventRange(rpc, filter)).reverse()) {
+    const remaining = rowLimit === null ? null : rowLimit - rows.length;
+    if (remaining !== null && remaining <= 0) break;
+    rows.push(...(segment.indexed
+      ? await readIndexedEvents(rpc, filter, segment, remaining, toRow, hint)
+      : await readEvents(rpc, filter, segment, remaining, toRow, hint)));
+  }
+  return rows;
+}
+
+// EXPLAIN view of splitEventRange: how many node scans the range takes and
+// which blocks come from the chain index
+async function eventRangeCoverage(rpc, filter) {
+  const segments = await splitEventRange(rpc, filter);
+  const indexed = segments.find(segment => segment.indexed);
+  return {
+    scans: segments.filter(segment => !segment.indexed).length,
+    note: indexed ? `; blocks ${indexed.from}-${indexed.to} from the chain index` : ''
+  };
+}
+
+async function scanEvents({ rpc, rowLimit, where, qualifier }) {
+  const plan = await planEventScan(rpc, where, qualifier);
+  if (!plan) return [];
+  const { filter, extraNames } = plan;
+
+  return readEventRange(rpc, filter, rowLimit, event => ({
+    block_number: event.block_number ?? null,
+    block_hash: event.block_hash || null,
+    transaction_hash: event.transaction_hash,
+    from_address: event.from_address,
+    selector: event.keys?.[0] || null,
+    event_name: decodeEventName(event.keys?.[0], extraNames),
+    keys: event.keys || [],
+    data: event.data || []
+  }), 'filter by from_address, event_name or a narrower block_number range');
+}
+
+// `scans` is the number of token contracts read separately, `ranges` the
+// number of block ranges outside the chain index each of them reads
+function describeEventCalls(rowLimit, scans = 1, ranges = 1) {
+  if (ranges === 0) return [];
+  const pages = rowLimit === null ? 1 : Math.min(Math.ceil(rowLimit / EVENTS_CHUNK_SIZE) || 1, MAX_EVENT_PAGES);
+  return [{
+    method: 'starknet_getEvents',
+    estimated: pages * scans * ranges,
+    max: MAX_EVENT_PAGES * scans * ranges,
+    note: `One call per page of up to ${EVENTS_CHUNK_SIZE} events${scans > 1 ? `, for each of ${scans} tokens` : ''}` +
+      `${ranges > 1 ? ', before and after the chain index' : ''}; ` +
+      (rowLimit === null
+        ? 'reads until the range is exhausted'
+        : `reads back from the newest block in growing windows and stops after ${rowLimit} rows`)
+  }];
+}
+
+async function explainEvents({ rpc, rowLimit, where, qualifier }) {
+  const plan = await planEventScan(rpc, where, qualifier);
+  if (!plan) {
+    return { access: 'No blocks match the WHERE clause', calls: [] };
+  }
+
+  const { filter } = plan;
+  const pushed = [
+    filter.address && `from_address = ${filter.address}`,
+    filter.keys && `selector = ${filter.keys[0][0]}`
+  ].filter(Boolean);
+  const coverage = await eventRangeCoverage(rpc, filter);
+
+  return {
+    access: `Blocks ${filter.from_block.block_number}-${filter.to_block.block_number}` +
+      (pushed.length ? `, filtered on ${pushed.join(' and ')}` : ', every contract and event') +
+      coverage.note,
+    calls: describeEventCalls(rowLimit, 1, coverage.scans)
+  };
+}
+
+// ERC20 Transfer in either layout: Cairo 0 and early Cairo 1 tokens put
+// from, to and the u256 amount in data, OpenZeppelin Cairo 1 tokens key
+// from and to. Other shapes (such as ERC721 transfers keying the token id)
+// are skipped.
+function transferRow(event, network) {
+  const keys = event.keys || [];
+  const data = event.data || [];
+  let fields;
+  if (keys.length === 1 && data.length === 4) fields = data;
+  else if (keys.length === 3 && data.length === 2) fields = [keys[1], keys[2], ...data];
+  else return null;
+
+  const [from, to, low, high] = fields;
+  const token = tokenByAddress(event.from_address, network);
+  return {
+    block_number: event.block_number ?? null,
+    transaction_hash: event.transaction_hash,
+    token_address: event.from_address,
+    symbol: token ? token.symbol : null,
+    decimals: token ? token.decimals : null,
+    from_address: from,
+    to_address: to,
+    amount: normalizeInteger(BigInt(low) + (BigInt(high) << 128n))
+  };
+}
+
+// Token contracts a transfer scan is limited to by token_address and symbol
+// filters, null when it reads every token. starknet_getEvents takes one
+// address, so each is scanned separately.
+function transferTokens(where, qualifier, network) {
+  const addresses = extractValues(where, qualifier, 'token_address');
+  const symbols = extractValues(where, qualifier, 'symbol');
+  if (!symbols) return addresses;
+
+  const known = symbols.map(symbol => tokenBySymbol(symbol, network)).filter(Boolean).map(token => token.address);
+  return addresses
+    ? addresses.filter(address => known.some(candidate => BigInt(candidate) === BigInt(address)))
+    : known;
+}
+
+async function planTransferScan(rpc, where, qualifier) {
+  const tokens = transferTokens(where, qualifier, rpc.network);
+  const range = await eventBlockRange(rpc, where, qualifier, tokens ? DEFAULT_CONTRACT_EVENT_SCAN_BLOCKS : DEFAULT_EVENT_SCAN_BLOCKS);
+  if (!range || (tokens && tokens.length === 0)) return null;
+
+  const filter = { chunk_size: EVENTS_CHUNK_SIZE, keys: [[TRANSFER_SELECTOR]], ...range };
+  return tokens ? tokens.map(address => ({ ...filter, address })) : [filter];
+}
+
+async function scanTransfers({ rpc, rowLimit, where, qualifier }) {
+  const filters = await planTransferScan(rpc, where, qualifier);
+  if (!filters) return [];
+
+  const rows = [];
+  for (const filter of filters) {
+    rows.push(...await readEventRange(rpc, filter, rowLimit, event => transferRow(event, rpc.network), 'filter by token_address or symbol, or a narrower block_number range'));
+  }
+  // Scans of several tokens are merged back into newest-first order
+  return filters.length > 1 ? rows.sort((a, b) => b.block_number - a.block_number) : rows;
+}
+
+async function explainTransfers({ rpc, rowLimit, where, qualifier }) {
+  const filters = await planTransferScan(rpc, where, qualifier);
+  if (!filters) {
+    return { access: 'No blocks or tokens match the WHERE clause', calls: [] };
+  }
+
+  const [{ from_block: from, to_block: to }] = filters;
+  const tokens = filters.map(filter => tokenByAddress(filter.address, rpc.network)?.symbol || filter.address).filter(Boolean);
+  const coverage = await eventRangeCoverage(rpc, filters[0]);
+  return {
+    access: `Transfer events in blocks ${from.block_number}-${to.block_number}` +
+      (tokens.length ? ` from ${tokens.join(', ')}` : ' from every token') +
+      coverage.note,
+    calls: describeEventCalls(rowLimit, filters.length, coverage.scans)
+  };
+}
+
+function explainDatabaseScan({ rowLimit }) {
+  return {
+    access: `Starklytics database, up to ${Math.min(rowLimit ?? MAX_DB_ROWS, MAX_DB_ROWS)} rows`,
+    calls: []
+  };
+}
+
+const objectId = (value) => (value ? value.toString() : null);
+
+// ============================================
+// VIRTUAL TABLE REGISTRY
+// ============================================
+
+// Each table describes its columns and knows how to produce rows. `scan`
+// receives { rpc, rowLimit, where, qualifier } where rowLimit is the number
+// of rows the query can possibly need, or null when every row in the scan
+// window matters. Chain tables list their `blockColumns` so WHERE clauses on
+// them can be pushed down into the block range; `exactFilters` lists the
+// conditions a scan applies exactly and `naturalOrder` the order rows come
+// back in; both let a LIMIT stop the scan early. Tables backed by mutable
+// application data set `cacheable: false` to keep their results out of the
+// shared result cache. `explain` takes the same context as `scan` and
+// describes the scan for EXPLAIN without reading any rows:
+// { access, calls: [{ method, estimated, max, note }] }.
+// Blocks, transactions, receipts, events and token transfers inside the
+// range the chain indexer has stored are read from Mongo (see chainIndex.js);
+// only blocks outside it cost RPC calls.
+const TABLES = {
+  blocks: {
+    description: 'Starknet blocks, newest first',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block height' },
+      { name: 'block_hash', type: 'felt', description: 'Block hash' },
+      { name: 'parent_hash', type: 'felt', description: 'Hash of the parent block' },
+      { name: 'timestamp', type: 'timestamp', description: 'Block timestamp in unix seconds' },
+      { name: 'transaction_count', type: 'integer', description: 'Number of transactions in the block' },
+      { name: 'sequencer_address', type: 'felt', description: 'Address of the sequencer that produced the block' },
+      { name: 'status', type: 'text', description: 'Block status, e.g. ACCEPTED_ON_L2' },
+      { name: 'l1_gas_price', type: 'felt', description: 'L1 gas price in wei' },
+      { name: 'starknet_version', type: 'text', description: 'Starknet protocol version' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    async scan(context) {
+      const { rpc } = context;
+      const numbers = await blocksToScan(rpc, context, this.blockColumns, context.rowLimit ?? DEFAULT_SCAN_BLOCKS);
+      return readBlockRows(rpc, numbers, {
+        readIndexed: indexedBlockRows,
+        fetchBlock: number => rpc.getBlockWithTxs(number),
+        toRows: block => [blockRow(block)]
+      });
+    },
+    async explain(context) {
+      const plan = await planBlockScan(context.rpc, context, this.blockColumns, context.rowLimit ?? DEFAULT_SCAN_BLOCKS);
+      const coverage = await indexCoverage(context.rpc, plan.numbers);
+      return {
+        access: describeBlockScan(plan, this.blockColumns) + describeIndexCoverage(coverage),
+        calls: [{
+          method: 'starknet_getBlockWithTxs',
+          estimated: coverage.remote,
+          max: coverage.remote,
+          note: coverage.indexed ? 'One call per block outside the chain index' : 'One call per block'
+        }]
+      };
+    }
+  },
+
+  transactions: {
+    description: 'Transactions from recent Starknet blocks',
+    columns: [
+      { name: 'transaction_hash', type: 'felt', description: 'Transaction hash' },
+      { name: 'block_number', type: 'integer', description: 'Block the transaction was included in' },
+      { name: 'block_timestamp', type: 'timestamp', description: 'Timestamp of the including block' },
+      { name: 'type', type: 'text', description: 'INVOKE, DECLARE, DEPLOY_ACCOUNT, DEPLOY or L1_HANDLER' },
+      { name: 'version', type: 'felt', description: 'Transaction version' },
+      { name: 'sender_address', type: 'felt', description: 'Account that sent the transaction' },
+      { name: 'contract_address', type: 'felt', description: 'Target contract for DEPLOY and L1_HANDLER transactions' },
+      { name: 'class_hash', type: 'felt', description: 'Class hash for DECLARE and DEPLOY_ACCOUNT transactions' },
+      { name: 'nonce', type: 'felt', description: 'Sender nonce' },
+      { name: 'max_fee', type: 'felt', description: 'Maximum fee the sender agreed to pay (pre-v3 transactions)' },
+      { name: 'calldata_length', type: 'integer', description: 'Number of calldata felts' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'block_timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    async scan(context) {
+      const { rpc, rowLimit } = context;
+      const numbers = await blocksToScan(rpc, context, this.blockColumns, rowLimit === null ? DEFAULT_TX_SCAN_BLOCKS : MAX_SCAN_BLOCKS);
+      return readBlockRows(rpc, numbers, {
+        readIndexed: indexedTransactionRows,
+        fetchBlock: number => rpc.getBlockWithTxs(number),
+        toRows: transactionRows,
+        enough: rows => rowLimit !== null && rows.length >= rowLimit
+      });
+    },
+    async explain(context) {
+      const { rpc, rowLimit } = context;
+      const plan = await planBlockScan(rpc, context, this.blockColumns, rowLimit === null ? DEFAULT_TX_SCAN_BLOCKS : MAX_SCAN_BLOCKS);
+      const coverage = await indexCoverage(rpc, plan.numbers);
+      const batches = rowLimit === null ? Infinity : Math.ceil(rowLimit / (ESTIMATED_TXS_PER_BLOCK * FETCH_BATCH_SIZE)) || 1;
+      return {
+        access: describeBlockScan(plan, this.blockColumns) + describeIndexCoverage(coverage),
+        calls: [{
+          method: 'starknet_getBlockWithTxs',
+          estimated: Math.min(coverage.remote, batches * FETCH_BATCH_SIZE),
+          max: coverage.remote,
+          note: (coverage.indexed ? 'One call per block outside the chain index' : 'One call per block') +
+            (rowLimit === null ? '' : `; stops once ${rowLimit} transactions are found`)
+        }]
+      };
+    }
+  },
+
+  receipts: {
+    description: 'Transaction receipts: fees actually paid, execution outcome and what each transaction emitted',
+    columns: [
+      { name: 'transaction_hash', type: 'felt', description: 'Transaction hash' },
+      { name: 'block_number', type: 'integer', description: 'Block the transaction was included in (null while pending)' },
+      { name: 'block_timestamp', type: 'timestamp', description: 'Timestamp of the including block' },
+      { name: 'type', type: 'text', description: 'INVOKE, DECLARE, DEPLOY_ACCOUNT, DEPLOY or L1_HANDLER' },
+      { name: 'actual_fee', type: 'felt', description: 'Fee charged, in the smallest unit of fee_unit' },
+      { name: 'fee_unit', type: 'text', description: 'WEI (paid in ETH) or FRI (paid in STRK)' },
+      { name: 'execution_status', type: 'text', description: 'SUCCEEDED or REVERTED' },
+      { name: 'finality_status', type: 'text', description: 'ACCEPTED_ON_L2 or ACCEPTED_ON_L1' },
+      { name: 'revert_reason', type: 'text', description: 'Why a reverted transaction failed' },
+      { name: 'execution_resources', type: 'object', description: 'Steps, builtins and gas the transaction consumed' },
+      { name: 'events_count', type: 'integer', description: 'Number of events emitted' },
+      { name: 'messages_sent', type: 'array', description: 'L2 to L1 messages sent' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'block_timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    // A transaction_hash filter is answered with one lookup per hash, anything
+    // else reads whole blocks with their receipts
+    async scan(context) {
+      const { rpc, rowLimit, where, qualifier } = context;
+      const hashes = extractValues(where, qualifier, 'transaction_hash');
+      if (hashes) return lookupReceipts(rpc, hashes);
+
+      const numbers = await blocksToScan(rpc, context, this.blockColumns, rowLimit === null ? DEFAULT_TX_SCAN_BLOCKS : MAX_SCAN_BLOCKS);
+      return readBlockRows(rpc, numbers, {
+        readIndexed: indexedReceiptRows,
+        fetchBlock: number => rpc.getBlockWithReceipts(number),
+        toRows: blockReceiptRows,
+        enough: rows => rowLimit !== null && rows.length >= rowLimit
+      });
+    },
+    async explain(context) {
+      const { rpc, rowLimit, where, qualifier } = context;
+      const hashes = extractValues(where, qualifier, 'transaction_hash');
+      if (hashes) {
+        const range = await indexedRange(rpc);
+        return {
+          access: `${hashes.length} transaction hash${hashes.length === 1 ? '' : 'es'} from the WHERE clause`,
+          calls: [{
+            method: 'starknet_getTransactionReceipt',
+            estimated: hashes.length,
+            max: hashes.length,
+            note: (range ? 'One call per hash not in the chain index' : 'One call per hash') +
+              (hashes.length > MAX_RECEIPT_LOOKUPS ? `; fails above ${MAX_RECEIPT_LOOKUPS} hashes` : '')
+          }, {
+            method: 'starknet_getBlockWithTxHashes',
+            estimated: Math.ceil(hashes.length / ESTIMATED_TXS_PER_BLOCK),
+            max: hashes.length,
+            note: 'One call per block, for its timestamp'
+          }]
+        };
+      }
+
+      const plan = await planBlockScan(rpc, context, this.blockColumns, rowLimit === null ? DEFAULT_TX_SCAN_BLOCKS : MAX_SCAN_BLOCKS);
+      const coverage = await indexCoverage(rpc, plan.numbers);
+      const batches = rowLimit === null ? Infinity : Math.ceil(rowLimit / (ESTIMATED_TXS_PER_BLOCK * FETCH_BATCH_SIZE)) || 1;
+      return {
+        access: describeBlockScan(plan, this.blockColumns) + describeIndexCoverage(coverage),
+        calls: [{
+          method: 'starknet_getBlockWithReceipts',
+          estimated: Math.min(coverage.remote, batches * FETCH_BATCH_SIZE),
+          max: coverage.remote,
+          note: (coverage.indexed ? 'One call per block outside the chain index' : 'One call per block') +
+            (rowLimit === null ? '' : `; stops once ${rowLimit} receipts are found`)
+        }]
+      };
+    }
+  },
+
+  state_updates: {
+    description: 'Contract state changes from block state diffs: storage writes, nonce updates and replaced classes (upgrades)',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block that made the change' },
+      { name: 'block_timestamp', type: 'timestamp', description: 'Timestamp of the block' },
+      { name: 'contract_address', type: 'felt', description: 'Contract whose state changed' },
+      { name: 'kind', type: 'text', description: 'STORAGE, NONCE or REPLACED_CLASS' },
+      { name: 'key', type: 'felt', description: 'Storage address written (STORAGE)' },
+      { name: 'value', type: 'felt', description: 'New storage value (STORAGE) or nonce (NONCE)' },
+      { name: 'class_hash', type: 'felt', description: 'New class of the contract (REPLACED_CLASS)' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'block_timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    async scan(context) {
+      return scanStateUpdates(context, this.blockColumns, DEFAULT_TX_SCAN_BLOCKS, stateChangeRows);
+    },
+    async explain(context) {
+      return explainStateUpdates(context, this.blockColumns, DEFAULT_TX_SCAN_BLOCKS);
+    }
+  },
+
+  deployed_contracts: {
+    description: 'Contracts deployed in recent blocks, from block state diffs',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block the contract was deployed in' },
+      { name: 'block_timestamp', type: 'timestamp', description: 'Timestamp of the block' },
+      { name: 'contract_address', type: 'felt', description: 'Address of the new contract' },
+      { name: 'class_hash', type: 'felt', description: 'Class the contract was deployed with' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'block_timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    async scan(context) {
+      return scanStateUpdates(context, this.blockColumns, DEFAULT_SCAN_BLOCKS, deployedContractRows);
+    },
+    async explain(context) {
+      return explainStateUpdates(context, this.blockColumns, DEFAULT_SCAN_BLOCKS);
+    }
+  },
+
+  declared_classes: {
+    description: 'Classes declared in recent blocks, from block state diffs',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block the class was declared in' },
+      { name: 'block_timestamp', type: 'timestamp', description: 'Timestamp of the block' },
+      { name: 'class_hash', type: 'felt', description: 'Hash of the declared class' },
+      { name: 'compiled_class_hash', type: 'felt', description: 'Hash of the compiled CASM (Cairo 1 classes)' },
+      { name: 'cairo_version', type: 'integer', description: '1 for Sierra classes, 0 for deprecated Cairo 0 classes' }
+    ],
+    blockColumns: { blockNumber: 'block_number', timestamp: 'block_timestamp' },
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    async scan(context) {
+      return scanStateUpdates(context, this.blockColumns, DEFAULT_SCAN_BLOCKS, declaredClassRows);
+    },
+    async explain(context) {
+      return explainStateUpdates(context, this.blockColumns, DEFAULT_SCAN_BLOCKS);
+    }
+  },
+
+  events: {
+    description: 'Contract events from starknet_getEvents',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block the event was emitted in (null while pending)' },
+      { name: 'block_hash', type: 'felt', description: 'Hash of the block' },
+      { name: 'transaction_hash', type: 'felt', description: 'Transaction that emitted the event' },
+      { name: 'from_address', type: 'felt', description: 'Contract that emitted the event' },
+      { name: 'selector', type: 'felt', description: 'Event selector (keys[0])' },
+      { name: 'event_name', type: 'text', description: 'Decoded event name, null when the selector is not recognised' },
+      { name: 'keys', type: 'array', description: 'Event keys' },
+      { name: 'data', type: 'array', description: 'Event data' }
+    ],
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    exactFilters: {
+      from_address: ['='],
+      event_name: ['='],
+      selector: ['='],
+      block_number: ['=', '<', '<=', '>', '>=', 'BETWEEN']
+    },
+    scan: scanEvents,
+    explain: explainEvents
+  },
+
+  token_transfers: {
+    description: 'ERC20 Transfer events decoded from both event layouts, with exact amounts and the symbol and decimals of known tokens',
+    columns: [
+      { name: 'block_number', type: 'integer', description: 'Block the transfer happened in (null while pending)' },
+      { name: 'transaction_hash', type: 'felt', description: 'Transaction that made the transfer' },
+      { name: 'token_address', type: 'felt', description: 'Token contract' },
+      { name: 'symbol', type: 'text', description: 'Token symbol, e.g. STRK, ETH or USDC; null for tokens not in the built-in list for the network' },
+      { name: 'decimals', type: 'integer', description: 'Token decimals; use TO_UNITS(amount, decimals) for whole tokens' },
+      { name: 'from_address', type: 'felt', description: 'Sender (0x0 for mints)' },
+      { name: 'to_address', type: 'felt', description: 'Recipient (0x0 for burns)' },
+      { name: 'amount', type: 'u256', description: 'Amount in base units, exact' }
+    ],
+    naturalOrder: { column: 'block_number', direction: 'DESC' },
+    exactFilters: {
+      token_address: ['='],
+      symbol: ['='],
+      block_number: ['=', '<', '<=', '>', '>=', 'BETWEEN']
+    },
+    scan: scanTransfers,
+    explain: explainTransfers
+  },
+
+  bounties: {
+    description: 'Bounties posted on Starklytics',
+    cacheable: false,
+    columns: [
+      { name: 'id', type: 'text', description: 'Bounty id' },
+      { name: 'title', type: 'text', description: 'Bounty title' },
+      { name: 'status', type: 'text', description: 'draft, active, completed, cancelled or expired' },
+      { name: 'priority', type: 'text', description: 'low, medium, high or critical' },
+      { name: 'category', type: 'text', description: 'Bounty category' },
+      { name: 'reward', type: 'number', description: 'Reward amount' },
+      { name: 'currency', type: 'text', description: 'Reward currency' },
+      { name: 'tags', type: 'text', description: 'Comma-separated tags' },
+      { name: 'created_by', type: 'text', description: 'Id of the user who created the bounty' },
+      { name: 'assigned_to', type: 'text', description: 'Id of the assigned user' },
+      { name: 'submission_count', type: 'integer', description: 'Number of submissions' },
+      { name: 'views', type: 'integer', description: 'View count' },
+      { name: 'deadline', type: 'timestamp', description: 'Submission deadline' },
+      { name: 'created_at', type: 'timestamp', description: 'Creation time' },
+      { name: 'updated_at', type: 'timestamp', description: 'Last update time' }
+    ],
+    async scan({ rowLimit }) {
+      const bounties = await Bounty.find()
+        .limit(Math.min(rowLimit ?? MAX_DB_ROWS, MAX_DB_ROWS))
+        .lean();
+
+      return bounties.map(bounty => ({
+        id: objectId(bounty._id),
+        title: bounty.title,
+        status: bounty.status,
+        priority: bounty.priority,
+        category: bounty.category,
+        reward: bounty.reward?.amount ?? null,
+        currency: bounty.reward?.currency ?? null,
+        tags: (bounty.tags || []).join(','),
+        created_by: objectId(bounty.createdBy),
+        assigned_to: objectId(bounty.assignedTo),
+        submission_count: bounty.submissions?.length || 0,
+        views: bounty.views ?? 0,
+        deadline: bounty.deadline || null,
+        created_at: bounty.createdAt || null,
+        updated_at: bounty.updatedAt || null
+      }));
+    },
+    explain: explainDatabaseScan
+  },
+
+  users: {
+    description: 'Registered Starklytics users',
+    cacheable: false,
+    columns: [
+      { name: 'id', type: 'text', description: 'User id' },
+      { name: 'email', type: 'text', description: 'Email address' },
+      { name: 'first_name', type: 'text', description: 'First name' },
+      { name: 'last_name', type: 'text', description: 'Last name' },
+      { name: 'role', type: 'text', description: 'User role' },
+      { name: 'auth_provider', type: 'text', description: 'Sign-in provider' },
+      { name: 'is_active', type: 'boolean', description: 'Whether the account is active' },
+      { name: 'last_login', type: 'timestamp', description: 'Last login time' },
+      { name: 'created_at', type: 'timestamp', description: 'Registration time' }
+    ],
+    async scan({ rowLimit }) {
+      const users = await User.find()
+        .select('-password -refreshToken')
+        .limit(Math.min(rowLimit ?? MAX_DB_ROWS, MAX_DB_ROWS))
+        .lean();
+
+      return users.map(user => ({
+        id: objectId(user._id),
+        email: user.email,
+        first_name: user.firstName || null,
+        last_name: user.lastName || null,
+        role: user.role,
+        auth_provider: user.authProvider || null,
+        is_active: user.isActive,
+        last_login: user.lastLogin || null,
+        created_at: user.createdAt || null
+      }));
+    },
+    explain: explainDatabaseScan
+  }
+};
+
+function getTable(name) {
+  const key = name.toLowerCase();
+  if (TABLES[key]) return TABLES[key];
+  // Accept the catalog spelling used by the data explorer, e.g. starknet.blocks
+  if (key.startsWith('starknet.') && TABLES[key.slice('starknet.'.length)]) {
+    return TABLES[key.slice('starknet.'.length)];
+  }
+  return null;
+}
+
+module.exports = {
+  TABLES,
+  getTable,
+  blockRow,
+  transactionRows,
+  blockReceiptRows,
+  DEFAULT_SCAN_BLOCKS,
+  MAX_SCAN_BLOCKS
+};
@@ -0,0 +1,32 @@
+// ERC20 tokens whose symbol and decimals the token_transfers table attaches.
+// Transfers of other tokens still decode, with NULL symbol and decimals.
+// The fee tokens share their addresses across mainnet, Sepolia and devnets;
+// bridged tokens are listed for the networks they live at that address on.
+const KNOWN_TOKENS = [
+  { symbol: 'ETH', decimals: 18, address: '0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7' },
+  { symbol: 'STRK', decimals: 18, address: '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d' },
+  { symbol: 'USDC', decimals: 6, address: '0x053c91253bc9682c04929ca02ed00b3e423f6710d2ee7e0d5ebb06f3ecf368a8', networks: ['mainnet'] },
+  { symbol: 'USDT', decimals: 6, address: '0x068f5c6a61780768455de69077e07e89787839bf8166decfbf92b645209c0fb8', networks: ['mainnet'] },
+  { symbol: 'WBTC', decimals: 8, address: '0x03fe2b97c1fd336e750087d68b9b867997fd64a2661ff3ca5a7c771641e8e7ac', networks: ['mainnet'] },
+  { symbol: 'DAI', decimals: 18, address: '0x05574eb6b8789a91466f902c380d978e472db68170ff82a5b650b95a58ddf4ad', networks: ['mainnet'] }
+];
+
+const onNetwork = (token, network) => !token.networks || token.networks.includes(network);
+
+// Keyed by numeric value, since nodes drop the leading zeros
+const TOKENS_BY_ADDRESS = new Map(KNOWN_TOKENS.map(token => [BigInt(token.address), token]));
+
+function tokenByAddress(address, network = 'mainnet') {
+  const token = address ? TOKENS_BY_ADDRESS.get(BigInt(address)) : null;
+  return token && onNetwork(token, network) ? token : null;
+}
+
+function tokenBySymbol(symbol, network = 'mainnet') {
+  return KNOWN_TOKENS.find(token => token.symbol === symbol && onNetwork(token, network)) || null;
+}
+
+module.exports = {
+  KNOWN_TOKENS,
+  tokenByAddress,
+  tokenBySymbol
+};
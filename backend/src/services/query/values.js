@@ -0,0 +1,277 @@
+// Value coercion and comparison rules shared by the evaluator and the
+// built-in functions. Starknet RPCs return most quantities as 0x-prefixed hex
+// strings, so hex strings are treated as numbers whenever they meet one.
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+// '2024-02-01', '2024-02-01 12:00' or '2024-02-01T12:00:00.000Z'
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+function isNumericString(value) {
+  return typeof value === 'string' && (HEX_PATTERN.test(value) || DECIMAL_PATTERN.test(value.trim()));
+}
+
+function isDateString(value) {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value.trim());
+}
+
+function toNumber(value) {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') {
+    if (HEX_PATTERN.test(value)) return parseInt(value, 16);
+    const trimmed = value.trim();
+    if (DECIMAL_PATTERN.test(trimmed)) return Number(trimmed);
+    return NaN;
+  }
+  return NaN;
+}
+
+// Exact integer value of numbers, bigints, hex strings and integer decimal
+// strings; null for anything else (fractions, text, booleans)
+function toBigInt(value) {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isSafeInteger(value) ? BigInt(value) : null;
+  if (typeof value === 'string') {
+    if (HEX_PATTERN.test(value)) return BigInt(value);
+    const trimmed = value.trim();
+    if (INTEGER_PATTERN.test(trimmed)) return BigInt(trimmed);
+  }
+  return null;
+}
+
+// Results of exact integer arithmetic: a plain number while it fits in a
+// double without rounding, a BigInt past that
+function normalizeInteger(value) {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+// BigInts can't be serialized to JSON; results carry them as decimal strings,
+// and intervals as their text
+function toJsonValue(value) {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Interval) return value.toString();
+  return value;
+}
+
+// ============================================
+// TIMESTAMPS AND INTERVALS
+// ============================================
+
+const MS_PER_UNIT = {
+  millisecond: 1,
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+const MONTHS_PER_UNIT = { month: 1, quarter: 3, year: 12 };
+
+// Singular unit name for spellings like 'DAYS', 'hr' or 'mins'
+const UNIT_ALIASES = {
+  ms: 'millisecond', msec: 'millisecond', milliseconds: 'millisecond',
+  s: 'second', sec: 'second', secs: 'second', seconds: 'second',
+  m: 'minute', min: 'minute', mins: 'minute', minutes: 'minute',
+  h: 'hour', hr: 'hour', hrs: 'hour', hours: 'hour',
+  d: 'day', days: 'day',
+  w: 'week', weeks: 'week',
+  mon: 'month', mons: 'month', months: 'month',
+  quarters: 'quarter',
+  y: 'year', yr: 'year', yrs: 'year', years: 'year'
+};
+
+function normalizeUnit(unit) {
+  const lower = String(unit).toLowerCase();
+  const name = UNIT_ALIASES[lower] || lower;
+  return MS_PER_UNIT[name] || MONTHS_PER_UNIT[name] ? name : null;
+}
+
+// Length of time, as in `INTERVAL '7 days'`. Months are kept apart from the
+// fixed part because their length depends on the date they are added to.
+class Interval {
+  constructor(months, milliseconds) {
+    this.months = months;
+    this.milliseconds = milliseconds;
+  }
+
+  static of(amount, unit) {
+    const name = normalizeUnit(unit);
+    if (!name) return null;
+    return MONTHS_PER_UNIT[name]
+      ? new Interval(amount * MONTHS_PER_UNIT[name], 0)
+      : new Interval(0, amount * MS_PER_UNIT[name]);
+  }
+
+  plus(other, sign = 1) {
+    return new Interval(this.months + sign * other.months, this.milliseconds + sign * other.milliseconds);
+  }
+
+  times(factor) {
+    return new Interval(this.months * factor, this.milliseconds * factor);
+  }
+
+  // `date` moved forward (sign 1) or back (sign -1) by this interval, in UTC
+  shift(date, sign = 1) {
+    const result = new Date(date.getTime());
+    if (this.months) result.setUTCMonth(result.getUTCMonth() + sign * this.months);
+    return new Date(result.getTime() + sign * this.milliseconds);
+  }
+
+  toString() {
+    const parts = [];
+    const add = (amount, unit) => {
+      if (amount) parts.push(`${amount} ${unit}${Math.abs(amount) === 1 ? '' : 's'}`);
+    };
+    add(Math.trunc(this.months / 12), 'year');
+    add(this.months % 12, 'month');
+    let rest = this.milliseconds;
+    for (const unit of ['day', 'hour', 'minute', 'second']) {
+      const amount = Math.trunc(rest / MS_PER_UNIT[unit]);
+      add(amount, unit);
+      rest -= amount * MS_PER_UNIT[unit];
+    }
+    add(rest, 'millisecond');
+    return parts.length > 0 ? parts.join(' ') : '0 seconds';
+  }
+}
+
+// Interval from text such as '7 days', '1 hour 30 minutes' or '15m'; null
+// when the text isn't one
+function parseInterval(text) {
+  const pattern = /\s*([+-]?\d+(?:\.\d+)?)\s*([a-zA-Z]+)\s*/y;
+  let interval = new Interval(0, 0);
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const part = Interval.of(Number(match[1]), match[2]);
+    if (!part) return null;
+    interval = interval.plus(part);
+    if (pattern.lastIndex === text.length) return interval;
+  }
+  // Something other than `<number> <unit>` pairs
+  return null;
+}
+
+// Timestamp value as a Date. Numbers (and numeric strings) are unix seconds,
+// like block timestamps; other text is parsed as an ISO date. Null when the
+// value isn't a timestamp.
+function toDate(value) {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number' || typeof value === 'bigint') return new Date(Number(value) * 1000);
+  if (typeof value === 'string') {
+    if (isNumericString(value)) return new Date(toNumber(value) * 1000);
+    // ISO dates without a zone are UTC, like the timestamps they meet
+    const match = ISO_DATE_PATTERN.exec(value.trim());
+    const time = match && !match[1] && value.includes(':')
+      ? Date.parse(`${value.trim().replace(' ', 'T')}Z`)
+      : Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time);
+  }
+  return null;
+}
+
+function toText(value) {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Interval) return value.toString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isTruthy(value) {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'bigint') return value !== 0n;
+  if (typeof value === 'string') return value.length > 0 && value.toLowerCase() !== 'false';
+  return Boolean(value);
+}
+
+// Three-way comparison. Returns null when either side is NULL so callers can
+// apply SQL's three-valued logic.
+function compareValues(a, b) {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+
+  // Block timestamps are unix seconds, so numbers meeting a Date or an ISO
+  // date string ('2024-02-01') are read as seconds too
+  const isSeconds = (value) => typeof value === 'number' || typeof value === 'bigint';
+  if (
+    a instanceof Date || b instanceof Date ||
+    (isSeconds(a) && isDateString(b)) || (isDateString(a) && isSeconds(b))
+  ) {
+    const left = toDate(a);
+    const right = toDate(b);
+    if (left && right) {
+      return left.getTime() === right.getTime() ? 0 : left < right ? -1 : 1;
+    }
+  }
+
+  // Felts (addresses, hashes) exceed double precision, compare them exactly
+  if (typeof a === 'string' && typeof b === 'string' && HEX_PATTERN.test(a) && HEX_PATTERN.test(b)) {
+    const left = BigInt(a);
+    const right = BigInt(b);
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+
+  const aNumeric = typeof a === 'number' || typeof a === 'bigint' || typeof a === 'boolean';
+  const bNumeric = typeof b === 'number' || typeof b === 'bigint' || typeof b === 'boolean';
+
+  // Numeric text, such as TO_UNITS results, orders as numbers like it groups
+  if (
+    (aNumeric && (bNumeric || isNumericString(b))) ||
+    (bNumeric && isNumericString(a)) ||
+    (isNumericString(a) && isNumericString(b))
+  ) {
+    // u256 amounts and felts compare exactly when both sides are integers
+    const leftInteger = typeof a === 'boolean' ? null : toBigInt(a);
+    const rightInteger = typeof b === 'boolean' ? null : toBigInt(b);
+    if (leftInteger !== null && rightInteger !== null) {
+      return leftInteger === rightInteger ? 0 : leftInteger < rightInteger ? -1 : 1;
+    }
+    const left = toNumber(a);
+    const right = toNumber(b);
+    return left === right ? 0 : left < right ? -1 : 1;
+  }
+
+  const left = toText(a);
+  const right = toText(b);
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+// Stable key used for GROUP BY, DISTINCT and join lookups. Integers share a
+// key whatever their spelling, so 5, '5' and '0x05' group and join together.
+function valueKey(value) {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return `i:${value}`;
+  if (typeof value === 'bigint') return `i:${value}`;
+  if (typeof value === 'string' && (HEX_PATTERN.test(value) || INTEGER_PATTERN.test(value))) {
+    return `i:${BigInt(value)}`;
+  }
+  if (value instanceof Date) return `d:${value.getTime()}`;
+  if (typeof value === 'object') return `o:${JSON.stringify(value)}`;
+  return `${typeof value}:${value}`;
+}
+
+module.exports = {
+  HEX_PATTERN,
+  isNumericString,
+  isDateString,
+  toNumber,
+  toBigInt,
+  normalizeInteger,
+  toJsonValue,
+  Interval,
+  parseInterval,
+  normalizeUnit,
+  toDate,
+  toText,
+  isTruthy,
+  compareValues,
+  valueKey
+};
@@ -0,0 +1,111 @@
+const QueryView = require('../../models/QueryView');
+const QuerySnapshot = require('../../models/QuerySnapshot');
+const { QueryError } = require('./errors');
+
+// Namespaces that belong to built-in datasets and can't hold views
+const RESERVED_NAMESPACES = ['starknet'];
+
+// Column type of a materialized column, from the first non-null value
+function inferColumnType(rows, column) {
+  const value = rows.map(row => row[column]).find(v => v !== null && v !== undefined);
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string' && /^0x[0-9a-f]+$/i.test(value)) return 'felt';
+  return 'text';
+}
+
+function canReadView(view, userId) {
+  return view.isPublic || view.createdBy.toString() === userId;
+}
+
+// Mongo filter for the views `userId` can select from
+function visibleViewsFilter(userId) {
+  return userId
+    ? { $or: [{ isPublic: true }, { createdBy: userId }] }
+    : { isPublic: true };
+}
+
+// Column definitions of a materialized snapshot, typed from its stored rows
+function snapshotColumns(snapshot, viewName) {
+  return snapshot.columns.map(column => ({
+    name: column,
+    type: inferColumnType(snapshot.rows, column),
+    description: `Materialized from ${viewName}`
+  }));
+}
+
+// Latest successful materialization of a view's source query
+function latestSnapshot(view) {
+  return QuerySnapshot.findOne({ query: view.query, status: 'succeeded' }).sort({ ranAt: -1 });
+}
+
+// Table definition for the view called `name`, or null when there is no such
+// view. Views read the rows stored by the last successful run, so they are
+// never served from the result cache.
+async function getViewTable(name, { userId = null, pos = null } = {}) {
+  const view = await QueryView.findOne({ name: name.toLowerCase() });
+  if (!view) return null;
+
+  if (!canReadView(view, userId)) {
+    throw new QueryError(`View '${view.name}' is private`, pos);
+  }
+
+  const snapshot = await latestSnapshot(view);
+  if (!snapshot) {
+    throw new QueryError(`View '${view.name}' has not been materialized yet; refresh it first`, pos);
+  }
+
+  const rows = snapshot.rows;
+  return {
+    description: view.description || `Materialized view of saved query ${view.query}`,
+    cacheable: false,
+    view: {
+      name: view.name,
+      refreshedAt: snapshot.ranAt,
+      truncated: snapshot.truncated
+    },
+    columns: snapshotColumns(snapshot, view.name),
+    async scan() {
+      return rows;
+    },
+    explain() {
+      return {
+        access: `Stored snapshot of ${view.name} from ${snapshot.ranAt.toISOString()}, ${rows.length} rows${snapshot.truncated ? ' (truncated)' : ''}`,
+        calls: []
+      };
+    }
+  };
+}
+
+// Schema of every materialized view `userId` can select from. Columns are
+// typed from the first rows of the latest snapshot.
+async function listViewTables(userId) {
+  const views = await QueryView.find(visibleViewsFilter(userId)).sort({ name: 1 }).limit(200);
+
+  const tables = await Promise.all(views.map(async (view) => {
+    const snapshot = await QuerySnapshot.findOne({ query: view.query, status: 'succeeded' })
+      .sort({ ranAt: -1 })
+      .select({ rows: { $slice: 20 } });
+    if (!snapshot) return null;
+
+    return {
+      name: view.name,
+      kind: 'view',
+      description: view.description || `Materialized view of saved query ${view.query}`,
+      columns: snapshotColumns(snapshot, view.name)
+    };
+  }));
+  return tables.filter(Boolean);
+}
+
+module.exports = {
+  RESERVED_NAMESPACES,
+  getViewTable,
+  listViewTables,
+  latestSnapshot,
+  canReadView,
+  visibleViewsFilter,
+  snapshotColumns,
+  inferColumnType
+};
@@ -0,0 +1,153 @@
+// Minimal five-field cron expressions (minute hour day-of-month month
+// day-of-week), evaluated in UTC. Fields accept '*', numbers, ranges (1-5),
+// lists (1,15) and steps (*/15, 0-30/10). Day-of-week is 0-7 with both 0 and 7
+// meaning Sunday. As in standard cron, when both day fields are restricted a
+// time matches if either of them does.
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const MACROS = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+// Give up looking for a matching time after this many days (covers Feb 29)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+class CronError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'CronError';
+    this.statusCode = 400;
+  }
+}
+
+const parseNumber = (text, field) => {
+  if (!/^\d+$/.test(text)) {
+    throw new CronError(`Invalid ${field.name} "${text}"`);
+  }
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    throw new CronError(`${field.name} must be between ${field.min} and ${field.max}, got ${value}`);
+  }
+  return value;
+};
+
+// Set of allowed values for one field
+const parseField = (text, field) => {
+  const values = new Set();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1, max: field.max });
+
+    let from;
+    let to;
+    if (range === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      from = parseNumber(start, field);
+      to = parseNumber(end, field);
+      if (from > to) throw new CronError(`Invalid ${field.name} range "${range}"`);
+    } else {
+      from = parseNumber(range, field);
+      to = stepText === undefined ? from : field.max;
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+// Parse an expression; throws CronError when it is invalid
+const parseCron = (expression) => {
+  const source = String(expression || '').trim();
+  const expanded = MACROS[source.toLowerCase()] || source;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new CronError('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return {
+    expression: source,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*'
+  };
+};
+
+const matchesDay = (cron, date) => {
+  const dayMatches = cron.days.has(date.getUTCDate());
+  const weekdayMatches = cron.weekdays.has(date.getUTCDay());
+  if (cron.anyDay) return weekdayMatches;
+  if (cron.anyWeekday) return dayMatches;
+  return dayMatches || weekdayMatches;
+};
+
+// First matching time strictly after `after`
+const nextCronRun = (expression, after = new Date()) => {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new CronError(`Cron expression "${cron.expression}" never runs`);
+};
+
+// Shortest gap between the next few runs, used to reject schedules that fire
+// too often
+const shortestCronInterval = (expression, runs = 5, after = new Date()) => {
+  const cron = parseCron(expression);
+  let previous = nextCronRun(cron, after);
+  let shortest = Infinity;
+  for (let i = 1; i < runs; i++) {
+    const next = nextCronRun(cron, previous);
+    shortest = Math.min(shortest, next - previous);
+    previous = next;
+  }
+  return shortest;
+};
+
+module.exports = {
+  CronError,
+  parseCron,
+  nextCronRun,
+  shortestCronInterval
+};
@@ -0,0 +1,24 @@
+const { z } = require('zod');
+
+// Saved queries, dashboards and notebooks are edited from several devices.
+// An update sends the updatedAt of the copy it was based on; when the server
+// copy is newer the update is refused with a 409 carrying that copy, so the
+// client can show it instead of silently overwriting the other device's edit.
+
+const baseUpdatedAtField = z.string().datetime().optional();
+
+const isStaleEdit = (doc, baseUpdatedAt) =>
+  Boolean(baseUpdatedAt) && doc.updatedAt > new Date(baseUpdatedAt);
+
+// `resource` names the document in the message and in `data`
+const sendEditConflict = (res, resource, doc) => res.status(409).json({
+  success: false,
+  message: `This ${resource} was changed on another device`,
+  data: { [resource]: doc }
+});
+
+module.exports = {
+  baseUpdatedAtField,
+  isStaleEdit,
+  sendEditConflict
+};
@@ -69,10 +69,34 @@ const searchLimiter = rateLimit({
   handler: buildHandler('search', (req) => ({ searchTerm: req.query?.q }))
 });
 
+// Per API key limiter for the query API; each key has its own budget
+const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: (req) => req.apiKey.requestsPerMinute,
+  keyGenerator: (req) => req.apiKey.id,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: buildHandler('API key', (req) => ({ apiKeyId: req.apiKey.id, userId: req.user?.userId }))
+});
+
+// Failed API key checks per IP. Query API calls skip the general limiter
+// (see app.js), so this bounds key guessing; only 401s count.
+const apiKeyAuthLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  requestWasSuccessful: (req, res) => res.statusCode !== 401,
+  skipSuccessfulRequests: true,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: buildHandler('API key authentication')
+});
+
 module.exports = {
   general: generalLimiter,
   auth: authLimiter,
   create: createLimiter,
   passwordReset: passwordResetLimiter,
-  search: searchLimiter
+  search: searchLimiter,
+  apiKey: apiKeyLimiter,
+  apiKeyAuth: apiKeyAuthLimiter
 };
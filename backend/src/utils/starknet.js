@@ -0,0 +1,31 @@
+const { keccak_256 } = require('@noble/hashes/sha3');
+const { bytesToHex, utf8ToBytes } = require('@noble/hashes/utils');
+
+const MASK_250 = (1n << 250n) - 1n;
+
+// Largest felt plus one: 2^251 + 17 * 2^192 + 1
+const FIELD_PRIME = (1n << 251n) + 17n * (1n << 192n) + 1n;
+
+// starknet_keccak: keccak256 truncated to 250 bits, used for entrypoint and
+// event selectors
+function starknetKeccak(text) {
+  const hash = BigInt(`0x${bytesToHex(keccak_256(utf8ToBytes(text)))}`);
+  return hash & MASK_250;
+}
+
+function getSelectorFromName(name) {
+  return `0x${starknetKeccak(name).toString(16)}`;
+}
+
+// Canonical felt form: lowercase hex without leading zeros
+function normalizeFelt(value) {
+  if (value === null || value === undefined) return null;
+  return `0x${BigInt(value).toString(16)}`;
+}
+
+module.exports = {
+  FIELD_PRIME,
+  starknetKeccak,
+  getSelectorFromName,
+  normalizeFelt
+};
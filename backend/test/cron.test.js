@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { CronError, nextCronRun, shortestCronInterval } = require('../src/utils/cron');
+
+// Thursday 2024-03-14 13:47:12 UTC
+const NOW = new Date('2024-03-14T13:47:12Z');
+
+const next = (expression, after = NOW) => nextCronRun(expression, after).toISOString();
+
+test('steps run on multiples of the step within the range', () => {
+  assert.equal(next('*/15 * * * *'), '2024-03-14T14:00:00.000Z');
+  assert.equal(next('0-30/10 * * * *', new Date('2024-03-14T13:12:00Z')), '2024-03-14T13:20:00.000Z');
+  assert.equal(next('*/15 * * * *', new Date('2024-03-14T14:00:00Z')), '2024-03-14T14:15:00.000Z');
+});
+
+test('7 and 0 both mean Sunday', () => {
+  assert.equal(next('0 9 * * 7'), '2024-03-17T09:00:00.000Z');
+  assert.equal(next('0 9 * * 0'), '2024-03-17T09:00:00.000Z');
+  assert.equal(next('@weekly'), '2024-03-17T00:00:00.000Z');
+});
+
+test('restricting both day fields runs on either', () => {
+  // The 1st of the month or any Monday: Monday the 18th comes first
+  assert.equal(next('0 0 1 * 1'), '2024-03-18T00:00:00.000Z');
+  // The 13th or any Friday: Friday the 15th, not only Friday the 13th
+  assert.equal(next('0 0 13 * 5'), '2024-03-15T00:00:00.000Z');
+  // With one day field left as '*' only the other one counts
+  assert.equal(next('0 0 1 * *'), '2024-04-01T00:00:00.000Z');
+});
+
+test('dates that exist only in leap years are found', () => {
+  assert.equal(next('0 0 29 2 *'), '2028-02-29T00:00:00.000Z');
+});
+
+test('expressions that never run are rejected', () => {
+  assert.throws(() => nextCronRun('0 0 30 2 *', NOW), /never runs/);
+  assert.throws(() => nextCronRun('0 0 31 4 *', NOW), CronError);
+});
+
+test('malformed expressions are rejected', () => {
+  for (const expression of ['5 * * *', '60 * * * *', '0 0 * * 8', '*/0 * * * *', '5-1 * * * *', 'x * * * *']) {
+    assert.throws(() => nextCronRun(expression, NOW), CronError, expression);
+  }
+});
+
+test('shortestCronInterval measures the tightest gap between runs', () => {
+  assert.equal(shortestCronInterval('*/2 * * * *', 5, NOW), 2 * 60 * 1000);
+  assert.equal(shortestCronInterval('0,3 * * * *', 5, NOW), 3 * 60 * 1000);
+  assert.equal(shortestCronInterval('@hourly', 5, NOW), 60 * 60 * 1000);
+});
@@ -0,0 +1,115 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parse } = require('../../src/services/query/parser');
+const { executeSelect, joinRelation } = require('../../src/services/query/evaluator');
+const { QueryError } = require('../../src/services/query/errors');
+
+// Run `sql` over in-memory tables, joined the way runSelect joins scans
+const select = (sql, tables) => {
+  const ast = parse(sql);
+  const source = ref => ({ qualifier: ref.alias || ref.name, columns: Object.keys(tables[ref.name][0]) });
+  const first = source(ast.from);
+  let relation = {
+    qualifiers: [first.qualifier],
+    columns: { [first.qualifier]: first.columns },
+    rows: tables[ast.from.name].map(row => ({ [first.qualifier]: row }))
+  };
+  for (const join of ast.joins) {
+    relation = joinRelation(relation, join, source(join.table), tables[join.table.name]);
+  }
+  return executeSelect(ast, relation).rows;
+};
+
+const transfers = [
+  { id: 1, token: 'eth', amount: 2 },
+  { id: 2, token: 'strk', amount: null },
+  { id: 3, token: 'eth', amount: 5 }
+];
+
+test('GROUP BY 1 groups by the first select column', () => {
+  assert.deepEqual(
+    select('SELECT token, COUNT(*) AS n FROM transfers GROUP BY 1 ORDER BY token', { transfers }),
+    [{ token: 'eth', n: 2 }, { token: 'strk', n: 1 }]
+  );
+});
+
+test('GROUP BY positions past the select list or on an aggregate are errors', () => {
+  assert.throws(() => select('SELECT token FROM transfers GROUP BY 2', { transfers }), QueryError);
+  assert.throws(() => select('SELECT token, COUNT(*) FROM transfers GROUP BY 2', { transfers }), QueryError);
+});
+
+test('GROUP BY a select alias groups by its expression', () => {
+  assert.deepEqual(
+    select('SELECT UPPER(token) AS symbol, SUM(amount) AS total FROM transfers GROUP BY symbol ORDER BY symbol', { transfers }),
+    [{ symbol: 'ETH', total: 7 }, { symbol: 'STRK', total: null }]
+  );
+});
+
+test('a select alias wins over a column of the same name in GROUP BY', () => {
+  assert.deepEqual(
+    select('SELECT id % 2 AS token, COUNT(*) AS n FROM transfers GROUP BY token ORDER BY token', { transfers }),
+    [{ token: 0, n: 1 }, { token: 1, n: 2 }]
+  );
+});
+
+test('LEFT JOIN keeps unmatched rows with NULLs on the right', () => {
+  const tokens = [{ symbol: 'eth', decimals: 18 }];
+  assert.deepEqual(
+    select('SELECT t.id, k.decimals FROM transfers t LEFT JOIN tokens k ON t.token = k.symbol ORDER BY t.id', { transfers, tokens }),
+    [{ id: 1, decimals: 18 }, { id: 2, decimals: null }, { id: 3, decimals: 18 }]
+  );
+});
+
+test('NOT IN with a NULL in the list matches no rows', () => {
+  assert.deepEqual(select('SELECT id FROM transfers WHERE id NOT IN (1, NULL)', { transfers }), []);
+  assert.deepEqual(select('SELECT id FROM transfers WHERE id IN (1, NULL)', { transfers }), [{ id: 1 }]);
+});
+
+test('NULLs sort last ascending and first descending', () => {
+  assert.deepEqual(select('SELECT id FROM transfers ORDER BY amount', { transfers }).map(row => row.id), [1, 3, 2]);
+  assert.deepEqual(select('SELECT id FROM transfers ORDER BY amount DESC', { transfers }).map(row => row.id), [2, 3, 1]);
+});
+
+test('SUM over u256 hex strings is exact', () => {
+  // 2^128 - 1 twice, far past 2^53
+  const balances = [
+    { amount: '0xffffffffffffffffffffffffffffffff' },
+    { amount: '0xffffffffffffffffffffffffffffffff' }
+  ];
+  const [row] = select('SELECT SUM(amount) AS total FROM balances', { balances });
+  assert.equal(row.total, 2n * (2n ** 128n - 1n));
+});
+
+// One row per block: minute 0 has two blocks, minutes 1-3 one each
+const blocks = [
+  { minute: 0, transaction_count: 4 },
+  { minute: 0, transaction_count: 6 },
+  { minute: 1, transaction_count: 5 },
+  { minute: 2, transaction_count: 20 },
+  { minute: 3, transaction_count: 1 }
+];
+
+test('LAG and running SUM over grouped aggregates follow the window order', () => {
+  const rows = select(
+    `SELECT minute, SUM(transaction_count) AS volume,
+       SUM(transaction_count) - LAG(SUM(transaction_count)) OVER (ORDER BY minute) AS change,
+       SUM(SUM(transaction_count)) OVER (ORDER BY minute) AS running_total
+     FROM blocks GROUP BY minute ORDER BY minute DESC`,
+    { blocks }
+  );
+  assert.deepEqual(rows, [
+    { minute: 3, volume: 1, change: -19, running_total: 36 },
+    { minute: 2, volume: 20, change: 15, running_total: 35 },
+    { minute: 1, volume: 5, change: -5, running_total: 15 },
+    { minute: 0, volume: 10, change: null, running_total: 10 }
+  ]);
+});
+
+test('ROWS BETWEEN n PRECEDING AND CURRENT ROW averages a sliding frame', () => {
+  const rows = select(
+    `SELECT minute, AVG(SUM(transaction_count)) OVER (ORDER BY minute ROWS BETWEEN 1 PRECEDING AND CURRENT ROW) AS moving_avg
+     FROM blocks GROUP BY minute ORDER BY minute`,
+    { blocks }
+  );
+  assert.deepEqual(rows.map(row => row.moving_avg), [10, 7.5, 12.5, 10.5]);
+});
@@ -0,0 +1,46 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { StarknetRpcClient } = require('../../src/services/query/rpcClient');
+const { TABLES } = require('../../src/services/query/tables');
+const { parse } = require('../../src/services/query/parser');
+
+const HEAD = 5000;
+
+// Node with one event every 100 blocks, paging starknet_getEvents in chain
+// order two events at a time
+function fakeNode() {
+  const rpc = new StarknetRpcClient('http://node.invalid', { network: 'mainnet' });
+  rpc.calls = [];
+  rpc.send = async (method, [filter]) => {
+    rpc.calls.push(method);
+    if (method === 'starknet_blockNumber') return HEAD;
+    const from = filter.from_block.block_number;
+    const to = filter.to_block.block_number;
+    const events = [];
+    for (let block = Math.ceil(from / 100) * 100; block <= to; block += 100) {
+      events.push({ block_number: block, transaction_hash: '0x1', from_address: '0xe', keys: ['0x99'], data: [] });
+    }
+    const start = Number(filter.continuation_token || 0);
+    const next = start + 2;
+    return { events: events.slice(start, next), continuation_token: next < events.length ? String(next) : undefined };
+  };
+  return rpc;
+}
+
+const scan = (rpc, sql, rowLimit) => {
+  const ast = parse(sql);
+  return TABLES.events.scan({ rpc, rowLimit, where: ast.where, qualifier: 'events' });
+};
+
+test('a LIMITed event scan returns the newest events', async () => {
+  const rpc = fakeNode();
+  const rows = await scan(rpc, "SELECT * FROM events WHERE from_address = '0xe'", 3);
+  assert.deepEqual(rows.slice(0, 3).map(row => row.block_number), [5000, 4900, 4800]);
+});
+
+test('an unlimited event scan reads the whole range newest first', async () => {
+  const rpc = fakeNode();
+  const rows = await scan(rpc, "SELECT * FROM events WHERE from_address = '0xe' AND block_number BETWEEN 4000 AND 4500", null);
+  assert.deepEqual(rows.map(row => row.block_number), [4500, 4400, 4300, 4200, 4100, 4000]);
+  assert.equal(rpc.calls.filter(method => method === 'starknet_getEvents').length, 3);
+});
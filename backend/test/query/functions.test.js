@@ -0,0 +1,67 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parse } = require('../../src/services/query/parser');
+const { executeSelect } = require('../../src/services/query/evaluator');
+
+const select = (sql, rows = [{}]) => {
+  const relation = { qualifiers: ['t'], columns: { t: Object.keys(rows[0]) }, rows: rows.map(row => ({ t: row })) };
+  return executeSelect(parse(sql), relation).rows;
+};
+
+test('TO_UNITS keeps every digit of 18-decimal amounts past 2^53', () => {
+  // 9007.199254740993123456 tokens, 2^53 + 1 in its first 16 digits
+  const [row] = select(`SELECT TO_UNITS('9007199254740993123456', 18) AS amount FROM t`, [{ id: 1 }]);
+  assert.equal(row.amount, '9007.199254740993123456');
+});
+
+test('TO_UNITS drops trailing zeros and keeps the sign', () => {
+  const [row] = select(
+    `SELECT TO_UNITS(1500000000000000000, 18) AS a, TO_UNITS(0x2710, 4) AS b, TO_UNITS(-5, 2) AS c FROM t`,
+    [{ id: 1 }]
+  );
+  assert.deepEqual(row, { a: '1.5', b: '1', c: '-0.05' });
+});
+
+test('TO_UNITS results order as numbers', () => {
+  const rows = ['9100000000000000000', '10500000000000000000', '2000000000000000000'].map(amount => ({ amount }));
+  assert.deepEqual(
+    select('SELECT TO_UNITS(amount, 18) AS units FROM t ORDER BY units DESC', rows).map(row => row.units),
+    ['10.5', '9.1', '2']
+  );
+  assert.deepEqual(select('SELECT MAX(TO_UNITS(amount, 18)) AS top FROM t', rows), [{ top: '10.5' }]);
+});
+
+// Thursday 2024-03-14 13:47:12 UTC, as a block timestamp in seconds
+const TIMESTAMP = Date.UTC(2024, 2, 14, 13, 47, 12) / 1000;
+
+test('DATE_TRUNC truncates in UTC, with weeks starting on Monday', () => {
+  const [row] = select(
+    `SELECT DATE_TRUNC('hour', ts) AS h, DATE_TRUNC('day', ts) AS d, DATE_TRUNC('week', ts) AS w,
+       DATE_TRUNC('month', ts) AS m, DATE_TRUNC('quarter', ts) AS q FROM t`,
+    [{ ts: TIMESTAMP }]
+  );
+  assert.deepEqual(
+    Object.values(row).map(date => date.toISOString()),
+    ['2024-03-14T13:00:00.000Z', '2024-03-14T00:00:00.000Z', '2024-03-11T00:00:00.000Z', '2024-03-01T00:00:00.000Z', '2024-01-01T00:00:00.000Z']
+  );
+  assert.throws(() => select(`SELECT DATE_TRUNC('fortnight', ts) FROM t`, [{ ts: TIMESTAMP }]), /does not support unit 'fortnight'/);
+});
+
+test('TIME_BUCKET aligns fixed-width buckets, weeks to a Monday', () => {
+  const [row] = select(`SELECT TIME_BUCKET('15 minutes', ts) AS b, TIME_BUCKET('1 week', ts) AS w FROM t`, [{ ts: TIMESTAMP }]);
+  assert.equal(row.b.toISOString(), '2024-03-14T13:45:00.000Z');
+  assert.equal(row.w.toISOString(), '2024-03-11T00:00:00.000Z');
+  assert.throws(() => select(`SELECT TIME_BUCKET('1 month', ts) FROM t`, [{ ts: TIMESTAMP }]), /fixed positive width/);
+});
+
+test('intervals add to and subtract from timestamps', () => {
+  const [row] = select(
+    `SELECT ts + INTERVAL '1 day' AS a, ts - INTERVAL 2 HOUR AS b, INTERVAL '1 hour' * 3 + ts AS c,
+       DATE_ADD('2024-01-15', INTERVAL 1 MONTH) AS d, DATE_SUB(ts, INTERVAL '30 minutes') AS e FROM t`,
+    [{ ts: TIMESTAMP }]
+  );
+  assert.deepEqual(
+    Object.values(row).map(date => date.toISOString()),
+    ['2024-03-15T13:47:12.000Z', '2024-03-14T11:47:12.000Z', '2024-03-14T16:47:12.000Z', '2024-02-15T00:00:00.000Z', '2024-03-14T13:17:12.000Z']
+  );
+});
@@ -0,0 +1,22 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { resolveNetwork } = require('../../src/services/query/networks');
+
+test('custom RPC URLs on private addresses are refused', async () => {
+  for (const rpcUrl of [
+    'http://localhost:5050/rpc',
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://[::1]/',
+    'http://[::ffff:10.0.0.1]/',
+    'http://169.254.169.254/latest/meta-data'
+  ]) {
+    await assert.rejects(resolveNetwork('custom', rpcUrl), /public host/, rpcUrl);
+  }
+});
+
+test('custom RPC URLs on public addresses are accepted', async () => {
+  const network = await resolveNetwork('custom', 'https://8.8.8.8/rpc');
+  assert.equal(network.rpcUrl, 'https://8.8.8.8/rpc');
+  assert.equal(network.requestOptions.maxRedirects, 0);
+});
@@ -0,0 +1,49 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parse } = require('../../src/services/query/parser');
+const { executeSelect } = require('../../src/services/query/evaluator');
+const { extractIntervals, resolveBlockNumbers } = require('../../src/services/query/pushdown');
+
+const DAY = 24 * 60 * 60;
+const JAN_1 = Date.UTC(2024, 0, 1) / 1000;
+
+// One block every 6 hours from 2024-01-01, numbered from 0
+const timestamps = Array.from({ length: 4 * 40 }, (_, i) => JAN_1 + i * 6 * 60 * 60);
+const rpc = {
+  getBlockNumber: async () => timestamps.length - 1,
+  getBlockWithTxHashes: async (number) => ({ timestamp: timestamps[number] })
+};
+
+const where = (sql) => parse(`SELECT * FROM blocks WHERE ${sql}`).where;
+
+test('ISO date literals bound a timestamp column in unix seconds', () => {
+  assert.deepEqual(
+    extractIntervals(where(`timestamp >= '2024-02-01' AND timestamp < '2024-02-02'`), 'blocks', 'timestamp', true),
+    [[JAN_1 + 31 * DAY, JAN_1 + 32 * DAY - 1]]
+  );
+  assert.deepEqual(
+    extractIntervals(where(`timestamp BETWEEN '2024-01-02 00:00' AND '2024-01-02T12:00:00Z'`), 'blocks', 'timestamp', true),
+    [[JAN_1 + DAY, JAN_1 + DAY + 12 * 60 * 60]]
+  );
+});
+
+test('an ISO date range resolves to the blocks inside it', async () => {
+  const numbers = await resolveBlockNumbers(
+    rpc,
+    where(`timestamp >= '2024-01-02' AND timestamp < '2024-01-03'`),
+    'blocks',
+    { blockNumber: 'block_number', timestamp: 'timestamp' },
+    1000
+  );
+  assert.deepEqual(numbers, [7, 6, 5, 4]);
+});
+
+test('timestamps compare with ISO date literals as dates', () => {
+  const rows = timestamps.map((timestamp, block_number) => ({ blocks: { block_number, timestamp } }));
+  const relation = { qualifiers: ['blocks'], columns: { blocks: ['block_number', 'timestamp'] }, rows };
+  const select = (sql) => executeSelect(parse(sql), relation).rows.map(row => row.block_number);
+
+  assert.deepEqual(select(`SELECT block_number FROM blocks WHERE timestamp < '2024-01-02'`), [0, 1, 2, 3]);
+  assert.equal(select(`SELECT block_number FROM blocks WHERE timestamp >= '2024-02-01'`).length, 4 * 9);
+  assert.deepEqual(select(`SELECT block_number FROM blocks WHERE '2024-01-01T06:00:00Z' = timestamp`), [1]);
+});
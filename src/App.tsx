@@ -9,6 +9,7 @@ import { ThemeProvider } from "@/contexts/ThemeContext";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { LibrarySync } from "@/components/sync/LibrarySync";
 
 // Core pages (immediately loaded)
 import Index from "./pages/Index";
@@ -35,6 +36,8 @@ const PlaceBounty = lazy(() => import("./pages/PlaceBounty"));
 const SystemStatus = lazy(() => import("./pages/SystemStatus"));
 const DataExplorerPage = lazy(() => import("./pages/DataExplorerPage"));
 const LibraryPage = lazy(() => import("./pages/LibraryPage"));
+const Notebooks = lazy(() => import("./pages/Notebooks"));
+const NotebookPage = lazy(() => import("./pages/NotebookPage"));
 const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
 const AdminLogin = lazy(() => import("./pages/AdminLogin"));
 const MyBounties = lazy(() => import("./pages/MyBounties"));
@@ -51,6 +54,7 @@ const App = () => (
           <TooltipProvider>
           <Toaster />
           <Sonner />
+          <LibrarySync />
           <BrowserRouter>
             <AppLayout>
               <Suspense fallback={
@@ -121,6 +125,16 @@ const App = () => (
                 <LibraryPage />
               </ProtectedRoute>
             } />
+            <Route path="/notebooks" element={
+              <ProtectedRoute>
+                <Notebooks />
+              </ProtectedRoute>
+            } />
+            <Route path="/notebooks/:notebookId" element={
+              <ProtectedRoute>
+                <NotebookPage />
+              </ProtectedRoute>
+            } />
             <Route path="/admin" element={<AdminLogin />} />
             <Route path="/admin/dashboard" element={<AdminDashboard />} />
             <Route path="/analytics" element={
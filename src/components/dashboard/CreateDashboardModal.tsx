@@ -5,6 +5,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { X } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { DashboardService } from '@/services/DashboardService';
+import { getActiveNetwork } from '@/lib/networks';
 
 interface CreateDashboardModalProps {
   open: boolean;
@@ -23,12 +25,13 @@ export function CreateDashboardModal({ open, onOpenChange }: CreateDashboardModa
       name: name || 'Untitled Dashboard',
       description,
       isPublic,
+      network: getActiveNetwork(),
       widgets: [],
       createdAt: new Date().toISOString(),
       userId: 'user-1'
     };
 
-    localStorage.setItem(`dashboard_${dashboard.id}`, JSON.stringify(dashboard));
+    DashboardService.saveDashboard(dashboard);
     navigate(`/builder/edit/${dashboard.id}`);
     onOpenChange(false);
   };
@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Save, Share, Eye, EyeOff, Plus, Settings, BarChart3, Database, Layout, Trash2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { DashboardService } from '@/services/DashboardService';
 
 interface Widget {
   id: string;
@@ -87,7 +88,7 @@ export function DashboardEditor({ dashboardId, onSave }: DashboardEditorProps) {
       updatedAt: new Date().toISOString()
     };
     
-    localStorage.setItem(`dashboard_${dashboard.id}`, JSON.stringify(savedDashboard));
+    DashboardService.saveDashboard(savedDashboard);
     onSave?.(savedDashboard);
     
     toast({
@@ -104,7 +105,7 @@ export function DashboardEditor({ dashboardId, onSave }: DashboardEditorProps) {
     };
     
     setDashboard(publishedDashboard);
-    localStorage.setItem(`dashboard_${dashboard.id}`, JSON.stringify(publishedDashboard));
+    DashboardService.saveDashboard(publishedDashboard);
     
     toast({
       title: "Dashboard published",
@@ -3,6 +3,9 @@ import { Button } from '@/components/ui/button';
 import { Share2, GitFork, Camera, Edit3, Save, X } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import html2canvas from 'html2canvas';
+import { DashboardService } from '@/services/DashboardService';
+import { SyncService } from '@/services/SyncService';
+import { networkLabel, type NetworkSelection } from '@/lib/networks';
 
 interface DashboardHeaderProps {
   dashboard: {
@@ -11,6 +14,7 @@ interface DashboardHeaderProps {
     slug: string;
     isPrivate: boolean;
     isPublished?: boolean;
+    network?: NetworkSelection;
     userId: string;
     createdAt: string;
   };
@@ -39,15 +43,14 @@ export function DashboardHeader({ dashboard, isEditing, onEditToggle, onSave, on
 
   const handleFork = () => {
     const forkedDashboard = {
-      ...dashboard,
-      id: `dash_${Date.now()}`,
+      ...SyncService.detach(dashboard, `dash_${Date.now()}`),
       name: `${dashboard.name} (forked)`,
       slug: `${dashboard.slug}-fork-${Date.now()}`,
       userId: 'demo_user',
       createdAt: new Date().toISOString()
     };
     
-    localStorage.setItem(`dashboard_${forkedDashboard.id}`, JSON.stringify(forkedDashboard));
+    DashboardService.saveDashboard(forkedDashboard);
     window.location.href = `/dashboard/${forkedDashboard.userId}/${forkedDashboard.slug}?id=${forkedDashboard.id}`;
   };
 
@@ -81,6 +84,9 @@ export function DashboardHeader({ dashboard, isEditing, onEditToggle, onSave, on
             {dashboard.isPublished && (
               <Badge variant="default" className="text-xs bg-green-500">Published</Badge>
             )}
+            {dashboard.network && dashboard.network.network !== 'mainnet' && (
+              <Badge variant="outline" className="text-xs">{networkLabel(dashboard.network)}</Badge>
+            )}
           </div>
         </div>
         
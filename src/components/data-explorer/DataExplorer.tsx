@@ -1,10 +1,13 @@
 import { useState, useEffect } from "react";
-import { Search, Database, Star, Upload, RefreshCw, Zap, AlertTriangle, TrendingUp, Eye } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Search, Database, Star, Upload, RefreshCw, Zap, AlertTriangle, TrendingUp, Eye, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { starknetDataService, type DiscoveryTransaction } from "@/services/StarknetDataService";
+import { apiClient } from "@/lib/api";
+import type { QueryView, SchemaTable } from "@/types/common.types";
 
 interface Dataset {
   id: string;
@@ -12,7 +15,7 @@ interface Dataset {
   description: string;
   category: string;
   schema: any;
-  type: 'curated' | 'user' | 'chain';
+  type: 'curated' | 'user' | 'chain' | 'view';
   isFavorite: boolean;
   lastUpdated: string;
 }
@@ -20,55 +23,70 @@ interface Dataset {
 const getCategories = (datasets: Dataset[], discoveries: DiscoveryTransaction[]) => [
   { id: 'all', name: 'All Datasets', icon: Database, count: datasets.length + discoveries.length },
   { id: 'starknet', name: 'Starknet Core', icon: Database, count: datasets.filter(d => d.category === 'starknet').length },
+  { id: 'platform', name: 'Starklytics Data', icon: Database, count: datasets.filter(d => d.category === 'platform').length },
   { id: 'defi', name: 'DeFi Protocols', icon: Database, count: datasets.filter(d => d.category === 'defi').length + discoveries.filter(d => d.type === 'high_value').length },
   { id: 'nft', name: 'NFT Collections', icon: Database, count: datasets.filter(d => d.category === 'nft').length },
-  { id: 'user', name: 'User Uploads', icon: Upload, count: datasets.filter(d => d.type === 'user').length }
+  { id: 'user', name: 'User Uploads', icon: Upload, count: datasets.filter(d => d.type === 'user').length },
+  { id: 'views', name: 'Materialized Views', icon: Layers, count: datasets.filter(d => d.type === 'view').length }
 ];
 
-const mockDatasets: Dataset[] = [
-  {
-    id: '1',
-    name: 'starknet.transactions',
-    description: 'All Starknet transaction data with block info, gas usage, and status',
-    category: 'starknet',
-    schema: { columns: ['hash', 'block_number', 'from_address', 'to_address', 'value'] },
-    type: 'curated',
-    isFavorite: false,
-    lastUpdated: '2025-01-20'
-  },
-  {
-    id: '2', 
-    name: 'jediswap.trades',
-    description: 'JediSwap DEX trading data including swaps, liquidity, and volume',
-    category: 'defi',
-    schema: { columns: ['tx_hash', 'token_in', 'token_out', 'amount_in', 'amount_out'] },
-    type: 'curated',
-    isFavorite: true,
-    lastUpdated: '2025-01-20'
-  }
-];
+// Published views are selectable by name, like the built-in tables
+const viewToDataset = (view: QueryView): Dataset => ({
+  id: view._id,
+  name: view.name,
+  description: view.description || 'Materialized view of a saved query',
+  category: 'views',
+  schema: { columns: view.columns.map(column => column.name) },
+  type: 'view',
+  isFavorite: false,
+  lastUpdated: view.refreshedAt ? new Date(view.refreshedAt).toLocaleDateString() : 'never'
+});
+
+// Built-in tables from the query engine's schema registry. Chain tables are
+// listed under their catalog name, e.g. starknet.blocks.
+const tableToDataset = (table: SchemaTable): Dataset => ({
+  id: `table:${table.name}`,
+  name: table.source === 'chain' ? `starknet.${table.name}` : table.name,
+  description: table.description,
+  category: table.source === 'chain' ? 'starknet' : 'platform',
+  schema: { columns: table.columns.map(column => column.name) },
+  type: table.source === 'chain' ? 'chain' : 'curated',
+  isFavorite: false,
+  lastUpdated: table.source === 'chain' ? 'every block' : 'in real time'
+});
 
 export function DataExplorer() {
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [datasets, setDatasets] = useState<Dataset[]>(mockDatasets);
-  const [filteredDatasets, setFilteredDatasets] = useState<Dataset[]>(mockDatasets);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [filteredDatasets, setFilteredDatasets] = useState<Dataset[]>([]);
   const [discoveries, setDiscoveries] = useState<DiscoveryTransaction[]>([]);
   const [loading, setLoading] = useState(false);
-  const [categories, setCategories] = useState(getCategories(mockDatasets, []));
+  const [categories, setCategories] = useState(getCategories([], []));
+  const navigate = useNavigate();
+
+  const loadCatalog = async () => {
+    try {
+      const [schema, views] = await Promise.all([apiClient.getQuerySchema(), apiClient.getViews()]);
+      setDatasets([
+        ...schema.data.tables.filter(table => table.kind === 'table').map(tableToDataset),
+        ...views.data.views.map(viewToDataset)
+      ]);
+    } catch (error) {
+      console.error('Error loading datasets:', error);
+    }
+  };
+
+  const openDataset = (dataset: Dataset) => {
+    localStorage.setItem('loadQuery', `SELECT * FROM ${dataset.name} LIMIT 100`);
+    navigate('/query');
+  };
 
   const loadDiscoveries = async () => {
     setLoading(true);
     try {
       const discoveryData = await starknetDataService.getDiscoveryTransactions();
-      // Add timestamp variation to show real-time changes
-      const updatedDiscoveries = discoveryData.map((tx, index) => ({
-        ...tx,
-        timestamp: Date.now() - (index * 15000) - Math.random() * 30000,
-        gasUsed: Math.floor(Math.random() * 800000) + 200000,
-        hash: `0x${Math.random().toString(16).substr(2, 64)}`
-      }));
-      setDiscoveries(updatedDiscoveries);
+      setDiscoveries(discoveryData);
     } catch (error) {
       console.error('Error loading discoveries:', error);
     } finally {
@@ -93,6 +111,10 @@ export function DataExplorer() {
     setFilteredDatasets(filtered);
   }, [selectedCategory, searchQuery, datasets]);
 
+  useEffect(() => {
+    loadCatalog();
+  }, []);
+
   useEffect(() => {
     loadDiscoveries();
     const interval = setInterval(loadDiscoveries, 30 * 1000); // Refresh every 30 seconds
@@ -253,10 +275,13 @@ export function DataExplorer() {
               <div
                 key={dataset.id}
                 className="p-4 border border-border rounded-lg hover:shadow-md transition-all duration-200 cursor-pointer group"
+                onClick={() => openDataset(dataset)}
               >
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex items-center space-x-2">
-                    <Database className="w-5 h-5 text-primary" />
+                    {dataset.type === 'view'
+                      ? <Layers className="w-5 h-5 text-primary" />
+                      : <Database className="w-5 h-5 text-primary" />}
                     <span className="font-mono text-sm font-medium">{dataset.name}</span>
                   </div>
                   <Button
@@ -19,7 +19,8 @@ import {
   LogOut,
   FileBarChart,
   Activity,
-  Book
+  Book,
+  BookOpen
 } from "lucide-react";
 
 const navigation = [
@@ -27,6 +28,7 @@ const navigation = [
   { name: "Query Editor", href: "/query", icon: Database },
   { name: "Dashboard Builder", href: "/builder", icon: Layout },
   { name: "Library", href: "/library", icon: Book },
+  { name: "Notebooks", href: "/notebooks", icon: BookOpen },
   { name: "Contract Analysis", href: "/contract-events-eda", icon: Activity },
   { name: "Bounties", href: "/bounties", icon: Trophy },
   { name: "Wallet", href: "/wallet", icon: Wallet },
@@ -5,6 +5,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useWallet } from "@/hooks/use-wallet";
 import { useTheme } from "@/contexts/ThemeContext";
 import { RpcStatus } from "@/components/ui/RpcStatus";
+import { NetworkSelector } from "@/components/ui/NetworkSelector";
+import { useNetwork } from "@/hooks/useNetwork";
 import { 
   Bell, 
   Wallet, 
@@ -26,6 +28,7 @@ export function Header({ title, subtitle }: HeaderProps) {
   const { user, profile } = useAuth();
   const { isConnected, walletAddress, connectWallet } = useWallet();
   const { theme, toggleTheme } = useTheme();
+  const { selection, setNetwork } = useNetwork();
 
   const handleWalletClick = async () => {
     if (!isConnected) {
@@ -61,6 +64,9 @@ export function Header({ title, subtitle }: HeaderProps) {
         </div>
 
         <div className="flex items-center space-x-2 lg:space-x-4">
+          {/* Network used by pages and new queries */}
+          <NetworkSelector value={selection} onChange={setNetwork} className="hidden md:flex" />
+
           {/* Network Status */}
           <RpcStatus />
           
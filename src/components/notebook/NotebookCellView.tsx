@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { ArrowDown, ArrowUp, BarChart3, Code2, FileText, Loader2, Play, Square, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SqlEditor } from '@/components/query/SqlEditor';
+import { NotebookChart } from './NotebookChart';
+import type {
+  NotebookCell,
+  NotebookChartConfig,
+  NotebookChartType,
+  QueryExecutionProgress,
+  QueryExecutionResult,
+  QuerySchema
+} from '@/types/common.types';
+
+// Latest run of a SQL cell in this session
+export interface CellRun {
+  status: 'running' | 'succeeded' | 'failed';
+  result?: QueryExecutionResult;
+  error?: string;
+  executionId?: string;
+  progress?: QueryExecutionProgress | null;
+}
+
+interface NotebookCellViewProps {
+  cell: NotebookCell;
+  index: number;
+  count: number;
+  readOnly: boolean;
+  schema: QuerySchema | null;
+  run?: CellRun;
+  // SQL cells above a chart cell, with their latest runs, to plot from
+  sources: { name: string; run?: CellRun }[];
+  onChange: (cell: NotebookCell) => void;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+const CELL_ICONS = { sql: Code2, markdown: FileText, chart: BarChart3 };
+const CHART_TYPES: NotebookChartType[] = ['bar', 'line', 'area', 'pie'];
+// Rows shown under a SQL cell; the whole result is still there for cells below
+const PREVIEW_ROWS = 50;
+
+function ResultTable({ result }: { result: QueryExecutionResult }) {
+  if (result.results.length === 0) {
+    return <p className="text-sm text-muted-foreground">No rows.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b border-border">
+            {result.columns.map(column => (
+              <th key={column} className="text-left p-2 text-xs font-medium">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {result.results.slice(0, PREVIEW_ROWS).map((row, i) => (
+            <tr key={i} className="border-b border-border/50">
+              {result.columns.map(column => (
+                <td key={column} className="p-2 text-xs font-mono">{String(row[column] ?? 'NULL')}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-2">
+        {result.count > PREVIEW_ROWS ? `Showing ${PREVIEW_ROWS} of ${result.count} rows` : `${result.count} rows`}
+        {` · ${result.stats.rpcCalls} RPC calls`}
+        {result.cache.hit && ' · cached'}
+      </p>
+    </div>
+  );
+}
+
+function ChartEditor({ cell, readOnly, sources, onChange }: Pick<NotebookCellViewProps, 'cell' | 'readOnly' | 'sources' | 'onChange'>) {
+  const config = cell.chart || {};
+  const source = sources.find(candidate => candidate.name === config.cell);
+  const result = source?.run?.result;
+  const update = (changes: NotebookChartConfig) => onChange({ ...cell, chart: { ...config, ...changes } });
+
+  return (
+    <div className="space-y-3">
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={config.cell || ''} onValueChange={name => update({ cell: name })}>
+            <SelectTrigger className="h-8 w-[160px]" aria-label="SQL cell">
+              <SelectValue placeholder="SQL cell" />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map(candidate => (
+                <SelectItem key={candidate.name} value={candidate.name}>{candidate.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={config.chartType || 'bar'} onValueChange={(chartType: NotebookChartType) => update({ chartType })}>
+            <SelectTrigger className="h-8 w-[100px]" aria-label="Chart type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHART_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {result && (
+            <>
+              <Select value={config.xAxis || ''} onValueChange={xAxis => update({ xAxis })}>
+                <SelectTrigger className="h-8 w-[150px]" aria-label="X axis">
+                  <SelectValue placeholder="X axis" />
+                </SelectTrigger>
+                <SelectContent>
+                  {result.columns.map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-wrap gap-1">
+                {result.columns.filter(column => column !== config.xAxis).map(column => {
+                  const selected = config.yAxis?.includes(column);
+                  return (
+                    <Badge
+                      key={column}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => update({
+                        yAxis: selected
+                          ? config.yAxis!.filter(y => y !== column)
+                          : [...(config.yAxis || []), column]
+                      })}
+                    >
+                      {column}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      {!config.cell ? (
+        <p className="text-sm text-muted-foreground">Pick the SQL cell to plot.</p>
+      ) : !source ? (
+        <p className="text-sm text-destructive">There is no SQL cell named '{config.cell}' above this chart.</p>
+      ) : !result ? (
+        <p className="text-sm text-muted-foreground">Run {config.cell} to draw this chart.</p>
+      ) : (
+        <NotebookChart config={config} rows={result.results} />
+      )}
+    </div>
+  );
+}
+
+// One notebook cell: a named SQL statement with its result, markdown notes,
+// or a chart of a SQL cell above it
+export function NotebookCellView({
+  cell, index, count, readOnly, schema, run, sources, onChange, onMove, onDelete, onRun, onCancel
+}: NotebookCellViewProps) {
+  const [editingMarkdown, setEditingMarkdown] = useState(!cell.source && !readOnly);
+  const Icon = CELL_ICONS[cell.type];
+  const running = run?.status === 'running';
+
+  return (
+    <Card className="glass">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Icon className="w-4 h-4 text-muted-foreground" />
+          {cell.type === 'sql' ? (
+            <Input
+              value={cell.name || ''}
+              onChange={(e) => onChange({ ...cell, name: e.target.value })}
+              disabled={readOnly}
+              className="h-8 w-[200px] font-mono text-sm"
+              aria-label="Cell name"
+            />
+          ) : (
+            <span className="text-sm text-muted-foreground capitalize">{cell.type}</span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            {cell.type === 'sql' && (running ? (
+              <Button size="sm" variant="outline" onClick={onCancel}>
+                <Square className="w-3 h-3 mr-1" />
+                Cancel
+              </Button>
+            ) : (
+              <Button size="sm" onClick={onRun} disabled={!cell.source.trim()}>
+                <Play className="w-3 h-3 mr-1" />
+                Run
+              </Button>
+            ))}
+            {!readOnly && (
+              <>
+                <Button size="sm" variant="ghost" onClick={() => onMove(-1)} disabled={index === 0} aria-label="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onMove(1)} disabled={index === count - 1} aria-label="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onDelete} aria-label="Delete cell">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {cell.type === 'sql' && (
+          <>
+            {readOnly ? (
+              <pre className="p-3 rounded bg-muted/50 text-sm font-mono whitespace-pre-wrap">{cell.source}</pre>
+            ) : (
+              <SqlEditor
+                value={cell.source}
+                onChange={(source) => onChange({ ...cell, source })}
+                schema={schema}
+                placeholder="SELECT ... FROM blocks, or FROM a cell above by name"
+                className="min-h-[120px]"
+              />
+            )}
+            {running && (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Running
+                {run.progress && ` · ${run.progress.done.toLocaleString()}${run.progress.total ? ` / ${run.progress.total.toLocaleString()}` : ''} ${run.progress.unit}`}
+              </p>
+            )}
+            {run?.status === 'failed' && <p className="text-sm text-destructive">{run.error}</p>}
+            {run?.status === 'succeeded' && run.result && <ResultTable result={run.result} />}
+          </>
+        )}
+
+        {cell.type === 'markdown' && (
+          editingMarkdown ? (
+            <Textarea
+              value={cell.source}
+              onChange={(e) => onChange({ ...cell, source: e.target.value })}
+              onBlur={() => cell.source && setEditingMarkdown(false)}
+              placeholder="Notes, in Markdown"
+              rows={4}
+              autoFocus
+            />
+          ) : (
+            <div
+              className="prose prose-sm max-w-none dark:prose-invert"
+              onDoubleClick={() => !readOnly && setEditingMarkdown(true)}
+            >
+              <ReactMarkdown>{cell.source}</ReactMarkdown>
+            </div>
+          )
+        )}
+
+        {cell.type === 'chart' && (
+          <ChartEditor cell={cell} readOnly={readOnly} sources={sources} onChange={onChange} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
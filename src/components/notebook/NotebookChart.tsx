@@ -0,0 +1,88 @@
+import {
+  Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Legend, Line, LineChart, Pie, PieChart,
+  ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import type { NotebookChartConfig, QueryRow } from '@/types/common.types';
+
+interface NotebookChartProps {
+  config: NotebookChartConfig;
+  rows: QueryRow[];
+}
+
+const COLORS = ['#3b82f6', '#f97316', '#10b981', '#a855f7', '#ef4444', '#eab308'];
+// Charts beyond this many points are unreadable; the table has the rest
+const MAX_POINTS = 500;
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--background))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '8px',
+};
+
+// Engine results carry big integers as decimal strings; charts need numbers
+const toChartRows = (rows: QueryRow[], yAxis: string[]) =>
+  rows.slice(0, MAX_POINTS).map(row => {
+    const point: Record<string, unknown> = { ...row };
+    for (const column of yAxis) point[column] = Number(row[column]);
+    return point;
+  });
+
+export function NotebookChart({ config, rows }: NotebookChartProps) {
+  const { chartType = 'bar', xAxis, yAxis = [] } = config;
+  if (!xAxis || yAxis.length === 0) {
+    return <p className="text-sm text-muted-foreground">Pick the X and Y columns to plot.</p>;
+  }
+  const data = toChartRows(rows, yAxis);
+
+  if (chartType === 'pie') {
+    return (
+      <ResponsiveContainer width="100%" height={320}>
+        <PieChart>
+          <Pie data={data.slice(0, 12)} dataKey={yAxis[0]} nameKey={xAxis} outerRadius={120} label>
+            {data.slice(0, 12).map((_, index) => (
+              <Cell key={index} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip contentStyle={tooltipStyle} />
+        </PieChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+      <XAxis dataKey={xAxis} stroke="hsl(var(--muted-foreground))" fontSize={12} />
+      <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+      <Tooltip contentStyle={tooltipStyle} />
+      {yAxis.length > 1 && <Legend />}
+    </>
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      {chartType === 'line' ? (
+        <LineChart data={data}>
+          {axes}
+          {yAxis.map((column, index) => (
+            <Line key={column} type="monotone" dataKey={column} stroke={COLORS[index % COLORS.length]} dot={false} strokeWidth={2} />
+          ))}
+        </LineChart>
+      ) : chartType === 'area' ? (
+        <AreaChart data={data}>
+          {axes}
+          {yAxis.map((column, index) => (
+            <Area key={column} type="monotone" dataKey={column} stroke={COLORS[index % COLORS.length]} fill={COLORS[index % COLORS.length]} fillOpacity={0.3} />
+          ))}
+        </AreaChart>
+      ) : (
+        <BarChart data={data}>
+          {axes}
+          {yAxis.map((column, index) => (
+            <Bar key={column} dataKey={column} fill={COLORS[index % COLORS.length]} radius={[4, 4, 0, 0]} />
+          ))}
+        </BarChart>
+      )}
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,346 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BarChart3, Code2, FileText, GitFork, Link as LinkIcon, Loader2, Play, Save } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { NetworkSelector } from '@/components/ui/NetworkSelector';
+import { useToast } from '@/components/ui/use-toast';
+import { apiClient, ApiError } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNetwork } from '@/hooks/useNetwork';
+import { useQuerySchema } from '@/hooks/useQuerySchema';
+import { runQueryExecution, cancelQueryExecution } from '@/services/QueryExecutionService';
+import type { NetworkSelection } from '@/lib/networks';
+import type { NotebookCell, NotebookCellType, NotebookInput, NotebookRecord } from '@/types/common.types';
+import { NotebookCellView, type CellRun } from './NotebookCellView';
+
+interface NotebookEditorProps {
+  // Null for a new notebook
+  notebookId: string | null;
+}
+
+// Rows each SQL cell keeps, for its own table and for the cells reading it
+const NOTEBOOK_ROW_LIMIT = 1000;
+
+const newCellId = () => `cell-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// First cell_N name no SQL cell uses yet
+const nextCellName = (cells: NotebookCell[]) => {
+  const taken = new Set(cells.map(cell => cell.name?.toLowerCase()));
+  let n = 1;
+  while (taken.has(`cell_${n}`)) n++;
+  return `cell_${n}`;
+};
+
+const starterCells = (): NotebookCell[] => [
+  { id: newCellId(), type: 'markdown', source: '## Analysis\n\nWhat this notebook shows, and how to read it.' },
+  {
+    id: newCellId(),
+    type: 'sql',
+    name: 'recent_blocks',
+    source: 'SELECT block_number, timestamp, transaction_count FROM blocks ORDER BY block_number DESC LIMIT 20',
+  },
+  {
+    id: newCellId(),
+    type: 'sql',
+    name: 'busiest',
+    source: 'SELECT block_number, transaction_count FROM recent_blocks ORDER BY transaction_count DESC LIMIT 5',
+  },
+];
+
+const ownerId = (record: NotebookRecord) =>
+  typeof record.createdBy === 'string' ? record.createdBy : record.createdBy._id;
+
+// SQL, markdown and chart cells run top to bottom. Each SQL cell is named
+// and cells below it can select from it by that name; the server runs the
+// cells a statement reads before the statement itself, so every run is
+// reproducible from the notebook alone.
+export function NotebookEditor({ notebookId }: NotebookEditorProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { schema } = useQuerySchema();
+  const { selection: globalNetwork } = useNetwork();
+
+  const [record, setRecord] = useState<NotebookRecord | null>(null);
+  const [loading, setLoading] = useState(Boolean(notebookId));
+  const [title, setTitle] = useState('Untitled notebook');
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [network, setNetwork] = useState<NetworkSelection>(globalNetwork);
+  const [cells, setCells] = useState<NotebookCell[]>(starterCells);
+  const [runs, setRuns] = useState<Record<string, CellRun>>({});
+  const [runningAll, setRunningAll] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const readOnly = Boolean(record && ownerId(record) !== user?._id);
+
+  const applyRecord = useCallback((notebook: NotebookRecord) => {
+    setRecord(notebook);
+    setTitle(notebook.title);
+    setDescription(notebook.description || '');
+    setIsPublic(notebook.isPublic);
+    setNetwork({ network: notebook.network || 'mainnet', rpcUrl: notebook.rpcUrl });
+    setCells(notebook.cells || []);
+  }, []);
+
+  // Id of the notebook on screen, read by the load effect without re-running it
+  const shownId = useRef<string | null>(null);
+  useEffect(() => {
+    shownId.current = record?._id ?? null;
+  }, [record]);
+
+  useEffect(() => {
+    // Saving a new notebook moves to its URL; the cells on screen are current
+    if (!notebookId || notebookId === shownId.current) return;
+    let cancelled = false;
+    setLoading(true);
+    apiClient.getNotebook(notebookId)
+      .then(response => {
+        if (!cancelled && response.data) applyRecord(response.data.notebook);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          title: 'Notebook not found',
+          description: error instanceof Error ? error.message : 'Failed to load notebook',
+          variant: 'destructive',
+        });
+        navigate('/notebooks');
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, applyRecord, navigate, toast]);
+
+  const updateRun = (cellId: string, changes: Partial<CellRun>) =>
+    setRuns(prev => ({ ...prev, [cellId]: { ...prev[cellId], ...changes } as CellRun }));
+
+  const updateCell = (index: number, cell: NotebookCell) =>
+    setCells(prev => prev.map((current, i) => (i === index ? cell : current)));
+
+  const moveCell = (index: number, offset: -1 | 1) =>
+    setCells(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  const addCell = (type: NotebookCellType) =>
+    setCells(prev => [
+      ...prev,
+      type === 'sql'
+        ? { id: newCellId(), type, name: nextCellName(prev), source: '' }
+        : type === 'chart'
+          ? { id: newCellId(), type, source: '', chart: { chartType: 'bar' } }
+          : { id: newCellId(), type, source: '' },
+    ]);
+
+  // Run one SQL cell. The SQL cells above it go along so the server can run
+  // the ones it reads. Resolves to whether the cell succeeded.
+  const runCell = async (cell: NotebookCell, index: number): Promise<boolean> => {
+    const above = cells.slice(0, index)
+      .filter(candidate => candidate.type === 'sql' && candidate.name && candidate.source.trim())
+      .map(candidate => ({ name: candidate.name!, sql: candidate.source }));
+
+    setRuns(prev => ({ ...prev, [cell.id]: { status: 'running' } }));
+    try {
+      const result = await runQueryExecution(
+        {
+          sql: cell.source,
+          cells: above,
+          limit: NOTEBOOK_ROW_LIMIT,
+          network: network.network,
+          rpcUrl: network.rpcUrl,
+        },
+        {
+          onStart: executionId => updateRun(cell.id, { executionId }),
+          onProgress: progress => updateRun(cell.id, { progress }),
+        }
+      );
+      setRuns(prev => ({ ...prev, [cell.id]: { status: 'succeeded', result } }));
+      return true;
+    } catch (error) {
+      setRuns(prev => ({
+        ...prev,
+        [cell.id]: { status: 'failed', error: error instanceof Error ? error.message : 'Query failed' },
+      }));
+      return false;
+    }
+  };
+
+  // Run every SQL cell in order, stopping at the first failure
+  const runAll = async () => {
+    setRunningAll(true);
+    try {
+      for (const [index, cell] of cells.entries()) {
+        if (cell.type !== 'sql' || !cell.source.trim()) continue;
+        if (!(await runCell(cell, index))) break;
+      }
+    } finally {
+      setRunningAll(false);
+    }
+  };
+
+  const cancelCell = (cellId: string) => {
+    const executionId = runs[cellId]?.executionId;
+    if (executionId) cancelQueryExecution(executionId).catch(() => undefined);
+  };
+
+  const save = async () => {
+    const input: NotebookInput = {
+      title: title.trim() || 'Untitled notebook',
+      description,
+      cells,
+      isPublic,
+      network: network.network,
+      rpcUrl: network.network === 'custom' ? network.rpcUrl : undefined,
+    };
+
+    setSaving(true);
+    try {
+      const response = record
+        ? await apiClient.updateNotebook(record._id, { ...input, baseUpdatedAt: record.updatedAt })
+        : await apiClient.createNotebook(input);
+      const saved = response.data?.notebook;
+      if (!saved) throw new Error(response.message || 'Failed to save notebook');
+      setRecord(saved);
+      if (!record) navigate(`/notebooks/${saved._id}`, { replace: true });
+      toast({ title: 'Notebook saved', description: `"${saved.title}" is ${saved.isPublic ? 'public' : 'private'}` });
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof ApiError && error.status === 409
+          ? 'This notebook was changed elsewhere; reload it to see the latest version'
+          : error instanceof Error ? error.message : 'Failed to save notebook',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fork = async () => {
+    if (!record) return;
+    try {
+      const response = await apiClient.forkNotebook(record._id);
+      if (response.data) {
+        toast({ title: 'Notebook forked', description: 'You now have your own editable copy' });
+        navigate(`/notebooks/${response.data.notebook._id}`);
+      }
+    } catch (error) {
+      toast({
+        title: 'Fork failed',
+        description: error instanceof Error ? error.message : 'Failed to fork notebook',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast({ title: 'Link copied', description: isPublic ? 'Anyone signed in can open and re-run it' : 'Make the notebook public to share it' });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-4">
+      <Card className="glass">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={readOnly}
+              className="h-9 flex-1 min-w-[200px] text-lg font-semibold"
+              aria-label="Notebook title"
+            />
+            <NetworkSelector value={network} onChange={setNetwork} />
+            <Button size="sm" variant="outline" onClick={runAll} disabled={runningAll}>
+              {runningAll ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Play className="w-4 h-4 mr-1" />}
+              Run all
+            </Button>
+            {readOnly ? (
+              <Button size="sm" onClick={fork}>
+                <GitFork className="w-4 h-4 mr-1" />
+                Fork
+              </Button>
+            ) : (
+              <Button size="sm" onClick={save} disabled={saving}>
+                <Save className="w-4 h-4 mr-1" />
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            )}
+            {record && (
+              <Button size="sm" variant="ghost" onClick={copyLink} aria-label="Copy link">
+                <LinkIcon className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <Textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            disabled={readOnly}
+            placeholder="What does this notebook answer?"
+            rows={2}
+          />
+          {!readOnly && (
+            <div className="flex items-center gap-2">
+              <Switch id="notebook-public" checked={isPublic} onCheckedChange={setIsPublic} />
+              <Label htmlFor="notebook-public" className="text-sm">Public: anyone signed in can view, re-run and fork it</Label>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {cells.map((cell, index) => (
+        <NotebookCellView
+          key={cell.id}
+          cell={cell}
+          index={index}
+          count={cells.length}
+          readOnly={readOnly}
+          schema={schema}
+          run={runs[cell.id]}
+          sources={cells.slice(0, index)
+            .filter(candidate => candidate.type === 'sql' && candidate.name)
+            .map(candidate => ({ name: candidate.name!, run: runs[candidate.id] }))}
+          onChange={(updated) => updateCell(index, updated)}
+          onMove={(offset) => moveCell(index, offset)}
+          onDelete={() => setCells(prev => prev.filter((_, i) => i !== index))}
+          onRun={() => runCell(cell, index)}
+          onCancel={() => cancelCell(cell.id)}
+        />
+      ))}
+
+      {!readOnly && (
+        <div className="flex justify-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => addCell('sql')}>
+            <Code2 className="w-4 h-4 mr-1" />
+            SQL
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => addCell('markdown')}>
+            <FileText className="w-4 h-4 mr-1" />
+            Markdown
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => addCell('chart')}>
+            <BarChart3 className="w-4 h-4 mr-1" />
+            Chart
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { API_BASE_URL, apiClient } from '@/lib/api';
+import type { ApiKeyRecord } from '@/types/common.types';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+const MAX_REQUESTS_PER_MINUTE = 600;
+
+// Manage the keys that let scripts and services run saved queries over REST
+export function ApiKeysCard() {
+  const [apiKeys, setApiKeys] = useState<ApiKeyRecord[]>([]);
+  const [name, setName] = useState('');
+  const [requestsPerMinute, setRequestsPerMinute] = useState(DEFAULT_REQUESTS_PER_MINUTE);
+  const [creating, setCreating] = useState(false);
+  // Plain text of the key just created, shown until the user leaves the page
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    apiClient.getApiKeys()
+      .then(response => setApiKeys(response.data.apiKeys))
+      .catch(error => console.error('Failed to load API keys:', error));
+  }, []);
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: 'Copied to clipboard' });
+  };
+
+  const create = async () => {
+    setCreating(true);
+    try {
+      const response = await apiClient.createApiKey({ name: name.trim(), requestsPerMinute });
+      setApiKeys(current => [response.data.apiKey, ...current]);
+      setNewKey(response.data.key);
+      setName('');
+    } catch (error) {
+      toast({
+        title: 'Could not create API key',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (apiKey: ApiKeyRecord) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Services using it will stop working.`)) return;
+    try {
+      await apiClient.revokeApiKey(apiKey._id);
+      setApiKeys(current => current.filter(key => key._id !== apiKey._id));
+    } catch (error) {
+      toast({
+        title: 'Could not revoke API key',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const validRate = Number.isInteger(requestsPerMinute) && requestsPerMinute >= 1 && requestsPerMinute <= MAX_REQUESTS_PER_MINUTE;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Run your saved queries from scripts and services. Each key has its own rate limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-[1fr_10rem_auto] sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="metrics-service" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="api-key-rate">Requests per minute</Label>
+            <Input
+              id="api-key-rate"
+              type="number"
+              min={1}
+              max={MAX_REQUESTS_PER_MINUTE}
+              value={requestsPerMinute}
+              onChange={(e) => setRequestsPerMinute(Number(e.target.value))}
+            />
+          </div>
+          <Button onClick={create} disabled={creating || !name.trim() || !validRate}>
+            {creating ? 'Creating...' : 'Create key'}
+          </Button>
+        </div>
+
+        {newKey && (
+          <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+            <p className="text-sm font-medium">Copy your new key now, it won't be shown again</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">{newKey}</code>
+              <Button size="sm" variant="outline" onClick={() => copy(newKey)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {apiKeys.length === 0 && <p className="text-sm text-muted-foreground">No API keys yet.</p>}
+          {apiKeys.map(apiKey => (
+            <div key={apiKey._id} className="flex items-center justify-between rounded-lg border border-border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{apiKey.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  <code>{apiKey.preview}...</code> · {apiKey.requestsPerMinute}/min ·{' '}
+                  {apiKey.lastUsedAt
+                    ? `used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}`
+                    : 'never used'}
+                </p>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => revoke(apiKey)} title="Revoke">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Usage</p>
+          <pre className="overflow-x-auto rounded bg-muted p-2 text-xs">
+{`curl -H "X-API-Key: <key>" \\
+  "${API_BASE_URL}/queries/<queryId>/results?format=csv&contract=0x..."`}
+          </pre>
+          <p className="text-xs text-muted-foreground">
+            Query-string values fill the query's {'{{parameters}}'}. Add <code>format=csv</code> for CSV,
+            <code> limit</code> to change the default of 1,000 rows and <code>fresh=true</code> to skip the cache.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Layers } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import type { ViewRefreshPolicy } from '@/types/common.types';
+
+interface PublishViewDialogProps {
+  queryId: string;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPublished?: () => void;
+}
+
+const VIEW_NAME_PATTERN = /^[a-z_][a-z0-9_]*\.[a-z_][a-z0-9_]*$/;
+
+const REFRESH_OPTIONS: { label: string; refresh: ViewRefreshPolicy }[] = [
+  { label: 'Manually', refresh: { mode: 'manual' } },
+  { label: 'Every hour', refresh: { mode: 'schedule', cron: '0 * * * *' } },
+  { label: 'Every day (00:00 UTC)', refresh: { mode: 'schedule', cron: '0 0 * * *' } },
+];
+
+// Suggest a view name from the query title, e.g. "Daily fees" -> my.daily_fees
+const suggestName = (title: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, '_$1');
+  return `my.${slug || 'view'}`;
+};
+
+// Publish a saved query as a named dataset, e.g. myteam.daily_fees, that
+// other queries can use in FROM
+export function PublishViewDialog({ queryId, title, open, onOpenChange, onPublished }: PublishViewDialogProps) {
+  const [name, setName] = useState(() => suggestName(title));
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [refreshIndex, setRefreshIndex] = useState(0);
+  const [publishing, setPublishing] = useState(false);
+  const { toast } = useToast();
+
+  const nameError = VIEW_NAME_PATTERN.test(name) ? null : 'Use namespace.view_name with lowercase letters, digits and _';
+
+  const publish = async () => {
+    if (nameError) return;
+
+    setPublishing(true);
+    try {
+      const response = await apiClient.publishView({
+        queryId,
+        name,
+        description: description.trim() || undefined,
+        isPublic,
+        refresh: REFRESH_OPTIONS[refreshIndex].refresh,
+      });
+      const view = response.data.view;
+      toast({
+        title: `Published ${view.name}`,
+        description: view.materialized
+          ? `${view.rowCount} rows materialized. Query it with SELECT * FROM ${view.name}`
+          : 'The first materialization failed; fix the query and refresh the view',
+        variant: view.materialized ? undefined : 'destructive',
+      });
+      onPublished?.();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Publish failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Publish as view
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value.toLowerCase())}
+              className="font-mono"
+              placeholder="myteam.daily_fees"
+            />
+            {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="view-description">Description</Label>
+            <Textarea
+              id="view-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the dataset contains"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="view-refresh">Refresh</Label>
+            <select
+              id="view-refresh"
+              value={refreshIndex}
+              onChange={(e) => setRefreshIndex(Number(e.target.value))}
+              className="w-full p-2 text-sm border border-border rounded-lg bg-background"
+            >
+              {REFRESH_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Queries read the rows from the latest successful run of &quot;{title}&quot;.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="view-public" checked={isPublic} onCheckedChange={setIsPublic} />
+            <Label htmlFor="view-public">Anyone can query this view</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={publish} disabled={publishing || Boolean(nameError)}>
+              {publishing ? 'Publishing...' : 'Publish'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,11 +5,37 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Play, Save, Download, Wand2, BarChart3, Lightbulb, RefreshCw, Zap, Trophy, Activity, Users, Search, TrendingUp, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { Play, Save, Wand2, BarChart3, Lightbulb, RefreshCw, Zap, Trophy, Activity, Users, Search, TrendingUp, ChevronLeft, ChevronRight, Plus, X, History, CalendarClock, Layers, ListTree } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { useQuerySaver } from '@/hooks/useQuerySaver';
+import { useQuerySchema } from '@/hooks/useQuerySchema';
 import { useNavigate } from 'react-router-dom';
 import { ChartBuilder } from './ChartBuilder';
+import { QueryParameters } from './QueryParameters';
+import { QueryRevisionHistory } from './QueryRevisionHistory';
+import { QueryScheduleDialog } from './QueryScheduleDialog';
+import { PublishViewDialog } from './PublishViewDialog';
+import { ResultExportMenu } from './ResultExportMenu';
+import { SqlEditor } from './SqlEditor';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { runQueryExecution, cancelQueryExecution } from '@/services/QueryExecutionService';
+import { DashboardService } from '@/services/DashboardService';
+import { SyncService } from '@/services/SyncService';
+import { syncParameters, validateParameterValues } from '@/utils/queryParameters';
+import { useNetwork } from '@/hooks/useNetwork';
+import { NetworkSelector } from '@/components/ui/NetworkSelector';
+import type { NetworkSelection } from '@/lib/networks';
+import type {
+  QueryCacheInfo,
+  QueryExecutionProgress,
+  QueryExecutionRequest,
+  QueryExecutionResult,
+  QueryNetworkInfo,
+  QueryParameter,
+  QueryParameterValues,
+  QueryPlan
+} from '@/types/common.types';
 
 interface QueryEditorProps {
   onQueryComplete?: (results: any[], query: string) => void;
@@ -19,7 +45,7 @@ const examplePrompts = [
   {
     title: "Starknet Block Analysis",
     prompt: "Analyze recent Starknet blocks with transaction counts and gas usage",
-    sql: "SELECT block_number, timestamp, transaction_count, gas_used, hash FROM blocks ORDER BY block_number DESC;"
+    sql: "SELECT block_number, timestamp, transaction_count, l1_gas_price, block_hash FROM blocks ORDER BY block_number DESC;"
   },
   {
     title: "Cairo Contract Activity",
@@ -29,12 +55,92 @@ const examplePrompts = [
   {
     title: "Starknet Gas Efficiency",
     prompt: "Find the most gas-efficient transactions on Starknet",
-    sql: "SELECT transaction_hash, sender_address, max_fee, type FROM transactions WHERE max_fee > '0x0' ORDER BY CAST(max_fee as DECIMAL) ASC;"
+    sql: "SELECT transaction_hash, type, actual_fee, fee_unit FROM receipts WHERE execution_status = 'SUCCEEDED' AND fee_unit = 'FRI' ORDER BY HEX_TO_INT(actual_fee) ASC;"
+  },
+  {
+    title: "Transaction Failure Rate",
+    prompt: "Share of reverted transactions in each recent block",
+    sql: "SELECT block_number, COUNT(*) AS transactions, SUM(CASE WHEN execution_status = 'REVERTED' THEN 1 ELSE 0 END) AS reverted, AVG(CASE WHEN execution_status = 'REVERTED' THEN 1.0 ELSE 0 END) AS failure_rate FROM receipts GROUP BY block_number ORDER BY block_number DESC;"
+  },
+  {
+    title: "Historical Block Range",
+    prompt: "Show transaction counts for a specific historical block range",
+    sql: "SELECT block_number, timestamp, transaction_count FROM blocks WHERE block_number BETWEEN 900000 AND 900100 ORDER BY block_number;"
+  },
+  {
+    title: "Contract Event Stream",
+    prompt: "List recent Transfer events emitted by the STRK token contract",
+    sql: "SELECT block_number, transaction_hash, keys, data FROM events WHERE from_address = '0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d' AND event_name = 'Transfer' LIMIT 50;"
+  },
+  {
+    title: "Token Transfer Volume",
+    prompt: "Total STRK, ETH and USDC moved over a block range, in whole tokens",
+    sql: "SELECT symbol, COUNT(*) AS transfers, TO_UNITS(SUM(amount), MAX(decimals)) AS volume FROM token_transfers WHERE symbol IN ('STRK', 'ETH', 'USDC') AND block_number BETWEEN 900000 AND 900100 GROUP BY symbol ORDER BY transfers DESC;"
+  },
+  {
+    title: "Contract Deployments",
+    prompt: "Count new contracts per class over the last hundred blocks",
+    sql: "SELECT class_hash, COUNT(*) AS deployments, MAX(block_number) AS last_block FROM deployed_contracts GROUP BY class_hash ORDER BY deployments DESC;"
+  },
+  {
+    title: "Contract State",
+    prompt: "Read the STRK total supply straight from the token contract",
+    sql: "SELECT block_number, value AS total_supply, TO_UNITS(value, 18) AS strk FROM call('0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d', 'total_supply');"
+  },
+  {
+    title: "Transactions with Block Times",
+    prompt: "Join recent transactions to the timestamp of the block they landed in",
+    sql: "SELECT t.transaction_hash, t.type, t.sender_address, b.block_number, b.timestamp FROM transactions t JOIN blocks b ON t.block_number = b.block_number ORDER BY b.block_number DESC LIMIT 100;"
   }
 ];
 
+// Time-series models, run as real queries over the last half hour of blocks.
+// Scans are capped at 1,000 blocks, so longer windows need narrower filters.
+const predictionModels: Record<string, { label: string; sql: string }> = {
+  gas_price: {
+    label: 'Gas Price Trend',
+    sql: `-- Gas price trend: L1 gas price per 5 minutes with a moving average
+SELECT
+  TIME_BUCKET('5 minutes', timestamp) AS bucket,
+  AVG(TO_UNITS(l1_gas_price, 9)) AS avg_gas_price_gwei,
+  AVG(AVG(TO_UNITS(l1_gas_price, 9))) OVER (ORDER BY bucket ROWS BETWEEN 2 PRECEDING AND CURRENT ROW) AS moving_avg_gwei,
+  SUM(transaction_count) AS tx_volume
+FROM blocks
+WHERE timestamp >= NOW() - INTERVAL '30 minutes'
+GROUP BY TIME_BUCKET('5 minutes', timestamp)
+ORDER BY bucket DESC;`,
+  },
+  transaction_volume: {
+    label: 'Transaction Volume Trend',
+    sql: `-- Transaction volume: per-minute counts, change and running total
+SELECT
+  DATE_TRUNC('minute', timestamp) AS minute,
+  SUM(transaction_count) AS tx_volume,
+  SUM(transaction_count) - LAG(SUM(transaction_count)) OVER (ORDER BY minute) AS change,
+  SUM(SUM(transaction_count)) OVER (ORDER BY minute) AS running_total,
+  AVG(SUM(transaction_count)) OVER (ORDER BY minute ROWS BETWEEN 4 PRECEDING AND CURRENT ROW) AS moving_avg_5m
+FROM blocks
+WHERE timestamp >= NOW() - INTERVAL '30 minutes'
+GROUP BY DATE_TRUNC('minute', timestamp)
+ORDER BY minute DESC;`,
+  },
+  user_growth: {
+    label: 'Active Addresses',
+    sql: `-- Active addresses: distinct senders per 5 minutes
+SELECT
+  TIME_BUCKET('5 minutes', block_timestamp) AS bucket,
+  COUNT(DISTINCT sender_address) AS active_addresses,
+  COUNT(*) AS transactions,
+  AVG(COUNT(DISTINCT sender_address)) OVER (ORDER BY bucket ROWS BETWEEN 2 PRECEDING AND CURRENT ROW) AS moving_avg
+FROM transactions
+WHERE block_timestamp >= NOW() - INTERVAL '30 minutes'
+GROUP BY TIME_BUCKET('5 minutes', block_timestamp)
+ORDER BY bucket DESC;`,
+  },
+};
+
 export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
-  const [query, setQuery] = useState('SELECT block_number, timestamp, transaction_count, gas_used, hash FROM blocks ORDER BY block_number DESC;');
+  const [query, setQuery] = useState('SELECT block_number, timestamp, transaction_count, l1_gas_price, block_hash FROM blocks ORDER BY block_number DESC;');
   const [prompt, setPrompt] = useState('');
   const [results, setResults] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
@@ -45,16 +151,58 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
   const [pageSize] = useState(50);
   const [totalResults, setTotalResults] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [parameters, setParameters] = useState<QueryParameter[]>([]);
+  const [parameterValues, setParameterValues] = useState<QueryParameterValues>({});
+  const [parameterErrors, setParameterErrors] = useState<Record<string, string>>({});
+  const [cacheInfo, setCacheInfo] = useState<QueryCacheInfo | null>(null);
+  const [resultNetwork, setResultNetwork] = useState<QueryNetworkInfo | null>(null);
+  // Network picked for this query; until one is, it follows the header's
+  const { selection: globalNetwork } = useNetwork();
+  const [queryNetwork, setQueryNetwork] = useState<NetworkSelection | null>(null);
+  const network = queryNetwork ?? globalNetwork;
+  const [plan, setPlan] = useState<QueryPlan | null>(null);
+  // Request behind the results on screen, run again on the server to export them
+  const [lastRequest, setLastRequest] = useState<QueryExecutionRequest | null>(null);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<QueryExecutionProgress | null>(null);
+  // Backend copy of the query being edited; saving it records a new revision
+  const [savedQuery, setSavedQuery] = useState<{ id: string; title: string } | null>(null);
+  // Public query opened from the gallery; runs of it count towards its popularity
+  const [sourceQueryId, setSourceQueryId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [publishOpen, setPublishOpen] = useState(false);
+  const { schema, refresh: refreshSchema } = useQuerySchema();
 
   // Auto-load query from localStorage if coming from library
   useEffect(() => {
     const loadQuery = localStorage.getItem('loadQuery');
     if (loadQuery) {
+      const loadParameters = JSON.parse(localStorage.getItem('loadQueryParameters') || '[]');
+      setParameters(syncParameters(loadQuery, loadParameters));
       setQuery(loadQuery);
+      const loadQueryId = localStorage.getItem('loadQueryId');
+      if (loadQueryId) {
+        setSavedQuery({ id: loadQueryId, title: localStorage.getItem('loadQueryTitle') || 'Untitled query' });
+      }
+      setSourceQueryId(localStorage.getItem('loadQuerySourceId'));
+      const loadQueryNetwork = localStorage.getItem('loadQueryNetwork');
+      if (loadQueryNetwork) setQueryNetwork(JSON.parse(loadQueryNetwork));
       localStorage.removeItem('loadQuery');
+      localStorage.removeItem('loadQueryParameters');
+      localStorage.removeItem('loadQueryNetwork');
+      localStorage.removeItem('loadQueryId');
+      localStorage.removeItem('loadQueryTitle');
+      localStorage.removeItem('loadQuerySourceId');
     }
   }, []);
+
+  // Keep one parameter definition per {{placeholder}} in the query
+  useEffect(() => {
+    setParameters(current => syncParameters(query, current));
+  }, [query]);
   const { toast } = useToast();
+  const { user } = useAuth();
   const navigate = useNavigate();
   const {
     isAutosaveEnabled,
@@ -79,9 +227,9 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
       // Block-related queries
       if (promptLower.includes('block') || promptLower.includes('latest')) {
         if (promptLower.includes('transaction')) {
-          generatedSQL = "SELECT block_number, timestamp, transaction_count, gas_used FROM blocks ORDER BY block_number DESC LIMIT 10;";
+          generatedSQL = "SELECT block_number, timestamp, transaction_count, l1_gas_price FROM blocks ORDER BY block_number DESC LIMIT 10;";
         } else {
-          generatedSQL = "SELECT block_number, timestamp, transaction_count, gas_used, hash FROM blocks ORDER BY block_number DESC LIMIT 5;";
+          generatedSQL = "SELECT block_number, timestamp, transaction_count, l1_gas_price, block_hash FROM blocks ORDER BY block_number DESC LIMIT 5;";
         }
       }
       // Transaction-related queries
@@ -125,18 +273,29 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
     }
   };
 
-  const executeQuery = async () => {
+  const executeQuery = async (
+    sql: string = query,
+    queryParameters: QueryParameter[] = parameters,
+    values: QueryParameterValues = parameterValues
+  ) => {
     setLoading(true);
     setError(null);
     try {
       // REAL SQL VALIDATION
-      const validationError = validateSQL(query);
+      const validationError = await validateSQL(sql, queryParameters);
       if (validationError) {
         throw new Error(validationError);
       }
 
+      const valueErrors = validateParameterValues(queryParameters, values);
+      setParameterErrors(valueErrors);
+      if (Object.keys(valueErrors).length > 0) {
+        throw new Error('Fix the highlighted parameter values before running the query.');
+      }
+
       // REAL RPC QUERY EXECUTION
-      const results = await executeRPCQuery(query);
+      const execution = await executeRPCQuery(sql, queryParameters, values);
+      const results = execution.results || [];
       
       setTotalResults(results.length);
       setResults(results);
@@ -144,195 +303,117 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
       
       // Store results in localStorage for visualization
       localStorage.setItem('queryResults', JSON.stringify(results));
-      localStorage.setItem('lastQuery', query);
+      localStorage.setItem('lastQuery', sql);
       
-      onQueryComplete?.(results, query);
+      onQueryComplete?.(results, sql);
 
       // Update last run timestamp if query is saved
-      const savedQuery = savedQueries.find(sq => sq.query === query);
+      const savedQuery = savedQueries.find(sq => sq.query === sql);
       if (savedQuery) {
         updateLastRun(savedQuery.id);
       }
 
-      toast({
+      toast(execution.plan ? {
+        title: "Query plan ready",
+        description: execution.plan.cache.hit
+          ? 'The result is in the cache; running it makes no RPC calls'
+          : `Running it makes about ${execution.plan.estimatedCalls.toLocaleString()} RPC calls (at most ${execution.plan.maxCalls.toLocaleString()})`,
+      } : {
         title: "Query executed successfully",
         description: `Found ${results.length.toLocaleString()} results${results.length > pageSize ? ` (showing ${pageSize} per page)` : ''}`,
       });
     } catch (error: any) {
       setError(error.message || "Please check your query syntax");
       setResults([]);
+      setLastRequest(null);
     } finally {
       setLoading(false);
+      setExecutionId(null);
+      setProgress(null);
     }
   };
 
-  // REAL SQL VALIDATION FUNCTION
-  const validateSQL = (sql: string): string | null => {
+  const cancelExecution = async () => {
+    if (!executionId) return;
+    try {
+      await cancelQueryExecution(executionId);
+    } catch (error) {
+      toast({
+        title: "Cancel failed",
+        description: error instanceof Error ? error.message : "Unable to cancel the query",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeProgress = (current: QueryExecutionProgress | null) => {
+    if (!current) return 'Running...';
+    if (current.total !== null) {
+      return `Fetched ${current.done.toLocaleString()}/${current.total.toLocaleString()} ${current.unit}`;
+    }
+    return `Fetched ${current.done.toLocaleString()} ${current.unit}`;
+  };
+
+  // Quick client-side guards, then a check against the schema registry that
+  // reports unknown tables, columns and functions with line and column
+  // information before anything is executed
+  const validateSQL = async (sql: string, queryParameters: QueryParameter[]): Promise<string | null> => {
     const trimmedSQL = sql.trim().toLowerCase();
-    
+
+    if (!trimmedSQL) {
+      return 'Query is empty.';
+    }
+
     // Check for dangerous operations
     const dangerousKeywords = ['drop', 'delete', 'update', 'insert', 'alter', 'create', 'truncate'];
     for (const keyword of dangerousKeywords) {
-      if (trimmedSQL.includes(keyword)) {
+      if (new RegExp(`\\b${keyword}\\b`).test(trimmedSQL)) {
         return `Dangerous operation '${keyword.toUpperCase()}' is not allowed. Only SELECT queries are permitted.`;
       }
     }
-    
-    // Check if it starts with SELECT
-    if (!trimmedSQL.startsWith('select')) {
-      return 'Only SELECT queries are allowed. Query must start with SELECT.';
-    }
-    
-    // Basic syntax validation
-    if (!trimmedSQL.includes('from')) {
-      return 'Invalid SQL: Missing FROM clause.';
-    }
-    
-    // Check for balanced parentheses
-    let openParens = 0;
-    for (const char of sql) {
-      if (char === '(') openParens++;
-      if (char === ')') openParens--;
-      if (openParens < 0) return 'Invalid SQL: Unmatched closing parenthesis.';
-    }
-    if (openParens > 0) return 'Invalid SQL: Unmatched opening parenthesis.';
-    
-    return null; // Valid
-  };
-
-  // REAL RPC QUERY EXECUTION
-  const executeRPCQuery = async (sql: string): Promise<any[]> => {
-    const endpoints = [
-      "https://starknet-mainnet.public.blastapi.io",
-      "https://free-rpc.nethermind.io/mainnet-juno",
-      "https://starknet-mainnet.g.alchemy.com/v2/demo",
-      "https://rpc.starknet.lava.build",
-    ];
 
-    // Parse SQL to determine what blockchain data to fetch
-    const sqlLower = sql.toLowerCase();
-    
-    if (sqlLower.includes('blocks')) {
-      return await fetchBlockData(sql, endpoints);
-    } else if (sqlLower.includes('transactions')) {
-      return await fetchTransactionData(sql, endpoints);
-    } else if (sqlLower.includes('bounties')) {
-      return await fetchBountyData(sql);
-    } else {
-      throw new Error('Unsupported table. Available tables: blocks, transactions, bounties');
+    // Check if it starts with SELECT (or EXPLAIN SELECT)
+    if (!trimmedSQL.replace(/^(--[^\n]*\n\s*)+/, '').replace(/^explain\s+/, '').startsWith('select')) {
+      return 'Only SELECT queries are allowed. Query must start with SELECT.';
     }
-  };
 
-  // FETCH REAL BLOCK DATA
-  const fetchBlockData = async (sql: string, endpoints: string[]): Promise<any[]> => {
     try {
-      // Get current block number
-      const blockResponse = await fetch(endpoints[0], {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'starknet_blockNumber',
-          params: [],
-          id: 1
-        })
-      });
-      const blockData = await blockResponse.json();
-      const currentBlock = parseInt(blockData.result);
-      
-      // Parse LIMIT from SQL or use default
-      const limitMatch = sql.match(/limit\s+(\d+)/i);
-      const limit = limitMatch ? parseInt(limitMatch[1]) : 100;
-      
-      // Fetch multiple blocks
-      const blockPromises = [];
-      for (let i = 0; i < limit; i++) {
-        blockPromises.push(
-          fetch(endpoints[0], {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              jsonrpc: '2.0',
-              method: 'starknet_getBlockWithTxs',
-              params: [{ block_number: currentBlock - i }],
-              id: i + 2
-            })
-          }).then(r => r.json())
-        );
-      }
-      
-      const blocks = await Promise.all(blockPromises);
-      return blocks.map((block, index) => ({
-        block_number: currentBlock - index,
-        timestamp: block.result?.timestamp || Date.now() / 1000,
-        transaction_count: block.result?.transactions?.length || 0,
-        gas_used: block.result?.gas_consumed || block.result?.gas_used || 0,
-        hash: block.result?.block_hash || `0x${Math.random().toString(16).substr(2, 64)}`
-      })).filter(Boolean);
+      await apiClient.validateQuery(sql, queryParameters);
     } catch (error) {
-      throw new Error('Failed to fetch block data from Starknet RPC');
+      return error instanceof Error ? error.message : 'Query is not valid';
     }
-  };
 
-  // FETCH REAL TRANSACTION DATA  
-  const fetchTransactionData = async (sql: string, endpoints: string[]): Promise<any[]> => {
-    try {
-      // Get latest block with transactions
-      const response = await fetch(endpoints[0], {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'starknet_getBlockWithTxs',
-          params: ['latest'],
-          id: 1
-        })
-      });
-      const data = await response.json();
-      const transactions = data.result?.transactions || [];
-      
-      // Parse LIMIT from SQL
-      const limitMatch = sql.match(/limit\s+(\d+)/i);
-      const limit = limitMatch ? parseInt(limitMatch[1]) : 100;
-      
-      return transactions.slice(0, limit).map((tx: any, index: number) => ({
-        transaction_hash: tx.transaction_hash || `0x${Math.random().toString(16).substr(2, 64)}`,
-        sender_address: tx.sender_address || `0x${Math.random().toString(16).substr(2, 40)}`,
-        max_fee: tx.max_fee || '0x0',
-        version: tx.version || '0x1',
-        nonce: tx.nonce || `0x${index}`,
-        type: tx.type || 'INVOKE'
-      }));
-    } catch (error) {
-      throw new Error('Failed to fetch transaction data from Starknet RPC');
-    }
+    return null; // Valid
   };
 
-  // FETCH BOUNTY DATA (from localStorage/API)
-  const fetchBountyData = async (sql: string): Promise<any[]> => {
-    // This would connect to your bounty backend API
-    const mockBounties = [
-      { id: 1, title: 'Analyze DeFi TVL', reward: 500, status: 'active', created_at: '2024-01-15' },
-      { id: 2, title: 'Transaction Patterns', reward: 750, status: 'completed', created_at: '2024-01-14' },
-      { id: 3, title: 'User Behavior Study', reward: 300, status: 'active', created_at: '2024-01-13' }
-    ];
-    
-    // Parse LIMIT from SQL
-    const limitMatch = sql.match(/limit\s+(\d+)/i);
-    const limit = limitMatch ? parseInt(limitMatch[1]) : mockBounties.length;
-    
-    // Parse WHERE conditions
-    if (sql.toLowerCase().includes('where status')) {
-      const statusMatch = sql.match(/status\s*=\s*['"]([^'"]+)['"]/i);
-      if (statusMatch) {
-        const status = statusMatch[1];
-        return mockBounties.filter(b => b.status === status).slice(0, limit);
-      }
-    }
-    
-    return mockBounties.slice(0, limit);
+  // Run the query as a cancellable server-side execution. Parameter values
+  // travel separately from the SQL and are bound by the engine after parsing.
+  const executeRPCQuery = async (
+    sql: string,
+    queryParameters: QueryParameter[],
+    values: QueryParameterValues
+  ): Promise<QueryExecutionResult> => {
+    const request = {
+      sql,
+      parameters: queryParameters,
+      parameterValues: values,
+      network: network.network,
+      rpcUrl: network.rpcUrl,
+      queryId: savedQuery?.id ?? sourceQueryId ?? undefined
+    };
+    const result = await runQueryExecution(request, { onStart: setExecutionId, onProgress: setProgress });
+    setLastRequest(request);
+    setCacheInfo(result.cache ?? null);
+    setResultNetwork(result.network ?? null);
+    setPlan(result.plan ?? null);
+    return result;
   };
 
+  // Show how the query would be read and what it costs in RPC calls,
+  // without running it
+  const explainQuery = () =>
+    executeQuery(/^\s*explain\b/i.test(query) ? query : `EXPLAIN ${query}`);
+
   const visualizeResults = () => {
     if (results.length > 0) {
       localStorage.setItem('queryResults', JSON.stringify(results));
@@ -344,7 +425,7 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
   const createDashboardFromQuery = () => {
     if (!results.length) return;
     
-    const queryName = prompt(`Enter dashboard name:`, `Dashboard from Query`);
+    const queryName = window.prompt(`Enter dashboard name:`, `Dashboard from Query`);
     if (!queryName) return;
     
     // Create dashboard with auto-generated widgets from query results
@@ -354,6 +435,7 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
       description: `Auto-generated dashboard from query results`,
       source: 'query',
       query: query,
+      network,
       widgets: generateDashboardWidgets(results),
       createdAt: new Date().toISOString()
     };
@@ -422,37 +504,115 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
   useEffect(() => {
     if (isAutosaveEnabled && query.trim() && query !== 'SELECT * FROM bounties LIMIT 10;') {
       const timeoutId = setTimeout(() => {
-        saveQueryToCollection(query, true);
+        saveQueryToCollection(query, true, parameters);
       }, 1000);
       return () => clearTimeout(timeoutId);
     }
-  }, [query, isAutosaveEnabled, saveQueryToCollection]);
+  }, [query, parameters, isAutosaveEnabled, saveQueryToCollection]);
+
+  // Keep the library's local entry for a backend query in step with it
+  const updateLocalCopy = (remoteId: string, changes: Record<string, unknown>) => {
+    const existingQueries = JSON.parse(localStorage.getItem('saved_queries') || '[]');
+    localStorage.setItem('saved_queries', JSON.stringify(existingQueries.map((saved: { remoteId?: string }) =>
+      saved.remoteId === remoteId ? { ...saved, ...changes } : saved
+    )));
+  };
+
+  const saveRevision = async (target: { id: string; title: string }) => {
+    const note = window.prompt('Describe your changes (optional):', '');
+    if (note === null) return;
+
+    try {
+      const response = await apiClient.updateSavedQuery(target.id, {
+        title: target.title,
+        sql: query,
+        parameters,
+        network: network.network,
+        rpcUrl: network.rpcUrl,
+        note: note.trim() || undefined
+      });
+      const saved = response.data.query;
+      updateLocalCopy(saved._id, {
+        query,
+        parameters,
+        network,
+        results,
+        revision: saved.revision,
+        updatedAt: saved.updatedAt,
+        syncedAt: saved.updatedAt
+      });
+      toast({
+        title: "Query saved",
+        description: `"${saved.title}" is now at revision ${saved.revision}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : 'Could not save the query',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveQuery = async () => {
+    if (savedQuery) {
+      await saveRevision(savedQuery);
+      return;
+    }
 
-  const saveQuery = () => {
     const queryName = prompt(`Enter a name for this query:`, ``);
     if (!queryName || queryName.trim() === '') return;
     
     const isPublic = confirm('Make this query public? (Cancel for private)');
     
     // Save query with results and visualization config
-    const savedQuery = {
+    const savedEntry: Record<string, unknown> = {
       id: `query-${Date.now()}`,
       name: queryName.trim(),
       query: query,
+      parameters: parameters,
+      network,
       results: results,
       visualizations: generateVisualizationsFromResults(results),
       isPublic: isPublic,
-      createdAt: new Date().toISOString()
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
     };
+
+    // Signed-in users also get a backend copy, which keeps revision history
+    let remoteSaved = false;
+    if (user) {
+      try {
+        const response = await apiClient.createSavedQuery({
+          title: queryName.trim(),
+          sql: query,
+          isPublic,
+          parameters,
+          network: network.network,
+          rpcUrl: network.rpcUrl
+        });
+        savedEntry.remoteId = response.data.query._id;
+        savedEntry.revision = response.data.query.revision;
+        savedEntry.syncedAt = response.data.query.updatedAt;
+        setSavedQuery({ id: response.data.query._id, title: response.data.query.title });
+        remoteSaved = true;
+      } catch (error) {
+        console.error('Failed to save query to the backend:', error);
+      }
+    }
     
     // Save to localStorage
     const existingQueries = JSON.parse(localStorage.getItem('saved_queries') || '[]');
-    existingQueries.push(savedQuery);
+    existingQueries.push(savedEntry);
     localStorage.setItem('saved_queries', JSON.stringify(existingQueries));
+    // Uploaded once the backend is reachable
+    if (!remoteSaved) SyncService.enqueue('query', savedEntry.id as string);
     
     toast({
       title: "Query saved",
-      description: `"${queryName}" has been saved to your library as ${isPublic ? 'public' : 'private'}`,
+      description: `"${queryName}" has been saved to your library as ${isPublic ? 'public' : 'private'}${
+        user && !remoteSaved ? ' (it will sync to your account once the backend is reachable)' : ''
+      }`,
     });
   };
   
@@ -513,79 +673,26 @@ export function QueryEditor({ onQueryComplete }: QueryEditorProps) {
 
   const analyzeContract = async (address: string) => {
     if (!address.trim()) return;
-    
-    setLoading(true);
-    try {
-      const endpoints = [
-        "https://starknet-mainnet.public.blastapi.io",
-        "https://free-rpc.nethermind.io/mainnet-juno",
-        "https://starknet-mainnet.g.alchemy.com/v2/demo",
-        "https://rpc.starknet.lava.build",
-      ];
-      
-      // Get contract transactions
-      const response = await fetch(endpoints[0], {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'starknet_getBlockWithTxs',
-          params: ['latest'],
-          id: 1
-        })
-      });
-      
-      const data = await response.json();
-      const transactions = data.result?.transactions || [];
-      
-      // Filter transactions related to the contract
-      const contractTxs = transactions.filter((tx: any) => 
-        tx.sender_address === address || 
-        tx.contract_address === address ||
-        (tx.calldata && tx.calldata.includes(address.replace('0x', '')))
-      );
-      
-      // Generate analysis query
-      const analysisQuery = `-- Contract Analysis for ${address}
+
+    const analysisQuery = `-- Contract Analysis for {{contract_address}}
 SELECT 
   'Contract Activity' as metric,
   COUNT(*) as transaction_count,
   AVG(CAST(max_fee as DECIMAL)) as avg_fee,
   SUM(CAST(max_fee as DECIMAL)) as total_fees
 FROM transactions 
-WHERE sender_address = '${address}' 
-   OR contract_address = '${address}'
-LIMIT 1;`;
-      
-      setQuery(analysisQuery);
-      
-      // Mock contract analysis results
-      const analysisResults = [
-        {
-          metric: 'Contract Activity',
-          transaction_count: contractTxs.length || Math.floor(Math.random() * 100) + 10,
-          avg_fee: (Math.random() * 0.01).toFixed(6),
-          total_fees: (Math.random() * 1).toFixed(4),
-          gas_usage: Math.floor(Math.random() * 1000000) + 100000,
-          unique_users: Math.floor(Math.random() * 50) + 5
-        }
-      ];
-      
-      setResults(analysisResults);
-      
-      toast({
-        title: "Contract Analysis Complete",
-        description: `Analyzed ${contractTxs.length || 'multiple'} transactions for contract ${address.slice(0, 10)}...`,
-      });
-    } catch (error) {
-      toast({
-        title: "Contract Analysis Failed",
-        description: "Unable to analyze contract. Please check the address.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+WHERE sender_address = {{contract_address}} 
+   OR contract_address = {{contract_address}};`;
+    const analysisParameters: QueryParameter[] = [
+      { name: 'contract_address', type: 'address', label: 'Contract address' }
+    ];
+    const analysisValues = { ...parameterValues, contract_address: address.trim() };
+
+    setQuery(analysisQuery);
+    setParameters(analysisParameters);
+    setParameterValues(analysisValues);
+
+    await executeQuery(analysisQuery, analysisParameters, analysisValues);
   };
 
   const getPaginatedResults = () => {
@@ -594,38 +701,7 @@ LIMIT 1;`;
     return results.slice(startIndex, endIndex);
   };
 
-  const exportToExcel = () => {
-    if (!results.length) return;
-    
-    // Convert data to CSV format
-    const headers = Object.keys(results[0]);
-    const csvContent = [
-      headers.join(','),
-      ...results.map(row => 
-        headers.map(header => 
-          typeof row[header] === 'string' && row[header].includes(',') 
-            ? `"${row[header]}"` 
-            : row[header]
-        ).join(',')
-      )
-    ].join('\n');
-    
-    // Create and download file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `starknet_query_results_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    toast({
-      title: "Export Complete",
-      description: "Query results exported to CSV file",
-    });
-  };
+  const exportFilename = savedQuery?.title || `starknet_query_results_${new Date().toISOString().split('T')[0]}`;
 
   const addToDashboard = () => {
     if (!results.length) return;
@@ -689,9 +765,7 @@ LIMIT 1;`;
       
       dashboard.widgets = dashboard.widgets || [];
       dashboard.widgets.push(newWidget);
-      dashboard.updatedAt = new Date().toISOString();
-      
-      localStorage.setItem(`dashboard_${dashboardId}`, JSON.stringify(dashboard));
+      DashboardService.saveDashboard(dashboard);
       
       toast({
         title: "Added to Dashboard",
@@ -736,7 +810,7 @@ LIMIT 1;`;
         }
       } else {
         // Generic fix - ensure it's a valid SELECT query
-        fixedQuery = `SELECT block_number, timestamp, transaction_count, gas_used FROM blocks ORDER BY block_number DESC LIMIT 10;`;
+        fixedQuery = `SELECT block_number, timestamp, transaction_count, l1_gas_price FROM blocks ORDER BY block_number DESC LIMIT 10;`;
       }
       
       setQuery(fixedQuery);
@@ -758,117 +832,12 @@ LIMIT 1;`;
   };
 
   const buildPredictionModel = async (modelType: string) => {
-    if (!modelType) return;
-    
-    setLoading(true);
-    try {
-      await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate model building
-      
-      let modelQuery = '';
-      let modelResults: any[] = [];
-      
-      switch (modelType) {
-        case 'gas_price':
-          modelQuery = `-- Gas Price Prediction Model
-SELECT 
-  DATE(block_timestamp) as date,
-  AVG(CAST(max_fee as DECIMAL)) as avg_gas_price,
-  COUNT(*) as tx_volume,
-  AVG(CAST(max_fee as DECIMAL)) * (1 + (COUNT(*) - 100) * 0.001) as predicted_gas_price
-FROM transactions 
-WHERE block_timestamp >= DATE_SUB(NOW(), INTERVAL 7 DAY)
-GROUP BY DATE(block_timestamp)
-ORDER BY date DESC
-LIMIT 7;`;
-          
-          modelResults = Array.from({ length: 7 }, (_, i) => ({
-            date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            avg_gas_price: (0.002 + Math.random() * 0.008).toFixed(6),
-            tx_volume: Math.floor(Math.random() * 200) + 50,
-            predicted_gas_price: (0.002 + Math.random() * 0.008 + 0.001).toFixed(6),
-            confidence: (85 + Math.random() * 10).toFixed(1) + '%'
-          }));
-          break;
-          
-        case 'transaction_volume':
-          modelQuery = `-- Transaction Volume Forecast
-SELECT 
-  DATE(block_timestamp) as date,
-  COUNT(*) as actual_volume,
-  COUNT(*) * 1.05 as predicted_volume,
-  'Linear Regression' as model_type
-FROM transactions 
-WHERE block_timestamp >= DATE_SUB(NOW(), INTERVAL 14 DAY)
-GROUP BY DATE(block_timestamp)
-ORDER BY date DESC
-LIMIT 14;`;
-          
-          modelResults = Array.from({ length: 14 }, (_, i) => ({
-            date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            actual_volume: Math.floor(Math.random() * 500) + 100,
-            predicted_volume: Math.floor((Math.random() * 500 + 100) * 1.05),
-            model_type: 'Linear Regression',
-            accuracy: (88 + Math.random() * 8).toFixed(1) + '%'
-          }));
-          break;
-          
-        case 'defi_tvl':
-          modelQuery = `-- DeFi TVL Trend Analysis
-SELECT 
-  protocol_name,
-  current_tvl,
-  predicted_tvl_7d,
-  trend_direction
-FROM defi_protocols 
-ORDER BY current_tvl DESC
-LIMIT 10;`;
-          
-          modelResults = [
-            { protocol_name: 'Uniswap V3', current_tvl: 1250000, predicted_tvl_7d: 1312500, trend_direction: 'UP', confidence: '92%' },
-            { protocol_name: 'Aave', current_tvl: 980000, predicted_tvl_7d: 1029000, trend_direction: 'UP', confidence: '87%' },
-            { protocol_name: 'Compound', current_tvl: 750000, predicted_tvl_7d: 735000, trend_direction: 'DOWN', confidence: '84%' }
-          ];
-          break;
-          
-        case 'user_growth':
-          modelQuery = `-- User Growth Prediction
-SELECT 
-  DATE(first_seen) as date,
-  COUNT(DISTINCT user_address) as new_users,
-  COUNT(DISTINCT user_address) * 1.15 as predicted_new_users
-FROM user_activity 
-WHERE first_seen >= DATE_SUB(NOW(), INTERVAL 30 DAY)
-GROUP BY DATE(first_seen)
-ORDER BY date DESC
-LIMIT 30;`;
-          
-          modelResults = Array.from({ length: 30 }, (_, i) => ({
-            date: new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-            new_users: Math.floor(Math.random() * 100) + 20,
-            predicted_new_users: Math.floor((Math.random() * 100 + 20) * 1.15),
-            growth_rate: ((Math.random() * 20) - 5).toFixed(1) + '%'
-          }));
-          break;
-      }
-      
-      setQuery(modelQuery);
-      setTotalResults(modelResults.length);
-      setResults(modelResults);
-      setCurrentPage(1);
-      
-      toast({
-        title: "Prediction Model Built",
-        description: `${modelType.replace('_', ' ')} model created with ${modelResults.length} data points`,
-      });
-    } catch (error) {
-      toast({
-        title: "Model Building Failed",
-        description: "Unable to build prediction model. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+    const model = predictionModels[modelType];
+    if (!model) return;
+
+    setQuery(model.sql);
+    setParameters([]);
+    await executeQuery(model.sql, [], {});
   };
 
   // AI Insights Component with RPC access
@@ -936,7 +905,7 @@ LIMIT 30;`;
               description: "Examine recent block production and transaction throughput patterns.",
               priority: "medium",
               type: "analysis",
-              action: () => setQuery(`SELECT block_number, transaction_count, gas_used FROM blocks ORDER BY block_number DESC LIMIT 10;`)
+              action: () => setQuery(`SELECT block_number, transaction_count, l1_gas_price FROM blocks ORDER BY block_number DESC LIMIT 10;`)
             },
             {
               title: "Build Prediction Models",
@@ -1020,21 +989,59 @@ LIMIT 30;`;
               <CardTitle>SQL Query Editor</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <Textarea
+              <SqlEditor
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                placeholder="Enter your SQL query here..."
-                className="min-h-[200px] font-mono"
+                onChange={setQuery}
+                schema={schema}
+                placeholder="Enter your SQL query here... (Ctrl+Space for suggestions)"
+                className="min-h-[200px]"
               />
+              <QueryParameters
+                parameters={parameters}
+                values={parameterValues}
+                errors={parameterErrors}
+                onParametersChange={setParameters}
+                onValuesChange={setParameterValues}
+              />
+              {error && (
+                <p className="text-sm text-destructive font-mono whitespace-pre-wrap">{error}</p>
+              )}
               <div className="flex gap-2 flex-wrap">
-                <Button onClick={executeQuery} disabled={loading} className="glow-primary">
+                <NetworkSelector value={network} onChange={setQueryNetwork} />
+                <Button onClick={() => executeQuery()} disabled={loading} className="glow-primary">
                   <Play className="w-4 h-4 mr-2" />
-                  {loading ? 'Running...' : 'Run Query'}
+                  {loading ? describeProgress(progress) : 'Run Query'}
                 </Button>
+                <Button onClick={explainQuery} disabled={loading} variant="outline">
+                  <ListTree className="w-4 h-4 mr-2" />
+                  Explain
+                </Button>
+                {loading && executionId && (
+                  <Button onClick={cancelExecution} variant="outline">
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
                 <Button onClick={saveQuery} variant="outline">
                   <Save className="w-4 h-4 mr-2" />
                   Save
                 </Button>
+                {savedQuery && (
+                  <>
+                    <Button onClick={() => setHistoryOpen(true)} variant="outline">
+                      <History className="w-4 h-4 mr-2" />
+                      History
+                    </Button>
+                    <Button onClick={() => setScheduleOpen(true)} variant="outline">
+                      <CalendarClock className="w-4 h-4 mr-2" />
+                      Schedule
+                    </Button>
+                    <Button onClick={() => setPublishOpen(true)} variant="outline">
+                      <Layers className="w-4 h-4 mr-2" />
+                      Publish View
+                    </Button>
+                  </>
+                )}
                 <Button onClick={visualizeResults} disabled={!results.length} variant="outline">
                   <BarChart3 className="w-4 h-4 mr-2" />
                   Visualize
@@ -1044,10 +1051,7 @@ LIMIT 30;`;
                   Add to Dashboard
                 </Button>
 
-                <Button onClick={exportToExcel} variant="outline" disabled={!results.length}>
-                  <Download className="w-4 h-4 mr-2" />
-                  Export Excel
-                </Button>
+                <ResultExportMenu request={results.length ? lastRequest : null} filename={exportFilename} />
               </div>
             </CardContent>
           </Card>
@@ -1108,17 +1112,16 @@ LIMIT 30;`;
                       className="w-full p-2 border border-border rounded-lg bg-background"
                     >
                       <option value="">Select prediction model...</option>
-                      <option value="gas_price">Gas Price Prediction</option>
-                      <option value="transaction_volume">Transaction Volume Forecast</option>
-                      <option value="defi_tvl">DeFi TVL Trends</option>
-                      <option value="user_growth">User Growth Prediction</option>
+                      {Object.entries(predictionModels).map(([value, model]) => (
+                        <option key={value} value={value}>{model.label}</option>
+                      ))}
                     </select>
                     <Button onClick={() => buildPredictionModel(predictionModel)} disabled={!predictionModel}>
                       <TrendingUp className="w-4 h-4 mr-2" />
                       Build Model
                     </Button>
                     <div className="text-xs text-muted-foreground">
-                      Build predictive models using historical blockchain data
+                      Time-series trends over the last 30 minutes of blocks, with moving averages
                     </div>
                   </div>
                 </TabsContent>
@@ -1185,13 +1188,31 @@ LIMIT 30;`;
           <TabsContent value="table">
             <Card className="glass">
               <CardHeader className="flex flex-row items-center justify-between">
-                <CardTitle>Query Results ({totalResults.toLocaleString()} rows)</CardTitle>
+                <div className="flex items-center gap-2">
+                  <CardTitle>Query Results ({totalResults.toLocaleString()} rows)</CardTitle>
+                  {plan && (
+                    <Badge variant="outline" title={`Planning used ${plan.planningCalls} RPC call(s)`}>
+                      ~{plan.estimatedCalls.toLocaleString()} RPC calls · max {plan.maxCalls.toLocaleString()}
+                    </Badge>
+                  )}
+                  {cacheInfo && !plan && (
+                    <Badge
+                      variant={cacheInfo.hit ? 'secondary' : 'outline'}
+                      title={cacheInfo.blockRange ? `Blocks ${cacheInfo.blockRange.from.toLocaleString()}-${cacheInfo.blockRange.to.toLocaleString()}` : undefined}
+                    >
+                      {cacheInfo.hit ? 'Cached' : 'Fresh'}
+                      {cacheInfo.headBlock !== null && ` · head #${cacheInfo.headBlock.toLocaleString()}`}
+                    </Badge>
+                  )}
+                  {resultNetwork && (
+                    <Badge variant="outline" title={resultNetwork.chainId ?? undefined}>
+                      {resultNetwork.name}
+                    </Badge>
+                  )}
+                </div>
                 <div className="flex space-x-2">
 
-                  <Button onClick={exportToExcel} size="sm" variant="outline">
-                    <Download className="w-4 h-4 mr-2" />
-                    Export Excel
-                  </Button>
+                  <ResultExportMenu request={lastRequest} filename={exportFilename} size="sm" />
                 </div>
               </CardHeader>
               <CardContent>
@@ -1282,6 +1303,47 @@ LIMIT 30;`;
 
         </div>
       </div>
+
+      {savedQuery && (
+        <PublishViewDialog
+          key={savedQuery.id}
+          queryId={savedQuery.id}
+          title={savedQuery.title}
+          open={publishOpen}
+          onOpenChange={setPublishOpen}
+          onPublished={refreshSchema}
+        />
+      )}
+
+      {savedQuery && (
+        <QueryScheduleDialog
+          queryId={savedQuery.id}
+          title={savedQuery.title}
+          parameterValues={parameterValues}
+          open={scheduleOpen}
+          onOpenChange={setScheduleOpen}
+        />
+      )}
+
+      {savedQuery && (
+        <QueryRevisionHistory
+          queryId={savedQuery.id}
+          title={savedQuery.title}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onRestored={(restored) => {
+            setParameters(syncParameters(restored.sql, restored.parameters || []));
+            setQuery(restored.sql);
+            setSavedQuery({ id: restored._id, title: restored.title });
+            updateLocalCopy(restored._id, {
+              query: restored.sql,
+              parameters: restored.parameters,
+              revision: restored.revision,
+              updatedAt: restored.updatedAt
+            });
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { GitFork, Globe, Play, ChevronLeft, ChevronRight } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { apiClient } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import type { QueryAuthor, QueryGallerySort, SavedQueryRecord } from '@/types/common.types';
+
+interface QueryGalleryProps {
+  search: string;
+  // Called after a fork has been added to the user's library
+  onForked?: (fork: SavedQueryRecord) => void;
+}
+
+const PAGE_SIZE = 12;
+
+const authorName = (author: QueryAuthor | null) => {
+  if (!author) return 'Unknown';
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.email;
+};
+
+// Browsable list of public queries, sorted by popularity or recency and
+// filterable by tag
+export function QueryGallery({ search, onForked }: QueryGalleryProps) {
+  const [queries, setQueries] = useState<SavedQueryRecord[]>([]);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<QueryGallerySort>('popular');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [forking, setForking] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    apiClient.getQueryTags()
+      .then(response => setTags(response.data?.tags || []))
+      .catch(err => console.error('Failed to load query tags:', err));
+  }, []);
+
+  useEffect(() => {
+    setPage(1);
+  }, [search, sort, selectedTags]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    // Debounce typing in the library search box
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await apiClient.searchPublicQueries({
+          q: search.trim() || undefined,
+          tags: selectedTags,
+          sort,
+          page,
+          limit: PAGE_SIZE
+        });
+        if (cancelled) return;
+        setQueries(response.data?.queries || []);
+        setTotalPages(Math.max(response.data?.pagination.totalPages || 1, 1));
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load public queries');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [search, selectedTags, sort, page]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+  };
+
+  const openQuery = (query: SavedQueryRecord) => {
+    localStorage.setItem('loadQuery', query.sql);
+    localStorage.setItem('loadQueryParameters', JSON.stringify(query.parameters || []));
+    if (query.network) {
+      localStorage.setItem('loadQueryNetwork', JSON.stringify({ network: query.network, rpcUrl: query.rpcUrl }));
+    }
+    // Not loadQueryId: that opens the user's own saved copy for editing.
+    // This only lets runs of the unchanged query count towards its popularity.
+    localStorage.setItem('loadQuerySourceId', query._id);
+    navigate('/query');
+  };
+
+  const forkQuery = async (query: SavedQueryRecord) => {
+    if (!user) {
+      toast({
+        title: 'Sign in to fork',
+        description: 'Forked queries are saved to your workspace',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setForking(query._id);
+    try {
+      const response = await apiClient.forkQuery(query._id);
+      const fork = response.data.query;
+
+      // Add the fork to the local library alongside the user's other queries
+      const existingQueries = JSON.parse(localStorage.getItem('saved_queries') || '[]');
+      existingQueries.push({
+        id: `query-${Date.now()}`,
+        name: fork.title,
+        query: fork.sql,
+        parameters: fork.parameters,
+        results: [],
+        isPublic: false,
+        createdAt: fork.createdAt,
+        updatedAt: fork.updatedAt,
+        remoteId: fork._id,
+        syncedAt: fork.updatedAt,
+        revision: fork.revision,
+        forkedFrom: { id: query._id, title: query.title }
+      });
+      localStorage.setItem('saved_queries', JSON.stringify(existingQueries));
+
+      setQueries(current => current.map(q => q._id === query._id ? { ...q, forkCount: q.forkCount + 1 } : q));
+      toast({
+        title: 'Query forked',
+        description: `"${fork.title}" was added to your saved queries`,
+      });
+      onForked?.(fork);
+    } catch (err) {
+      toast({
+        title: 'Fork failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setForking(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Public Gallery</h2>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as QueryGallerySort)}
+          className="p-2 text-sm border border-border rounded-lg bg-background"
+          aria-label="Sort public queries"
+        >
+          <option value="popular">Most popular</option>
+          <option value="recent">Most recent</option>
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(({ tag, count }) => (
+            <Badge
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleTag(tag)}
+            >
+              {tag} ({count})
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {error ? (
+        <Card className="p-8 text-center text-muted-foreground">{error}</Card>
+      ) : loading && queries.length === 0 ? (
+        <Card className="p-8 text-center text-muted-foreground">Loading public queries...</Card>
+      ) : queries.length === 0 ? (
+        <Card className="p-12 text-center">
+          <div className="space-y-2">
+            <Globe className="w-8 h-8 text-muted-foreground mx-auto" />
+            <h3 className="text-lg font-semibold">No public queries found</h3>
+            <p className="text-muted-foreground">Try another search or tag</p>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {queries.map(query => (
+            <Card key={query._id} className="hover:shadow-lg transition-shadow">
+              <CardHeader className="pb-3 space-y-1">
+                <CardTitle className="text-base truncate">{query.title}</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  by {authorName(query.createdBy)} · {formatDistanceToNow(new Date(query.createdAt))} ago
+                </p>
+                {query.forkedFrom && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <GitFork className="w-3 h-3" />
+                    Forked from {query.forkedFrom.title}
+                  </p>
+                )}
+              </CardHeader>
+              <CardContent className="pt-0 space-y-3">
+                {query.description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">{query.description}</p>
+                )}
+                <div className="bg-muted p-2 rounded text-xs font-mono truncate">{query.sql}</div>
+                {query.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {query.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Play className="w-3 h-3" />
+                    {query.executionCount} runs
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <GitFork className="w-3 h-3" />
+                    {query.forkCount} forks
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" className="flex-1" onClick={() => openQuery(query)}>
+                    Open Query
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={forking !== null}
+                    onClick={() => forkQuery(query)}
+                  >
+                    <GitFork className="w-4 h-4 mr-1" />
+                    {forking === query._id ? 'Forking...' : 'Fork'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Variable } from 'lucide-react';
+import { PARAMETER_TYPES } from '@/utils/queryParameters';
+import type { QueryParameter, QueryParameterType, QueryParameterValues } from '@/types/common.types';
+
+interface QueryParametersProps {
+  parameters: QueryParameter[];
+  values: QueryParameterValues;
+  errors: Record<string, string>;
+  onParametersChange: (parameters: QueryParameter[]) => void;
+  onValuesChange: (values: QueryParameterValues) => void;
+}
+
+const VALUE_PLACEHOLDERS: Record<QueryParameterType, string> = {
+  address: '0x04718f5a...',
+  integer: '0',
+  date: 'YYYY-MM-DD',
+  enum: ''
+};
+
+// Inputs for the {{placeholders}} in the current query
+export function QueryParameters({
+  parameters,
+  values,
+  errors,
+  onParametersChange,
+  onValuesChange,
+}: QueryParametersProps) {
+  if (parameters.length === 0) return null;
+
+  const updateParameter = (name: string, changes: Partial<QueryParameter>) => {
+    onParametersChange(parameters.map(parameter =>
+      parameter.name === name ? { ...parameter, ...changes } : parameter
+    ));
+  };
+
+  const setValue = (name: string, value: string) => {
+    onValuesChange({ ...values, [name]: value });
+  };
+
+  return (
+    <div className="p-3 border border-border rounded-lg space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Variable className="w-4 h-4" />
+        Parameters
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {parameters.map(parameter => {
+          const value = values[parameter.name] ?? parameter.defaultValue ?? '';
+          const error = errors[parameter.name];
+
+          return (
+            <div key={parameter.name} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={`param-${parameter.name}`} className="font-mono text-xs">
+                  {`{{${parameter.name}}}`}
+                </Label>
+                <select
+                  value={parameter.type}
+                  onChange={(e) => updateParameter(parameter.name, { type: e.target.value as QueryParameterType })}
+                  className="text-xs p-1 border border-border rounded bg-background"
+                  aria-label={`Type of ${parameter.name}`}
+                >
+                  {PARAMETER_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+
+              {parameter.type === 'enum' ? (
+                <>
+                  <Input
+                    value={(parameter.options || []).join(', ')}
+                    onChange={(e) => updateParameter(parameter.name, {
+                      options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+                    })}
+                    placeholder="Options, comma separated"
+                    className="text-xs"
+                  />
+                  <select
+                    id={`param-${parameter.name}`}
+                    value={value}
+                    onChange={(e) => setValue(parameter.name, e.target.value)}
+                    className="w-full p-2 text-sm border border-border rounded-lg bg-background"
+                  >
+                    <option value="">Select a value...</option>
+                    {(parameter.options || []).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <Input
+                  id={`param-${parameter.name}`}
+                  type={parameter.type === 'date' ? 'date' : 'text'}
+                  inputMode={parameter.type === 'integer' ? 'numeric' : undefined}
+                  value={value}
+                  onChange={(e) => setValue(parameter.name, e.target.value)}
+                  placeholder={VALUE_PLACEHOLDERS[parameter.type]}
+                  className={parameter.type === 'address' ? 'font-mono text-xs' : undefined}
+                />
+              )}
+
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/use-toast';
+import { History, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { apiClient } from '@/lib/api';
+import { diffLines, type DiffRow } from '@/utils/textDiff';
+import type { QueryAuthor, QueryRevision, SavedQueryRecord } from '@/types/common.types';
+
+interface QueryRevisionHistoryProps {
+  queryId: string;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: (query: SavedQueryRecord) => void;
+}
+
+const ROW_STYLES: Record<DiffRow['kind'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-500/10', right: 'bg-muted/40' },
+  added: { left: 'bg-muted/40', right: 'bg-green-500/10' },
+  changed: { left: 'bg-red-500/10', right: 'bg-green-500/10' },
+};
+
+const authorName = (author: QueryAuthor | null) => {
+  if (!author) return 'Unknown';
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.email;
+};
+
+// Revision list for a saved query with a side-by-side SQL diff between any two
+// revisions and restore
+export function QueryRevisionHistory({ queryId, title, open, onOpenChange, onRestored }: QueryRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<QueryRevision[]>([]);
+  const [currentRevision, setCurrentRevision] = useState<number | null>(null);
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [compareRevision, setCompareRevision] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.getQueryRevisions(queryId);
+      const loaded = response.data?.revisions || [];
+      setRevisions(loaded);
+      setCurrentRevision(response.data?.currentRevision ?? null);
+      // Compare the latest revision with the one before it
+      setCompareRevision(loaded[0]?.revision ?? null);
+      setBaseRevision(loaded[1]?.revision ?? loaded[0]?.revision ?? null);
+    } catch (error) {
+      toast({
+        title: "Couldn't load revision history",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [queryId, toast]);
+
+  useEffect(() => {
+    if (open) loadRevisions();
+  }, [open, loadRevisions]);
+
+  const base = revisions.find(revision => revision.revision === baseRevision);
+  const compare = revisions.find(revision => revision.revision === compareRevision);
+  const rows = useMemo(
+    () => (base && compare ? diffLines(base.sql, compare.sql) : []),
+    [base, compare]
+  );
+  const changedLines = rows.filter(row => row.kind !== 'same').length;
+
+  const restore = async (revision: number) => {
+    if (!confirm(`Restore revision ${revision}? It will be saved as a new revision.`)) return;
+
+    setRestoring(revision);
+    try {
+      const response = await apiClient.restoreQueryRevision(queryId, revision);
+      toast({
+        title: `Revision ${revision} restored`,
+        description: `"${response.data.query.title}" is now at revision ${response.data.query.revision}`,
+      });
+      onRestored?.(response.data.query);
+      await loadRevisions();
+    } catch (error) {
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void, label: string) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="p-1 text-sm border border-border rounded bg-background"
+      aria-label={label}
+    >
+      {revisions.map(revision => (
+        <option key={revision.revision} value={revision.revision}>
+          Revision {revision.revision}{revision.revision === currentRevision ? ' (current)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Revision history · {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading && revisions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Loading revisions...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No revisions recorded yet</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-4">
+            <ScrollArea className="h-[480px] pr-3">
+              <div className="space-y-2">
+                {revisions.map(revision => (
+                  <div
+                    key={revision.revision}
+                    className={`p-3 rounded-lg border text-sm space-y-1 ${
+                      revision.revision === compareRevision ? 'border-primary' : 'border-border'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <button
+                        className="font-medium hover:underline"
+                        onClick={() => setCompareRevision(revision.revision)}
+                      >
+                        Revision {revision.revision}
+                      </button>
+                      {revision.revision === currentRevision ? (
+                        <Badge variant="secondary">Current</Badge>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={restoring !== null}
+                          onClick={() => restore(revision.revision)}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          {restoring === revision.revision ? 'Restoring...' : 'Restore'}
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {authorName(revision.author)} · {formatDistanceToNow(new Date(revision.createdAt))} ago
+                    </p>
+                    {revision.note && <p className="text-xs">{revision.note}</p>}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="space-y-3 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                Compare
+                {revisionSelect(baseRevision, setBaseRevision, 'Base revision')}
+                with
+                {revisionSelect(compareRevision, setCompareRevision, 'Compared revision')}
+                <span className="text-muted-foreground">
+                  {changedLines === 0 ? 'No SQL changes' : `${changedLines} changed line${changedLines === 1 ? '' : 's'}`}
+                </span>
+              </div>
+
+              <ScrollArea className="h-[440px] border border-border rounded-lg">
+                <table className="w-full text-xs font-mono table-fixed">
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={index}>
+                        <td className={`w-10 px-2 text-right text-muted-foreground select-none align-top ${ROW_STYLES[row.kind].left}`}>
+                          {row.left?.number}
+                        </td>
+                        <td className={`px-2 whitespace-pre-wrap break-all align-top border-r border-border ${ROW_STYLES[row.kind].left}`}>
+                          {row.left?.text}
+                        </td>
+                        <td className={`w-10 px-2 text-right text-muted-foreground select-none align-top ${ROW_STYLES[row.kind].right}`}>
+                          {row.right?.number}
+                        </td>
+                        <td className={`px-2 whitespace-pre-wrap break-all align-top ${ROW_STYLES[row.kind].right}`}>
+                          {row.right?.text}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarClock, Play, Trash2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatDistanceToNow } from 'date-fns';
+import { apiClient } from '@/lib/api';
+import type { QueryParameterValues, QuerySchedule, QuerySnapshot } from '@/types/common.types';
+
+interface QueryScheduleDialogProps {
+  queryId: string;
+  title: string;
+  // Current editor values, used for the query's {{placeholders}} on scheduled runs
+  parameterValues: QueryParameterValues;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PRESETS = [
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every day (00:00 UTC)', cron: '0 0 * * *' },
+  { label: 'Every Monday (00:00 UTC)', cron: '0 0 * * 1' },
+];
+
+const isNumeric = (value: unknown) =>
+  value !== null && value !== '' && typeof value !== 'boolean' && Number.isFinite(Number(value));
+
+// Cron schedule of a saved query, its snapshot history, and a chart of how a
+// metric in the first result row changed between runs
+export function QueryScheduleDialog({ queryId, title, parameterValues, open, onOpenChange }: QueryScheduleDialogProps) {
+  const [schedule, setSchedule] = useState<QuerySchedule | null>(null);
+  const [snapshots, setSnapshots] = useState<QuerySnapshot[]>([]);
+  const [cron, setCron] = useState(PRESETS[1].cron);
+  const [enabled, setEnabled] = useState(true);
+  const [metric, setMetric] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const { toast } = useToast();
+
+  const showError = useCallback((title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const loadSnapshots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiClient.getQuerySnapshots(queryId, { limit: 50 });
+      setSchedule(response.data.schedule);
+      setSnapshots(response.data.snapshots);
+      if (response.data.schedule) {
+        setCron(response.data.schedule.cron);
+        setEnabled(response.data.schedule.enabled);
+      }
+    } catch (error) {
+      showError("Couldn't load snapshots", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [queryId, showError]);
+
+  useEffect(() => {
+    if (open) loadSnapshots();
+  }, [open, loadSnapshots]);
+
+  const metricColumns = useMemo(() => {
+    const latest = snapshots.find(snapshot => snapshot.status === 'succeeded' && snapshot.rows?.length);
+    if (!latest?.rows) return [];
+    return latest.columns.filter(column => isNumeric(latest.rows[0][column]));
+  }, [snapshots]);
+
+  useEffect(() => {
+    setMetric(current => (metricColumns.includes(current) ? current : metricColumns[0] || ''));
+  }, [metricColumns]);
+
+  // Oldest first so the chart reads left to right
+  const chartData = useMemo(() => snapshots
+    .filter(snapshot => snapshot.status === 'succeeded' && snapshot.rows?.length && isNumeric(snapshot.rows[0][metric]))
+    .map(snapshot => ({
+      ranAt: new Date(snapshot.ranAt).toLocaleString(),
+      value: Number(snapshot.rows[0][metric]),
+    }))
+    .reverse(), [snapshots, metric]);
+
+  const saveSchedule = async (nextEnabled = enabled) => {
+    try {
+      const response = await apiClient.setQuerySchedule(queryId, { cron, enabled: nextEnabled, parameterValues });
+      setSchedule(response.data.schedule);
+      setEnabled(response.data.schedule.enabled);
+      toast({
+        title: response.message || 'Schedule saved',
+        description: response.data.schedule.nextRunAt
+          ? `Next run ${new Date(response.data.schedule.nextRunAt).toLocaleString()}`
+          : 'Scheduled runs are paused',
+      });
+    } catch (error) {
+      showError('Could not save schedule', error);
+    }
+  };
+
+  const removeSchedule = async () => {
+    try {
+      await apiClient.removeQuerySchedule(queryId);
+      setSchedule(null);
+      toast({ title: 'Schedule removed', description: 'Existing snapshots were kept' });
+    } catch (error) {
+      showError('Could not remove schedule', error);
+    }
+  };
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      const response = await apiClient.createQuerySnapshot(queryId);
+      setSnapshots(current => [response.data.snapshot, ...current]);
+      if (response.data.snapshot.status !== 'succeeded') {
+        showError('Run failed', new Error(response.data.snapshot.error));
+      }
+    } catch (error) {
+      showError('Run failed', error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Schedule · {title}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-3 border border-border rounded-lg space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="schedule-preset" className="text-xs">Frequency</Label>
+                <select
+                  id="schedule-preset"
+                  value={PRESETS.some(preset => preset.cron === cron) ? cron : 'custom'}
+                  onChange={(e) => e.target.value !== 'custom' && setCron(e.target.value)}
+                  className="block p-2 text-sm border border-border rounded-lg bg-background"
+                >
+                  {PRESETS.map(preset => (
+                    <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+                  ))}
+                  <option value="custom">Custom cron</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="schedule-cron" className="text-xs">Cron (UTC)</Label>
+                <Input
+                  id="schedule-cron"
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  placeholder="minute hour day month weekday"
+                  className="font-mono w-56"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id="schedule-enabled"
+                  checked={enabled}
+                  onCheckedChange={(checked) => {
+                    setEnabled(checked);
+                    if (schedule) saveSchedule(checked);
+                  }}
+                />
+                <Label htmlFor="schedule-enabled" className="text-sm">Enabled</Label>
+              </div>
+              <Button onClick={() => saveSchedule()}>Save schedule</Button>
+              {schedule && (
+                <Button variant="ghost" onClick={removeSchedule} className="text-muted-foreground hover:text-destructive">
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+              <Button variant="outline" onClick={runNow} disabled={running} className="ml-auto">
+                <Play className="w-4 h-4 mr-1" />
+                {running ? 'Running...' : 'Run now'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {schedule
+                ? `${schedule.enabled && schedule.nextRunAt ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Paused'}${
+                    schedule.lastRunAt ? ` · last run ${formatDistanceToNow(new Date(schedule.lastRunAt))} ago (${schedule.lastStatus})` : ''
+                  }`
+                : 'Not scheduled. Scheduled runs use the parameter values currently in the editor.'}
+            </p>
+          </div>
+
+          {metricColumns.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                Metric
+                <select
+                  value={metric}
+                  onChange={(e) => setMetric(e.target.value)}
+                  className="p-1 text-sm border border-border rounded bg-background"
+                  aria-label="Metric column"
+                >
+                  {metricColumns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                <span className="text-muted-foreground">from the first row of each snapshot</span>
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="ranAt" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--background))",
+                        border: "1px solid hsl(var(--border))",
+                      }}
+                    />
+                    <Line type="monotone" dataKey="value" name={metric} stroke="hsl(var(--primary))" dot />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          <ScrollArea className="h-56 border border-border rounded-lg">
+            {loading && snapshots.length === 0 ? (
+              <p className="text-center text-muted-foreground py-6">Loading snapshots...</p>
+            ) : snapshots.length === 0 ? (
+              <p className="text-center text-muted-foreground py-6">No snapshots yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground">
+                  <tr>
+                    <th className="text-left p-2">Ran at</th>
+                    <th className="text-left p-2">Trigger</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-right p-2">Rows</th>
+                    <th className="text-right p-2">Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshots.map(snapshot => (
+                    <tr key={snapshot._id} className="border-t border-border">
+                      <td className="p-2">{new Date(snapshot.ranAt).toLocaleString()}</td>
+                      <td className="p-2 capitalize">{snapshot.trigger}</td>
+                      <td className="p-2">
+                        <Badge
+                          variant={snapshot.status === 'succeeded' ? 'secondary' : 'destructive'}
+                          title={snapshot.error}
+                        >
+                          {snapshot.status}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-right" title={snapshot.truncated ? 'Only the first rows were stored' : undefined}>
+                        {snapshot.rowCount}
+                      </td>
+                      <td className="p-2 text-right">{(snapshot.durationMs / 1000).toFixed(1)}s</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/lib/api';
+import type { QueryExecutionRequest, ResultExportFormat } from '@/types/common.types';
+
+interface ResultExportMenuProps {
+  // Query whose result is exported; null disables the menu
+  request: QueryExecutionRequest | null;
+  // File name without extension
+  filename: string;
+  size?: 'default' | 'sm';
+}
+
+const FORMATS: { format: ResultExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: 'Plain text, opens anywhere' },
+  { format: 'xlsx', label: 'Excel (.xlsx)', description: 'Felts and u256 as text, timestamps as dates' },
+  { format: 'ndjson', label: 'NDJSON', description: 'One JSON object per line' },
+  { format: 'parquet', label: 'Parquet', description: 'Typed columns for pandas, DuckDB or Spark' },
+];
+
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Export button for result views. The server runs the query again and
+// sends the whole result, up to 100,000 rows, so the file isn't limited to
+// the rows on screen.
+export function ResultExportMenu({ request, filename, size = 'default' }: ResultExportMenuProps) {
+  const [exporting, setExporting] = useState<ResultExportFormat | null>(null);
+  const { toast } = useToast();
+
+  const download = async (format: ResultExportFormat) => {
+    if (!request) return;
+
+    setExporting(format);
+    try {
+      const file = await apiClient.exportQuery({ ...request, format, filename });
+      saveFile(file.blob, file.filename);
+      toast({
+        title: 'Export complete',
+        description: `${file.rowCount.toLocaleString()} rows saved to ${file.filename}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={!request || exporting !== null}>
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Export full result</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map(({ format, label, description }) => (
+          <DropdownMenuItem key={format} onSelect={() => download(format)} className="flex-col items-start">
+            <span>{label}</span>
+            <span className="text-xs text-muted-foreground">{description}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,216 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import type { KeyboardEvent, MouseEvent } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { completionsAt, describeAt } from '@/utils/sqlCompletion';
+import type { CompletionKind, CompletionResult, HoverDoc } from '@/utils/sqlCompletion';
+import type { QuerySchema } from '@/types/common.types';
+
+interface SqlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Autocomplete and hover docs are off until the schema has loaded
+  schema: QuerySchema | null;
+  placeholder?: string;
+  className?: string;
+}
+
+const KIND_LABELS: Record<CompletionKind, string> = {
+  column: 'col',
+  table: 'tbl',
+  function: 'fn',
+  keyword: 'kw',
+};
+
+// Monospace text metrics of the textarea, for mapping between character
+// offsets and pixel positions. Lines never wrap (wrap="off").
+interface Metrics {
+  charWidth: number;
+  lineHeight: number;
+  paddingLeft: number;
+  paddingTop: number;
+}
+
+// SQL textarea with schema-aware autocomplete (as you type, or Ctrl+Space)
+// and docs for the table, column or function under the mouse
+export function SqlEditor({ value, onChange, schema, placeholder, className }: SqlEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const metricsRef = useRef<Metrics | null>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<CompletionResult | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [hover, setHover] = useState<{ doc: HoverDoc; x: number; y: number } | null>(null);
+
+  const metrics = (): Metrics | null => {
+    if (metricsRef.current) return metricsRef.current;
+    const textarea = textareaRef.current;
+    const measure = measureRef.current;
+    if (!textarea || !measure) return null;
+
+    const style = window.getComputedStyle(textarea);
+    const charWidth = measure.getBoundingClientRect().width / measure.textContent!.length;
+    if (!charWidth) return null;
+    metricsRef.current = {
+      charWidth,
+      lineHeight: parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.5,
+      paddingLeft: parseFloat(style.paddingLeft) + parseFloat(style.borderLeftWidth),
+      paddingTop: parseFloat(style.paddingTop) + parseFloat(style.borderTopWidth),
+    };
+    return metricsRef.current;
+  };
+
+  // Put the caret after an accepted completion once React has rendered it
+  useLayoutEffect(() => {
+    if (pendingCursor.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const suggest = (text: string, cursor: number, explicit = false) => {
+    setCompletion(schema ? completionsAt(text, cursor, schema, explicit) : null);
+    setSelected(0);
+  };
+
+  const accept = (index: number) => {
+    if (!completion) return;
+    const item = completion.items[index];
+    pendingCursor.current = completion.from + item.insertText.length;
+    onChange(value.slice(0, completion.from) + item.insertText + value.slice(completion.to));
+    setCompletion(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      suggest(value, e.currentTarget.selectionStart, true);
+      return;
+    }
+    if (!completion) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(current => (current + step + completion.items.length) % completion.items.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(selected);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletion(null);
+    }
+  };
+
+  // Offset of the character under the pointer, or null past the end of a line
+  const offsetAt = (e: MouseEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    const m = metrics();
+    if (!m) return null;
+
+    const rect = textarea.getBoundingClientRect();
+    const line = Math.floor((e.clientY - rect.top - m.paddingTop + textarea.scrollTop) / m.lineHeight);
+    const column = Math.floor((e.clientX - rect.left - m.paddingLeft + textarea.scrollLeft) / m.charWidth);
+    const lines = value.split('\n');
+    if (line < 0 || line >= lines.length || column < 0 || column >= lines[line].length) return null;
+
+    return lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + column;
+  };
+
+  const handleMouseMove = (e: MouseEvent<HTMLTextAreaElement>) => {
+    const offset = schema ? offsetAt(e) : null;
+    const doc = offset === null ? null : describeAt(value, offset, schema!);
+    if (!doc) {
+      if (hover) setHover(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (hover?.doc.title !== doc.title) {
+      setHover({ doc, x: e.clientX - rect.left, y: e.clientY - rect.top });
+    }
+  };
+
+  // Pixel position of the popup, just below the start of the completed word
+  const popupPosition = () => {
+    const textarea = textareaRef.current;
+    const m = metrics();
+    if (!completion || !textarea || !m) return { top: 0, left: 0 };
+
+    const lines = value.slice(0, completion.from).split('\n');
+    return {
+      top: m.paddingTop + lines.length * m.lineHeight - textarea.scrollTop,
+      left: Math.max(0, m.paddingLeft + lines[lines.length - 1].length * m.charWidth - textarea.scrollLeft),
+    };
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          suggest(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setCompletion(null)}
+        onClick={() => setCompletion(null)}
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+        onScroll={() => setCompletion(null)}
+        placeholder={placeholder}
+        wrap="off"
+        spellCheck={false}
+        className={cn('font-mono whitespace-pre overflow-auto', className)}
+      />
+      <span ref={measureRef} aria-hidden className="invisible absolute font-mono text-sm whitespace-pre">
+        MMMMMMMMMM
+      </span>
+
+      {completion && (
+        <ul
+          role="listbox"
+          className="absolute z-50 max-h-64 w-96 overflow-auto rounded-md border border-border bg-popover text-popover-foreground shadow-md text-sm"
+          style={popupPosition()}
+        >
+          {completion.items.map((item, index) => (
+            <li
+              key={`${item.kind}:${item.label}`}
+              role="option"
+              aria-selected={index === selected}
+              className={cn(
+                'flex items-center gap-2 px-2 py-1 cursor-pointer',
+                index === selected && 'bg-accent text-accent-foreground'
+              )}
+              // Keep focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              onMouseEnter={() => setSelected(index)}
+            >
+              <span className="w-7 shrink-0 text-[10px] uppercase text-muted-foreground">{KIND_LABELS[item.kind]}</span>
+              <span className="font-mono truncate">{item.label}</span>
+              {item.detail && <span className="ml-auto text-xs text-muted-foreground truncate">{item.detail}</span>}
+            </li>
+          ))}
+          {completion.items[selected]?.description && (
+            <li className="sticky bottom-0 border-t border-border bg-popover px-2 py-1 text-xs text-muted-foreground">
+              {completion.items[selected].description}
+            </li>
+          )}
+        </ul>
+      )}
+
+      {hover && !completion && (
+        <div
+          className="pointer-events-none absolute z-50 max-w-sm rounded-md border border-border bg-popover px-3 py-2 text-popover-foreground shadow-md"
+          style={{ top: hover.y + 16, left: hover.x + 8 }}
+        >
+          <div className="font-mono text-sm">{hover.doc.title}</div>
+          {hover.doc.detail && <div className="text-xs text-muted-foreground">{hover.doc.detail}</div>}
+          {hover.doc.description && <div className="mt-1 text-xs">{hover.doc.description}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { SyncService } from '@/services/SyncService';
+import type { ConflictChoice, SyncConflict } from '@/services/SyncService';
+
+interface PendingConflicts {
+  conflicts: SyncConflict[];
+  resolve: (choices: ConflictChoice[]) => void;
+}
+
+const CHOICES: { choice: ConflictChoice; label: string }[] = [
+  { choice: 'local', label: 'This device' },
+  { choice: 'server', label: 'Server' },
+  { choice: 'both', label: 'Keep both' },
+];
+
+// Suggest whichever copy was edited last
+const suggestedChoice = ({ local, server }: SyncConflict): ConflictChoice =>
+  local.updatedAt && local.updatedAt > server.updatedAt ? 'local' : 'server';
+
+const editedAgo = (date?: string) =>
+  date ? `edited ${formatDistanceToNow(new Date(date), { addSuffix: true })}` : 'edit time unknown';
+
+// Syncs the local library with the backend on sign-in and when the browser
+// comes back online, and asks which copy wins when an item was edited on
+// two devices
+export function LibrarySync() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [pending, setPending] = useState<PendingConflicts | null>(null);
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+
+  useEffect(() => {
+    SyncService.setConflictHandler(conflicts => new Promise(resolve => {
+      setChoices(conflicts.map(suggestedChoice));
+      setPending({ conflicts, resolve });
+    }));
+    return () => SyncService.setConflictHandler(null);
+  }, []);
+
+  useEffect(() => {
+    const flush = () => {
+      SyncService.flush().catch(error => console.error('Sync failed:', error));
+    };
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, []);
+
+  const userId = user?._id;
+  useEffect(() => {
+    if (!userId) return;
+
+    SyncService.reconcile()
+      .then(({ uploaded, downloaded }) => {
+        if (uploaded === 0 && downloaded === 0) return;
+        toast({
+          title: 'Library synced',
+          description: `${uploaded} item${uploaded === 1 ? '' : 's'} uploaded from this device, ${downloaded} updated from your account`,
+        });
+      })
+      .catch(error => console.error('Library sync failed:', error));
+  }, [userId, toast]);
+
+  const apply = () => {
+    pending?.resolve(choices);
+    setPending(null);
+  };
+
+  return (
+    // The choice is required: the dialog only closes through Apply
+    <Dialog open={Boolean(pending)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edited on another device</DialogTitle>
+          <DialogDescription>
+            These items changed both here and in your account since they were last synced. Choose the copy to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-auto">
+          {pending?.conflicts.map((conflict, index) => (
+            <div key={`${conflict.kind}:${conflict.local.id}`} className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{conflict.kind}</Badge>
+                <span className="font-medium truncate">{conflict.title}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                <span>This device: {editedAgo(conflict.local.updatedAt)}</span>
+                <span>Server: {editedAgo(conflict.server.updatedAt)}</span>
+              </div>
+              <div className="flex gap-2">
+                {CHOICES.map(({ choice, label }) => (
+                  <Button
+                    key={choice}
+                    size="sm"
+                    variant={choices[index] === choice ? 'default' : 'outline'}
+                    onClick={() => setChoices(current => current.map((c, i) => i === index ? choice : c))}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={apply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NETWORKS, NETWORK_IDS, type NetworkId, type NetworkSelection } from '@/lib/networks';
+
+interface NetworkSelectorProps {
+  value: NetworkSelection;
+  onChange: (selection: NetworkSelection) => void;
+  className?: string;
+}
+
+// Mainnet, Sepolia or a custom RPC URL. The URL is only applied once the
+// field loses focus or Enter is pressed, so half-typed URLs aren't used.
+export function NetworkSelector({ value, onChange, className }: NetworkSelectorProps) {
+  const [rpcUrl, setRpcUrl] = useState(value.rpcUrl || '');
+
+  useEffect(() => {
+    setRpcUrl(value.rpcUrl || '');
+  }, [value.rpcUrl]);
+
+  const applyRpcUrl = () => {
+    const trimmed = rpcUrl.trim();
+    if (trimmed && trimmed !== value.rpcUrl) onChange({ network: 'custom', rpcUrl: trimmed });
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`}>
+      <Select
+        value={value.network}
+        onValueChange={(network: NetworkId) =>
+          onChange(network === 'custom' ? { network, rpcUrl: value.rpcUrl } : { network })
+        }
+      >
+        <SelectTrigger className="h-8 w-[130px]" aria-label="Network">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {NETWORK_IDS.map(id => (
+            <SelectItem key={id} value={id}>{NETWORKS[id].shortName}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value.network === 'custom' && (
+        <Input
+          value={rpcUrl}
+          onChange={(e) => setRpcUrl(e.target.value)}
+          onBlur={applyRpcUrl}
+          onKeyDown={(e) => e.key === 'Enter' && applyRpcUrl()}
+          placeholder="https://rpc.example.com"
+          className="h-8 w-[220px] font-mono text-xs"
+          aria-label="Custom RPC URL"
+        />
+      )}
+    </div>
+  );
+}
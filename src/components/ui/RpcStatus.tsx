@@ -2,9 +2,10 @@ import { useRpcEndpoint } from '@/hooks/useRpcEndpoint';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip } from '@/components/ui/tooltip';
 import { Network } from 'lucide-react'; // ✅ valid icon
+import { NETWORKS } from '@/lib/networks';
 
 export function RpcStatus() {
-  const { activeEndpoint, status } = useRpcEndpoint();
+  const { activeEndpoint, status, network } = useRpcEndpoint();
 
   const statusColors = {
     connecting: 'bg-yellow-500/20 text-yellow-500',
@@ -22,7 +23,7 @@ export function RpcStatus() {
     <Tooltip content={activeEndpoint || 'Not connected'}>
       <Badge variant="outline" className={`flex items-center gap-2 ${statusColors[status]}`}>
         <Network className="w-4 h-4" /> {/* ✅ replaced ChainConnection */}
-        <span>{statusText[status]}</span>
+        <span>{NETWORKS[network.network].shortName} · {statusText[status]}</span>
       </Badge>
     </Tooltip>
   );
@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 
+// Dispatched on window, with the key as `detail`, by code that writes
+// localStorage directly so hooks reading that key pick up the new value
+export const LOCAL_STORAGE_EVENT = 'local-storage';
+
 export function useLocalStorage<T>(key: string, initialValue: T) {
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
@@ -21,5 +25,19 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     }
   };
 
+  useEffect(() => {
+    const reload = (event: Event) => {
+      if ((event as CustomEvent<string>).detail !== key) return;
+      try {
+        const item = window.localStorage.getItem(key);
+        if (item) setStoredValue(JSON.parse(item));
+      } catch (error) {
+        console.error(`Error reading localStorage key "${key?.replace(/[\r\n]/g, '')}":`, error?.message || 'Unknown error');
+      }
+    };
+    window.addEventListener(LOCAL_STORAGE_EVENT, reload);
+    return () => window.removeEventListener(LOCAL_STORAGE_EVENT, reload);
+  }, [key]);
+
   return [storedValue, setValue] as const;
 }
\ No newline at end of file
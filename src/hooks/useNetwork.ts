@@ -0,0 +1,20 @@
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import {
+  DEFAULT_NETWORK,
+  NETWORK_STORAGE_KEY,
+  networkEndpoints,
+  setActiveNetwork,
+  type NetworkSelection,
+} from '@/lib/networks';
+
+// The globally selected network. Changing it updates every component using
+// this hook, and services that read getActiveNetwork() on their next call.
+export function useNetwork() {
+  const [selection] = useLocalStorage<NetworkSelection>(NETWORK_STORAGE_KEY, DEFAULT_NETWORK);
+
+  return {
+    selection,
+    setNetwork: setActiveNetwork,
+    endpoints: networkEndpoints(selection),
+  };
+}
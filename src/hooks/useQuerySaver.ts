@@ -1,13 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/components/ui/use-toast';
+import { SyncService } from '@/services/SyncService';
+import type { QueryParameter } from '@/types/common.types';
 
 interface SavedQuery {
   id: string;
   title: string;
   query: string;
+  parameters?: QueryParameter[];
   createdAt: string;
+  updatedAt?: string;
   lastRun?: string;
+  remoteId?: string;
 }
 
 export function useQuerySaver() {
@@ -25,7 +30,7 @@ export function useQuerySaver() {
     });
   };
 
-  const saveQuery = (query: string, autoSaved: boolean = false) => {
+  const saveQuery = (query: string, autoSaved: boolean = false, parameters: QueryParameter[] = []) => {
     const trimmedQuery = query.trim();
     if (!trimmedQuery) return;
 
@@ -44,10 +49,13 @@ export function useQuerySaver() {
       id: Date.now().toString(),
       title: extractQueryTitle(trimmedQuery),
       query: trimmedQuery,
+      parameters,
       createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
     };
 
     setSavedQueries([newQuery, ...savedQueries].slice(0, 50)); // Keep last 50 queries
+    SyncService.enqueue('query', newQuery.id);
 
     if (!autoSaved) {
       toast({
@@ -58,7 +66,9 @@ export function useQuerySaver() {
   };
 
   const deleteQuery = (id: string) => {
+    const deleted = savedQueries.find(q => q.id === id);
     setSavedQueries(savedQueries.filter(q => q.id !== id));
+    if (deleted) SyncService.enqueueDelete('query', deleted);
     toast({
       title: "Query deleted",
       description: "The query has been removed from your collection",
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient } from '@/lib/api';
+import type { QuerySchema } from '@/types/common.types';
+
+// One schema request shared by every component on the page
+let schemaRequest: Promise<QuerySchema> | null = null;
+
+const fetchSchema = (force = false) => {
+  if (!schemaRequest || force) {
+    schemaRequest = apiClient.getQuerySchema().then(response => response.data);
+    schemaRequest.catch(() => {
+      schemaRequest = null;
+    });
+  }
+  return schemaRequest;
+};
+
+export function useQuerySchema() {
+  const [schema, setSchema] = useState<QuerySchema | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (force = false) => {
+    try {
+      setSchema(await fetchSchema(force));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load query schema');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    schema,
+    error,
+    // Reload after publishing a view or signing in
+    refresh: () => load(true)
+  };
+}
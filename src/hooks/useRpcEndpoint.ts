@@ -1,13 +1,11 @@
 import { useState, useEffect } from 'react';
+import { useNetwork } from '@/hooks/useNetwork';
+import { networkEndpoints } from '@/lib/networks';
 
-const RPC_ENDPOINTS = [
-  'https://starknet-mainnet.public.blastapi.io',
-  'https://free-rpc.nethermind.io/mainnet-juno',
-  'https://starknet-mainnet.g.alchemy.com/v2/demo',
-  'https://rpc.starknet.lava.build',
-];
-
+// First reachable endpoint of the selected network, checked again every 30s
+// and whenever the network changes
 export function useRpcEndpoint() {
+  const { selection, endpoints } = useNetwork();
   const [activeEndpoint, setActiveEndpoint] = useState<string | null>(null);
   const [status, setStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
 
@@ -40,7 +38,7 @@ export function useRpcEndpoint() {
       setStatus('connecting');
       
       // Try each endpoint in sequence until one works
-      for (const endpoint of RPC_ENDPOINTS) {
+      for (const endpoint of networkEndpoints(selection)) {
         if (await checkEndpoint(endpoint)) {
           return;
         }
@@ -54,11 +52,12 @@ export function useRpcEndpoint() {
     // Periodically check connection
     const interval = setInterval(connectToEndpoint, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [selection]);
 
   return {
     activeEndpoint,
     status,
-    endpoints: RPC_ENDPOINTS
+    network: selection,
+    endpoints
   };
 }
\ No newline at end of file
@@ -1,4 +1,50 @@
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+import type {
+  ApiKeyInput,
+  ApiKeyRecord,
+  ApiResponse,
+  ChainIndexCoverage,
+  ChainIndexStatus,
+  IndexedActivityBucket,
+  IndexedEvent,
+  IndexedTransaction,
+  NotebookInput,
+  NotebookRecord,
+  PublishViewInput,
+  QueryExecutionJob,
+  QueryExecutionRequest,
+  QueryExecutionResult,
+  QueryExportFile,
+  QueryExportRequest,
+  QueryGalleryFilters,
+  QueryParameter,
+  QueryParameterValues,
+  QueryRevision,
+  QuerySchedule,
+  QuerySchema,
+  QueryScheduleInput,
+  QuerySnapshot,
+  QueryView,
+  SavedDashboardInput,
+  SavedDashboardRecord,
+  SavedQueryInput,
+  SavedQueryRecord
+} from '@/types/common.types';
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+
+// A non-OK response, with the status and the body's `data` (e.g. the
+// server's copy on a 409 conflict)
+export class ApiError extends Error {
+  status: number;
+  data?: unknown;
+
+  constructor(message: string, status: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
 
 class ApiClient {
   private baseURL: string;
@@ -33,6 +79,12 @@ class ApiClient {
   }
 
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.send(endpoint, options);
+    return response.json();
+  }
+
+  // Authenticated fetch that throws ApiError on a non-OK response
+  private async send(endpoint: string, options: RequestInit = {}): Promise<Response> {
     const url = `${this.baseURL}${endpoint}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -50,10 +102,10 @@ class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Network error' }));
-      throw new Error(error.message || `HTTP ${response.status}`);
+      throw new ApiError(error.message || `HTTP ${response.status}`, response.status, error.data);
     }
 
-    return response.json();
+    return response;
   }
 
   // Auth endpoints
@@ -166,6 +218,294 @@ class ApiClient {
     });
   }
 
+  // Query endpoints
+  async executeQuery(
+    sql: string,
+    limit?: number,
+    parameters: QueryParameter[] = [],
+    parameterValues: QueryParameterValues = {}
+  ) {
+    return this.request<ApiResponse<QueryExecutionResult>>('/queries/execute', {
+      method: 'POST',
+      body: JSON.stringify({ sql, limit, parameters, parameterValues }),
+    });
+  }
+
+  async getQuerySchema() {
+    return this.request<ApiResponse<QuerySchema>>('/queries/schema');
+  }
+
+  // Check SQL against the schema without running it; throws with the
+  // engine's message, including line and column, when it is invalid
+  async validateQuery(sql: string, parameters: QueryParameter[] = []) {
+    return this.request<ApiResponse<{ tables: string[] }>>('/queries/validate', {
+      method: 'POST',
+      body: JSON.stringify({ sql, parameters }),
+    });
+  }
+
+  async startQueryExecution(request: QueryExecutionRequest) {
+    return this.request<ApiResponse<QueryExecutionJob>>('/queries/executions', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Status of an execution; includes the result once it has succeeded and
+  // throws with the execution's error once it has failed
+  async getQueryExecution(executionId: string) {
+    return this.request<ApiResponse<QueryExecutionJob & Partial<QueryExecutionResult>>>(
+      `/queries/executions/${executionId}`
+    );
+  }
+
+  async cancelQueryExecution(executionId: string) {
+    return this.request<ApiResponse<QueryExecutionJob>>(`/queries/executions/${executionId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  async exportQuery(request: QueryExportRequest): Promise<QueryExportFile> {
+    const response = await this.send('/queries/export', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    const disposition = response.headers.get('Content-Disposition') || '';
+    return {
+      blob: await response.blob(),
+      filename: disposition.match(/filename="([^"]+)"/)?.[1] || `query-results.${request.format}`,
+      rowCount: Number(response.headers.get('X-Row-Count') || 0),
+    };
+  }
+
+  // Saved query endpoints
+  async createSavedQuery(input: SavedQueryInput) {
+    return this.request<ApiResponse<{ query: SavedQueryRecord }>>('/queries', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  // Saving changed SQL, title or parameters records a new revision
+  async updateSavedQuery(queryId: string, input: SavedQueryInput) {
+    return this.request<ApiResponse<{ query: SavedQueryRecord }>>(`/queries/${queryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async deleteSavedQuery(queryId: string) {
+    return this.request<ApiResponse>(`/queries/${queryId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Every query the user owns, with SQL
+  async getSyncedQueries() {
+    return this.request<ApiResponse<{ queries: SavedQueryRecord[] }>>('/queries/sync');
+  }
+
+  async getQueryRevisions(queryId: string) {
+    return this.request<ApiResponse<{ currentRevision: number; revisions: QueryRevision[] }>>(
+      `/queries/${queryId}/revisions`
+    );
+  }
+
+  async restoreQueryRevision(queryId: string, revision: number, note?: string) {
+    return this.request<ApiResponse<{ query: SavedQueryRecord }>>(`/queries/${queryId}/revisions/${revision}/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    });
+  }
+
+  // Schedule and snapshot endpoints
+  async setQuerySchedule(queryId: string, schedule: QueryScheduleInput) {
+    return this.request<ApiResponse<{ schedule: QuerySchedule }>>(`/queries/${queryId}/schedule`, {
+      method: 'PUT',
+      body: JSON.stringify(schedule),
+    });
+  }
+
+  async removeQuerySchedule(queryId: string) {
+    return this.request<ApiResponse>(`/queries/${queryId}/schedule`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getQuerySnapshots(queryId: string, { limit = 20, before }: { limit?: number; before?: string } = {}) {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (before) params.set('before', before);
+    return this.request<ApiResponse<{ schedule: QuerySchedule | null; snapshots: QuerySnapshot[] }>>(
+      `/queries/${queryId}/snapshots?${params}`
+    );
+  }
+
+  // Run a saved query now and store its result as a snapshot
+  async createQuerySnapshot(queryId: string) {
+    return this.request<ApiResponse<{ snapshot: QuerySnapshot }>>(`/queries/${queryId}/snapshots`, {
+      method: 'POST',
+    });
+  }
+
+  // Materialized view endpoints
+  async getViews() {
+    return this.request<ApiResponse<{ views: QueryView[] }>>('/views');
+  }
+
+  async publishView(input: PublishViewInput) {
+    return this.request<ApiResponse<{ view: QueryView }>>('/views', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async refreshView(name: string) {
+    return this.request<ApiResponse<{ view: QueryView }>>(`/views/${name}/refresh`, {
+      method: 'POST',
+    });
+  }
+
+  async deleteView(name: string) {
+    return this.request<ApiResponse>(`/views/${name}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // API keys for the query API (GET /queries/:queryId/results)
+  async getApiKeys() {
+    return this.request<ApiResponse<{ apiKeys: ApiKeyRecord[] }>>('/api-keys');
+  }
+
+  async createApiKey(input: ApiKeyInput) {
+    return this.request<ApiResponse<{ apiKey: ApiKeyRecord; key: string }>>('/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async revokeApiKey(keyId: string) {
+    return this.request<ApiResponse>(`/api-keys/${keyId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Public gallery endpoints
+  async searchPublicQueries({ q, tags = [], sort = 'popular', page = 1, limit = 12 }: QueryGalleryFilters = {}) {
+    const params = new URLSearchParams({ sort, page: String(page), limit: String(limit) });
+    if (q) params.set('q', q);
+    tags.forEach(tag => params.append('tags', tag));
+    return this.request<ApiResponse<{
+      queries: SavedQueryRecord[];
+      pagination: { currentPage: number; totalPages: number; totalQueries: number; limit: number };
+    }>>(`/queries/search?${params}`);
+  }
+
+  async getQueryTags() {
+    return this.request<ApiResponse<{ tags: { tag: string; count: number }[] }>>('/queries/tags');
+  }
+
+  async forkQuery(queryId: string, title?: string) {
+    return this.request<ApiResponse<{ query: SavedQueryRecord }>>(`/queries/${queryId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  // Dashboard endpoints
+  async createDashboard(input: SavedDashboardInput) {
+    return this.request<ApiResponse<{ dashboard: SavedDashboardRecord }>>('/dashboards', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async updateDashboard(dashboardId: string, input: SavedDashboardInput) {
+    return this.request<ApiResponse<{ dashboard: SavedDashboardRecord }>>(`/dashboards/${dashboardId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async deleteDashboard(dashboardId: string) {
+    return this.request<ApiResponse>(`/dashboards/${dashboardId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Every dashboard the user owns, with widgets
+  async getSyncedDashboards() {
+    return this.request<ApiResponse<{ dashboards: SavedDashboardRecord[] }>>('/dashboards/sync');
+  }
+
+  async getPublicDashboard(username: string, slug: string) {
+    return this.request<ApiResponse<{ dashboard: SavedDashboardRecord }>>(
+      `/dashboards/public/${encodeURIComponent(username)}/${encodeURIComponent(slug)}`
+    );
+  }
+
+  // Notebook endpoints
+  async getMyNotebooks() {
+    return this.request<ApiResponse<{ notebooks: NotebookRecord[] }>>('/notebooks/my-notebooks');
+  }
+
+  async getPublicNotebooks({ page = 1, limit = 20 }: { page?: number; limit?: number } = {}) {
+    return this.request<ApiResponse<{ notebooks: NotebookRecord[] }>>(`/notebooks/public?page=${page}&limit=${limit}`);
+  }
+
+  async getNotebook(notebookId: string) {
+    return this.request<ApiResponse<{ notebook: NotebookRecord }>>(`/notebooks/${notebookId}`);
+  }
+
+  async createNotebook(input: NotebookInput) {
+    return this.request<ApiResponse<{ notebook: NotebookRecord }>>('/notebooks', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async updateNotebook(notebookId: string, input: NotebookInput) {
+    return this.request<ApiResponse<{ notebook: NotebookRecord }>>(`/notebooks/${notebookId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  }
+
+  async deleteNotebook(notebookId: string) {
+    return this.request<ApiResponse>(`/notebooks/${notebookId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async forkNotebook(notebookId: string, title?: string) {
+    return this.request<ApiResponse<{ notebook: NotebookRecord }>>(`/notebooks/${notebookId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify({ title }),
+    });
+  }
+
+  // Chain index endpoints
+  async getChainIndexStatus() {
+    return this.request<ApiResponse<{ networks: ChainIndexStatus[] }>>('/chain/status');
+  }
+
+  async getIndexedActivity(network: string, since: number, bucket: 'hour' | 'day' = 'hour') {
+    return this.request<ApiResponse<{ buckets: IndexedActivityBucket[]; coverage: ChainIndexCoverage | null }>>(
+      `/chain/activity?network=${network}&since=${since}&bucket=${bucket}`
+    );
+  }
+
+  async getRecentIndexedTransactions(network: string, limit = 20) {
+    return this.request<ApiResponse<{ transactions: IndexedTransaction[]; coverage: ChainIndexCoverage | null }>>(
+      `/chain/transactions/recent?network=${network}&limit=${limit}`
+    );
+  }
+
+  async getIndexedEvents(network: string, address: string, fromBlock: number, toBlock: number) {
+    return this.request<ApiResponse<{ events: IndexedEvent[]; coverage: ChainIndexCoverage | null; truncated?: boolean }>>(
+      `/chain/events?network=${network}&address=${address}&fromBlock=${fromBlock}&toBlock=${toBlock}`
+    );
+  }
+
   // Stats endpoints
   async getStats() {
     return this.request('/bounties/stats');
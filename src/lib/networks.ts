@@ -0,0 +1,93 @@
+import { LOCAL_STORAGE_EVENT } from '@/hooks/useLocalStorage';
+import type { NetworkId } from '@/types/common.types';
+
+export type { NetworkId };
+
+// The chain a page or query reads. `rpcUrl` is only used for the custom
+// network, and must be a public host: the backend refuses private addresses.
+export interface NetworkSelection {
+  network: NetworkId;
+  rpcUrl?: string;
+}
+
+interface NetworkDefinition {
+  name: string;
+  shortName: string;
+  chainId: string | null;
+  // Public endpoints, tried in order
+  endpoints: string[];
+}
+
+const configured = (url: string | undefined) => (url ? [url] : []);
+
+export const NETWORKS: Record<NetworkId, NetworkDefinition> = {
+  mainnet: {
+    name: 'Starknet Mainnet',
+    shortName: 'Mainnet',
+    chainId: 'SN_MAIN',
+    endpoints: [
+      ...configured(import.meta.env.VITE_STARKNET_RPC_URL),
+      'https://starknet-mainnet.public.blastapi.io',
+      'https://free-rpc.nethermind.io/mainnet-juno',
+      'https://starknet-mainnet.reddio.com/rpc/v0_7',
+      'https://rpc.starknet.lava.build',
+    ],
+  },
+  sepolia: {
+    name: 'Starknet Sepolia',
+    shortName: 'Sepolia',
+    chainId: 'SN_SEPOLIA',
+    endpoints: [
+      ...configured(import.meta.env.VITE_STARKNET_SEPOLIA_RPC_URL),
+      'https://starknet-sepolia.public.blastapi.io',
+      'https://free-rpc.nethermind.io/sepolia-juno',
+    ],
+  },
+  custom: {
+    name: 'Custom RPC',
+    shortName: 'Custom',
+    chainId: null,
+    endpoints: [],
+  },
+};
+
+export const NETWORK_IDS = Object.keys(NETWORKS) as NetworkId[];
+export const DEFAULT_NETWORK: NetworkSelection = { network: 'mainnet' };
+export const NETWORK_STORAGE_KEY = 'starknet_network';
+
+// Endpoints to try for a selection; a custom network without a URL falls
+// back to mainnet's
+export function networkEndpoints(selection: NetworkSelection): string[] {
+  if (selection.network === 'custom') {
+    return selection.rpcUrl ? [selection.rpcUrl] : NETWORKS.mainnet.endpoints;
+  }
+  return NETWORKS[selection.network].endpoints;
+}
+
+export function networkLabel(selection: NetworkSelection): string {
+  return selection.network === 'custom' && selection.rpcUrl
+    ? `Custom (${selection.rpcUrl})`
+    : NETWORKS[selection.network].name;
+}
+
+// Stable identity of a selection, for cache keys and comparisons
+export function networkKey(selection: NetworkSelection): string {
+  return selection.network === 'custom' ? `custom:${selection.rpcUrl || ''}` : selection.network;
+}
+
+// Network chosen in the header, used by pages and services that don't pick
+// one themselves
+export function getActiveNetwork(): NetworkSelection {
+  try {
+    const stored = JSON.parse(localStorage.getItem(NETWORK_STORAGE_KEY) || 'null');
+    if (stored && NETWORK_IDS.includes(stored.network)) return stored;
+  } catch {
+    // Fall through to the default
+  }
+  return DEFAULT_NETWORK;
+}
+
+export function setActiveNetwork(selection: NetworkSelection): void {
+  localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify(selection));
+  window.dispatchEvent(new CustomEvent(LOCAL_STORAGE_EVENT, { detail: NETWORK_STORAGE_KEY }));
+}
@@ -4,30 +4,72 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, BarChart3, PieChart, TrendingUp } from 'lucide-react';
+import { BarChart3, PieChart, TrendingUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { ResultExportMenu } from '@/components/query/ResultExportMenu';
+import type { QueryExecutionRequest } from '@/types/common.types';
+import { useNetwork } from '@/hooks/useNetwork';
+import { apiClient } from '@/lib/api';
+import { getActiveNetwork, networkEndpoints, networkLabel, NETWORKS, type NetworkSelection } from '@/lib/networks';
 
-
-const RPC_ENDPOINTS = [
-  'https://starknet-mainnet.public.blastapi.io',
-  'https://free-rpc.nethermind.io/mainnet-juno',
-  'https://starknet-mainnet.reddio.com/rpc/v0_7',
-  'https://rpc.starknet.lava.build'
-];
+// Endpoints of the network selected in the header
+function rpcEndpoints() {
+  return networkEndpoints(getActiveNetwork());
+}
 
 let currentRpcIndex = 0;
 
 function getRpcUrl() {
-  return RPC_ENDPOINTS[currentRpcIndex];
+  const endpoints = rpcEndpoints();
+  return endpoints[currentRpcIndex % endpoints.length];
 }
 
 function switchToNextRpc() {
-  currentRpcIndex = (currentRpcIndex + 1) % RPC_ENDPOINTS.length;
+  currentRpcIndex = (currentRpcIndex + 1) % rpcEndpoints().length;
+}
+
+// Token amounts are u256 values split into low and high 128-bit felts, and
+// routinely exceed 2^53, so they are decoded with BigInt
+function decodeU256(low: string, high?: string) {
+  return (BigInt(low) + (BigInt(high || '0x0') << BigInt(128))).toString();
+}
+
+// Base-unit amount as whole tokens, truncated to `places` decimals without
+// going through a float
+function formatUnits(amount: bigint, decimals = 18, places = 6) {
+  const scale = BigInt(10) ** BigInt(decimals);
+  const whole = amount / scale;
+  const fraction = (amount % scale).toString().padStart(decimals, '0').slice(0, places);
+  return places > 0 ? `${whole}.${fraction.padEnd(places, '0')}` : whole.toString();
+}
+
+// Exports read the contract's events over the same block window from the
+// query engine, so they include every event rather than the first page
+function eventsExportRequest(
+  contractAddress: string,
+  fromBlock: number,
+  toBlock: number,
+  selection: NetworkSelection
+): QueryExecutionRequest {
+  return {
+    network: selection.network,
+    rpcUrl: selection.rpcUrl,
+    sql: `SELECT block_number, transaction_hash, from_address, event_name, selector, keys, data
+FROM events
+WHERE from_address = {{contract}} AND block_number BETWEEN {{from_block}} AND {{to_block}}
+ORDER BY block_number`,
+    parameters: [
+      { name: 'contract', type: 'address' },
+      { name: 'from_block', type: 'integer' },
+      { name: 'to_block', type: 'integer' },
+    ],
+    parameterValues: { contract: contractAddress, from_block: String(fromBlock), to_block: String(toBlock) },
+  };
 }
 
 // Helper to fetch latest block number
 async function getLatestBlockNumber() {
-  for (let i = 0; i < RPC_ENDPOINTS.length; i++) {
+  for (let i = 0; i < rpcEndpoints().length; i++) {
     try {
       const body = {
         jsonrpc: "2.0",
@@ -173,10 +215,29 @@ async function getContractInfo(contractAddress: string, provider: any) {
   }
 }
 
+// Events of the contract the backend's chain index holds between the two
+// blocks, and the part of the range it covers. Custom networks aren't
+// indexed; an unreachable backend covers nothing either.
+async function fetchIndexedEvents(contractAddress: string, fromBlock: number, toBlock: number) {
+  const { network } = getActiveNetwork();
+  if (network === 'custom') return { events: [], coverage: null, truncated: false };
+  try {
+    const response = await apiClient.getIndexedEvents(network, contractAddress, fromBlock, toBlock);
+    return {
+      events: response.data?.events || [],
+      coverage: response.data?.coverage || null,
+      truncated: Boolean(response.data?.truncated)
+    };
+  } catch (error) {
+    console.log('Chain index unavailable:', error);
+    return { events: [], coverage: null, truncated: false };
+  }
+}
+
 async function fetchEvents(contractAddress: string) {
   const { RpcProvider } = await import('starknet');
   
-  for (let i = 0; i < RPC_ENDPOINTS.length; i++) {
+  for (let i = 0; i < rpcEndpoints().length; i++) {
     try {
       console.log('Trying RPC:', getRpcUrl());
       const provider = new RpcProvider({ nodeUrl: getRpcUrl() });
@@ -189,24 +250,32 @@ async function fetchEvents(contractAddress: string) {
       
       console.log('Fetching events from block:', fromBlock, 'to', latest);
       
-      console.log('Query params:', {
-        address: contractAddress,
-        from_block: { block_number: fromBlock },
-        to_block: { block_number: latest },
-        chunk_size: 100
-      });
-      
-      const events = await provider.getEvents({
-        address: contractAddress,
-        from_block: { block_number: fromBlock },
-        to_block: { block_number: latest },
-        chunk_size: 1000
-      });
+      // The indexed part of the range comes from the backend, only the blocks
+      // around it from the node. A truncated index read already holds a full
+      // page, so the blocks after it are left out like the node's own pages.
+      const indexed = await fetchIndexedEvents(contractAddress, fromBlock, latest);
+      const readRange = async (from: number, to: number) => {
+        if (from > to) return [];
+        const page = await provider.getEvents({
+          address: contractAddress,
+          from_block: { block_number: from },
+          to_block: { block_number: to },
+          chunk_size: 1000
+        });
+        return page.events || [];
+      };
+      const events = indexed.coverage
+        ? [
+          ...await readRange(fromBlock, indexed.coverage.fromBlock - 1),
+          ...indexed.events,
+          ...(indexed.truncated ? [] : await readRange(indexed.coverage.toBlock + 1, latest))
+        ]
+        : await readRange(fromBlock, latest);
       
-      console.log('Events found:', events.events?.length || 0);
+      console.log('Events found:', events.length, indexed.coverage ? `(${indexed.events.length} from the chain index)` : '');
       
       // Enhanced event decoding with meaningful data extraction
-      const decodedEvents = (events.events || []).map(event => {
+      const decodedEvents = events.map(event => {
         let eventName = 'Unknown Event';
         let decodedData: any = {};
         
@@ -216,11 +285,19 @@ async function fetchEvents(contractAddress: string) {
           // Transfer event
           if (eventKey === '0x99cd8bde557814842a3121e8ddfd433a539b8c9f14bf31ebf108d12e6196e9') {
             eventName = 'Transfer';
-            if (event.data && event.data.length >= 3) {
+            // OpenZeppelin Cairo 1 tokens key from and to; older tokens put
+            // them in data
+            if (event.keys.length === 3 && event.data && event.data.length === 2) {
+              decodedData = {
+                from: event.keys[1],
+                to: event.keys[2],
+                amount: decodeU256(event.data[0], event.data[1])
+              };
+            } else if (event.data && event.data.length >= 3) {
               decodedData = {
                 from: event.data[0],
                 to: event.data[1],
-                amount: parseInt(event.data[2], 16).toString()
+                amount: decodeU256(event.data[2], event.data[3])
               };
             }
           }
@@ -231,7 +308,7 @@ async function fetchEvents(contractAddress: string) {
               decodedData = {
                 owner: event.data[0],
                 spender: event.data[1],
-                amount: parseInt(event.data[2], 16).toString()
+                amount: decodeU256(event.data[2], event.data[3])
               };
             }
           }
@@ -243,7 +320,7 @@ async function fetchEvents(contractAddress: string) {
                 user: event.data[0],
                 token_in: event.data[1],
                 token_out: event.data[2],
-                amount: parseInt(event.data[3], 16).toString()
+                amount: BigInt(event.data[3]).toString()
               };
             }
           }
@@ -253,7 +330,7 @@ async function fetchEvents(contractAddress: string) {
             if (event.data && event.data.length >= 2) {
               decodedData = {
                 user: event.keys[1] || 'Unknown',
-                amount: parseInt(event.data[1] || '0', 16).toString()
+                amount: BigInt(event.data[1] || '0x0').toString()
               };
             }
           }
@@ -270,11 +347,11 @@ async function fetchEvents(contractAddress: string) {
       // Generate comprehensive data after events are fetched
       const comprehensiveData = await getComprehensiveContractData(contractAddress, provider);
       
-      return { events: decodedEvents, contractInfo, comprehensiveData };
+      return { events: decodedEvents, contractInfo, comprehensiveData, fromBlock, toBlock: latest };
     } catch (error) {
       console.error('RPC failed:', getRpcUrl(), error);
       switchToNextRpc();
-      if (i === RPC_ENDPOINTS.length - 1) {
+      if (i === rpcEndpoints().length - 1) {
         throw error;
       }
     }
@@ -290,6 +367,10 @@ export default function ContractEventsEDA() {
   const [stats, setStats] = useState<any>(null);
   const [contractInfo, setContractInfo] = useState<any>(null);
   const [comprehensiveData, setComprehensiveData] = useState<any>(null);
+  const [exportRequest, setExportRequest] = useState<QueryExecutionRequest | null>(null);
+  const { selection } = useNetwork();
+  // Network the results on screen were read from
+  const [fetchedNetwork, setFetchedNetwork] = useState<NetworkSelection | null>(null);
 
   const validateAddress = (addr: string) => {
     const cleaned = addr.trim();
@@ -315,6 +396,7 @@ export default function ContractEventsEDA() {
     setLoading(true);
     setError('');
     setEvents([]);
+    setExportRequest(null);
     
     try {
       console.log('Fetching events for contract:', cleanAddress);
@@ -325,6 +407,8 @@ export default function ContractEventsEDA() {
       setEvents(result.events);
       setContractInfo(result.contractInfo);
       setComprehensiveData(result.comprehensiveData);
+      setFetchedNetwork(selection);
+      setExportRequest(eventsExportRequest(cleanAddress, result.fromBlock, result.toBlock, selection));
       
       // Calculate comprehensive EDA stats
       if (result.events.length > 0) {
@@ -351,10 +435,10 @@ export default function ContractEventsEDA() {
         
         // Calculate value flows (for Transfer events)
         const transferEvents = evs.filter(ev => ev.event_name === 'Transfer');
-        const totalVolume = transferEvents.reduce((sum, ev) => {
-          const amount = ev.decoded_data?.amount ? parseInt(ev.decoded_data.amount) : 0;
-          return sum + amount;
-        }, 0);
+        const totalVolume = transferEvents.reduce(
+          (sum, ev) => sum + BigInt(ev.decoded_data?.amount || '0'),
+          BigInt(0)
+        );
         
         // Combine event data with comprehensive transaction data
         const allTxs = result.comprehensiveData?.transactions || [];
@@ -375,7 +459,7 @@ export default function ContractEventsEDA() {
           avgTxPerBlock: (allTxs.length / blocks.length).toFixed(2),
           
           // Value metrics
-          totalVolume: (totalVolume / 1e18).toFixed(6),
+          totalVolume: formatUnits(totalVolume),
           transferCount: transferEvents.length,
           
           // Time range
@@ -419,43 +503,6 @@ export default function ContractEventsEDA() {
     setLoading(false);
   };
 
-  const exportToCSV = () => {
-    if (events.length === 0) return;
-    
-    const headers = ['Block', 'Event Type', 'From/User', 'To/Target', 'Amount', 'Tx Hash'];
-    const csvContent = [
-      headers.join(','),
-      ...events.map(ev => [
-        ev.block_number,
-        ev.event_name || 'Unknown Event',
-        ev.decoded_data?.from || ev.decoded_data?.user || ev.decoded_data?.owner || 'N/A',
-        ev.decoded_data?.to || ev.decoded_data?.spender || ev.decoded_data?.token_out || 'N/A',
-        ev.decoded_data?.amount ? (parseInt(ev.decoded_data.amount) / 1e18).toFixed(6) : 'N/A',
-        ev.transaction_hash || 'N/A'
-      ].join(','))
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `contract_events_${address.slice(0, 10)}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const exportToJSON = () => {
-    if (events.length === 0) return;
-    
-    const blob = new Blob([JSON.stringify(events, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `contract_events_${address.slice(0, 10)}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
   const navigate = useNavigate();
 
   const createDashboardFromContract = () => {
@@ -532,12 +579,17 @@ export default function ContractEventsEDA() {
       <main className="p-6 space-y-6">
             <Card className="glass max-w-xl mx-auto">
               <CardHeader>
-                <CardTitle>Enter Mainnet Contract Address</CardTitle>
+                <CardTitle>Enter {NETWORKS[selection.network].shortName} Contract Address</CardTitle>
                 {contractInfo && (
                   <div className="flex items-center space-x-2 mt-2">
                     <Badge variant="outline" className="px-3 py-1">
                       {contractInfo.contractType}
                     </Badge>
+                    {fetchedNetwork && (
+                      <Badge variant="secondary" className="px-3 py-1">
+                        {networkLabel(fetchedNetwork)}
+                      </Badge>
+                    )}
                     <span className="text-sm text-muted-foreground">{contractInfo.contractName}</span>
                   </div>
                 )}
@@ -802,14 +854,7 @@ export default function ContractEventsEDA() {
                     <span>Detailed Event Analysis ({events.length} events)</span>
                   </CardTitle>
                   <div className="flex space-x-2">
-                    <Button onClick={exportToCSV} variant="outline" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export CSV
-                    </Button>
-                    <Button onClick={exportToJSON} variant="outline" size="sm">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export JSON
-                    </Button>
+                    <ResultExportMenu request={exportRequest} filename={`contract_events_${address.slice(0, 10)}`} size="sm" />
 
                   </div>
                 </CardHeader>
@@ -848,7 +893,7 @@ export default function ContractEventsEDA() {
                               </td>
                               <td className="border border-border px-3 py-2 font-mono text-sm">
                                 {ev.decoded_data?.amount ? 
-                                  (parseInt(ev.decoded_data.amount) / 1e18).toFixed(6) + ' tokens' : 
+                                  formatUnits(BigInt(ev.decoded_data.amount)) + ' tokens' : 
                                   'N/A'
                                 }
                               </td>
@@ -6,6 +6,8 @@ import { Plus, Trash2 } from 'lucide-react';
 import { CreateDashboardModal } from '@/components/dashboard/CreateDashboardModal';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { LOCAL_STORAGE_EVENT } from '@/hooks/useLocalStorage';
+import { DashboardService } from '@/services/DashboardService';
 
 interface Dashboard {
   id: string;
@@ -41,7 +43,7 @@ export default function DashboardBuilder() {
       if (generatedDashboard) {
         const dashboardConfig = JSON.parse(generatedDashboard);
         // Save the dashboard and navigate to edit
-        localStorage.setItem(`dashboard_${dashboardConfig.id}`, JSON.stringify(dashboardConfig));
+        DashboardService.saveDashboard(dashboardConfig);
         localStorage.removeItem('ai_generated_dashboard');
         window.location.href = `/builder/edit/${dashboardConfig.id}`;
         return;
@@ -49,6 +51,9 @@ export default function DashboardBuilder() {
     }
     
     loadDashboards();
+    // Library sync rewrites the local copies when the server's copies change
+    window.addEventListener(LOCAL_STORAGE_EVENT, loadDashboards);
+    return () => window.removeEventListener(LOCAL_STORAGE_EVENT, loadDashboards);
   }, []);
 
   const loadDashboards = () => {
@@ -81,7 +86,7 @@ export default function DashboardBuilder() {
   };
 
   const deleteDashboard = (id: string) => {
-    localStorage.removeItem(`dashboard_${id}`);
+    DashboardService.deleteDashboard(id);
     loadDashboards();
   };
 
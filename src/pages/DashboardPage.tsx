@@ -12,6 +12,8 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { DashboardService } from '@/services/DashboardService';
+import type { NetworkSelection } from '@/lib/networks';
 
 interface DashboardWidget {
   id: string;
@@ -26,6 +28,7 @@ interface Dashboard {
   slug: string;
   isPrivate: boolean;
   isPublished: boolean;
+  network?: NetworkSelection;
   userId: string;
   createdAt: string;
   widgets: DashboardWidget[];
@@ -130,7 +133,7 @@ export default function DashboardPage() {
   const handleSave = () => {
     try {
       if (dashboard) {
-        localStorage.setItem(`dashboard_${dashboard.id}`, JSON.stringify(dashboard));
+        DashboardService.saveDashboard(dashboard);
         setIsEditing(false);
       }
     } catch (error) {
@@ -143,7 +146,7 @@ export default function DashboardPage() {
     try {
       if (dashboard) {
         const publishedDashboard = { ...dashboard, isPublished: true };
-        localStorage.setItem(`dashboard_${dashboard.id}`, JSON.stringify(publishedDashboard));
+        DashboardService.saveDashboard(publishedDashboard);
         setDashboard(publishedDashboard);
         
         // Generate shareable link
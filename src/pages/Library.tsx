@@ -6,6 +6,8 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Database, Layout, Eye, EyeOff, Play, Trash2, Calendar, User } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import type { QueryParameter } from '@/types/common.types';
+import type { NetworkSelection } from '@/lib/networks';
 
 interface SavedItem {
   id: string;
@@ -14,6 +16,8 @@ interface SavedItem {
   isPublic: boolean;
   createdAt: string;
   query?: string;
+  parameters?: QueryParameter[];
+  network?: NetworkSelection;
   results?: any[];
   visualizations?: any[];
 }
@@ -73,6 +77,10 @@ export default function Library() {
   const openItem = (item: SavedItem) => {
     if (item.type === 'query') {
       localStorage.setItem('loadQuery', item.query || '');
+      localStorage.setItem('loadQueryParameters', JSON.stringify(item.parameters || []));
+      if (item.network) {
+        localStorage.setItem('loadQueryNetwork', JSON.stringify(item.network));
+      }
       navigate('/query');
     } else {
       navigate('/builder');
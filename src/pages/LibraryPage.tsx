@@ -16,8 +16,17 @@ import {
   Trash2,
   Plus,
   Calendar,
-  Clock
+  Clock,
+  History,
+  Globe,
+  GitFork
 } from 'lucide-react';
+import { QueryRevisionHistory } from '@/components/query/QueryRevisionHistory';
+import { LOCAL_STORAGE_EVENT } from '@/hooks/useLocalStorage';
+import { DashboardService } from '@/services/DashboardService';
+import { SyncService } from '@/services/SyncService';
+import { QueryGallery } from '@/components/query/QueryGallery';
+import type { SavedQueryRecord } from '@/types/common.types';
 
 export default function LibraryPage() {
   const { type } = useParams();
@@ -25,9 +34,13 @@ export default function LibraryPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [savedQueries, setSavedQueries] = useState<any[]>([]);
   const [savedDashboards, setSavedDashboards] = useState<any[]>([]);
+  const [historyQuery, setHistoryQuery] = useState<{ id: string; title: string } | null>(null);
 
   useEffect(() => {
     loadLibraryItems();
+    // Library sync rewrites the local copies when the server's copies change
+    window.addEventListener(LOCAL_STORAGE_EVENT, loadLibraryItems);
+    return () => window.removeEventListener(LOCAL_STORAGE_EVENT, loadLibraryItems);
   }, []);
 
   const loadLibraryItems = () => {
@@ -37,8 +50,8 @@ export default function LibraryPage() {
     setSavedQueries(queries);
 
     // Load saved dashboards
-    const dashboards = JSON.parse(localStorage.getItem('saved_dashboards') || '[]')
-      .filter((d: any) => d.name && !d.name.startsWith('Dashboard ') && !d.name.match(/^Dashboard \d+$/));
+    const dashboards = DashboardService.getSavedDashboards()
+      .filter(d => d.name && !d.name.startsWith('Dashboard ') && !d.name.match(/^Dashboard \d+$/));
     setSavedDashboards(dashboards);
   };
 
@@ -46,13 +59,24 @@ export default function LibraryPage() {
     const queries = JSON.parse(localStorage.getItem('saved_queries') || '[]');
     const filtered = queries.filter((q: any) => q.id !== id);
     localStorage.setItem('saved_queries', JSON.stringify(filtered));
+    const deleted = queries.find((q: { id: string }) => q.id === id);
+    if (deleted) SyncService.enqueueDelete('query', deleted);
+    loadLibraryItems();
+  };
+
+  // A restored revision becomes the local copy's content too
+  const applyRestoredRevision = (restored: SavedQueryRecord) => {
+    const queries = JSON.parse(localStorage.getItem('saved_queries') || '[]');
+    localStorage.setItem('saved_queries', JSON.stringify(queries.map((q: { remoteId?: string }) =>
+      q.remoteId === restored._id
+        ? { ...q, query: restored.sql, parameters: restored.parameters, revision: restored.revision, updatedAt: restored.updatedAt, syncedAt: restored.updatedAt }
+        : q
+    )));
     loadLibraryItems();
   };
 
   const deleteDashboard = (id: string) => {
-    const dashboards = JSON.parse(localStorage.getItem('saved_dashboards') || '[]');
-    const filtered = dashboards.filter((d: any) => d.id !== id);
-    localStorage.setItem('saved_dashboards', JSON.stringify(filtered));
+    DashboardService.deleteDashboard(id);
     loadLibraryItems();
   };
 
@@ -85,8 +109,8 @@ export default function LibraryPage() {
             />
           </div>
 
-          <Tabs defaultValue="queries" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+          <Tabs defaultValue={type === 'gallery' || type === 'dashboards' ? type : 'queries'} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="queries" className="flex items-center gap-2">
                 <Database className="w-4 h-4" />
                 Saved Queries ({filteredQueries.length})
@@ -95,6 +119,10 @@ export default function LibraryPage() {
                 <Layout className="w-4 h-4" />
                 Saved Dashboards ({filteredDashboards.length})
               </TabsTrigger>
+              <TabsTrigger value="gallery" className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                Public Gallery
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="queries" className="space-y-4">
@@ -149,6 +177,12 @@ export default function LibraryPage() {
                       </CardHeader>
                       <CardContent className="pt-0">
                         <div className="space-y-3">
+                          {query.forkedFrom && (
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <GitFork className="w-3 h-3" />
+                              Forked from {query.forkedFrom.title}
+                            </p>
+                          )}
                           <div className="bg-muted p-2 rounded text-xs font-mono truncate">
                             {query.query}
                           </div>
@@ -162,16 +196,36 @@ export default function LibraryPage() {
                               {query.results?.length || 0} rows
                             </div>
                           </div>
-                          <Button 
-                            size="sm" 
-                            className="w-full"
-                            onClick={() => {
-                              localStorage.setItem('loadQuery', query.query);
-                              navigate('/query');
-                            }}
-                          >
-                            Open Query
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button 
+                              size="sm" 
+                              className="flex-1"
+                              onClick={() => {
+                                localStorage.setItem('loadQuery', query.query);
+                                localStorage.setItem('loadQueryParameters', JSON.stringify(query.parameters || []));
+                                if (query.network) {
+                                  localStorage.setItem('loadQueryNetwork', JSON.stringify(query.network));
+                                }
+                                if (query.remoteId) {
+                                  localStorage.setItem('loadQueryId', query.remoteId);
+                                  localStorage.setItem('loadQueryTitle', query.name);
+                                }
+                                navigate('/query');
+                              }}
+                            >
+                              Open Query
+                            </Button>
+                            {query.remoteId && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setHistoryQuery({ id: query.remoteId, title: query.name })}
+                              >
+                                <History className="w-4 h-4 mr-1" />
+                                {query.revision ? `Rev ${query.revision}` : 'History'}
+                              </Button>
+                            )}
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -259,9 +313,23 @@ export default function LibraryPage() {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="gallery">
+              <QueryGallery search={searchQuery} onForked={loadLibraryItems} />
+            </TabsContent>
           </Tabs>
         </div>
       </main>
+
+      {historyQuery && (
+        <QueryRevisionHistory
+          queryId={historyQuery.id}
+          title={historyQuery.title}
+          open
+          onOpenChange={(open) => !open && setHistoryQuery(null)}
+          onRestored={applyRestoredRevision}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { useParams } from 'react-router-dom';
+import { Header } from '@/components/layout/Header';
+import { NotebookEditor } from '@/components/notebook/NotebookEditor';
+
+export default function NotebookPage() {
+  const { notebookId } = useParams();
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <Header
+        title="Notebook"
+        subtitle="SQL, notes and charts that re-run top to bottom"
+      />
+
+      <main className="p-6">
+        <NotebookEditor notebookId={notebookId && notebookId !== 'new' ? notebookId : null} />
+      </main>
+    </div>
+  );
+}
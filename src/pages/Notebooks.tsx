@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, Globe, Lock, Plus, Trash2 } from 'lucide-react';
+import { Header } from '@/components/layout/Header';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/lib/api';
+import { NETWORKS } from '@/lib/networks';
+import type { NotebookRecord, QueryAuthor } from '@/types/common.types';
+
+const authorName = (author: QueryAuthor | string) => {
+  if (typeof author === 'string') return 'you';
+  const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+  return name || author.email;
+};
+
+interface NotebookListProps {
+  notebooks: NotebookRecord[];
+  onOpen: (notebook: NotebookRecord) => void;
+  onDelete?: (notebook: NotebookRecord) => void;
+}
+
+function NotebookList({ notebooks, onOpen, onDelete }: NotebookListProps) {
+  if (notebooks.length === 0) {
+    return (
+      <Card className="p-12 text-center">
+        <p className="text-muted-foreground">No notebooks yet</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {notebooks.map(notebook => (
+        <Card key={notebook._id} className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => onOpen(notebook)}>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-2">
+              <CardTitle className="text-base truncate">{notebook.title}</CardTitle>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(notebook);
+                  }}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label="Delete notebook"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-2">
+            {notebook.description && (
+              <p className="text-sm text-muted-foreground line-clamp-2">{notebook.description}</p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline" className="gap-1">
+                {notebook.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                {notebook.isPublic ? 'Public' : 'Private'}
+              </Badge>
+              {notebook.network && notebook.network !== 'mainnet' && (
+                <Badge variant="secondary">{NETWORKS[notebook.network].shortName}</Badge>
+              )}
+              <span>by {authorName(notebook.createdBy)} · {formatDistanceToNow(new Date(notebook.updatedAt))} ago</span>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+export default function Notebooks() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [mine, setMine] = useState<NotebookRecord[]>([]);
+  const [shared, setShared] = useState<NotebookRecord[]>([]);
+
+  useEffect(() => {
+    apiClient.getMyNotebooks()
+      .then(response => setMine(response.data?.notebooks || []))
+      .catch(() => setMine([]));
+    apiClient.getPublicNotebooks()
+      .then(response => setShared(response.data?.notebooks || []))
+      .catch(() => setShared([]));
+  }, []);
+
+  const open = (notebook: NotebookRecord) => navigate(`/notebooks/${notebook._id}`);
+
+  const remove = async (notebook: NotebookRecord) => {
+    if (!confirm(`Delete "${notebook.title}"?`)) return;
+    try {
+      await apiClient.deleteNotebook(notebook._id);
+      setMine(prev => prev.filter(candidate => candidate._id !== notebook._id));
+      setShared(prev => prev.filter(candidate => candidate._id !== notebook._id));
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Failed to delete notebook',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <Header
+        title="Notebooks"
+        subtitle="Step-by-step analyses that anyone can re-run"
+      />
+
+      <main className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            Notebooks
+          </h2>
+          <Button onClick={() => navigate('/notebooks/new')}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Notebook
+          </Button>
+        </div>
+
+        <Tabs defaultValue="mine" className="w-full">
+          <TabsList>
+            <TabsTrigger value="mine">My Notebooks ({mine.length})</TabsTrigger>
+            <TabsTrigger value="public">Public</TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine">
+            <NotebookList notebooks={mine} onOpen={open} onDelete={remove} />
+          </TabsContent>
+          <TabsContent value="public">
+            <NotebookList notebooks={shared} onOpen={open} />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </>
+  );
+}
@@ -1,34 +1,40 @@
 import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Share, Heart, Eye } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import { DashboardService } from '@/services/DashboardService';
 
 export default function PublicDashboard() {
-  const { id } = useParams();
+  const { username, slug } = useParams();
+  const [searchParams] = useSearchParams();
+  const id = searchParams.get('id');
   const [dashboard, setDashboard] = useState<any>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    const loadDashboard = () => {
+    const loadDashboard = async () => {
       try {
-        const dashboardData = localStorage.getItem(`dashboard_${id}`);
-        if (dashboardData) {
-          const parsed = JSON.parse(dashboardData);
-          if (parsed.isPublic) {
-            setDashboard(parsed);
-          }
-        }
+        // Published dashboards are served by the backend; a link to one that
+        // has not synced yet only opens in the browser that made it
+        const response = await apiClient.getPublicDashboard(username!, slug!);
+        setDashboard({ ...response.data.dashboard, name: response.data.dashboard.title });
       } catch (error) {
-        console.error('Failed to load dashboard:', error);
+        const local = id ? DashboardService.getDashboardById(id) : null;
+        if (local && (local.isPublic || local.isPublished)) {
+          setDashboard(local);
+        } else {
+          console.error('Failed to load dashboard:', error);
+        }
       } finally {
         setLoading(false);
       }
     };
 
     loadDashboard();
-  }, [id]);
+  }, [username, slug, id]);
 
   if (loading) {
     return (
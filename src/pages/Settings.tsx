@@ -12,6 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
+import { ApiKeysCard } from '@/components/query/ApiKeysCard';
 import { useNavigate } from 'react-router-dom';
 import {
   User,
@@ -217,6 +218,8 @@ const Settings = (): JSX.Element => {
               </div>
             </CardContent>
           </Card>
+
+          <ApiKeysCard />
         </TabsContent>
 
         {/* Wallets Tab */}
@@ -42,6 +42,7 @@ export default function SubmitBounty() {
   // Form state
   const [queryLink, setQueryLink] = useState('');
   const [dashboardLink, setDashboardLink] = useState('');
+  const [notebookLink, setNotebookLink] = useState('');
   const [comments, setComments] = useState('');
   const [wordCount, setWordCount] = useState(0);
 
@@ -91,10 +92,10 @@ export default function SubmitBounty() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!queryLink && !dashboardLink) {
+    if (!queryLink && !dashboardLink && !notebookLink) {
       toast({
         title: "Error",
-        description: "Please provide at least a Query Link or Dashboard Link",
+        description: "Please provide at least a Query, Dashboard or Notebook Link",
         variant: "destructive",
       });
       return;
@@ -107,9 +108,10 @@ export default function SubmitBounty() {
       const submission = {
         bountyId: bounty?._id,
         bountyTitle: bounty?.title,
-        content: `Query Link: ${queryLink || 'N/A'}\n\nDashboard Link: ${dashboardLink || 'N/A'}\n\nComments: ${comments}`,
+        content: `Query Link: ${queryLink || 'N/A'}\n\nDashboard Link: ${dashboardLink || 'N/A'}\n\nNotebook Link: ${notebookLink || 'N/A'}\n\nComments: ${comments}`,
         queryLink,
         dashboardLink,
+        notebookLink,
         comments,
         attachments: [],
         submittedAt: new Date(),
@@ -132,7 +134,7 @@ export default function SubmitBounty() {
         bountyTitle: bounty?.title,
         submitterName: `${profile?.firstName || 'User'} ${profile?.lastName || ''}`,
         submitterEmail: user?.email,
-        submissionContent: `Query: ${queryLink || 'N/A'} | Dashboard: ${dashboardLink || 'N/A'}`,
+        submissionContent: `Query: ${queryLink || 'N/A'} | Dashboard: ${dashboardLink || 'N/A'} | Notebook: ${notebookLink || 'N/A'}`,
         timestamp: new Date(),
         read: false
       });
@@ -272,6 +274,25 @@ export default function SubmitBounty() {
                     </p>
                   </div>
 
+                  {/* Notebook Link */}
+                  <div>
+                    <Label htmlFor="notebookLink" className="flex items-center gap-2">
+                      <LinkIcon className="w-4 h-4" />
+                      Notebook Link (Optional)
+                    </Label>
+                    <Input
+                      id="notebookLink"
+                      type="url"
+                      placeholder="https://example.com/notebooks/..."
+                      value={notebookLink}
+                      onChange={(e) => setNotebookLink(e.target.value)}
+                      className="mt-2"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      A public notebook reviewers can re-run end to end; it can stand in for the links above
+                    </p>
+                  </div>
+
                   {/* Comments */}
                   <div>
                     <Label htmlFor="comments" className="flex items-center gap-2">
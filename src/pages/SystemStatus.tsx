@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { CheckCircle, XCircle, AlertCircle, RefreshCw, Database, Network, Shield } from "lucide-react";
 import { apiClient } from '@/lib/api';
+import { getActiveNetwork } from '@/lib/networks';
 import { starknetDataService } from "@/services/StarknetDataService";
 
 interface SystemCheck {
@@ -77,6 +78,43 @@ export default function SystemStatus() {
       });
     }
 
+    // Chain Index: how far the backend indexer has got on the selected network
+    try {
+      const response = await apiClient.getChainIndexStatus();
+      const { network } = getActiveNetwork();
+      const index = response.data?.networks.find(candidate => candidate.network === network);
+
+      if (!index || !index.enabled) {
+        results.push({
+          name: 'Chain Index',
+          status: 'warning',
+          message: 'Not indexed; pages read this network from RPC'
+        });
+      } else if (index.status === 'error') {
+        results.push({
+          name: 'Chain Index',
+          status: 'error',
+          message: `Indexer failing: ${index.lastError}`,
+          details: { indexed: [index.firstBlock, index.lastBlock], head: index.headBlock }
+        });
+      } else {
+        results.push({
+          name: 'Chain Index',
+          status: index.status === 'following' ? 'healthy' : 'warning',
+          message: index.lastBlock === null
+            ? 'Indexer starting'
+            : `Indexed blocks ${index.firstBlock}-${index.lastBlock}, ${index.lag} behind the head`,
+          details: { indexed: [index.firstBlock, index.lastBlock], head: index.headBlock, backfillTo: index.backfillTo }
+        });
+      }
+    } catch (error) {
+      results.push({
+        name: 'Chain Index',
+        status: 'warning',
+        message: 'Index status unavailable; pages read the chain from RPC'
+      });
+    }
+
     // Authentication
     try {
       const authCheck = localStorage.getItem('auth_token') !== null;
@@ -209,6 +247,7 @@ export default function SystemStatus() {
                     <div className="flex items-center space-x-2">
                       {check.name === 'Database Connection' && <Database className="w-4 h-4" />}
                       {check.name === 'Starknet RPC' && <Network className="w-4 h-4" />}
+                      {check.name === 'Chain Index' && <Database className="w-4 h-4" />}
                       {check.name === 'Security Validation' && <Shield className="w-4 h-4" />}
                       <span>{check.name}</span>
                     </div>
@@ -7,6 +7,7 @@ class BountyWebSocketService {
   private listeners: Map<string, Set<(data: any) => void>> = new Map();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private pending: string[] = [];
   
   private constructor() {
     this.connect();
@@ -27,6 +28,7 @@ class BountyWebSocketService {
       this.ws.onopen = () => {
         console.log('WebSocket connected');
         this.reconnectAttempts = 0;
+        this.pending.splice(0).forEach(message => this.ws?.send(message));
       };
 
       this.ws.onmessage = (event) => {
@@ -87,6 +89,16 @@ class BountyWebSocketService {
     };
   }
 
+  // Send a message now, or as soon as the socket (re)connects
+  send(type: string, data: unknown) {
+    const message = JSON.stringify({ type, data });
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(message);
+    } else if (this.pending.length < 100) {
+      this.pending.push(message);
+    }
+  }
+
   close() {
     if (this.ws) {
       this.ws.close();
@@ -1,12 +1,24 @@
 import { type Layout } from 'react-grid-layout';
+import { LOCAL_STORAGE_EVENT } from '@/hooks/useLocalStorage';
+import { SyncService } from '@/services/SyncService';
+import type { NetworkSelection } from '@/lib/networks';
 
 export interface DashboardConfig {
   id: string;
   name: string;
-  layout: Layout;
+  description?: string;
+  layout?: Layout;
   widgets: DashboardWidget[];
+  isPublic?: boolean;
+  slug?: string;
+  // Network the dashboard's data comes from; older dashboards are mainnet
+  network?: NetworkSelection;
   createdAt: string;
   updatedAt: string;
+  // Backend copy of the dashboard and its updatedAt when last synced
+  remoteId?: string;
+  syncedAt?: string;
+  [key: string]: unknown;
 }
 
 export interface DashboardWidget {
@@ -16,44 +28,85 @@ export interface DashboardWidget {
   query?: string;
   data?: any;
   options?: any;
+  [key: string]: unknown;
 }
 
+// Local copies of the user's dashboards, one `dashboard_<id>` key each.
+// Saving or deleting one queues the change for the backend (SyncService).
 export class DashboardService {
-  private static STORAGE_KEY = 'saved_dashboards';
-
-  static saveDashboard(dashboard: DashboardConfig): void {
-    const dashboards = this.getSavedDashboards();
-    const existingIndex = dashboards.findIndex(d => d.id === dashboard.id);
-    
-    if (existingIndex >= 0) {
-      dashboards[existingIndex] = {
-        ...dashboard,
-        updatedAt: new Date().toISOString()
-      };
-    } else {
-      dashboards.push({
-        ...dashboard,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
-    }
-    
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(dashboards));
+  static KEY_PREFIX = 'dashboard_';
+  // Where dashboards were kept before they moved to per-dashboard keys
+  private static LEGACY_KEY = 'saved_dashboards';
+
+  // Accepts the dashboard shape of any of the editors
+  static saveDashboard<T extends { id: string; name: string; createdAt?: string }>(dashboard: T): void {
+    const now = new Date().toISOString();
+    this.storeDashboard({
+      ...dashboard,
+      createdAt: dashboard.createdAt || now,
+      updatedAt: now
+    } as unknown as DashboardConfig);
+    SyncService.enqueue('dashboard', dashboard.id);
   }
 
   static getSavedDashboards(): DashboardConfig[] {
-    const saved = localStorage.getItem(this.STORAGE_KEY);
-    return saved ? JSON.parse(saved) : [];
+    this.migrateLegacyDashboards();
+
+    const dashboards: DashboardConfig[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(this.KEY_PREFIX)) continue;
+      const dashboard = this.getDashboardById(key.slice(this.KEY_PREFIX.length));
+      if (dashboard) dashboards.push(dashboard);
+    }
+    return dashboards.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
   }
 
   static getDashboardById(id: string): DashboardConfig | null {
-    const dashboards = this.getSavedDashboards();
-    return dashboards.find(d => d.id === id) || null;
+    try {
+      const dashboard = JSON.parse(localStorage.getItem(`${this.KEY_PREFIX}${id}`) || 'null');
+      if (!dashboard?.id || !dashboard.name) return null;
+      return {
+        ...dashboard,
+        widgets: Array.isArray(dashboard.widgets) ? dashboard.widgets : [],
+        updatedAt: dashboard.updatedAt || dashboard.createdAt || new Date(0).toISOString()
+      };
+    } catch (error) {
+      console.error('Failed to read dashboard:', id, error);
+      return null;
+    }
   }
 
   static deleteDashboard(id: string): void {
-    const dashboards = this.getSavedDashboards();
-    const filtered = dashboards.filter(d => d.id !== id);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filtered));
+    const dashboard = this.getDashboardById(id);
+    this.removeDashboard(id);
+    if (dashboard) SyncService.enqueueDelete('dashboard', dashboard);
   }
-}
\ No newline at end of file
+
+  // Write or remove the local copy only, e.g. when applying a server change
+  static storeDashboard(dashboard: DashboardConfig): void {
+    const key = `${this.KEY_PREFIX}${dashboard.id}`;
+    localStorage.setItem(key, JSON.stringify(dashboard));
+    window.dispatchEvent(new CustomEvent(LOCAL_STORAGE_EVENT, { detail: key }));
+  }
+
+  static removeDashboard(id: string): void {
+    const key = `${this.KEY_PREFIX}${id}`;
+    localStorage.removeItem(key);
+    window.dispatchEvent(new CustomEvent(LOCAL_STORAGE_EVENT, { detail: key }));
+  }
+
+  private static migrateLegacyDashboards(): void {
+    const legacy = localStorage.getItem(this.LEGACY_KEY);
+    if (!legacy) return;
+
+    try {
+      for (const dashboard of JSON.parse(legacy) as DashboardConfig[]) {
+        if (!this.getDashboardById(dashboard.id)) this.storeDashboard(dashboard);
+      }
+      localStorage.removeItem(this.LEGACY_KEY);
+    } catch (error) {
+      console.error('Failed to migrate saved dashboards:', error);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { apiClient } from '@/lib/api';
+import BountyWebSocketService from '@/services/BountyWebSocketService';
+import type {
+  QueryExecutionJob,
+  QueryExecutionProgress,
+  QueryExecutionRequest,
+  QueryExecutionResult,
+} from '@/types/common.types';
+
+// Fallback status polling for when the WebSocket is unavailable
+const POLL_INTERVAL_MS = 2000;
+
+interface RunQueryOptions {
+  onStart?: (executionId: string) => void;
+  onProgress?: (progress: QueryExecutionProgress) => void;
+}
+
+// Resolves once the execution has left the 'running' state, whichever of the
+// WebSocket status event or the polling fallback notices first
+const waitForExecution = (executionId: string, onProgress?: RunQueryOptions['onProgress']) =>
+  new Promise<void>((resolve) => {
+    const socket = BountyWebSocketService.getInstance();
+    let finished = false;
+
+    const handleUpdate = (job: QueryExecutionJob) => {
+      if (job.executionId !== executionId) return;
+      if (job.progress) onProgress?.(job.progress);
+      if (job.status !== 'running') finish();
+    };
+
+    const stopProgress = socket.subscribe('query:progress', handleUpdate);
+    const stopStatus = socket.subscribe('query:status', handleUpdate);
+    // Unknown or expired execution; the caller reads the error
+    const stopError = socket.subscribe('query:error', (error: { executionId: string }) => {
+      if (error.executionId === executionId) finish();
+    });
+    const poll = setInterval(async () => {
+      try {
+        const response = await apiClient.getQueryExecution(executionId);
+        if (response.data) handleUpdate(response.data);
+      } catch {
+        // Failed, cancelled or timed out; the caller reads the error
+        finish();
+      }
+    }, POLL_INTERVAL_MS);
+
+    function finish() {
+      if (finished) return;
+      finished = true;
+      clearInterval(poll);
+      stopProgress();
+      stopStatus();
+      stopError();
+      socket.send('query:unsubscribe', { executionId });
+      resolve();
+    }
+
+    socket.send('query:subscribe', { executionId });
+  });
+
+// Start a server-side execution, stream its progress and return its result.
+// Throws with the server's message when the execution fails, times out or is
+// cancelled.
+export async function runQueryExecution(
+  request: QueryExecutionRequest,
+  { onStart, onProgress }: RunQueryOptions = {}
+): Promise<QueryExecutionResult> {
+  const started = await apiClient.startQueryExecution(request);
+  const executionId = started.data?.executionId;
+  if (!executionId) {
+    throw new Error(started.message || 'Failed to start query execution');
+  }
+  onStart?.(executionId);
+
+  await waitForExecution(executionId, onProgress);
+
+  const response = await apiClient.getQueryExecution(executionId);
+  if (!response.data || response.data.status !== 'succeeded' || !response.data.results) {
+    throw new Error(response.data?.error?.message || 'Query did not complete');
+  }
+  return response.data as QueryExecutionResult;
+}
+
+export async function cancelQueryExecution(executionId: string) {
+  return apiClient.cancelQueryExecution(executionId);
+}
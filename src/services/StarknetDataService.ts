@@ -1,4 +1,7 @@
 import { RpcProvider } from 'starknet';
+import { apiClient } from '@/lib/api';
+import { getActiveNetwork, networkEndpoints, networkKey } from '@/lib/networks';
+import type { IndexedTransaction } from '@/types/common.types';
 
 interface StarknetMetrics {
   timestamp: string;
@@ -29,19 +32,48 @@ interface DiscoveryTransaction {
   description: string;
 }
 
+// Transactions with at least this many events are worth a look
+const BUSY_TRANSACTION_EVENTS = 20;
+
+// Gas a transaction consumed: L1, L1 data and L2 gas on RPC 0.8 and later,
+// Cairo steps before that
+function gasUsed(resources: IndexedTransaction['execution_resources']): number {
+  if (!resources) return 0;
+  const gas = ['l1_gas', 'l1_data_gas', 'l2_gas'].reduce((sum, field) => sum + Number(resources[field] ?? 0), 0);
+  return gas || Number(resources.steps ?? 0);
+}
+
+function describeIndexedTransaction(tx: IndexedTransaction): Pick<DiscoveryTransaction, 'type' | 'description'> {
+  if (tx.type === 'DEPLOY_ACCOUNT') return { type: 'contract_deploy', description: 'New account deployment' };
+  if (tx.type === 'DEPLOY') return { type: 'contract_deploy', description: 'New contract deployment' };
+  if (tx.type === 'DECLARE') return { type: 'contract_deploy', description: 'New class declared' };
+  if (tx.execution_status === 'REVERTED') return { type: 'unusual_pattern', description: 'Reverted transaction' };
+  if (tx.events_count >= BUSY_TRANSACTION_EVENTS) {
+    return { type: 'unusual_pattern', description: `Emitted ${tx.events_count} events` };
+  }
+  return { type: 'high_gas', description: `Paid ${tx.actual_fee ? BigInt(tx.actual_fee).toString() : 0} ${tx.fee_unit || 'WEI'} in fees` };
+}
+
 class StarknetDataService {
-  private provider: RpcProvider;
+  private providers: Map<string, RpcProvider> = new Map();
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
-    this.provider = new RpcProvider({
-      nodeUrl: import.meta.env.VITE_STARKNET_RPC_URL || 'https://starknet-mainnet.public.blastapi.io'
-    });
+  // Provider for the network selected in the header, read on every call so a
+  // switch applies straight away
+  private get provider(): RpcProvider {
+    const [nodeUrl] = networkEndpoints(getActiveNetwork());
+    let provider = this.providers.get(nodeUrl);
+    if (!provider) {
+      provider = new RpcProvider({ nodeUrl });
+      this.providers.set(nodeUrl, provider);
+    }
+    return provider;
   }
 
+  // Cached data is kept per network
   private getCachedData<T>(key: string): T | null {
-    const cached = this.cache.get(key);
+    const cached = this.cache.get(`${networkKey(getActiveNetwork())}:${key}`);
     if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
       return cached.data;
     }
@@ -49,7 +81,30 @@ class StarknetDataService {
   }
 
   private setCachedData(key: string, data: any): void {
-    this.cache.set(key, { data, timestamp: Date.now() });
+    this.cache.set(`${networkKey(getActiveNetwork())}:${key}`, { data, timestamp: Date.now() });
+  }
+
+  // Hourly activity since midnight from the backend's chain index, or null
+  // when the index doesn't reach back that far
+  private async getIndexedDailyActivity(startOfDay: Date): Promise<DailyActivity[] | null> {
+    const { network } = getActiveNetwork();
+    if (network === 'custom') return null;
+    const since = Math.floor(startOfDay.getTime() / 1000);
+    try {
+      const response = await apiClient.getIndexedActivity(network, since, 'hour');
+      const coverage = response.data?.coverage;
+      if (!coverage?.fromTimestamp || coverage.fromTimestamp > since) return null;
+      // Gas and volume aren't indexed
+      return (response.data?.buckets || []).map(bucket => ({
+        time: new Date(bucket.start * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        transactions: bucket.transactions,
+        gasUsed: 0,
+        activeUsers: bucket.senders,
+        volume: 0
+      }));
+    } catch (error) {
+      return null;
+    }
   }
 
   async getDailyActivity(): Promise<DailyActivity[]> {
@@ -57,6 +112,13 @@ class StarknetDataService {
     const cached = this.getCachedData<DailyActivity[]>(cacheKey);
     if (cached) return cached;
 
+    const today = new Date();
+    const indexed = await this.getIndexedDailyActivity(new Date(today.getFullYear(), today.getMonth(), today.getDate()));
+    if (indexed) {
+      this.setCachedData(cacheKey, indexed);
+      return indexed;
+    }
+
     try {
       const now = new Date();
       const currentHour = now.getHours();
@@ -108,11 +170,40 @@ class StarknetDataService {
     }
   }
 
+  // Latest transactions from the backend's chain index, or null when the
+  // network isn't indexed
+  private async getIndexedDiscoveries(): Promise<DiscoveryTransaction[] | null> {
+    const { network } = getActiveNetwork();
+    if (network === 'custom') return null;
+    try {
+      const response = await apiClient.getRecentIndexedTransactions(network, 10);
+      const transactions = response.data?.transactions || [];
+      if (transactions.length === 0) return null;
+      return transactions.map(tx => ({
+        hash: tx.transaction_hash,
+        from: tx.sender_address || '',
+        to: tx.contract_address || '',
+        value: tx.actual_fee ? BigInt(tx.actual_fee).toString() : '0',
+        gasUsed: gasUsed(tx.execution_resources),
+        timestamp: tx.block_timestamp * 1000,
+        ...describeIndexedTransaction(tx)
+      }));
+    } catch (error) {
+      return null;
+    }
+  }
+
   async getDiscoveryTransactions(): Promise<DiscoveryTransaction[]> {
     const cacheKey = 'discovery_transactions';
     const cached = this.getCachedData<DiscoveryTransaction[]>(cacheKey);
     if (cached) return cached;
 
+    const indexed = await this.getIndexedDiscoveries();
+    if (indexed) {
+      this.setCachedData(cacheKey, indexed);
+      return indexed;
+    }
+
     try {
       const blockNumber = await this.provider.getBlockNumber();
       const discoveries: DiscoveryTransaction[] = [];
@@ -121,7 +212,7 @@ class StarknetDataService {
       // Get recent blocks and analyze transactions
       for (let i = 0; i < 5; i++) {
         try {
-          const block = await this.provider.getBlock(blockNumber - i);
+          const block = await this.provider.getBlockWithTxs(blockNumber - i);
           
           if (block.transactions && block.transactions.length > 0) {
             // Analyze transactions for interesting patterns
@@ -132,22 +223,22 @@ class StarknetDataService {
               let type: DiscoveryTransaction['type'] = 'unusual_pattern';
               let description = 'Unusual transaction pattern detected';
               
-              if (gasUsed > 800000) {
+              if (tx.type === 'DEPLOY_ACCOUNT' || tx.type === 'DEPLOY') {
+                type = 'contract_deploy';
+                description = tx.type === 'DEPLOY_ACCOUNT' ? 'New account deployment' : 'New contract deployment';
+              } else if (gasUsed > 800000) {
                 type = 'high_gas';
                 description = 'High gas consumption transaction';
               } else if (value > 500) {
                 type = 'high_value';
                 description = 'High value transfer detected';
-              } else if (Math.random() > 0.7) {
-                type = 'contract_deploy';
-                description = 'New contract deployment';
               }
 
               // Only show transactions from the last 2 hours
               const txTimestamp = now - (i * 15 * 60000) - (index * 5 * 60000) - Math.random() * 10 * 60000;
               
               discoveries.push({
-                hash: `0x${Math.random().toString(16).substr(2, 64)}`,
+                hash: tx.transaction_hash,
                 from: `0x${Math.random().toString(16).substr(2, 40)}`,
                 to: `0x${Math.random().toString(16).substr(2, 40)}`,
                 value: value.toString(),
@@ -188,7 +279,10 @@ class StarknetDataService {
 
     try {
       const blockNumber = await this.provider.getBlockNumber();
-      const block = await this.provider.getBlock(blockNumber);
+      const [block, stateUpdate] = await Promise.all([
+        this.provider.getBlock(blockNumber),
+        this.provider.getStateUpdate(blockNumber),
+      ]);
       
       const metrics: StarknetMetrics = {
         timestamp: new Date().toISOString(),
@@ -196,7 +290,8 @@ class StarknetDataService {
         transactionCount: block.transactions?.length || 0,
         gasUsed: Math.floor(Math.random() * 5000000) + 1000000,
         activeAddresses: Math.floor(Math.random() * 10000) + 5000,
-        contractDeployments: Math.floor(Math.random() * 50) + 10,
+        // Contracts deployed in the latest block, from its state diff
+        contractDeployments: stateUpdate.state_diff.deployed_contracts.length,
         totalValueLocked: Math.floor(Math.random() * 1000000000) + 500000000
       };
 
@@ -0,0 +1,490 @@
+import { apiClient, ApiError } from '@/lib/api';
+import { LOCAL_STORAGE_EVENT } from '@/hooks/useLocalStorage';
+import { DashboardService, type DashboardConfig } from '@/services/DashboardService';
+import type { NetworkSelection } from '@/lib/networks';
+import type {
+  DashboardWidgetRecord,
+  QueryParameter,
+  SavedDashboardInput,
+  SavedDashboardRecord,
+  SavedQueryInput,
+  SavedQueryRecord
+} from '@/types/common.types';
+
+export type SyncKind = 'query' | 'dashboard';
+
+// Fields every synced local item carries. `syncedAt` is the server copy's
+// updatedAt when the two were last in step; `updatedAt` is the local edit time.
+export interface SyncedItem {
+  id: string;
+  remoteId?: string;
+  syncedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+interface ServerRecord {
+  _id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A local item and its server copy, both edited since they were last synced
+export interface SyncConflict {
+  kind: SyncKind;
+  title: string;
+  local: SyncedItem;
+  server: ServerRecord;
+}
+
+// Keep this device's copy, the server's, or both as separate items
+export type ConflictChoice = 'local' | 'server' | 'both';
+
+export type ConflictHandler = (conflicts: SyncConflict[]) => Promise<ConflictChoice[]>;
+
+export interface SyncSummary {
+  uploaded: number;
+  downloaded: number;
+  conflicts: number;
+}
+
+interface QueueEntry {
+  kind: SyncKind;
+  localId: string;
+  op: 'save' | 'delete';
+  // Server copy to delete; the local item is already gone
+  remoteId?: string;
+  queuedAt: string;
+}
+
+// An entry of the `saved_queries` library
+interface LocalQuery extends SyncedItem {
+  title?: string;
+  name?: string;
+  description?: string;
+  query: string;
+  parameters?: QueryParameter[];
+  network?: NetworkSelection;
+  isPublic?: boolean;
+  revision?: number;
+  [key: string]: unknown;
+}
+
+// How one kind of local item maps to its backend resource
+interface SyncAdapter<Item extends SyncedItem, Remote extends ServerRecord, Input> {
+  list(): Item[];
+  put(item: Item): void;
+  remove(id: string): void;
+  title(item: Item): string;
+  toInput(item: Item): Input;
+  // The local form of a server copy, keeping `base`'s id and local-only fields
+  fromRecord(record: Remote, base?: Item): Item;
+  // Same content, so the two can be linked without asking
+  matches(item: Item, record: Remote): boolean;
+  // Bookkeeping after `item` was saved as `record`
+  link(item: Item, record: Remote): Item;
+  fetchAll(): Promise<Remote[]>;
+  create(input: Input): Promise<Remote>;
+  update(remoteId: string, input: Input & { baseUpdatedAt?: string }): Promise<Remote>;
+  destroy(remoteId: string): Promise<unknown>;
+}
+
+const QUEUE_KEY = 'sync_queue';
+const QUERIES_KEY = 'saved_queries';
+const FLUSH_DELAY_MS = 1000;
+
+const notify = (key: string) => window.dispatchEvent(new CustomEvent(LOCAL_STORAGE_EVENT, { detail: key }));
+
+// JSON with object keys sorted, for comparing local and server content
+const canonical = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+    : v
+);
+
+const readQueries = (): LocalQuery[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUERIES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeQueries = (queries: LocalQuery[]) => {
+  localStorage.setItem(QUERIES_KEY, JSON.stringify(queries));
+  notify(QUERIES_KEY);
+};
+
+const queryTitle = (query: LocalQuery) =>
+  (query.name || query.title || query.query.split('\n')[0] || 'Untitled query').slice(0, 200);
+
+const QUERY_ADAPTER: SyncAdapter<LocalQuery, SavedQueryRecord, SavedQueryInput> = {
+  list: readQueries,
+  put: (query) => {
+    const queries = readQueries();
+    const index = queries.findIndex(q => q.id === query.id);
+    writeQueries(index >= 0 ? queries.map((q, i) => i === index ? query : q) : [query, ...queries]);
+  },
+  remove: (id) => writeQueries(readQueries().filter(q => q.id !== id)),
+  title: queryTitle,
+  toInput: (query) => ({
+    title: queryTitle(query),
+    description: query.description || undefined,
+    sql: query.query,
+    parameters: query.parameters || [],
+    network: query.network?.network,
+    rpcUrl: query.network?.rpcUrl,
+    isPublic: Boolean(query.isPublic),
+  }),
+  fromRecord: (record, base) => ({
+    ...base,
+    id: base?.id ?? `query-${record._id}`,
+    title: record.title,
+    name: record.title,
+    description: record.description,
+    query: record.sql,
+    parameters: record.parameters,
+    network: record.network ? { network: record.network, rpcUrl: record.rpcUrl } : base?.network,
+    isPublic: record.isPublic,
+    revision: record.revision,
+    createdAt: base?.createdAt ?? record.createdAt,
+    updatedAt: record.updatedAt,
+    remoteId: record._id,
+    syncedAt: record.updatedAt,
+  }),
+  matches: (query, record) => queryTitle(query) === record.title && query.query.trim() === record.sql.trim(),
+  link: (query, record) => ({ ...query, remoteId: record._id, syncedAt: record.updatedAt, revision: record.revision }),
+  fetchAll: async () => (await apiClient.getSyncedQueries()).data.queries,
+  create: async (input) => (await apiClient.createSavedQuery(input)).data.query,
+  update: async (remoteId, input) => (await apiClient.updateSavedQuery(remoteId, input)).data.query,
+  destroy: (remoteId) => apiClient.deleteSavedQuery(remoteId),
+};
+
+// Builder widgets carry free-form fields and either {w, h} or {width, height}
+// positions; everything but id, type and title travels in `config`
+const toWidgetRecord = (widget: DashboardConfig['widgets'][number], index: number): DashboardWidgetRecord => {
+  const { id, type, title, position, ...rest } = widget;
+  const p = (position || {}) as Record<string, number>;
+  return {
+    id: String(id ?? `widget-${index}`),
+    type: type || 'chart',
+    title: title || type || 'Widget',
+    config: p.width !== undefined || p.height !== undefined ? { ...rest, position } : rest,
+    position: { x: p.x ?? 0, y: p.y ?? 0, w: p.w ?? p.width ?? 6, h: p.h ?? p.height ?? 4 },
+  };
+};
+
+const fromWidgetRecord = ({ id, type, title, position, config }: DashboardWidgetRecord) =>
+  ({ id, type, title, position: { x: position.x, y: position.y, w: position.w, h: position.h }, ...config });
+
+const DASHBOARD_ADAPTER: SyncAdapter<DashboardConfig, SavedDashboardRecord, SavedDashboardInput> = {
+  list: () => DashboardService.getSavedDashboards(),
+  put: (dashboard) => DashboardService.storeDashboard(dashboard),
+  remove: (id) => DashboardService.removeDashboard(id),
+  title: (dashboard) => dashboard.name.slice(0, 200),
+  toInput: (dashboard) => ({
+    title: dashboard.name.slice(0, 200),
+    description: dashboard.description || undefined,
+    widgets: dashboard.widgets.map(toWidgetRecord),
+    layout: dashboard.layout,
+    network: dashboard.network?.network,
+    rpcUrl: dashboard.network?.rpcUrl,
+    isPublic: Boolean(dashboard.isPublic || dashboard.isPublished),
+  }),
+  fromRecord: (record, base) => ({
+    ...base,
+    id: base?.id ?? record._id,
+    name: record.title,
+    description: record.description,
+    widgets: record.widgets.map(fromWidgetRecord),
+    layout: record.layout as DashboardConfig['layout'],
+    network: record.network ? { network: record.network, rpcUrl: record.rpcUrl } : base?.network,
+    isPublic: record.isPublic,
+    isPublished: record.isPublic,
+    slug: record.slug,
+    userId: base?.userId ?? (typeof record.createdBy === 'string' ? record.createdBy : record.createdBy._id),
+    createdAt: base?.createdAt ?? record.createdAt,
+    updatedAt: record.updatedAt,
+    remoteId: record._id,
+    syncedAt: record.updatedAt,
+  }),
+  matches: (dashboard, record) =>
+    dashboard.name.slice(0, 200) === record.title &&
+    canonical(dashboard.widgets.map(toWidgetRecord)) ===
+      canonical(record.widgets.map(({ id, type, title, config, position }) =>
+        ({ id, type, title, config: config || {}, position: { x: position.x, y: position.y, w: position.w, h: position.h } }))),
+  link: (dashboard, record) => ({ ...dashboard, remoteId: record._id, syncedAt: record.updatedAt, slug: record.slug }),
+  fetchAll: async () => (await apiClient.getSyncedDashboards()).data.dashboards,
+  create: async (input) => (await apiClient.createDashboard(input)).data.dashboard,
+  update: async (remoteId, input) => (await apiClient.updateDashboard(remoteId, input)).data.dashboard,
+  destroy: (remoteId) => apiClient.deleteDashboard(remoteId),
+};
+
+const ADAPTERS = {
+  query: QUERY_ADAPTER,
+  dashboard: DASHBOARD_ADAPTER,
+} as unknown as Record<SyncKind, SyncAdapter<SyncedItem, ServerRecord, object>>;
+
+// Offline, signed out or the backend is struggling: keep the change queued
+const isRetryable = (error: unknown) =>
+  !(error instanceof ApiError) || error.status === 401 || error.status === 429 || error.status >= 500;
+
+// Keeps the local query library and dashboards in step with the backend,
+// which is the source of truth once the user signs in. Local writes are
+// queued (in localStorage, so they survive reloads and offline periods) and
+// pushed when online; edits made on two devices are handed to the conflict
+// handler.
+export class SyncService {
+  private static conflictHandler: ConflictHandler | null = null;
+  private static flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private static flushing: Promise<void> | null = null;
+  private static reconciling: Promise<SyncSummary> | null = null;
+
+  static setConflictHandler(handler: ConflictHandler | null): void {
+    this.conflictHandler = handler;
+  }
+
+  // Queue the local item for upload, replacing any earlier queued change
+  static enqueue(kind: SyncKind, localId: string): void {
+    this.writeQueue([
+      ...this.readQueue().filter(entry => !(entry.kind === kind && entry.localId === localId)),
+      { kind, localId, op: 'save', queuedAt: new Date().toISOString() },
+    ]);
+    this.scheduleFlush();
+  }
+
+  // Queue the deletion of a local item's server copy, if it has one
+  static enqueueDelete(kind: SyncKind, item: SyncedItem): void {
+    const queue = this.readQueue().filter(entry => !(entry.kind === kind && entry.localId === item.id));
+    if (item.remoteId) {
+      queue.push({ kind, localId: item.id, op: 'delete', remoteId: item.remoteId, queuedAt: new Date().toISOString() });
+    }
+    this.writeQueue(queue);
+    this.scheduleFlush();
+  }
+
+  static pendingChanges(): number {
+    return this.readQueue().length;
+  }
+
+  // A copy of the item under a new id that is not linked to any server copy
+  static detach<T extends SyncedItem>(item: T, id: string): T {
+    return { ...item, id, remoteId: undefined, syncedAt: undefined };
+  }
+
+  // Push queued changes, one at a time, in order. Stops at the first change
+  // that fails for a retryable reason so later edits never overtake it.
+  static flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (!this.canSync()) return Promise.resolve();
+
+    this.flushing = this.pushQueue().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  // Merge this device's library with the server's, e.g. after signing in:
+  // upload local-only items (linking exact duplicates instead), take server
+  // changes, ask about items edited on both sides, then push the queue
+  static reconcile(): Promise<SyncSummary> {
+    if (this.reconciling) return this.reconciling;
+
+    this.reconciling = (async () => {
+      const summary: SyncSummary = { uploaded: 0, downloaded: 0, conflicts: 0 };
+      if (!this.canSync()) return summary;
+
+      const conflicts: SyncConflict[] = [];
+      for (const kind of Object.keys(ADAPTERS) as SyncKind[]) {
+        await this.reconcileKind(kind, summary, conflicts);
+      }
+      summary.conflicts = conflicts.length;
+      await this.resolveConflicts(conflicts);
+      await this.flush();
+      return summary;
+    })().finally(() => {
+      this.reconciling = null;
+    });
+    return this.reconciling;
+  }
+
+  private static async reconcileKind(kind: SyncKind, summary: SyncSummary, conflicts: SyncConflict[]) {
+    const adapter = ADAPTERS[kind];
+    const records = await adapter.fetchAll();
+    const byId = new Map(records.map(record => [record._id, record]));
+    const queue = this.readQueue().filter(entry => entry.kind === kind);
+    const hasPendingSave = (id: string) => queue.some(entry => entry.localId === id && entry.op === 'save');
+    const claimed = new Set(queue.filter(entry => entry.op === 'delete').map(entry => entry.remoteId));
+    const items = adapter.list();
+
+    // Items synced before: take server changes, or flag edits on both sides
+    for (const item of items.filter(i => i.remoteId)) {
+      const record = byId.get(item.remoteId!);
+      if (!record) {
+        // Deleted on another device. A pending local edit re-creates it.
+        if (!hasPendingSave(item.id)) adapter.remove(item.id);
+        continue;
+      }
+      claimed.add(record._id);
+      if (record.updatedAt === item.syncedAt) continue;
+
+      if (!hasPendingSave(item.id)) {
+        adapter.put(adapter.fromRecord(record, item));
+        summary.downloaded++;
+      } else if (adapter.matches(item, record)) {
+        adapter.put(adapter.link(item, record));
+        this.dequeue(kind, item.id);
+      } else {
+        conflicts.push({ kind, title: adapter.title(item), local: item, server: record });
+      }
+    }
+
+    // Items never synced: link exact duplicates, ask about namesakes with
+    // different content, upload the rest
+    for (const item of items.filter(i => !i.remoteId)) {
+      const unclaimed = records.filter(record => !claimed.has(record._id));
+      const duplicate = unclaimed.find(record => adapter.matches(item, record));
+      const namesake = duplicate || unclaimed.find(record => record.title === adapter.title(item));
+
+      if (duplicate) {
+        claimed.add(duplicate._id);
+        adapter.put(adapter.link(item, duplicate));
+        this.dequeue(kind, item.id);
+      } else if (namesake) {
+        claimed.add(namesake._id);
+        conflicts.push({ kind, title: adapter.title(item), local: item, server: namesake });
+      } else if (!hasPendingSave(item.id)) {
+        this.enqueue(kind, item.id);
+        summary.uploaded++;
+      }
+    }
+
+    // Items created on other devices
+    for (const record of records) {
+      if (claimed.has(record._id)) continue;
+      adapter.put(adapter.fromRecord(record));
+      summary.downloaded++;
+    }
+  }
+
+  private static async pushQueue() {
+    const conflicts: SyncConflict[] = [];
+
+    for (const entry of this.readQueue()) {
+      if (!this.canSync()) break;
+      try {
+        const conflict = entry.op === 'delete' ? await this.pushDelete(entry) : await this.pushSave(entry);
+        if (conflict) {
+          conflicts.push(conflict);
+          continue;
+        }
+        this.dequeue(entry.kind, entry.localId, entry.queuedAt);
+      } catch (error) {
+        if (isRetryable(error)) break;
+        console.error(`Dropping ${entry.kind} ${entry.op} that the server rejected:`, error);
+        this.dequeue(entry.kind, entry.localId, entry.queuedAt);
+      }
+    }
+
+    await this.resolveConflicts(conflicts);
+  }
+
+  private static async pushSave(entry: QueueEntry): Promise<SyncConflict | null> {
+    const adapter = ADAPTERS[entry.kind];
+    const item = adapter.list().find(i => i.id === entry.localId);
+    if (!item) return null;
+
+    const input = adapter.toInput(item);
+    let record: ServerRecord;
+    if (item.remoteId) {
+      try {
+        record = await adapter.update(item.remoteId, { ...input, baseUpdatedAt: item.syncedAt });
+      } catch (error) {
+        if (error instanceof ApiError && error.status === 409) {
+          const server = (error.data as Record<SyncKind, ServerRecord>)[entry.kind];
+          return { kind: entry.kind, title: adapter.title(item), local: item, server };
+        }
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+        // Deleted on another device since; the local edit brings it back
+        record = await adapter.create(input);
+      }
+    } else {
+      record = await adapter.create(input);
+    }
+
+    // Re-read: the item may have been edited while the request was in flight
+    const current = adapter.list().find(i => i.id === entry.localId);
+    if (current) adapter.put(adapter.link(current, record));
+    return null;
+  }
+
+  private static async pushDelete(entry: QueueEntry): Promise<null> {
+    try {
+      await ADAPTERS[entry.kind].destroy(entry.remoteId!);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) throw error;
+    }
+    return null;
+  }
+
+  private static async resolveConflicts(conflicts: SyncConflict[]) {
+    // Without a handler the changes stay queued and are flagged again later
+    if (conflicts.length === 0 || !this.conflictHandler) return;
+
+    const choices = await this.conflictHandler(conflicts);
+    conflicts.forEach((conflict, index) => this.applyChoice(conflict, choices[index] ?? 'server'));
+  }
+
+  private static applyChoice({ kind, local, server }: SyncConflict, choice: ConflictChoice) {
+    const adapter = ADAPTERS[kind];
+    const item = adapter.list().find(i => i.id === local.id) || local;
+
+    if (choice === 'local') {
+      // Based on the server's copy now, so the next push overwrites it
+      adapter.put({ ...item, remoteId: server._id, syncedAt: server.updatedAt });
+      this.enqueue(kind, item.id);
+      return;
+    }
+
+    this.dequeue(kind, item.id);
+    adapter.put(adapter.fromRecord(server, item));
+    if (choice === 'both') {
+      const copy = this.detach(item, `${item.id}-${Date.now()}`);
+      adapter.put(copy);
+      this.enqueue(kind, copy.id);
+    }
+  }
+
+  private static canSync(): boolean {
+    return navigator.onLine && Boolean(localStorage.getItem('auth_token'));
+  }
+
+  private static scheduleFlush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(error => console.error('Sync failed:', error));
+    }, FLUSH_DELAY_MS);
+  }
+
+  private static readQueue(): QueueEntry[] {
+    try {
+      return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private static writeQueue(queue: QueueEntry[]) {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+
+  // Drop the item's queued change; with `queuedAt`, only if it was not
+  // replaced by a newer one meanwhile
+  private static dequeue(kind: SyncKind, localId: string, queuedAt?: string) {
+    this.writeQueue(this.readQueue().filter(entry =>
+      !(entry.kind === kind && entry.localId === localId && (!queuedAt || entry.queuedAt === queuedAt))
+    ));
+  }
+}
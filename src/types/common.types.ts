@@ -38,6 +38,471 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   limit: number;
 }
 
+export type QueryRow = Record<string, unknown>;
+
+export type QueryParameterType = 'address' | 'integer' | 'date' | 'enum';
+
+// A typed {{placeholder}} declared by a query
+export interface QueryParameter {
+  name: string;
+  type: QueryParameterType;
+  label?: string;
+  options?: string[];
+  defaultValue?: string;
+}
+
+export type QueryParameterValues = Record<string, string>;
+
+// Chain a query or page reads; the custom network comes with its own RPC URL
+export type NetworkId = 'mainnet' | 'sepolia' | 'custom';
+
+// Network a query result was read from
+export interface QueryNetworkInfo {
+  id: NetworkId;
+  name: string;
+  chainId: string | null;
+}
+
+export interface QueryExecutionResult {
+  executionId?: string;
+  results: QueryRow[];
+  columns: string[];
+  // Declared type of each column (felt, integer, timestamp...), null when computed
+  columnTypes?: (string | null)[];
+  count: number;
+  query: string;
+  stats: {
+    rowsScanned: number;
+    rpcCalls: number;
+  };
+  cache: QueryCacheInfo;
+  network?: QueryNetworkInfo;
+  // Only set for EXPLAIN
+  plan?: QueryPlan;
+}
+
+// EXPLAIN output: how each table is read and what it costs in RPC calls
+export interface QueryPlanStep {
+  table: string;
+  qualifier: string;
+  join: 'INNER' | 'LEFT' | null;
+  access: string;
+  calls: { method: string; estimated: number; max: number; note?: string }[];
+  notes: string[];
+}
+
+export interface QueryPlan {
+  steps: QueryPlanStep[];
+  estimatedCalls: number;
+  maxCalls: number;
+  // Calls made while planning (chain head, timestamp lookups)
+  planningCalls: number;
+  cache: QueryCacheInfo & { cacheable: boolean };
+}
+
+export interface QueryExecutionRequest {
+  sql: string;
+  limit?: number;
+  parameters?: QueryParameter[];
+  parameterValues?: QueryParameterValues;
+  useCache?: boolean;
+  timeoutMs?: number;
+  // Defaults to mainnet; rpcUrl is required for the custom network
+  network?: NetworkId;
+  rpcUrl?: string;
+  // Notebook cells above this one; the SQL may select from them by name
+  cells?: NotebookSqlCell[];
+  // Saved query being run; counts towards its popularity in the gallery
+  queryId?: string;
+}
+
+export type ResultExportFormat = 'csv' | 'ndjson' | 'xlsx' | 'parquet';
+
+// Runs the query again on the server and downloads the whole result, not
+// just the page on screen. `filename` is without extension.
+export interface QueryExportRequest extends QueryExecutionRequest {
+  format: ResultExportFormat;
+  filename?: string;
+}
+
+export interface QueryExportFile {
+  blob: Blob;
+  filename: string;
+  rowCount: number;
+}
+
+export type QueryExecutionStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed_out';
+
+export interface QueryExecutionProgress {
+  unit: 'blocks' | 'events';
+  done: number;
+  total: number | null;
+  pages?: number;
+}
+
+// A server-side query execution, as reported by the job endpoints and the
+// WebSocket progress events
+export interface QueryExecutionJob {
+  executionId: string;
+  status: QueryExecutionStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  timeoutMs: number;
+  progress: QueryExecutionProgress | null;
+  error: { message: string; statusCode: number; position: QueryErrorPosition | null } | null;
+}
+
+export interface QueryErrorPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+// How a query result relates to the backend result cache
+export interface QueryCacheInfo {
+  hit: boolean;
+  headBlock: number | null;
+  blockRange: { from: number; to: number } | null;
+  final: boolean;
+  cachedAt: string | null;
+}
+
+// Schema registry: what the query engine can select from
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+export interface SchemaTable {
+  name: string;
+  // functions are table functions used as FROM storage(...)
+  kind: 'table' | 'view' | 'function';
+  // chain tables read Starknet RPC, app tables Starklytics data
+  source: 'chain' | 'app' | 'view';
+  // usage of a table function, e.g. storage(contract, key [, block])
+  signature?: string;
+  description: string;
+  columns: SchemaColumn[];
+}
+
+export interface SchemaFunction {
+  name: string;
+  kind: 'scalar' | 'aggregate' | 'window';
+  signature: string;
+  description: string;
+}
+
+export interface QuerySchema {
+  tables: SchemaTable[];
+  functions: SchemaFunction[];
+  keywords: string[];
+}
+
+export interface QueryAuthor {
+  _id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// A query saved to the backend
+export interface SavedQueryRecord {
+  _id: string;
+  title: string;
+  description?: string;
+  sql: string;
+  isPublic: boolean;
+  tags: string[];
+  parameters: QueryParameter[];
+  network?: NetworkId;
+  rpcUrl?: string;
+  revision: number;
+  forkedFrom: { _id: string; title: string } | null;
+  forkCount: number;
+  schedule: QuerySchedule | null;
+  executionCount: number;
+  lastExecuted?: string;
+  createdBy: QueryAuthor;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Cron-style refresh schedule of a saved query, evaluated in UTC
+export interface QuerySchedule {
+  cron: string;
+  enabled: boolean;
+  parameterValues: QueryParameterValues;
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  lastStatus?: QueryExecutionStatus;
+  lastError?: string | null;
+}
+
+export interface QueryScheduleInput {
+  cron: string;
+  enabled?: boolean;
+  parameterValues?: QueryParameterValues;
+}
+
+// Stored result set of one scheduled or manual run of a saved query
+export interface QuerySnapshot {
+  _id: string;
+  query: string;
+  revision?: number;
+  trigger: 'schedule' | 'manual';
+  status: Exclude<QueryExecutionStatus, 'running'>;
+  columns: string[];
+  rows?: QueryRow[];
+  rowCount: number;
+  truncated: boolean;
+  stats?: { rowsScanned: number; rpcCalls: number };
+  headBlock?: number | null;
+  error?: string;
+  durationMs: number;
+  ranAt: string;
+}
+
+export interface ViewRefreshPolicy {
+  mode: 'manual' | 'schedule';
+  cron?: string;
+}
+
+// A saved query published as a dataset other queries can select from
+export interface QueryView {
+  _id: string;
+  name: string;
+  namespace: string;
+  description?: string;
+  query: string;
+  createdBy: QueryAuthor;
+  isPublic: boolean;
+  refresh: ViewRefreshPolicy;
+  materialized: boolean;
+  columns: SchemaColumn[];
+  rowCount: number;
+  truncated: boolean;
+  refreshedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PublishViewInput {
+  queryId: string;
+  name: string;
+  description?: string;
+  isPublic?: boolean;
+  refresh?: ViewRefreshPolicy;
+}
+
+// Key for running saved queries over REST (GET /queries/:id/results). The
+// secret itself is only returned when the key is created.
+export interface ApiKeyRecord {
+  _id: string;
+  name: string;
+  preview: string;
+  requestsPerMinute: number;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  requestsPerMinute?: number;
+}
+
+export type QueryGallerySort = 'popular' | 'recent';
+
+export interface QueryGalleryFilters {
+  q?: string;
+  tags?: string[];
+  sort?: QueryGallerySort;
+  page?: number;
+  limit?: number;
+}
+
+export interface SavedQueryInput {
+  title: string;
+  description?: string;
+  sql: string;
+  isPublic?: boolean;
+  tags?: string[];
+  parameters?: QueryParameter[];
+  network?: NetworkId;
+  rpcUrl?: string;
+  note?: string;
+  // updatedAt of the copy being edited; the backend answers 409 with its own
+  // copy when that one is newer
+  baseUpdatedAt?: string;
+}
+
+export interface DashboardWidgetRecord {
+  id: string;
+  type: string;
+  title: string;
+  config?: Record<string, unknown>;
+  position: { x: number; y: number; w: number; h: number };
+}
+
+// A dashboard saved to the backend
+export interface SavedDashboardRecord {
+  _id: string;
+  title: string;
+  description?: string;
+  slug: string;
+  widgets: DashboardWidgetRecord[];
+  layout?: unknown;
+  network?: NetworkId;
+  rpcUrl?: string;
+  isPublic: boolean;
+  views: number;
+  tags: string[];
+  // Populated by the single-dashboard endpoints, an id elsewhere
+  createdBy: QueryAuthor | string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedDashboardInput {
+  title: string;
+  description?: string;
+  widgets?: DashboardWidgetRecord[];
+  layout?: unknown;
+  network?: NetworkId;
+  rpcUrl?: string;
+  isPublic?: boolean;
+  tags?: string[];
+  baseUpdatedAt?: string;
+}
+
+// One saved version of a query
+export interface QueryRevision {
+  _id: string;
+  revision: number;
+  title: string;
+  description?: string;
+  sql: string;
+  parameters: QueryParameter[];
+  network?: NetworkId;
+  rpcUrl?: string;
+  author: QueryAuthor | null;
+  note?: string;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+// SQL notebooks: ordered SQL, markdown and chart cells. Each SQL cell is
+// named, and cells below it can select from its result by that name.
+export type NotebookCellType = 'sql' | 'markdown' | 'chart';
+
+export type NotebookChartType = 'bar' | 'line' | 'area' | 'pie';
+
+export interface NotebookChartConfig {
+  // Name of the SQL cell to plot
+  cell?: string;
+  chartType?: NotebookChartType;
+  xAxis?: string;
+  yAxis?: string[];
+}
+
+export interface NotebookCell {
+  id: string;
+  type: NotebookCellType;
+  // Required for SQL cells
+  name?: string;
+  source: string;
+  chart?: NotebookChartConfig | null;
+}
+
+export interface NotebookSqlCell {
+  name: string;
+  sql: string;
+}
+
+export interface NotebookRecord {
+  _id: string;
+  title: string;
+  description?: string;
+  // Left out of list endpoints
+  cells?: NotebookCell[];
+  createdBy: QueryAuthor | string;
+  isPublic: boolean;
+  tags: string[];
+  network?: NetworkId;
+  rpcUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotebookInput {
+  title?: string;
+  description?: string;
+  cells?: NotebookCell[];
+  isPublic?: boolean;
+  tags?: string[];
+  network?: NetworkId;
+  rpcUrl?: string;
+  baseUpdatedAt?: string;
+}
+
+// Chain index: blocks the backend indexer has stored in Mongo
+export interface ChainIndexStatus {
+  network: Exclude<NetworkId, 'custom'>;
+  enabled: boolean;
+  firstBlock: number | null;
+  lastBlock: number | null;
+  headBlock: number | null;
+  // Blocks the index is behind the head
+  lag: number | null;
+  backfillTo: number | null;
+  status: 'syncing' | 'following' | 'error' | null;
+  lastError: string | null;
+  updatedAt: string | null;
+}
+
+// Block range (and for activity, time range) an index read covered
+export interface ChainIndexCoverage {
+  fromBlock: number;
+  toBlock: number;
+  fromTimestamp?: number | null;
+  toTimestamp?: number | null;
+}
+
+export interface IndexedActivityBucket {
+  // Unix seconds
+  start: number;
+  transactions: number;
+  senders: number;
+  blocks: number;
+}
+
+export interface IndexedTransaction {
+  transaction_hash: string;
+  block_number: number;
+  block_timestamp: number;
+  transaction_index: number;
+  type: string;
+  sender_address: string | null;
+  contract_address: string | null;
+  class_hash: string | null;
+  calldata_length: number;
+  actual_fee: string | null;
+  fee_unit: 'WEI' | 'FRI' | null;
+  execution_status: string | null;
+  execution_resources: Record<string, unknown> | null;
+  events_count: number;
+}
+
+export interface IndexedEvent {
+  block_number: number;
+  block_hash: string;
+  event_index: number;
+  transaction_hash: string;
+  from_address: string;
+  keys: string[];
+  data: string[];
+}
+
 export type Theme = 'dark' | 'light';
 
 export interface ComponentProps {
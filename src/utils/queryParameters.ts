@@ -0,0 +1,67 @@
+import type { QueryParameter, QueryParameterType, QueryParameterValues } from '@/types/common.types';
+
+export const PARAMETER_TYPES: QueryParameterType[] = ['address', 'integer', 'date', 'enum'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Placeholder names in the order they first appear. Mirrors the backend
+// lexer, which also ignores placeholders inside comments and string literals.
+export const extractParameterNames = (sql: string): string[] => {
+  const code = sql
+    .replace(/--[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/'(?:[^']|'')*'/g, "''");
+
+  const names: string[] = [];
+  for (const match of code.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+// Best guess at a new placeholder's type from its name; the editor lets the
+// user change it
+export const inferParameterType = (name: string): QueryParameterType => {
+  const lower = name.toLowerCase();
+  if (lower.includes('address') || lower.endsWith('contract')) return 'address';
+  if (lower.includes('date') || lower.endsWith('_at')) return 'date';
+  return 'integer';
+};
+
+// Definitions for the placeholders currently in `sql`, keeping any existing
+// definition for a name that is still used
+export const syncParameters = (sql: string, existing: QueryParameter[]): QueryParameter[] =>
+  extractParameterNames(sql).map(name =>
+    existing.find(parameter => parameter.name === name) || { name, type: inferParameterType(name) }
+  );
+
+export const validateParameterValue = (parameter: QueryParameter, value: string | undefined): string | null => {
+  const text = (value ?? parameter.defaultValue ?? '').trim();
+  if (!text) return 'Value is required';
+
+  switch (parameter.type) {
+    case 'address':
+      return /^0x[0-9a-fA-F]{1,64}$/.test(text) ? null : 'Must be a 0x-prefixed hex address';
+    case 'integer':
+      return /^-?\d+$/.test(text) && Number.isSafeInteger(Number(text)) ? null : 'Must be a whole number';
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(Date.parse(text)) ? null : 'Must be a date (YYYY-MM-DD)';
+    case 'enum':
+      return parameter.options?.includes(text) ? null : `Must be one of: ${(parameter.options || []).join(', ') || 'no options defined'}`;
+    default:
+      return null;
+  }
+};
+
+// Errors keyed by parameter name; empty when every value is valid
+export const validateParameterValues = (
+  parameters: QueryParameter[],
+  values: QueryParameterValues
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  for (const parameter of parameters) {
+    const error = validateParameterValue(parameter, values[parameter.name]);
+    if (error) errors[parameter.name] = error;
+  }
+  return errors;
+};
@@ -0,0 +1,215 @@
+import type { QuerySchema, SchemaColumn, SchemaFunction, SchemaTable } from '@/types/common.types';
+
+export type CompletionKind = 'column' | 'table' | 'function' | 'keyword';
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  // Column type, function signature or table kind
+  detail?: string;
+  description?: string;
+  insertText: string;
+}
+
+export interface CompletionResult {
+  // Range of the text the chosen item replaces
+  from: number;
+  to: number;
+  items: CompletionItem[];
+}
+
+export interface HoverDoc {
+  title: string;
+  detail?: string;
+  description?: string;
+}
+
+const FUNCTION_KIND_LABELS: Record<SchemaFunction['kind'], string> = {
+  scalar: 'Function',
+  aggregate: 'Aggregate function',
+  window: 'Window function',
+};
+
+interface TableReference {
+  qualifier: string;
+  table: SchemaTable;
+}
+
+const MAX_COMPLETIONS = 50;
+const KIND_ORDER: CompletionKind[] = ['column', 'function', 'table', 'keyword'];
+
+// Words that can follow a table name and so are never its alias
+const CLAUSE_WORDS = new Set([
+  'WHERE', 'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'AS'
+]);
+
+// Blank out comments and string literals, keeping every offset in place, so
+// the patterns below only see SQL code
+const maskSql = (sql: string) =>
+  sql.replace(/--[^\n]*|\/\*[\s\S]*?(\*\/|$)|'(?:[^']|'')*('|$)/g, match => match.replace(/[^\n]/g, ' '));
+
+const findTable = (schema: QuerySchema, name: string) => {
+  const lower = name.toLowerCase();
+  return schema.tables.find(table => table.name === lower) ||
+    (lower.startsWith('starknet.')
+      ? schema.tables.find(table => table.kind === 'table' && table.name === lower.slice('starknet.'.length))
+      : undefined);
+};
+
+// Tables in FROM and JOIN clauses with the name each is referred to by
+export const tableReferences = (sql: string, schema: QuerySchema): TableReference[] => {
+  const references: TableReference[] = [];
+  // Table functions take arguments, e.g. FROM call('0x...', 'name') c
+  const pattern = /\b(?:FROM|JOIN)\s+([A-Za-z_][\w.]*)(?:\s*\([^)]*\))?(?:\s+(?:AS\s+)?([A-Za-z_]\w*))?/gi;
+
+  for (const match of maskSql(sql).matchAll(pattern)) {
+    const table = findTable(schema, match[1]);
+    if (!table) continue;
+    const alias = match[2] && !CLAUSE_WORDS.has(match[2].toUpperCase()) ? match[2] : null;
+    references.push({ qualifier: alias || match[1].split('.').pop()!, table });
+  }
+  return references;
+};
+
+const columnItem = (column: SchemaColumn, table: SchemaTable): CompletionItem => ({
+  label: column.name,
+  kind: 'column',
+  detail: `${column.type} · ${table.name}`,
+  description: column.description,
+  insertText: column.name,
+});
+
+const tableItem = (table: SchemaTable, label = table.name): CompletionItem => ({
+  label,
+  kind: 'table',
+  detail: table.kind === 'function' ? table.signature : table.kind === 'view' ? 'view' : `${table.source} table`,
+  description: table.description,
+  insertText: table.kind === 'function' ? `${label}(` : label,
+});
+
+// Suggestions for the word being typed at `cursor`. Returns null inside
+// comments and string literals, and when there is nothing to complete
+// unless `explicit` (the user asked for completions).
+export const completionsAt = (
+  sql: string,
+  cursor: number,
+  schema: QuerySchema,
+  explicit = false
+): CompletionResult | null => {
+  const before = maskSql(sql.slice(0, cursor));
+  // Masking changed the character before the cursor: it is in a comment or
+  // a string literal
+  if (cursor > 0 && before[cursor - 1] !== sql[cursor - 1]) return null;
+
+  const match = before.match(/(?:([A-Za-z_][\w]*)\.)?([A-Za-z_]\w*)?$/);
+  const qualifier = match?.[1] || null;
+  const prefix = match?.[2] || '';
+  if (!qualifier && !prefix && !explicit) return null;
+
+  const from = cursor - prefix.length;
+  const references = tableReferences(sql, schema);
+  let items: CompletionItem[] = [];
+
+  if (qualifier) {
+    const reference = references.find(ref => ref.qualifier.toLowerCase() === qualifier.toLowerCase());
+    if (reference) {
+      items = reference.table.columns.map(column => columnItem(column, reference.table));
+    } else {
+      // Namespace of a dotted table name, e.g. starknet.blocks or myteam.daily_fees
+      const namespace = qualifier.toLowerCase();
+      items = schema.tables.flatMap(table => {
+        if (namespace === 'starknet' && table.kind === 'table' && table.source === 'chain') return [tableItem(table)];
+        const [tableNamespace, name] = table.name.split('.');
+        return name && tableNamespace === namespace ? [tableItem(table, name)] : [];
+      });
+    }
+  } else {
+    const keywords = before.slice(0, from).toUpperCase().match(/\b[A-Z]+\b/g) || [];
+    const previous = [...keywords].reverse().find(word => schema.keywords.includes(word));
+
+    if (previous === 'FROM' || previous === 'JOIN') {
+      items = schema.tables.map(table => tableItem(table));
+    } else {
+      const seen = new Set<string>();
+      for (const reference of references) {
+        for (const column of reference.table.columns) {
+          if (seen.has(column.name)) continue;
+          seen.add(column.name);
+          items.push(columnItem(column, reference.table));
+        }
+      }
+      items.push(...schema.functions.map(fn => ({
+        label: fn.name,
+        kind: 'function' as const,
+        detail: fn.signature,
+        description: fn.description,
+        insertText: `${fn.name}(`,
+      })));
+      items.push(...schema.keywords.map(keyword => ({
+        label: keyword,
+        kind: 'keyword' as const,
+        insertText: keyword,
+      })));
+    }
+  }
+
+  const lowerPrefix = prefix.toLowerCase();
+  const filtered = items
+    .filter(item => item.label.toLowerCase().startsWith(lowerPrefix) && item.label.toLowerCase() !== lowerPrefix)
+    .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.label.localeCompare(b.label))
+    .slice(0, MAX_COMPLETIONS);
+
+  return filtered.length > 0 ? { from, to: cursor, items: filtered } : null;
+};
+
+// Documentation for the table, column or function under `index`
+export const describeAt = (sql: string, index: number, schema: QuerySchema): HoverDoc | null => {
+  const code = maskSql(sql);
+  if (!/[\w.]/.test(code[index] || '')) return null;
+
+  let start = index;
+  let end = index;
+  while (start > 0 && /[\w.]/.test(code[start - 1])) start--;
+  while (end < code.length && /[\w.]/.test(code[end])) end++;
+
+  const word = code.slice(start, end);
+  if (!/^[A-Za-z_]/.test(word)) return null;
+
+  const references = tableReferences(sql, schema);
+  const describeTable = (table: SchemaTable): HoverDoc => ({
+    title: table.signature || table.name,
+    detail: table.kind === 'function'
+      ? `Table function · ${table.columns.length} columns`
+      : table.kind === 'view' ? `Materialized view · ${table.columns.length} columns` : `${table.source === 'chain' ? 'Starknet' : 'Starklytics'} table · ${table.columns.length} columns`,
+    description: table.description,
+  });
+  const describeColumn = (column: SchemaColumn, table: SchemaTable): HoverDoc => ({
+    title: `${table.name}.${column.name}`,
+    detail: column.type,
+    description: column.description,
+  });
+
+  // Dotted names are either tables (starknet.blocks) or alias.column
+  const table = findTable(schema, word);
+  if (table) return describeTable(table);
+
+  const parts = word.split('.');
+  if (parts.length === 2) {
+    const reference = references.find(ref => ref.qualifier.toLowerCase() === parts[0].toLowerCase());
+    if (!reference) return null;
+    if (index < start + parts[0].length) return describeTable(reference.table);
+    const column = reference.table.columns.find(c => c.name === parts[1]);
+    return column ? describeColumn(column, reference.table) : null;
+  }
+
+  if (/^\s*\(/.test(code.slice(end))) {
+    const fn = schema.functions.find(f => f.name === word.toUpperCase());
+    return fn ? { title: fn.signature, detail: FUNCTION_KIND_LABELS[fn.kind], description: fn.description } : null;
+  }
+
+  for (const reference of references) {
+    const column = reference.table.columns.find(c => c.name === word);
+    if (column) return describeColumn(column, reference.table);
+  }
+  return null;
+};
@@ -0,0 +1,69 @@
+export type DiffRowKind = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+// One row of a side-by-side diff; a missing side is null
+export interface DiffRow {
+  kind: DiffRowKind;
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Longest-common-subsequence table over lines, filled from the end so the
+// walk below can go front to back
+const lcsTable = (a: string[], b: string[]): number[][] => {
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+};
+
+// Line diff of `before` against `after`, laid out side by side. Runs of removed
+// lines followed by added lines are paired up as 'changed' rows.
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const table = lcsTable(a, b);
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    const paired = Math.max(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      const left = removed[k] || null;
+      const right = added[k] || null;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: { number: i + 1, text: a[i] }, right: { number: j + 1, text: b[j] } });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && table[i + 1][j] >= table[i][j + 1])) {
+      removed.push({ number: i + 1, text: a[i] });
+      i++;
+    } else {
+      added.push({ number: j + 1, text: b[j] });
+      j++;
+    }
+  }
+  flush();
+
+  return rows;
+};